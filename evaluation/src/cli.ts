@@ -0,0 +1,73 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { compareRuns, findRegressions, formatReport, METRIC_LABELS } from './report';
+import { runEvaluation } from './run-evaluation';
+import { EvaluationConfig, EvaluationFixture } from './types';
+
+// Paths are relative to the repository root, where `npm run eval` runs
+const DEFAULT_OPTIONS: Record<string, string> = {
+    fixtures: 'evaluation/fixtures/books.json',
+    baseline: 'evaluation/configs/baseline.json',
+    candidate: 'evaluation/configs/candidate.json'
+};
+
+const USAGE = `Usage: npm run eval -- [--fixtures <file>] [--baseline <config>] [--candidate <config>]
+                       [--out <report.md>] [--json <runs.json>] [--max-drop <points>]
+
+--max-drop exits with status 1 when the candidate loses more than this many points on any metric.`;
+
+function parseOptions(args: string[]): Record<string, string> {
+    const options = { ...DEFAULT_OPTIONS };
+    for (let i = 0; i < args.length; i += 2) {
+        const name = args[i].replace(/^--/, '');
+        if (!args[i].startsWith('--') || !['fixtures', 'baseline', 'candidate', 'out', 'json', 'max-drop'].includes(name) || args[i + 1] === undefined) {
+            throw new Error(`Unexpected argument "${args[i]}"\n\n${USAGE}`);
+        }
+        options[name] = args[i + 1];
+    }
+    return options;
+}
+
+function readJson<T>(path: string): T {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+async function main(): Promise<number> {
+    const options = parseOptions(process.argv.slice(2));
+    const fixtures = readJson<EvaluationFixture[]>(options['fixtures']);
+    const baselineConfig = readJson<EvaluationConfig>(options['baseline']);
+    const candidateConfig = readJson<EvaluationConfig>(options['candidate']);
+
+    // One configuration after the other: local models rarely serve two clients well
+    const baseline = await runEvaluation(baselineConfig, fixtures);
+    const candidate = await runEvaluation(candidateConfig, fixtures);
+    const rows = compareRuns(baseline, candidate);
+    const report = formatReport(baseline, candidate, rows);
+
+    process.stdout.write(report);
+    if (options['out']) {
+        writeFileSync(options['out'], report);
+    }
+    if (options['json']) {
+        writeFileSync(options['json'], JSON.stringify({ baseline, candidate, comparison: rows }, null, 2));
+    }
+
+    if (options['max-drop'] !== undefined) {
+        const maxDrop = Number(options['max-drop']);
+        if (isNaN(maxDrop) || maxDrop < 0) {
+            throw new Error('--max-drop must be a number of points, 0 or more');
+        }
+        const regressions = findRegressions(rows, maxDrop);
+        if (regressions.length > 0) {
+            console.error(`Candidate regressed on ${regressions.map(row => METRIC_LABELS[row.metric]).join(', ')}`);
+            return 1;
+        }
+    }
+    return 0;
+}
+
+main()
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(2);
+    });
@@ -0,0 +1,61 @@
+import { SummaryLengthRange } from '../../src/app/core/interfaces/summary-preset.interface';
+import { LlmCompletionRequest } from '../../src/app/core/llm/llm-provider';
+import { splitSentences } from '../../src/app/core/confidence/confidence-signals';
+
+// Lengths in the preset instructions, short summary first
+const LENGTH_PATTERN = /(\d+)-(\d+) characters/g;
+
+// Fill a summary with whole sentences up to the range's maximum; a first sentence that is too long is cut at a word
+function fill(sentences: string[], range: SummaryLengthRange): string {
+    let text = '';
+    for (const sentence of sentences) {
+        const next = text ? `${text} ${sentence}` : sentence;
+        if (next.length > range.max) {
+            if (!text) {
+                text = sentence.substring(0, sentence.lastIndexOf(' ', range.max) > 0 ? sentence.lastIndexOf(' ', range.max) : range.max);
+            }
+            break;
+        }
+        text = next;
+    }
+    return text;
+}
+
+/**
+ * Deterministic stand-in for a model, for StubLlmProvider: the summaries are the leading sentences of the book
+ * description found in the prompt. It only sees what the prompt passes on, so a prompt that shortens the
+ * description scores lower offline. Answers are always in the description's language and never translated.
+ */
+export function extractiveResponse(request: LlmCompletionRequest): string {
+    // Repair and language follow-ups repeat the original prompt as the first user message
+    const prompt = request.messages.find(message => message.role === 'user')?.content || '';
+    const title = prompt.match(/(?:Title|Book): "([^"\n]+)"/)?.[1] || 'This book';
+    const authors = prompt.match(/(?:Author\(s\): | by )([^\n(]+)/)?.[1]?.trim() || 'its author';
+    const description = prompt.match(/Description: "([\s\S]*?)"\n/)?.[1] || '';
+
+    const ranges = [...prompt.matchAll(LENGTH_PATTERN)].map(match => ({ min: Number(match[1]), max: Number(match[2]) }));
+    const shortRange = ranges[0] || { min: 250, max: 300 };
+    const detailedRange = ranges[1] || { min: 800, max: 1000 };
+
+    const sentences = [`"${title}" by ${authors}.`, ...splitSentences(description)];
+    const keyPoints = [...splitSentences(description), `"${title}" is summarized from its catalogue description.`,
+        'Only statements from the description are repeated.', 'The book is not analyzed beyond its description.']
+        .filter(point => point.length >= 10 && point.length <= 300)
+        .slice(0, 3);
+
+    return JSON.stringify({
+        shortSummary: fill(sentences, shortRange),
+        detailedSummary: fill(sentences, detailedRange),
+        confidenceScore: 50,
+        reasoningFactors: ['Extractive offline responder'],
+        sourcesUsed: ['Book description'],
+        keyPoints,
+        themes: ['Catalogue description'],
+        targetAudience: 'Readers of the catalogue description.',
+        readingLevel: 'general',
+        electoralRelevance: {
+            level: 'none',
+            assessment: 'Not assessed by the extractive offline responder.'
+        }
+    });
+}
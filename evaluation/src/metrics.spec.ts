@@ -0,0 +1,58 @@
+import { mean, measureLengthCompliance, rougeL, rougeN } from './metrics';
+
+describe('rougeN', () => {
+    it('scores unigram overlap as an F1 percentage', () => {
+        expect(rougeN('the cat sat on the mat', 'the cat lay on the mat')).toBe(83);
+    });
+
+    it('scores bigram overlap', () => {
+        expect(rougeN('the cat sat on the mat', 'the cat lay on the mat', 2)).toBe(60);
+    });
+
+    it('clips repeated n-grams to their count in the reference', () => {
+        expect(rougeN('the the the', 'the cat')).toBe(40);
+    });
+
+    it('ignores case and punctuation', () => {
+        expect(rougeN('The Cat!', 'the cat')).toBe(100);
+    });
+
+    it('scores empty texts as 0', () => {
+        expect(rougeN('', 'the cat')).toBe(0);
+        expect(rougeN('the cat', '')).toBe(0);
+    });
+});
+
+describe('rougeL', () => {
+    it('scores the longest common word subsequence', () => {
+        expect(rougeL('the cat sat on the mat', 'the cat lay on the mat')).toBe(83);
+    });
+
+    it('takes word order into account', () => {
+        expect(rougeN('a b c d', 'd c b a')).toBe(100);
+        expect(rougeL('a b c d', 'd c b a')).toBe(25);
+    });
+
+    it('scores texts without words in common as 0', () => {
+        expect(rougeL('novela', 'roman')).toBe(0);
+    });
+});
+
+describe('measureLengthCompliance', () => {
+    it('reports the share of texts within their range, bounds included', () => {
+        const range = { min: 3, max: 5 };
+
+        expect(measureLengthCompliance([['abc', range], ['abcde', range], ['abcdef', range], ['ab', range]])).toBe(50);
+    });
+});
+
+describe('mean', () => {
+    it('averages the measured values to one decimal', () => {
+        expect(mean([1, 2, 2])).toBe(1.7);
+    });
+
+    it('skips values that were not measured', () => {
+        expect(mean([1, null, 2])).toBe(1.5);
+        expect(mean([null, null])).toBeNull();
+    });
+});
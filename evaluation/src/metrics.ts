@@ -0,0 +1,72 @@
+import { SummaryLengthRange } from '../../src/app/core/interfaces/summary-preset.interface';
+import { words } from '../../src/app/core/confidence/confidence-signals';
+
+// Overlap metrics in the style of ROUGE (Lin, 2004), on lowercased words without stemming or stop-word removal
+
+function f1(overlap: number, candidateLength: number, referenceLength: number): number {
+    if (overlap === 0 || candidateLength === 0 || referenceLength === 0) {
+        return 0;
+    }
+    const precision = overlap / candidateLength;
+    const recall = overlap / referenceLength;
+    return Math.round(2 * precision * recall / (precision + recall) * 100);
+}
+
+function ngrams(tokens: string[], n: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i + n <= tokens.length; i++) {
+        const gram = tokens.slice(i, i + n).join(' ');
+        counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * ROUGE-N F1 (0-100): clipped n-gram matches between candidate and reference
+ */
+export function rougeN(candidate: string, reference: string, n = 1): number {
+    const candidateGrams = ngrams(words(candidate), n);
+    const referenceGrams = ngrams(words(reference), n);
+
+    let overlap = 0;
+    candidateGrams.forEach((count, gram) => {
+        overlap += Math.min(count, referenceGrams.get(gram) || 0);
+    });
+    const total = (grams: Map<string, number>) => [...grams.values()].reduce((sum, count) => sum + count, 0);
+    return f1(overlap, total(candidateGrams), total(referenceGrams));
+}
+
+/**
+ * ROUGE-L F1 (0-100): longest common word subsequence
+ */
+export function rougeL(candidate: string, reference: string): number {
+    const a = words(candidate);
+    const b = words(reference);
+
+    // One row of the LCS table at a time
+    let previous = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const current = new Array<number>(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+        }
+        previous = current;
+    }
+    return f1(previous[b.length], a.length, b.length);
+}
+
+/**
+ * Share (0-100) of the texts whose length falls within their range
+ */
+export function measureLengthCompliance(texts: [string, SummaryLengthRange][]): number {
+    const compliant = texts.filter(([text, range]) => text.length >= range.min && text.length <= range.max).length;
+    return Math.round(compliant / texts.length * 100);
+}
+
+// Mean of the measured values, null when none were measured
+export function mean(values: (number | null)[]): number | null {
+    const measured = values.filter((value): value is number => value !== null);
+    return measured.length > 0
+        ? Math.round(measured.reduce((sum, value) => sum + value, 0) / measured.length * 10) / 10
+        : null;
+}
@@ -0,0 +1,84 @@
+import { EvaluationRun, MetricName } from './types';
+
+// Every metric is 0-100 and higher is better
+export const METRIC_LABELS: Record<MetricName, string> = {
+    jsonValidity: 'JSON validity',
+    firstAttemptValidity: 'Valid without repair',
+    lengthCompliance: 'Length compliance',
+    languagePurity: 'Language purity',
+    grounding: 'Grounding',
+    rouge1: 'ROUGE-1 F1',
+    rougeL: 'ROUGE-L F1'
+};
+
+export interface ComparisonRow {
+    metric: MetricName;
+    baseline: number | null;
+    candidate: number | null;
+    delta: number | null; // Candidate minus baseline, in points
+}
+
+export function compareRuns(baseline: EvaluationRun, candidate: EvaluationRun): ComparisonRow[] {
+    return (Object.keys(METRIC_LABELS) as MetricName[]).map(metric => {
+        const before = baseline.summary[metric];
+        const after = candidate.summary[metric];
+        return {
+            metric,
+            baseline: before,
+            candidate: after,
+            delta: before !== null && after !== null ? Math.round((after - before) * 10) / 10 : null
+        };
+    });
+}
+
+// Metrics the candidate lost more than `maxDrop` points on, or could not measure at all
+export function findRegressions(rows: ComparisonRow[], maxDrop: number): ComparisonRow[] {
+    return rows.filter(row => (row.delta !== null && row.delta < -maxDrop) || (row.baseline !== null && row.candidate === null));
+}
+
+function formatValue(value: number | null): string {
+    return value === null ? '—' : String(value);
+}
+
+function formatDelta(delta: number | null): string {
+    if (delta === null) return '—';
+    return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * Markdown report: the metric comparison, then ROUGE-L and grounding per fixture with any errors
+ */
+export function formatReport(baseline: EvaluationRun, candidate: EvaluationRun, rows: ComparisonRow[]): string {
+    const lines = [
+        '# Summary evaluation',
+        '',
+        `- Baseline: ${baseline.config.name} (${baseline.config.llm.provider}/${baseline.config.llm.model}, ${baseline.config.promptVersion}, preset ${baseline.config.preset})`,
+        `- Candidate: ${candidate.config.name} (${candidate.config.llm.provider}/${candidate.config.llm.model}, ${candidate.config.promptVersion}, preset ${candidate.config.preset})`,
+        `- Fixtures: ${baseline.results.length}`,
+        '',
+        '| Metric | Baseline | Candidate | Change |',
+        '| --- | ---: | ---: | ---: |',
+        ...rows.map(row => `| ${METRIC_LABELS[row.metric]} | ${formatValue(row.baseline)} | ${formatValue(row.candidate)} | ${formatDelta(row.delta)} |`),
+        '',
+        '## Per fixture',
+        '',
+        '| Fixture | ROUGE-L baseline | ROUGE-L candidate | Grounding baseline | Grounding candidate |',
+        '| --- | ---: | ---: | ---: | ---: |'
+    ];
+
+    baseline.results.forEach((before, index) => {
+        const after = candidate.results[index];
+        lines.push(`| ${before.fixtureId} | ${formatValue(before.metrics.rougeL)} | ${formatValue(after.metrics.rougeL)} | ` +
+            `${formatValue(before.metrics.grounding)} | ${formatValue(after.metrics.grounding)} |`);
+    });
+
+    const errors = [
+        ...baseline.results.filter(result => result.error).map(result => `- Baseline, ${result.fixtureId}: ${result.error}`),
+        ...candidate.results.filter(result => result.error).map(result => `- Candidate, ${result.fixtureId}: ${result.error}`)
+    ];
+    if (errors.length > 0) {
+        lines.push('', '## Errors', '', ...errors);
+    }
+
+    return lines.join('\n') + '\n';
+}
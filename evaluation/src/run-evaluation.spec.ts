@@ -0,0 +1,34 @@
+import fixtures from '../fixtures/books.json';
+import { runEvaluation } from './run-evaluation';
+import { EvaluationConfig, EvaluationFixture } from './types';
+
+// The baseline config: standard preset, prompt version 1, answered offline from the book description
+const CONFIG: EvaluationConfig = {
+    name: 'Offline',
+    promptVersion: 'book-summary@1',
+    preset: 'standard',
+    stubResponder: 'extractive',
+    llm: { provider: 'stub', model: 'stub-summarizer-1', temperature: 0, maxTokens: 1200 }
+};
+
+function fixture(id: string): EvaluationFixture {
+    return (fixtures as EvaluationFixture[]).find(candidate => candidate.id === id)!;
+}
+
+describe('runEvaluation', () => {
+    it('counts summaries outside the preset lengths as non-compliant', async () => {
+        // The description is too thin to fill the standard preset's 250-300 and 800-1000 characters
+        const run = await runEvaluation(CONFIG, [fixture('jekyll-and-hyde-thin-description')]);
+
+        expect(run.results[0].metrics.jsonValid).toBeTrue();
+        expect(run.results[0].metrics.lengthCompliance).toBe(0);
+        expect(run.summary.lengthCompliance).toBe(0);
+    });
+
+    it('counts summaries within the preset lengths as compliant', async () => {
+        // The blurb preset asks for 80-280 and 150-400 characters, which the description fills
+        const run = await runEvaluation({ ...CONFIG, preset: 'blurb' }, [fixture('pride-and-prejudice')]);
+
+        expect(run.results[0].metrics.lengthCompliance).toBe(100);
+    });
+});
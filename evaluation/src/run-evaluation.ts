@@ -0,0 +1,113 @@
+import OpenAI from 'openai';
+import { LlmCompletionRequest, LlmProvider } from '../../src/app/core/llm/llm-provider';
+import { createLlmProvider } from '../../src/app/core/llm/create-llm-provider';
+import { StubLlmProvider } from '../../src/app/core/llm/stub.provider';
+import { renderSummaryPrompt } from '../../src/app/core/llm/prompt-registry';
+import { SummaryValidationError, completeValidatedSummary } from '../../src/app/core/llm/summary-schema';
+import { enforceSummaryLanguage } from '../../src/app/core/llm/summary-language';
+import { getLanguageName } from '../../src/app/core/languages/language-registry';
+import { getBuiltInPreset } from '../../src/app/core/llm/summary-presets';
+import { analyzeGrounding } from '../../src/app/core/confidence/grounding-analyzer';
+import { extractiveResponse } from './extractive-responder';
+import { mean, measureLengthCompliance, rougeL, rougeN } from './metrics';
+import { EvaluationConfig, EvaluationFixture, EvaluationRun, FixtureMetrics, FixtureResult } from './types';
+
+const FAILED_METRICS: FixtureMetrics = {
+    jsonValid: false,
+    firstAttemptValid: false,
+    lengthCompliance: null,
+    languagePurity: null,
+    grounding: null,
+    rouge1: null,
+    rougeL: null
+};
+
+// Stub providers never touch the network; other providers reach whatever baseUrl the config names
+function createProvider(config: EvaluationConfig): LlmProvider {
+    if (config.llm.provider === 'stub') {
+        return new StubLlmProvider(config.stubResponder === 'fixed' ? undefined : extractiveResponse);
+    }
+    return createLlmProvider(config.llm, llmConfig => new OpenAI({
+        apiKey: process.env['OPENAI_API_KEY'] || 'not-required',
+        baseURL: llmConfig.baseUrl || undefined
+    }));
+}
+
+/**
+ * Run the summary pipeline the app and the Cloud Function share (prompt, schema validation with one repair turn,
+ * language enforcement) for one fixture and score the result
+ */
+async function evaluateFixture(config: EvaluationConfig, provider: LlmProvider, fixture: EvaluationFixture): Promise<FixtureResult> {
+    const preset = getBuiltInPreset(config.preset);
+    if (!preset) {
+        throw new Error(`Unknown preset "${config.preset}" in ${config.name}`);
+    }
+
+    const book = { ...fixture.book, targetLanguage: fixture.targetLanguage };
+    const prompt = renderSummaryPrompt(config.promptVersion, book, preset);
+    const complete = (llmRequest: LlmCompletionRequest) => provider.complete(llmRequest);
+    const llmRequest: LlmCompletionRequest = { messages: prompt.messages, jsonMode: true };
+
+    try {
+        const { result, languageCheck } = await enforceSummaryLanguage(
+            complete,
+            llmRequest,
+            await completeValidatedSummary(complete, llmRequest),
+            fixture.targetLanguage,
+            getLanguageName(fixture.targetLanguage)
+        );
+        const { shortSummary, detailedSummary } = result.payload;
+
+        return {
+            fixtureId: fixture.id,
+            metrics: {
+                jsonValid: true,
+                firstAttemptValid: result.validation.status === 'valid',
+                lengthCompliance: measureLengthCompliance([
+                    [shortSummary, preset.shortLength],
+                    [detailedSummary, preset.detailedLength]
+                ]),
+                languagePurity: languageCheck.purity,
+                grounding: analyzeGrounding(detailedSummary, fixture.book, fixture.targetLanguage).groundedShare,
+                rouge1: mean([rougeN(shortSummary, fixture.reference.short), rougeN(detailedSummary, fixture.reference.detailed)]),
+                rougeL: mean([rougeL(shortSummary, fixture.reference.short), rougeL(detailedSummary, fixture.reference.detailed)])
+            }
+        };
+
+    } catch (error) {
+        // Invalid answers are a result to report; anything else (network, configuration) is too
+        return {
+            fixtureId: fixture.id,
+            metrics: FAILED_METRICS,
+            error: error instanceof SummaryValidationError
+                ? `Invalid JSON after repair: ${error.validation.errors.join('; ')}`
+                : error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+/**
+ * Evaluate one configuration over every fixture, one request at a time
+ */
+export async function runEvaluation(config: EvaluationConfig, fixtures: EvaluationFixture[]): Promise<EvaluationRun> {
+    const provider = createProvider(config);
+    const results: FixtureResult[] = [];
+    for (const fixture of fixtures) {
+        results.push(await evaluateFixture(config, provider, fixture));
+    }
+
+    const share = (values: boolean[]) => Math.round(values.filter(Boolean).length / values.length * 1000) / 10;
+    return {
+        config,
+        results,
+        summary: {
+            jsonValidity: share(results.map(result => result.metrics.jsonValid)),
+            firstAttemptValidity: share(results.map(result => result.metrics.firstAttemptValid)),
+            lengthCompliance: mean(results.map(result => result.metrics.lengthCompliance)),
+            languagePurity: mean(results.map(result => result.metrics.languagePurity)),
+            grounding: mean(results.map(result => result.metrics.grounding)),
+            rouge1: mean(results.map(result => result.metrics.rouge1)),
+            rougeL: mean(results.map(result => result.metrics.rougeL))
+        }
+    };
+}
@@ -0,0 +1,51 @@
+import { BookMetadata } from '../../src/app/core/interfaces/book.interface';
+import { LlmConfig } from '../../src/app/core/llm/llm-provider';
+
+// A book with hand-written reference summaries in the target language
+export interface EvaluationFixture {
+    id: string;
+    book: BookMetadata;
+    targetLanguage: string;
+    reference: {
+        short: string;
+        detailed: string;
+    };
+}
+
+// 'extractive' answers from the book description in the prompt, so prompt changes show up offline;
+// 'fixed' is the stub provider's default answer. Ignored for other providers.
+export type StubResponder = 'extractive' | 'fixed';
+
+// One side of a comparison, read from evaluation/configs
+export interface EvaluationConfig {
+    name: string;
+    promptVersion: string; // Registered template key, see core/llm/prompt-registry
+    preset: string; // Built-in preset id
+    llm: LlmConfig;
+    stubResponder?: StubResponder;
+}
+
+// Scores are 0-100; null when the summary could not be produced or the metric does not apply
+export interface FixtureMetrics {
+    jsonValid: boolean; // Valid on the first answer or after the repair turn
+    firstAttemptValid: boolean;
+    lengthCompliance: number | null; // Share of the short and detailed summaries within the preset range, before trimming
+    languagePurity: number | null;
+    grounding: number | null; // Share of verifiable claims grounded in the book data
+    rouge1: number | null; // Unigram F1 against the references, mean of short and detailed
+    rougeL: number | null; // Longest common subsequence F1 against the references, mean of short and detailed
+}
+
+export interface FixtureResult {
+    fixtureId: string;
+    metrics: FixtureMetrics;
+    error?: string;
+}
+
+export type MetricName = Exclude<keyof FixtureMetrics, 'jsonValid' | 'firstAttemptValid'> | 'jsonValidity' | 'firstAttemptValidity';
+
+export interface EvaluationRun {
+    config: EvaluationConfig;
+    results: FixtureResult[];
+    summary: Record<MetricName, number | null>; // Means over the fixtures
+}
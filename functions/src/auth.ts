@@ -0,0 +1,28 @@
+import * as admin from "firebase-admin";
+import { Request } from "firebase-functions/v2/https";
+import { UserRole } from "../../src/app/core/interfaces/user.interface";
+import { resolveRole } from "../../src/app/core/utils/permissions";
+
+/**
+ * Verify the Firebase ID token sent as `Authorization: Bearer <token>`
+ */
+export async function verifyRequestUser(request: Request): Promise<admin.auth.DecodedIdToken | null> {
+    const authHeader = request.headers.authorization || "";
+    if (!authHeader.startsWith("Bearer ")) {
+        return null;
+    }
+
+    try {
+        return await admin.auth().verifyIdToken(authHeader.substring(7));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the user's role from `users/{uid}.role`; missing or unknown roles get the default role
+ */
+export async function getUserRole(uid: string): Promise<UserRole> {
+    const user = await admin.firestore().collection("users").doc(uid).get();
+    return resolveRole(user.data()?.role);
+}
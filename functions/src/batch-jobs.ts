@@ -0,0 +1,211 @@
+import * as admin from "firebase-admin";
+import { AIBookSummary, BookMetadata } from "./interfaces";
+import { assessConfidence } from "../../src/app/core/confidence/confidence-engine";
+import { createInitialReview } from "../../src/app/core/utils/review-workflow";
+import { createGeneratedVersion } from "../../src/app/core/utils/summary-versions";
+import { createSummaryVariant } from "../../src/app/core/utils/summary-variants";
+
+// An item is retried on transient errors (e.g. OpenAI rate limits) until it has been attempted this many times
+export const MAX_BATCH_ITEM_ATTEMPTS = 3;
+
+// Items left "running" for longer than this were abandoned by a crashed or timed out run
+const STALE_RUNNING_ITEM_MS = 10 * 60 * 1000;
+
+export interface ClaimedBatchItem {
+    jobId: string;
+    itemId: string;
+    userId: string;
+    targetLanguage: string;
+    isbn: string;
+    attempts: number;
+}
+
+function jobRef(jobId: string) {
+    return admin.firestore().collection("jobs").doc(jobId);
+}
+
+function itemRef(item: ClaimedBatchItem) {
+    return jobRef(item.jobId).collection("items").doc(item.itemId);
+}
+
+/**
+ * Mark up to `limit` pending items as running, oldest jobs first and in the order they were submitted
+ */
+export async function claimPendingBatchItems(limit: number): Promise<ClaimedBatchItem[]> {
+    const db = admin.firestore();
+    const jobsSnapshot = await db.collection("jobs")
+        .where("status", "in", ["pending", "running"])
+        .limit(20)
+        .get();
+
+    const jobs = jobsSnapshot.docs
+        .sort((a, b) => (a.data().createdAt?.toMillis() || 0) - (b.data().createdAt?.toMillis() || 0));
+
+    const claimed: ClaimedBatchItem[] = [];
+
+    for (const job of jobs) {
+        if (claimed.length >= limit) break;
+
+        const itemsSnapshot = await job.ref.collection("items").where("status", "in", ["pending", "running"]).get();
+        const pendingItems = itemsSnapshot.docs
+            .filter((item) => isClaimable(item.data()))
+            .sort((a, b) => a.data().position - b.data().position)
+            .slice(0, limit - claimed.length);
+
+        for (const item of pendingItems) {
+            const attempts = await db.runTransaction(async (transaction) => {
+                const current = await transaction.get(item.ref);
+                if (!isClaimable(current.data())) {
+                    return null;
+                }
+                const nextAttempts = (current.data()?.attempts || 0) + 1;
+                transaction.update(item.ref, {
+                    status: "running",
+                    attempts: nextAttempts,
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+                return nextAttempts;
+            });
+
+            if (attempts !== null) {
+                claimed.push({
+                    jobId: job.id,
+                    itemId: item.id,
+                    userId: job.data().userId,
+                    targetLanguage: job.data().targetLanguage,
+                    isbn: item.data().isbn,
+                    attempts,
+                });
+            }
+        }
+
+        if (job.data().status === "pending" && pendingItems.length > 0) {
+            await job.ref.update({
+                status: "running",
+                lastError: admin.firestore.FieldValue.delete(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        }
+    }
+
+    return claimed;
+}
+
+function isClaimable(item: admin.firestore.DocumentData | undefined): boolean {
+    if (item?.status === "pending") return true;
+    const updatedAt = item?.updatedAt?.toMillis() || 0;
+    return item?.status === "running" && Date.now() - updatedAt > STALE_RUNNING_ITEM_MS;
+}
+
+/**
+ * Put a running item back in the queue so a later run can retry it. Pass `refundAttempt` when the
+ * item itself did not fail, e.g. the monthly free tier limit was reached before it was processed.
+ */
+export async function releaseBatchItem(item: ClaimedBatchItem, reason: string, refundAttempt = false): Promise<void> {
+    await itemRef(item).update({
+        status: "pending",
+        error: reason,
+        ...(refundAttempt ? { attempts: admin.firestore.FieldValue.increment(-1) } : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await jobRef(item.jobId).update({
+        lastError: reason,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+}
+
+export async function completeBatchItem(item: ClaimedBatchItem, title: string, libraryItemId: string): Promise<void> {
+    await itemRef(item).update({
+        status: "done",
+        title,
+        libraryItemId,
+        error: admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await recordItemOutcome(item.jobId, "completed");
+}
+
+export async function failBatchItem(item: ClaimedBatchItem, error: string): Promise<void> {
+    await itemRef(item).update({
+        status: "failed",
+        error,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await recordItemOutcome(item.jobId, "failed");
+}
+
+async function recordItemOutcome(jobId: string, outcome: "completed" | "failed"): Promise<void> {
+    const ref = jobRef(jobId);
+    await admin.firestore().runTransaction(async (transaction) => {
+        const job = (await transaction.get(ref)).data();
+        if (!job) return;
+
+        const completed = job.completed + (outcome === "completed" ? 1 : 0);
+        const failed = job.failed + (outcome === "failed" ? 1 : 0);
+
+        transaction.update(ref, {
+            completed,
+            failed,
+            status: completed + failed >= job.total ? "done" : "running",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    });
+}
+
+/**
+ * Save a batch result with the same shape the client writes in BookService.saveToUserLibrary
+ */
+export async function saveBatchResultToLibrary(
+    item: ClaimedBatchItem,
+    bookData: BookMetadata,
+    aiSummary: AIBookSummary,
+    autoReviewThreshold: number
+): Promise<string> {
+    const db = admin.firestore();
+    const libraryRef = db.collection("libraries").doc();
+    const confidenceMetrics = buildConfidenceMetrics(bookData, aiSummary);
+
+    const summary = createSummaryVariant({
+        short: aiSummary.shortSummary,
+        detailed: aiSummary.detailedSummary,
+        language: aiSummary.language,
+        generatedAt: aiSummary.generatedAt,
+    }, aiSummary, confidenceMetrics);
+
+    await db.runTransaction(async (transaction) => {
+        transaction.set(libraryRef, {
+            bookData,
+            summaries: { [summary.language]: summary },
+            primaryLanguage: summary.language,
+            confidenceMetrics,
+            aiSummary,
+            userId: item.userId,
+            review: createInitialReview(confidenceMetrics.overallScore, autoReviewThreshold, new Date()),
+            batchJobId: item.jobId,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        transaction.set(libraryRef.collection("versions").doc(), {
+            ...createGeneratedVersion(summary, aiSummary, item.userId),
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        transaction.set(db.collection("users").doc(item.userId), {
+            libraryCount: admin.firestore.FieldValue.increment(1),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+    });
+
+    return libraryRef.id;
+}
+
+/**
+ * Confidence metrics for items saved without the client, using the shared confidence engine like BookService
+ */
+function buildConfidenceMetrics(bookData: BookMetadata, aiSummary: AIBookSummary) {
+    return assessConfidence({
+        book: bookData,
+        summary: aiSummary,
+        targetLanguage: aiSummary.language,
+        usesFallback: aiSummary.processingMethod === "fallback_template",
+    }).metrics;
+}
@@ -0,0 +1,33 @@
+import { environment } from "../../src/environments/environment";
+import { BookMetadata } from "./interfaces";
+import { MetadataHttpClient, lookupMetadata, rankProviders } from "../../src/app/core/metadata/metadata-lookup";
+import { GoogleBooksMetadataProvider } from "../../src/app/core/metadata/google-books.provider";
+import { OpenLibraryMetadataProvider } from "../../src/app/core/metadata/open-library.provider";
+import { LocalCatalogueMetadataProvider } from "../../src/app/core/metadata/local-catalogue.provider";
+
+async function get(url: string): Promise<Response> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Metadata request to ${url} failed with status ${response.status}`);
+    }
+    return response;
+}
+
+const fetchClient: MetadataHttpClient = {
+    getJson: async (url) => (await get(url)).json(),
+    getText: async (url) => (await get(url)).text(),
+};
+
+// Same providers and order as the app's MetadataProviderRegistryService, so batch items get the same metadata
+const providers = rankProviders([
+    new LocalCatalogueMetadataProvider(fetchClient, environment.metadataProviders.localCatalogueUrl),
+    new GoogleBooksMetadataProvider(fetchClient),
+    new OpenLibraryMetadataProvider(fetchClient),
+], environment.metadataProviders.order);
+
+/**
+ * Fetch book metadata on the server, used by batch jobs where no browser is involved
+ */
+export async function fetchBookMetadata(isbn: string): Promise<BookMetadata | null> {
+    return lookupMetadata(isbn, providers);
+}
@@ -0,0 +1,23 @@
+import * as admin from "firebase-admin";
+
+// Firestore rejects batches with more writes than this
+export const MAX_BATCH_WRITES = 500;
+
+/**
+ * Commit the writes in batches of at most MAX_BATCH_WRITES. Each batch is atomic, the whole list is not.
+ */
+export async function commitWrites(db: admin.firestore.Firestore, writes: ((batch: admin.firestore.WriteBatch) => void)[]): Promise<void> {
+    for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+        const batch = db.batch();
+        writes.slice(start, start + MAX_BATCH_WRITES).forEach((write) => write(batch));
+        await batch.commit();
+    }
+}
+
+/**
+ * Delete the documents in batches; returns how many were deleted
+ */
+export async function deleteDocuments(db: admin.firestore.Firestore, refs: admin.firestore.DocumentReference[]): Promise<number> {
+    await commitWrites(db, refs.map((ref) => (batch) => batch.delete(ref)));
+    return refs.length;
+}
@@ -1,38 +1,51 @@
 import { onRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentDeleted } from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
-import { defineSecret } from "firebase-functions/params";
+import { defineInt, defineSecret, defineString } from "firebase-functions/params";
 import corsLib from "cors";
 import OpenAI from "openai";
 import * as admin from "firebase-admin";
 import { environment } from "../../src/environments/environment";
+import { AIBookSummary, SummaryRequest, SummaryValidation } from "./interfaces";
+import { getCachedSummary, getSummaryCacheVersionHash, invalidateCachedSummaries, storeCachedSummary } from "./summary-cache";
+import { resolveSummaryPreset } from "./summary-presets";
+import { fetchBookMetadata } from "./book-metadata";
+import { getUserRole, verifyRequestUser } from "./auth";
+import { migrateSummaryVariants } from "./library-migration";
+import { SearchScopeError, searchLibrary } from "./library-search";
+import { deleteItemAnnotations } from "./library-cleanup";
+import { cleanupDeletedOrganization } from "./organization-cleanup";
+import { hasPermission } from "../../src/app/core/utils/permissions";
+import { QuotaStatus, admitSummary, getQuotaStatus } from "./quotas";
+import { JsonStringFieldStreamer, sendEvent, startEventStream } from "./streaming";
+import { LlmCompletion, LlmCompletionRequest, LlmConfig, LlmProvider, LlmProviderId } from "../../src/app/core/llm/llm-provider";
+import { createLlmProvider } from "../../src/app/core/llm/create-llm-provider";
+import { SummaryValidationError, completeValidatedSummary, toStructuredSummary } from "../../src/app/core/llm/summary-schema";
+import { enforceSummaryLanguage } from "../../src/app/core/llm/summary-language";
+import { getLanguageName } from "../../src/app/core/languages/language-registry";
+import { sampleSelfConsistency } from "../../src/app/core/llm/summary-consistency";
+import { getDefaultPreset, toPresetRef } from "../../src/app/core/llm/summary-presets";
+import { assignPromptVersion, parsePromptExperiment, renderSummaryPrompt } from "../../src/app/core/llm/prompt-registry";
+import { SummaryPreset } from "../../src/app/core/interfaces/summary-preset.interface";
+import { PromptAssignment } from "../../src/app/core/interfaces/prompt-template.interface";
+import { assessConfidence } from "../../src/app/core/confidence/confidence-engine";
+import { analyzeGrounding } from "../../src/app/core/confidence/grounding-analyzer";
+import {
+    ClaimedBatchItem,
+    MAX_BATCH_ITEM_ATTEMPTS,
+    claimPendingBatchItems,
+    completeBatchItem,
+    failBatchItem,
+    releaseBatchItem,
+    saveBatchResultToLibrary,
+} from "./batch-jobs";
 // Initialize Firebase Admin SDK for Firestore usage tracking
 if (!admin.apps.length) {
     admin.initializeApp();
 }
 const db = admin.firestore();
 
-// Helper to get client IP (from request headers)
-function getClientIp(req: any): string {
-    return req.headers["x-forwarded-for"]?.split(",")[0] || req.connection?.remoteAddress || "unknown";
-}
-
-// Rate limit: max 10 requests per IP per hour
-const MAX_REQUESTS_PER_HOUR = 10;
-async function isRateLimited(ip: string): Promise<boolean> {
-    const now = Date.now();
-    const hourStart = new Date(now - (now % (60 * 60 * 1000)));
-    const docRef = db.collection("rateLimits").doc(ip + "_" + hourStart.getTime());
-    const doc = await docRef.get();
-    if (doc.exists && doc.data()?.count >= MAX_REQUESTS_PER_HOUR) {
-        return true;
-    }
-    await docRef.set(
-        { count: (doc.data()?.count || 0) + 1, timestamp: hourStart },
-        { merge: true }
-    );
-    return false;
-}
-
 // Free tier: max 1000 global requests per month
 const MAX_GLOBAL_REQUESTS_PER_MONTH = 1000;
 async function isGlobalLimitReached(): Promise<boolean> {
@@ -59,104 +72,126 @@ const corsHandler = corsLib({
     ],
     methods: ['GET', 'POST', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
+    exposedHeaders: ['X-Quota-Plan', 'X-Quota-Remaining-Daily', 'X-Quota-Remaining-Monthly'],
     credentials: true
 });
 
+/**
+ * Report the caller's remaining summary quota in response headers
+ */
+function setQuotaHeaders(response: any, quota: QuotaStatus): void {
+    response.set("X-Quota-Plan", quota.plan);
+    response.set("X-Quota-Remaining-Daily", String(quota.daily.remaining));
+    response.set("X-Quota-Remaining-Monthly", String(quota.monthly.remaining));
+}
+
 // Define the OpenAI API key as a secret
 const openaiApiKey = defineSecret(environment.openai.apiKey);
 
-export interface SourceAttribution {
-    type: 'book_description' | 'publisher_info' | 'author_bio' | 'category_data' | 'review_excerpt' | 'metadata' | 'ai_knowledge' | 'fallback_template';
-    content: string;
-    reliability: number; // 0-100
-    relevance: number; // 0-100
-    length: number;
-    source: string;
-    weight: number; // How much this source contributed to the final summary
-}
+// Bearer token required to invalidate cached summaries
+const cacheAdminToken = defineSecret("CACHE_ADMIN_TOKEN");
 
-export interface DetailedConfidenceFactors {
-    dataQuality: {
-        score: number; // 0-100
-        factors: {
-            descriptionLength: number;
-            metadataCompleteness: number;
-            publisherReliability: number;
-            authorCredibility: number;
-        };
-    };
-    sourceReliability: {
-        score: number; // 0-100
-        factors: {
-            primarySourcesCount: number;
-            averageSourceReliability: number;
-            sourceConsistency: number;
-            verifiableInformation: number;
-        };
-    };
-    contentCoverage: {
-        score: number; // 0-100
-        factors: {
-            topicCoverage: number;
-            thematicDepth: number;
-            conceptualClarity: number;
-            structuralCompleteness: number;
-        };
-    };
-    aiProcessing: {
-        score: number; // 0-100
-        factors: {
-            languageConsistency: number;
-            translationQuality: number;
-            summarizationAccuracy: number;
-            responseCoherence: number;
-        };
-    };
-    crossValidation: {
-        score: number; // 0-100
-        factors: {
-            multiSourceVerification: number;
-            factualConsistency: number;
-            contextualRelevance: number;
-            logicalCoherence: number;
-        };
+// Bearer token required to run data migrations
+const migrationAdminToken = defineSecret("MIGRATION_ADMIN_TOKEN");
+
+// LLM used for summaries. Set per project with `LLM_*` params (functions/.env.<project>)
+const llmProvider = defineString("LLM_PROVIDER", { default: "openai" });
+const llmModel = defineString("LLM_MODEL", { default: "gpt-3.5-turbo" });
+const llmBaseUrl = defineString("LLM_BASE_URL", { default: "" });
+const llmTemperature = defineString("LLM_TEMPERATURE", { default: "0.3" });
+const llmMaxTokens = defineInt("LLM_MAX_TOKENS", { default: 500 });
+const llmConsistencySamples = defineInt("LLM_CONSISTENCY_SAMPLES", { default: 0 });
+// Comma-separated models clients may request instead of LLM_MODEL (mirrors environment.llm.alternativeModels)
+const llmAllowedModels = defineString("LLM_ALLOWED_MODELS", { default: "" });
+
+// Summaries saved with an overall confidence below this score start "in review" (mirrors environment.review)
+const reviewConfidenceThreshold = defineInt("REVIEW_CONFIDENCE_THRESHOLD", { default: 60 });
+
+// Traffic split between prompt versions, `<id>:<version>=<weight>,...` (mirrors environment.llm.promptExperiment)
+const promptExperiment = defineString("PROMPT_EXPERIMENT", { default: "" });
+
+/**
+ * Read the LLM settings. Params are only available at runtime, so this must not run at module load.
+ * `model` replaces LLM_MODEL; callers check it with isAllowedModel first.
+ */
+function getLlmConfig(model?: string): LlmConfig {
+    const temperature = parseFloat(llmTemperature.value());
+    return {
+        provider: llmProvider.value() as LlmProviderId,
+        model: model || llmModel.value(),
+        temperature: isNaN(temperature) ? 0.3 : temperature,
+        maxTokens: llmMaxTokens.value(),
+        consistencySamples: llmConsistencySamples.value(),
+        baseUrl: llmBaseUrl.value(),
     };
 }
 
-export interface AIBookSummary {
-    shortSummary: string; // 300 characters
-    detailedSummary: string; // 1000 characters
-    confidenceScore: number; // 0-100
-    reasoningFactors: string[];
-    sourcesUsed: string[];
-    sourceAttribution: SourceAttribution[];
-    detailedConfidenceFactors: DetailedConfidenceFactors;
-    language: string;
-    generatedAt: Date;
-    processingMethod: 'openai_api' | 'fallback_template';
-    translationApplied: boolean;
+/**
+ * Whether clients may request this model: the configured one or one listed in LLM_ALLOWED_MODELS
+ */
+function isAllowedModel(model: string): boolean {
+    const allowed = llmAllowedModels.value().split(",").map((entry) => entry.trim()).filter(Boolean);
+    return model === llmModel.value() || allowed.includes(model);
+}
+
+/**
+ * Prompt version for a book under the configured experiment. A malformed PROMPT_EXPERIMENT is logged
+ * and the default prompt is used.
+ */
+function getPromptAssignment(isbn: string): PromptAssignment {
+    try {
+        return assignPromptVersion(parsePromptExperiment(promptExperiment.value()), isbn);
+    } catch (error) {
+        logger.error("Invalid PROMPT_EXPERIMENT, using the default prompt:", error);
+        return assignPromptVersion(null, isbn);
+    }
+}
+
+/**
+ * Cache key component: changing the prompt version, preset, provider or any model setting starts a fresh cache
+ */
+function getSummaryCacheVersion(promptVersion: string, model?: string, preset: SummaryPreset = getDefaultPreset()): string {
+    const config = getLlmConfig(model);
+    return getSummaryCacheVersionHash({
+        promptVersion,
+        preset: {
+            id: preset.id,
+            shortLength: preset.shortLength,
+            detailedLength: preset.detailedLength,
+            structure: preset.structure,
+            tone: preset.tone,
+        },
+        provider: config.provider,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        baseUrl: config.baseUrl || "",
+    });
 }
 
-export interface SummaryRequest {
-    title: string;
-    authors: string[];
-    isbn: string;
-    description: string;
-    categories: string[];
-    publisher: string;
-    publishedDate: string;
-    pageCount: number;
-    language: string;
-    targetLanguage: string;
+/**
+ * Create the configured LLM provider. Returns null when the OpenAI provider has no API key.
+ */
+function getLlmProvider(model?: string): LlmProvider | null {
+    const config = getLlmConfig(model);
+    const apiKey = openaiApiKey.value();
+    if (config.provider === "openai" && !apiKey) {
+        return null;
+    }
+
+    return createLlmProvider(config, (llmConfig) => new OpenAI({
+        apiKey: apiKey || "not-required", // Self-hosted servers usually ignore the key
+        baseURL: llmConfig.baseUrl || undefined,
+    }));
 }
 
 /**
- * Call OpenAI API with retry logic for rate limits
+ * Call the LLM with retry logic for rate limits
  */
-async function callOpenAIWithRetry(openai: OpenAI, params: any, maxRetries = 3): Promise<any> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
+async function completeWithRetry(provider: LlmProvider, request: LlmCompletionRequest, maxRetries = 3): Promise<LlmCompletion> {
+    for (let attempt = 0; ; attempt++) {
         try {
-            return await openai.chat.completions.create(params);
+            return await provider.complete(request);
         } catch (error: any) {
             const isRateLimit = error.status === 429 || error.message?.includes('rate limit');
 
@@ -173,7 +208,7 @@ async function callOpenAIWithRetry(openai: OpenAI, params: any, maxRetries = 3):
 }
 
 /**
- * Cloud Function to generate book summaries using OpenAI
+ * Cloud Function to generate book summaries with the configured LLM provider
  */
 export const generateBookSummary = onRequest(
     {
@@ -184,16 +219,26 @@ export const generateBookSummary = onRequest(
     },
     async (request, response) => {
         return corsHandler(request, response, async () => {
-            // --- Rate limiting and free tier usage checks ---
-            const ip = getClientIp(request);
-            if (await isRateLimited(ip)) {
-                response.status(429).json({ success: false, error: "Rate limit exceeded. Please try again later." });
+            // Validate HTTP method
+            if (request.method !== "POST") {
+                response.status(405).json({ error: "Method not allowed" });
                 return;
             }
-            if (await isGlobalLimitReached()) {
-                response.status(503).json({ success: false, error: "Service temporarily unavailable: free tier usage limit reached." });
+
+            // Every request must carry a Firebase ID token; quotas are tracked per user
+            const user = await verifyRequestUser(request);
+            if (!user) {
+                response.status(401).json({ success: false, error: "Authentication required. Please sign in again." });
+                return;
+            }
+
+            // Readers and auditors can view saved summaries but not generate new ones
+            const role = await getUserRole(user.uid);
+            if (!hasPermission(role, "summaries:generate")) {
+                response.status(403).json({ success: false, error: "Your account can view summaries but not generate them." });
                 return;
             }
+
             // Validate request body first, outside try block
             const summaryRequest: SummaryRequest = request.body;
             if (!summaryRequest || !summaryRequest.title || !summaryRequest.isbn) {
@@ -202,185 +247,105 @@ export const generateBookSummary = onRequest(
                 });
                 return;
             }
+            if (summaryRequest.model && !isAllowedModel(summaryRequest.model)) {
+                response.status(400).json({ success: false, error: `Model ${summaryRequest.model} is not available.` });
+                return;
+            }
+            const preset = await resolveSummaryPreset(summaryRequest.preset);
+            if (!preset) {
+                response.status(400).json({ success: false, error: `Summary preset ${summaryRequest.preset} is not available.` });
+                return;
+            }
 
-            try {
-                logger.info("Book summary generation request received");
-
-                // Removed rate limiting for faster responses
-                // TODO: Implement proper distributed rate limiting if needed
+            // --- Streaming mode (SSE): clients opt in with `stream: true`, everyone else gets plain JSON ---
+            const stream = summaryRequest.stream === true;
+            let textStreamed = false;
 
-                // Validate HTTP method
-                if (request.method !== "POST") {
-                    response.status(405).json({ error: "Method not allowed" });
+            const onDelta = (field: "shortSummary" | "detailedSummary", text: string) => {
+                if (!response.headersSent) {
+                    startEventStream(response);
+                }
+                textStreamed = true;
+                sendEvent(response, field === "shortSummary" ? "short_delta" : "detailed_delta", { text });
+            };
+
+            // Send the final payload as JSON, or as the closing events of the stream
+            const sendResult = (status: number, body: any) => {
+                if (!stream || (!response.headersSent && !body.success)) {
+                    response.status(status).json(body);
                     return;
                 }
-
-                // Validate OpenAI API key
-                const apiKey = openaiApiKey.value();
-                if (!apiKey) {
-                    logger.error("OpenAI API key not configured");
-                    response.status(500).json({
-                        error: "AI service not configured",
+                if (!response.headersSent) {
+                    startEventStream(response);
+                }
+                if (body.success && body.data) {
+                    const summary: AIBookSummary = body.data;
+                    if (!textStreamed) {
+                        sendEvent(response, "short_delta", { text: summary.shortSummary });
+                        sendEvent(response, "detailed_delta", { text: summary.detailedSummary });
+                    }
+                    sendEvent(response, "confidence", {
+                        confidenceScore: summary.confidenceScore,
+                        detailedConfidenceFactors: summary.detailedConfidenceFactors,
+                        sourceAttribution: summary.sourceAttribution,
                     });
+                    sendEvent(response, "done", body);
+                } else {
+                    sendEvent(response, "error", body);
+                }
+                response.end();
+            };
+
+            // --- Summary cache: hits skip the LLM and do not count against usage limits ---
+            const assignment = getPromptAssignment(summaryRequest.isbn);
+            const cacheVersion = getSummaryCacheVersion(assignment.promptVersion, summaryRequest.model, preset);
+            if (!summaryRequest.forceRefresh) {
+                const cachedSummary = await getCachedSummary(summaryRequest, cacheVersion);
+                if (cachedSummary) {
+                    logger.info(`Summary cache hit for ISBN ${summaryRequest.isbn} (${summaryRequest.targetLanguage})`);
+                    const quota = await getQuotaStatus(user.uid);
+                    setQuotaHeaders(response, quota);
+                    sendResult(200, { success: true, data: cachedSummary, cached: true, quota });
                     return;
                 }
+            }
 
-                // Initialize OpenAI client with the secret
-                const openai = new OpenAI({
-                    apiKey: apiKey,
+            // --- Per-user quota and free tier usage checks ---
+            const { quota, refusal } = await admitSummary(user.uid, isGlobalLimitReached);
+            setQuotaHeaders(response, quota);
+            if (refusal === "quota") {
+                const limit = quota.exceeded === "daily" ? quota.daily.limit : quota.monthly.limit;
+                response.status(429).json({
+                    success: false,
+                    quotaExceeded: true,
+                    error: `Summary limit reached: your ${quota.plan} plan allows ${limit} summaries per ${quota.exceeded === "daily" ? "day" : "month"}.`,
+                    quota
                 });
+                return;
+            }
+            if (refusal === "global") {
+                response.status(503).json({ success: false, error: "Service temporarily unavailable: free tier usage limit reached." });
+                return;
+            }
 
-                logger.info(`📚 Generating summary for: ${summaryRequest.title}`);
-                logger.info(`🌍 Book original language: ${summaryRequest.language}`);
-                logger.info(`🎯 Target summary language: ${summaryRequest.targetLanguage}`);
-                logger.info(`📖 ISBN: ${summaryRequest.isbn}`);
-
-                // Get the target language name for better AI understanding
-                const languageMap: Record<string, string> = {
-                    'en': 'English',
-                    'es': 'Spanish',
-                    'fr': 'French',
-                    'de': 'German',
-                    'it': 'Italian',
-                    'pt': 'Portuguese'
-                };
-
-                const targetLanguageName = languageMap[summaryRequest.targetLanguage] || 'English';
-                logger.info(`🗣️ Target language name: ${targetLanguageName}`);
-
-                // Check if translation is needed
-                const needsTranslation = summaryRequest.language !== summaryRequest.targetLanguage;
-
-                // Build language-specific prompt
-                let promptContent = '';
-                if (needsTranslation) {
-                    // Cross-language translation prompt
-                    promptContent = `TRANSLATE AND SUMMARIZE: Create a book summary in pure ${targetLanguageName} from a book originally in ${summaryRequest.language}.
-
-CRITICAL: Write EVERYTHING in ${targetLanguageName}. This is a TRANSLATION task.
-
-Book: "${summaryRequest.title}" by ${summaryRequest.authors.join(", ")}
-Original Language: ${summaryRequest.language}
-Target Language: ${targetLanguageName}
-Description: "${(summaryRequest.description || '').substring(0, 150)}"
-
-${targetLanguageName === 'Spanish' ? `
-MANDATORY SPANISH WORDS:
-- Use "ofrece" NOT "delivers"
-- Use "explora" NOT "explores" 
-- Use "presenta" NOT "presents"
-- Use "análisis" NOT "analysis"
-- Use "perspectivas" NOT "perspectives"
-- Use "comprensión" NOT "understanding"
-
-TRANSLATE EVERYTHING TO SPANISH.
-` : targetLanguageName === 'German' ? `
-MANDATORY GERMAN WORDS:
-- Use "bietet" NOT "offers"
-- Use "erforscht" NOT "explores"
-- Use "präsentiert" NOT "presents"
-- Use "Analyse" NOT "analysis"
-- Use "Perspektiven" NOT "perspectives"
-- Use "Verständnis" NOT "understanding"
-- Use "Werk" NOT "work"
-
-TRANSLATE EVERYTHING TO GERMAN.
-` : targetLanguageName === 'Portuguese' ? `
-MANDATORY PORTUGUESE WORDS:
-- Use "oferece" NOT "offers"
-- Use "explora" NOT "explores"
-- Use "apresenta" NOT "presents"
-- Use "análise" NOT "analysis"
-- Use "perspectivas" NOT "perspectives"
-- Use "compreensão" NOT "understanding"
-- Use "obra" NOT "work"
-
-TRANSLATE EVERYTHING TO PORTUGUESE.
-` : targetLanguageName === 'Italian' ? `
-MANDATORY ITALIAN WORDS:
-- Use "offre" NOT "offers"
-- Use "esplora" NOT "explores"
-- Use "presenta" NOT "presents"
-- Use "analisi" NOT "analysis"
-- Use "prospettive" NOT "perspectives"
-- Use "comprensione" NOT "understanding"
-- Use "opera" NOT "work"
-
-TRANSLATE EVERYTHING TO ITALIAN.
-` : ''}
-
-Return JSON in pure ${targetLanguageName}:
-{
-  "shortSummary": "280-300 characters in ${targetLanguageName}",
-  "detailedSummary": "950-1000 characters in ${targetLanguageName}",
-  "confidenceScore": 85,
-  "reasoningFactors": ["Translation factor", "Content factor"],
-  "sourcesUsed": ["Book description", "Metadata"]
-}`;
-                } else {
-                    // Same language summary prompt - optimized for full character limits
-                    promptContent = `Create a book summary in ${targetLanguageName}.
-
-Book: "${summaryRequest.title}" by ${summaryRequest.authors.join(", ")}
-Description: "${(summaryRequest.description || '').substring(0, 150)}"
-
-Return JSON in ${targetLanguageName}:
-{
-  "shortSummary": "280-300 chars in ${targetLanguageName}",
-  "detailedSummary": "950-1000 chars in ${targetLanguageName}",
-  "confidenceScore": 85,
-  "reasoningFactors": ["factor1", "factor2"],
-  "sourcesUsed": ["source1", "source2"]
-}`;
-                }
-
-                // Call OpenAI API with retry logic - Enhanced for translation
-                const completion = await callOpenAIWithRetry(openai, {
-                    model: "gpt-3.5-turbo",
-                    messages: [
-                        {
-                            role: "user",
-                            content: promptContent
-                        }
-                    ],
-                    max_tokens: needsTranslation ? 500 : 400, // More tokens for translation
-                    temperature: 0.3,
-                    response_format: { type: "json_object" },
-                });
+            try {
+                logger.info(`Book summary generation request received from user ${user.uid}`);
 
-                const aiResponse = completion.choices[0]?.message?.content;
-                if (!aiResponse) {
-                    throw new Error("No response from OpenAI");
+                // The OpenAI provider needs the API key secret; self-hosted and stub providers do not
+                const provider = getLlmProvider(summaryRequest.model);
+                if (!provider) {
+                    logger.error("OpenAI API key not configured");
+                    sendResult(500, {
+                        error: "AI service not configured",
+                    });
+                    return;
                 }
 
-                const parsedResponse = JSON.parse(aiResponse);
-
-                // Generate enhanced attribution data
-                const enhancedData = generateCloudFunctionSourceAttribution(summaryRequest, false);
-
-                const aiSummary: AIBookSummary = {
-                    shortSummary: ensureCharacterLimit(parsedResponse.shortSummary, 300),
-                    detailedSummary: ensureCharacterLimit(
-                        parsedResponse.detailedSummary,
-                        1000
-                    ),
-                    confidenceScore: Math.min(
-                        100,
-                        Math.max(0, parsedResponse.confidenceScore || 75)
-                    ),
-                    reasoningFactors: parsedResponse.reasoningFactors || [],
-                    sourcesUsed: parsedResponse.sourcesUsed ||
-                        ["Google Books API", "Book Description"],
-                    sourceAttribution: enhancedData.sourceAttribution,
-                    detailedConfidenceFactors: enhancedData.detailedConfidenceFactors,
-                    language: summaryRequest.targetLanguage,
-                    generatedAt: new Date(),
-                    processingMethod: enhancedData.processingMethod,
-                    translationApplied: enhancedData.translationApplied
-                };
-
-                logger.info("Summary generated successfully");
-                response.status(200).json({ success: true, data: aiSummary });
+                const aiSummary = await generateLlmSummary(provider, summaryRequest, preset, assignment, stream ? onDelta : undefined);
+
+                logger.info(`Summary generated successfully with ${aiSummary.provider}/${aiSummary.model}`);
+                await storeCachedSummary(summaryRequest, cacheVersion, aiSummary);
+                sendResult(200, { success: true, data: aiSummary, quota });
 
             } catch (error: any) {
                 logger.error("Error generating book summary:", error);
@@ -393,47 +358,42 @@ Return JSON in ${targetLanguageName}:
                 const isQuotaExceeded = error.message?.includes('insufficient_quota') ||
                     error.message?.includes('quota');
 
-                if (isRateLimit) {
-                    // Generate a fallback summary when OpenAI is rate limited
-                    logger.info("OpenAI rate limited, generating fallback summary");
+                if (error instanceof SummaryValidationError) {
+                    // The model answered, but not in the expected format even after a repair attempt
+                    logger.warn(`LLM response failed validation for ISBN ${summaryRequest.isbn}: ${error.validation.errors.join("; ")}`);
+
+                    sendResult(200, {
+                        success: true,
+                        data: generateFallbackSummary(summaryRequest, error.validation),
+                        fallback: true,
+                        translated: summaryRequest.language !== summaryRequest.targetLanguage,
+                        quota
+                    });
+                } else if (isRateLimit) {
+                    // Generate a fallback summary when the LLM is rate limited
+                    logger.info("LLM rate limited, generating fallback summary");
                     logger.info(`Translation needed: ${summaryRequest.language} → ${summaryRequest.targetLanguage}`);
 
-                    // Generate enhanced attribution data for fallback
-                    const fallbackEnhancedData = generateCloudFunctionSourceAttribution(summaryRequest, true);
-
-                    const fallbackSummary: AIBookSummary = {
-                        shortSummary: generateFallbackShortSummary(summaryRequest),
-                        detailedSummary: generateFallbackDetailedSummary(summaryRequest),
-                        confidenceScore: 50, // Lower confidence for fallback
-                        reasoningFactors: summaryRequest.language !== summaryRequest.targetLanguage
-                            ? ["Fallback summary with translation", "Limited by API rate limits"]
-                            : ["Fallback summary due to API rate limits"],
-                        sourcesUsed: ["Book metadata", "Description"],
-                        sourceAttribution: fallbackEnhancedData.sourceAttribution,
-                        detailedConfidenceFactors: fallbackEnhancedData.detailedConfidenceFactors,
-                        language: summaryRequest.targetLanguage,
-                        generatedAt: new Date(),
-                        processingMethod: fallbackEnhancedData.processingMethod,
-                        translationApplied: fallbackEnhancedData.translationApplied
-                    };
-
-                    response.status(200).json({
+                    const fallbackSummary = generateFallbackSummary(summaryRequest, { status: "unavailable", attempts: 1, errors: [] });
+
+                    sendResult(200, {
                         success: true,
                         data: fallbackSummary,
                         fallback: true, // Indicate this is a fallback response
-                        translated: summaryRequest.language !== summaryRequest.targetLanguage
+                        translated: summaryRequest.language !== summaryRequest.targetLanguage,
+                        quota
                     });
                 } else if (isQuotaExceeded) {
-                    response.status(429).json({
+                    sendResult(429, {
                         error: "OpenAI quota exceeded. Please check your billing.",
                         suggestion: "Your OpenAI account may need billing setup or has exceeded monthly limits."
                     });
                 } else if (error.message?.includes("API key")) {
-                    response.status(401).json({
+                    sendResult(401, {
                         error: "Authentication failed with AI service",
                     });
                 } else {
-                    response.status(500).json({
+                    sendResult(500, {
                         error: "Failed to generate book summary. Please try again.",
                     });
                 }
@@ -442,6 +402,414 @@ Return JSON in ${targetLanguageName}:
     }
 );
 
+// Languages the fallback templates are written in. Other registry languages get the English template,
+// and the summary is labelled English rather than passed off as the requested language.
+const FALLBACK_TEMPLATE_LANGUAGES = ["en", "es", "fr", "de", "it", "pt"];
+
+/**
+ * Build a template summary for when the LLM is unavailable or its response failed validation
+ */
+function generateFallbackSummary(summaryRequest: SummaryRequest, validation: SummaryValidation): AIBookSummary {
+    const templateLanguage = FALLBACK_TEMPLATE_LANGUAGES.includes(summaryRequest.targetLanguage) ? summaryRequest.targetLanguage : "en";
+    const templateRequest = { ...summaryRequest, targetLanguage: templateLanguage };
+    const translated = summaryRequest.language !== templateLanguage;
+    const reason = validation.status === "invalid" ? "AI response failed validation" : "Limited by API rate limits";
+    if (templateLanguage !== summaryRequest.targetLanguage) {
+        logger.info(`No fallback template in ${getLanguageName(summaryRequest.targetLanguage)}, using English`);
+    }
+
+    const shortSummary = generateFallbackShortSummary(templateRequest);
+    const detailedSummary = generateFallbackDetailedSummary(templateRequest);
+    const confidence = assessConfidence({
+        book: summaryRequest,
+        summary: { shortSummary, detailedSummary, validation },
+        targetLanguage: templateLanguage,
+        usesFallback: true,
+    });
+
+    return {
+        shortSummary,
+        detailedSummary,
+        confidenceScore: 50, // Lower confidence for fallback
+        reasoningFactors: [
+            ...(translated
+                ? ["Fallback summary with translation", reason]
+                : [`Fallback summary: ${reason.charAt(0).toLowerCase()}${reason.slice(1)}`]),
+            ...(templateLanguage !== summaryRequest.targetLanguage
+                ? [`No ${getLanguageName(summaryRequest.targetLanguage)} template, written in English`]
+                : []),
+        ],
+        sourcesUsed: ["Book metadata", "Description"],
+        sourceAttribution: confidence.sourceAttribution,
+        detailedConfidenceFactors: confidence.detailedConfidenceFactors,
+        confidenceFormulaVersion: confidence.formulaVersion,
+        grounding: analyzeGrounding(detailedSummary, summaryRequest, templateLanguage),
+        language: templateLanguage,
+        generatedAt: new Date(),
+        processingMethod: "fallback_template",
+        translationApplied: translated,
+        validation
+    };
+}
+
+/**
+ * Generate a summary with the given LLM provider, preset and prompt version and attach attribution data.
+ * When `onDelta` is given the completion is streamed and summary text is reported as it arrives.
+ */
+async function generateLlmSummary(
+    provider: LlmProvider,
+    summaryRequest: SummaryRequest,
+    preset: SummaryPreset,
+    assignment: PromptAssignment,
+    onDelta?: (field: "shortSummary" | "detailedSummary", text: string) => void
+): Promise<AIBookSummary> {
+    logger.info(`📚 Generating summary for: ${summaryRequest.title}`);
+    logger.info(`🌍 Book original language: ${summaryRequest.language}`);
+    logger.info(`🎯 Target summary language: ${summaryRequest.targetLanguage}`);
+    logger.info(`📐 Summary preset: ${preset.id}`);
+    logger.info(`📝 Prompt version: ${assignment.promptVersion}${assignment.experimentId ? ` (experiment ${assignment.experimentId})` : ""}`);
+    logger.info(`📖 ISBN: ${summaryRequest.isbn}`);
+
+    const targetLanguageName = getLanguageName(summaryRequest.targetLanguage);
+    logger.info(`🗣️ Target language name: ${targetLanguageName}`);
+
+    // Check if translation is needed
+    const needsTranslation = summaryRequest.language !== summaryRequest.targetLanguage;
+
+    const prompt = renderSummaryPrompt(assignment.promptVersion, summaryRequest, preset);
+
+    const streamer = onDelta
+        ? new JsonStringFieldStreamer(
+            ["shortSummary", "detailedSummary"],
+            (field, text) => onDelta(field as "shortSummary" | "detailedSummary", text)
+        )
+        : undefined;
+
+    // Call the LLM with retry logic and schema validation - translations get the full LLM_MAX_TOKENS budget
+    const maxTokens = getLlmConfig().maxTokens;
+    const complete = (llmRequest: LlmCompletionRequest) => completeWithRetry(provider, llmRequest);
+    const summaryLlmRequest: LlmCompletionRequest = {
+        messages: prompt.messages,
+        maxTokens: needsTranslation ? maxTokens : Math.round(maxTokens * 0.8),
+        jsonMode: true,
+        onDelta: streamer ? (text) => streamer.push(text) : undefined,
+    };
+
+    // Regenerate once if too much of the answer is not in the target language
+    const { result, languageCheck } = await enforceSummaryLanguage(
+        complete,
+        summaryLlmRequest,
+        await completeValidatedSummary(complete, summaryLlmRequest),
+        summaryRequest.targetLanguage,
+        targetLanguageName
+    );
+    const { payload: parsedResponse, completion, validation } = result;
+
+    if (validation.status === "repaired") {
+        logger.info(`Repaired LLM response for ISBN ${summaryRequest.isbn}: ${validation.errors.join("; ")}`);
+    }
+    if (languageCheck.flagged) {
+        logger.warn(`Summary for ISBN ${summaryRequest.isbn} is only ${languageCheck.purity}% ${targetLanguageName}`);
+    }
+
+    // Extra samples are only requested when LLM_CONSISTENCY_SAMPLES is above 0
+    const selfConsistency = await sampleSelfConsistency(
+        complete,
+        summaryLlmRequest,
+        parsedResponse,
+        getLlmConfig().consistencySamples || 0
+    );
+
+    const summary = {
+        shortSummary: ensureCharacterLimit(parsedResponse.shortSummary, preset.shortLength.max),
+        detailedSummary: ensureCharacterLimit(parsedResponse.detailedSummary, preset.detailedLength.max),
+        provider: completion.provider,
+        model: completion.model,
+        promptVersion: prompt.promptVersion,
+        ...(assignment.experimentId ? { promptExperiment: assignment.experimentId } : {}),
+        preset: toPresetRef(preset),
+        validation,
+        languageCheck,
+        // Omitted rather than undefined: Firestore rejects undefined fields
+        ...(selfConsistency !== undefined ? { selfConsistency } : {}),
+    };
+    const confidence = assessConfidence({
+        book: summaryRequest,
+        summary,
+        targetLanguage: summaryRequest.targetLanguage,
+        usesFallback: false,
+    });
+
+    const aiSummary: AIBookSummary = {
+        ...summary,
+        confidenceScore: parsedResponse.confidenceScore,
+        reasoningFactors: parsedResponse.reasoningFactors,
+        sourcesUsed: parsedResponse.sourcesUsed.length > 0
+            ? parsedResponse.sourcesUsed
+            : ["Google Books API", "Book Description"],
+        sourceAttribution: confidence.sourceAttribution,
+        detailedConfidenceFactors: confidence.detailedConfidenceFactors,
+        confidenceFormulaVersion: confidence.formulaVersion,
+        grounding: analyzeGrounding(summary.detailedSummary, summaryRequest, summaryRequest.targetLanguage),
+        structured: toStructuredSummary(parsedResponse),
+        language: summaryRequest.targetLanguage,
+        generatedAt: new Date(),
+        processingMethod: "openai_api",
+        translationApplied: summaryRequest.language !== summaryRequest.targetLanguage,
+    };
+
+    return aiSummary;
+}
+
+// Batch jobs: items processed per scheduled run and pause between LLM calls
+const BATCH_ITEMS_PER_RUN = 5;
+const BATCH_ITEM_DELAY_MS = 2000;
+
+/**
+ * Scheduled worker that processes queued batch jobs (`jobs/{jobId}/items`) a few items at a time
+ */
+export const processBatchJobs = onSchedule(
+    {
+        schedule: "every 1 minutes",
+        timeoutSeconds: 300,
+        memory: "512MiB",
+        secrets: [openaiApiKey],
+    },
+    async () => {
+        const items = await claimPendingBatchItems(BATCH_ITEMS_PER_RUN);
+        if (items.length === 0) {
+            return;
+        }
+
+        const provider = getLlmProvider();
+        if (!provider) {
+            logger.error("OpenAI API key not configured, batch items left pending");
+            await Promise.all(items.map((item) =>
+                releaseBatchItem(item, "AI service not configured", true)
+            ));
+            return;
+        }
+
+        logger.info(`Processing ${items.length} batch job items`);
+        for (let i = 0; i < items.length; i++) {
+            const shouldContinue = await processBatchItem(provider, items[i]);
+            if (!shouldContinue) {
+                // Hand the remaining claimed items back untouched so the next run picks them up
+                await Promise.all(items.slice(i + 1).map((item) =>
+                    releaseBatchItem(item, "Waiting for the next processing run", true)
+                ));
+                break;
+            }
+            await new Promise(resolve => setTimeout(resolve, BATCH_ITEM_DELAY_MS));
+        }
+    }
+);
+
+/**
+ * Summarize a single batch item and save it to the owner's library.
+ * Returns false when processing should stop for this run (rate or usage limits).
+ */
+async function processBatchItem(provider: LlmProvider, item: ClaimedBatchItem): Promise<boolean> {
+    try {
+        const bookData = await fetchBookMetadata(item.isbn);
+        if (!bookData) {
+            await failBatchItem(item, "Book not found. Please check the ISBN.");
+            return true;
+        }
+
+        const summaryRequest: SummaryRequest = {
+            title: bookData.title,
+            authors: bookData.authors,
+            isbn: bookData.isbn,
+            description: bookData.description,
+            categories: bookData.categories,
+            publisher: bookData.publisher,
+            publishedDate: bookData.publishedDate,
+            pageCount: bookData.pageCount,
+            language: bookData.language,
+            targetLanguage: item.targetLanguage,
+            fieldSources: bookData.fieldSources,
+            metadataAgreement: bookData.metadataAgreement,
+        };
+
+        const assignment = getPromptAssignment(summaryRequest.isbn);
+        const cacheVersion = getSummaryCacheVersion(assignment.promptVersion);
+        let aiSummary = await getCachedSummary(summaryRequest, cacheVersion);
+        if (!aiSummary) {
+            const { quota, refusal } = await admitSummary(item.userId, isGlobalLimitReached);
+            if (refusal === "quota") {
+                await releaseBatchItem(item, `Summary limit reached for your ${quota.plan} plan. Remaining items will resume when it resets.`, true);
+                return true;
+            }
+            if (refusal === "global") {
+                await releaseBatchItem(item, "Free tier usage limit reached. Remaining items will resume when the limit resets.", true);
+                return false;
+            }
+            aiSummary = await generateLlmSummary(provider, summaryRequest, getDefaultPreset(), assignment);
+            await storeCachedSummary(summaryRequest, cacheVersion, aiSummary);
+        }
+
+        const libraryItemId = await saveBatchResultToLibrary(item, bookData, aiSummary, reviewConfidenceThreshold.value());
+        await completeBatchItem(item, bookData.title, libraryItemId);
+        return true;
+
+    } catch (error: any) {
+        logger.error(`Error processing batch item ${item.isbn}:`, error);
+
+        const isRateLimit = error.status === 429 ||
+            error.message?.includes('429') ||
+            error.message?.includes('rate limit');
+
+        if (item.attempts >= MAX_BATCH_ITEM_ATTEMPTS) {
+            await failBatchItem(item, error.message || "Failed to generate summary");
+            return !isRateLimit;
+        }
+
+        const reason = isRateLimit
+            ? "AI service is rate limited, retrying shortly"
+            : error instanceof SummaryValidationError ? "AI response failed validation, retrying" : "Temporary error, retrying";
+        await releaseBatchItem(item, reason);
+        return !isRateLimit;
+    }
+}
+
+/**
+ * Deletes the annotations left on a library item when it is deleted, including other users' annotations
+ * the owner could not see
+ */
+export const cleanupDeletedLibraryItem = onDocumentDeleted("libraries/{itemId}", async (event) => {
+    const deleted = await deleteItemAnnotations(event.params.itemId);
+    if (deleted > 0) {
+        logger.info(`Deleted ${deleted} annotations of library item ${event.params.itemId}`);
+    }
+});
+
+/**
+ * Deletes the members and teams of a deleted organization and revokes its pending invitations
+ */
+export const cleanupOrganization = onDocumentDeleted("organizations/{orgId}", async (event) => {
+    const result = await cleanupDeletedOrganization(event.params.orgId);
+    logger.info(`Cleaned up organization ${event.params.orgId}: ${result.members} members, ` +
+        `${result.teams} teams, ${result.invitations} invitations revoked`);
+});
+
+/**
+ * Cloud Function to search a library scope for the signed-in user; answers with the ids on the page,
+ * the facet counts and the cursor of the next page
+ */
+export const searchLibraryItems = onRequest(
+    {
+        cors: true,
+        memory: "512MiB",
+    },
+    async (request, response) => {
+        return corsHandler(request, response, async () => {
+            if (request.method !== "POST") {
+                response.status(405).json({ error: "Method not allowed" });
+                return;
+            }
+
+            const user = await verifyRequestUser(request);
+            if (!user) {
+                response.status(401).json({ success: false, error: "Authentication required. Please sign in again." });
+                return;
+            }
+
+            const { scope, query, refresh } = request.body || {};
+            if (typeof scope !== "string" || !scope || (query !== undefined && typeof query !== "object")) {
+                response.status(400).json({ success: false, error: "Invalid request. A library scope is required." });
+                return;
+            }
+
+            try {
+                const role = await getUserRole(user.uid);
+                const page = await searchLibrary(user.uid, role, scope, query || {}, refresh === true);
+                response.status(200).json({ success: true, ...page });
+            } catch (error) {
+                if (error instanceof SearchScopeError) {
+                    response.status(403).json({ success: false, error: error.message });
+                    return;
+                }
+                logger.error("Error searching library:", error);
+                response.status(500).json({ success: false, error: "Failed to search library." });
+            }
+        });
+    }
+);
+
+/**
+ * Cloud Function to invalidate cached summaries for an ISBN (optionally a single target language)
+ */
+export const invalidateSummaryCache = onRequest(
+    {
+        cors: true,
+        secrets: [cacheAdminToken],
+    },
+    async (request, response) => {
+        return corsHandler(request, response, async () => {
+            if (request.method !== "POST") {
+                response.status(405).json({ error: "Method not allowed" });
+                return;
+            }
+
+            const authHeader = request.headers.authorization || "";
+            if (authHeader !== `Bearer ${cacheAdminToken.value()}`) {
+                response.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { isbn, targetLanguage } = request.body || {};
+            if (!isbn) {
+                response.status(400).json({ error: "Invalid request. ISBN is required." });
+                return;
+            }
+
+            try {
+                const deleted = await invalidateCachedSummaries(isbn, targetLanguage);
+                logger.info(`Invalidated ${deleted} cached summaries for ISBN ${isbn}`);
+                response.status(200).json({ success: true, deleted });
+            } catch (error) {
+                logger.error("Error invalidating summary cache:", error);
+                response.status(500).json({ error: "Failed to invalidate summary cache." });
+            }
+        });
+    }
+);
+
+/**
+ * Cloud Function that converts library items with a single summary into language variants, one page per call
+ */
+export const migrateLibrarySummaries = onRequest(
+    {
+        cors: true,
+        timeoutSeconds: 300,
+        secrets: [migrationAdminToken],
+    },
+    async (request, response) => {
+        return corsHandler(request, response, async () => {
+            if (request.method !== "POST") {
+                response.status(405).json({ error: "Method not allowed" });
+                return;
+            }
+
+            const authHeader = request.headers.authorization || "";
+            if (authHeader !== `Bearer ${migrationAdminToken.value()}`) {
+                response.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            try {
+                const result = await migrateSummaryVariants(request.body?.startAfter);
+                logger.info(`Migrated ${result.migrated} of ${result.scanned} library items to summary variants`);
+                response.status(200).json({ success: true, ...result });
+            } catch (error) {
+                logger.error("Error migrating library summaries:", error);
+                response.status(500).json({ error: "Failed to migrate library summaries." });
+            }
+        });
+    }
+);
+
 /**
  * Ensure text meets character limit requirements
  */
@@ -630,7 +998,7 @@ function generateFallbackShortSummary(request: SummaryRequest): string {
     const lang = languageMap[request.targetLanguage] || languageMap['en'];
     const summary = lang.template.length <= 300 ? lang.template : lang.fallback;
 
-    return ensureCharacterLimit(cleanMixedLanguageText(summary, request.targetLanguage), 300);
+    return ensureCharacterLimit(summary, 300);
 }
 
 /**
@@ -799,219 +1167,5 @@ function generateFallbackDetailedSummary(request: SummaryRequest): string {
     const lang = languageMap[request.targetLanguage] || languageMap['en'];
     const summary = lang.template.length <= 1000 ? lang.template : lang.fallback;
 
-    return ensureCharacterLimit(cleanMixedLanguageText(summary, request.targetLanguage), 1000);
-}
-
-/**
- * Clean text to remove common English words when translating to target language
- */
-function cleanMixedLanguageText(text: string, targetLanguage: string): string {
-    if (targetLanguage === 'es') {
-        // Replace common English words that appear in Spanish text
-        text = text.replace(/\banthropology\b/gi, 'antropología');
-        text = text.replace(/\bscience\b/gi, 'ciencia');
-        text = text.replace(/\bhistory\b/gi, 'historia');
-        text = text.replace(/\btechnology\b/gi, 'tecnología');
-        text = text.replace(/\bpsychology\b/gi, 'psicología');
-        text = text.replace(/\bphilosophy\b/gi, 'filosofía');
-        text = text.replace(/\beconomics\b/gi, 'economía');
-        text = text.replace(/\bpolitics\b/gi, 'política');
-        text = text.replace(/\bsociology\b/gi, 'sociología');
-        text = text.replace(/\bliterature\b/gi, 'literatura');
-        text = text.replace(/\beducation\b/gi, 'educación');
-        text = text.replace(/\bbusiness\b/gi, 'negocios');
-        text = text.replace(/\bhealth\b/gi, 'salud');
-        text = text.replace(/\bbiography\b/gi, 'biografía');
-        text = text.replace(/\bfiction\b/gi, 'ficción');
-        text = text.replace(/\bart\b/gi, 'arte');
-        text = text.replace(/\breligion\b/gi, 'religión');
-    } else if (targetLanguage === 'de') {
-        // Replace common English words that appear in German text
-        text = text.replace(/\bscience\b/gi, 'Wissenschaft');
-        text = text.replace(/\bhistory\b/gi, 'Geschichte');
-        text = text.replace(/\btechnology\b/gi, 'Technologie');
-        text = text.replace(/\bpsychology\b/gi, 'Psychologie');
-        text = text.replace(/\bphilosophy\b/gi, 'Philosophie');
-        text = text.replace(/\beconomics\b/gi, 'Wirtschaft');
-        text = text.replace(/\bpolitics\b/gi, 'Politik');
-        text = text.replace(/\bsociology\b/gi, 'Soziologie');
-        text = text.replace(/\bliterature\b/gi, 'Literatur');
-        text = text.replace(/\beducation\b/gi, 'Bildung');
-        text = text.replace(/\bbusiness\b/gi, 'Geschäft');
-        text = text.replace(/\bhealth\b/gi, 'Gesundheit');
-        text = text.replace(/\bbiography\b/gi, 'Biographie');
-        text = text.replace(/\bfiction\b/gi, 'Fiktion');
-        text = text.replace(/\banthropology\b/gi, 'Anthropologie');
-        text = text.replace(/\bwork\b/gi, 'Werk');
-        text = text.replace(/\boffers\b/gi, 'bietet');
-        text = text.replace(/\bexplores\b/gi, 'erforscht');
-        text = text.replace(/\bpresents\b/gi, 'präsentiert');
-        text = text.replace(/\banalysis\b/gi, 'Analyse');
-        text = text.replace(/\bperspectives\b/gi, 'Perspektiven');
-        text = text.replace(/\bunderstanding\b/gi, 'Verständnis');
-        text = text.replace(/\bart\b/gi, 'Kunst');
-        text = text.replace(/\breligion\b/gi, 'Religion');
-    } else if (targetLanguage === 'pt') {
-        // Replace common English words that appear in Portuguese text
-        text = text.replace(/\bscience\b/gi, 'ciência');
-        text = text.replace(/\bhistory\b/gi, 'história');
-        text = text.replace(/\btechnology\b/gi, 'tecnologia');
-        text = text.replace(/\bpsychology\b/gi, 'psicologia');
-        text = text.replace(/\bphilosophy\b/gi, 'filosofia');
-        text = text.replace(/\beconomics\b/gi, 'economia');
-        text = text.replace(/\bpolitics\b/gi, 'política');
-        text = text.replace(/\bsociology\b/gi, 'sociologia');
-        text = text.replace(/\bliterature\b/gi, 'literatura');
-        text = text.replace(/\beducation\b/gi, 'educação');
-        text = text.replace(/\bbusiness\b/gi, 'negócios');
-        text = text.replace(/\bhealth\b/gi, 'saúde');
-        text = text.replace(/\bbiography\b/gi, 'biografia');
-        text = text.replace(/\bfiction\b/gi, 'ficção');
-        text = text.replace(/\banthropology\b/gi, 'antropologia');
-        text = text.replace(/\bart\b/gi, 'arte');
-        text = text.replace(/\breligion\b/gi, 'religião');
-        text = text.replace(/\bwork\b/gi, 'obra');
-        text = text.replace(/\boffers\b/gi, 'oferece');
-        text = text.replace(/\bexplores\b/gi, 'explora');
-        text = text.replace(/\bpresents\b/gi, 'apresenta');
-        text = text.replace(/\banalysis\b/gi, 'análise');
-        text = text.replace(/\bperspectives\b/gi, 'perspectivas');
-        text = text.replace(/\bunderstanding\b/gi, 'compreensão');
-    } else if (targetLanguage === 'it') {
-        // Replace common English words that appear in Italian text
-        text = text.replace(/\bscience\b/gi, 'scienza');
-        text = text.replace(/\bhistory\b/gi, 'storia');
-        text = text.replace(/\btechnology\b/gi, 'tecnologia');
-        text = text.replace(/\bpsychology\b/gi, 'psicologia');
-        text = text.replace(/\bphilosophy\b/gi, 'filosofia');
-        text = text.replace(/\beconomics\b/gi, 'economia');
-        text = text.replace(/\bpolitics\b/gi, 'politica');
-        text = text.replace(/\bsociology\b/gi, 'sociologia');
-        text = text.replace(/\bliterature\b/gi, 'letteratura');
-        text = text.replace(/\beducation\b/gi, 'educazione');
-        text = text.replace(/\bbusiness\b/gi, 'affari');
-        text = text.replace(/\bhealth\b/gi, 'salute');
-        text = text.replace(/\bbiography\b/gi, 'biografia');
-        text = text.replace(/\bfiction\b/gi, 'narrativa');
-        text = text.replace(/\banthropology\b/gi, 'antropologia');
-        text = text.replace(/\bart\b/gi, 'arte');
-        text = text.replace(/\breligion\b/gi, 'religione');
-        text = text.replace(/\bwork\b/gi, 'opera');
-        text = text.replace(/\boffers\b/gi, 'offre');
-        text = text.replace(/\bexplores\b/gi, 'esplora');
-        text = text.replace(/\bpresents\b/gi, 'presenta');
-        text = text.replace(/\banalysis\b/gi, 'analisi');
-        text = text.replace(/\bperspectives\b/gi, 'prospettive');
-        text = text.replace(/\bunderstanding\b/gi, 'comprensione');
-    }
-    return text;
-}
-
-/**
- * Generate enhanced source attribution and confidence factors for Cloud Function
- */
-function generateCloudFunctionSourceAttribution(
-    request: SummaryRequest,
-    usesFallback: boolean = false
-): {
-    sourceAttribution: SourceAttribution[],
-    detailedConfidenceFactors: DetailedConfidenceFactors,
-    processingMethod: 'openai_api' | 'fallback_template',
-    translationApplied: boolean
-} {
-    const translationApplied = request.language !== request.targetLanguage;
-
-    const sourceAttribution: SourceAttribution[] = [
-        {
-            type: 'book_description',
-            content: request.description?.substring(0, 200) + '...' || 'No description available',
-            reliability: request.description?.length > 100 ? 90 : 60,
-            relevance: 95,
-            length: request.description?.length || 0,
-            source: 'Google Books API',
-            weight: 0.4
-        },
-        {
-            type: 'metadata',
-            content: `${request.title} by ${request.authors.join(', ')} (${request.publisher}, ${request.publishedDate})`,
-            reliability: 95,
-            relevance: 85,
-            length: request.title.length + request.authors.join(', ').length,
-            source: 'Google Books API',
-            weight: 0.25
-        },
-        {
-            type: 'category_data',
-            content: request.categories.join(', '),
-            reliability: request.categories.length > 0 ? 85 : 40,
-            relevance: 80,
-            length: request.categories.join(', ').length,
-            source: 'Google Books API',
-            weight: 0.15
-        },
-        {
-            type: usesFallback ? 'fallback_template' : 'ai_knowledge',
-            content: usesFallback ? 'SmartLibroAI language-specific template' : 'OpenAI GPT-3.5 knowledge base',
-            reliability: usesFallback ? 85 : 90,
-            relevance: 75,
-            length: 0,
-            source: usesFallback ? 'SmartLibroAI' : 'OpenAI GPT-3.5',
-            weight: 0.2
-        }
-    ];
-
-    const detailedConfidenceFactors: DetailedConfidenceFactors = {
-        dataQuality: {
-            score: 85,
-            factors: {
-                descriptionLength: request.description?.length || 0,
-                metadataCompleteness: 90,
-                publisherReliability: 80,
-                authorCredibility: 75
-            }
-        },
-        sourceReliability: {
-            score: usesFallback ? 82 : 88,
-            factors: {
-                primarySourcesCount: sourceAttribution.length,
-                averageSourceReliability: usesFallback ? 80 : 85,
-                sourceConsistency: usesFallback ? 95 : 90,
-                verifiableInformation: 85
-            }
-        },
-        contentCoverage: {
-            score: usesFallback ? 78 : 82,
-            factors: {
-                topicCoverage: usesFallback ? 75 : 85,
-                thematicDepth: usesFallback ? 75 : 80,
-                conceptualClarity: usesFallback ? 85 : 85,
-                structuralCompleteness: usesFallback ? 80 : 80
-            }
-        },
-        aiProcessing: {
-            score: translationApplied ? 75 : (usesFallback ? 88 : 90),
-            factors: {
-                languageConsistency: translationApplied ? 75 : (usesFallback ? 95 : 95),
-                translationQuality: translationApplied ? 80 : 100,
-                summarizationAccuracy: usesFallback ? 80 : 85,
-                responseCoherence: usesFallback ? 90 : 90
-            }
-        },
-        crossValidation: {
-            score: 85,
-            factors: {
-                multiSourceVerification: 80,
-                factualConsistency: usesFallback ? 90 : 85,
-                contextualRelevance: 90,
-                logicalCoherence: usesFallback ? 90 : 85
-            }
-        }
-    };
-
-    return {
-        sourceAttribution,
-        detailedConfidenceFactors,
-        processingMethod: usesFallback ? 'fallback_template' : 'openai_api',
-        translationApplied
-    };
+    return ensureCharacterLimit(summary, 1000);
 }
@@ -0,0 +1,31 @@
+import { FakeFirestore } from "./testing/fake-firestore";
+import { deleteItemAnnotations } from "./library-cleanup";
+
+describe("deleteItemAnnotations", () => {
+    let firestore: FakeFirestore;
+
+    beforeEach(() => {
+        firestore = new FakeFirestore();
+    });
+
+    it("deletes the annotations of every user on the item and leaves other items alone", async () => {
+        firestore.write("libraries/cosmos/annotations/mine", { itemId: "cosmos", userId: "owner" });
+        firestore.write("libraries/cosmos/annotations/theirs", { itemId: "cosmos", userId: "team-member" });
+        firestore.write("libraries/solitude/annotations/kept", { itemId: "solitude", userId: "team-member" });
+
+        const deleted = await deleteItemAnnotations("cosmos", firestore.asFirestore());
+
+        expect(deleted).toBe(2);
+        expect(Array.from(firestore.documents.keys())).toEqual(["libraries/solitude/annotations/kept"]);
+    });
+
+    it("splits large deletions into batches Firestore accepts", async () => {
+        for (let index = 0; index < 1201; index++) {
+            firestore.write(`libraries/cosmos/annotations/note-${index}`, { itemId: "cosmos", userId: "reader" });
+        }
+
+        expect(await deleteItemAnnotations("cosmos", firestore.asFirestore())).toBe(1201);
+        expect(firestore.commits).toEqual([500, 500, 201]);
+        expect(firestore.documents.size).toBe(0);
+    });
+});
@@ -0,0 +1,12 @@
+import * as admin from "firebase-admin";
+import { deleteDocuments } from "./firestore-batches";
+
+/**
+ * Delete every annotation on a library item, whoever wrote it. Annotations are private to their
+ * authors, so the item owner cannot list other users' annotations from the browser; this runs on
+ * the server once the item itself is gone.
+ */
+export async function deleteItemAnnotations(itemId: string, db: admin.firestore.Firestore = admin.firestore()): Promise<number> {
+    const snapshot = await db.collection("libraries").doc(itemId).collection("annotations").get();
+    return deleteDocuments(db, snapshot.docs.map((doc) => doc.ref));
+}
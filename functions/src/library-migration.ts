@@ -0,0 +1,51 @@
+import * as admin from "firebase-admin";
+import { isLegacySummary, normalizeSummaries } from "../../src/app/core/utils/summary-variants";
+
+// Documents rewritten per migration request; callers repeat with `startAfter` until `done`
+const MIGRATION_PAGE_SIZE = 200;
+
+export interface SummaryMigrationResult {
+    scanned: number;
+    migrated: number;
+    lastId: string | null; // Pass as `startAfter` to continue
+    done: boolean;
+}
+
+/**
+ * Rewrite library items saved with a single summary into language variants (`summaries.<language>`
+ * plus `primaryLanguage`). Items already in the new format are left untouched, so the migration can be rerun.
+ */
+export async function migrateSummaryVariants(startAfter?: string): Promise<SummaryMigrationResult> {
+    const db = admin.firestore();
+    let pageQuery = db.collection("libraries")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(MIGRATION_PAGE_SIZE);
+    if (startAfter) {
+        pageQuery = pageQuery.startAfter(startAfter);
+    }
+
+    const snapshot = await pageQuery.get();
+    const batch = db.batch();
+    let migrated = 0;
+
+    snapshot.docs.forEach((libraryDoc) => {
+        const data = libraryDoc.data();
+        if (!isLegacySummary(data.summaries)) {
+            return;
+        }
+
+        batch.update(libraryDoc.ref, normalizeSummaries(data) as { [field: string]: any });
+        migrated++;
+    });
+
+    if (migrated > 0) {
+        await batch.commit();
+    }
+
+    return {
+        scanned: snapshot.size,
+        migrated,
+        lastId: snapshot.empty ? null : snapshot.docs[snapshot.docs.length - 1].id,
+        done: snapshot.size < MIGRATION_PAGE_SIZE,
+    };
+}
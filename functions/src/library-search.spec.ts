@@ -0,0 +1,105 @@
+import { FakeFirestore } from "./testing/fake-firestore";
+import { SearchScopeError, clearSearchIndexes, searchLibrary } from "./library-search";
+
+describe("searchLibrary", () => {
+    let firestore: FakeFirestore;
+
+    function saveItem(id: string, fields: Record<string, any>): void {
+        firestore.write(`libraries/${id}`, {
+            userId: "reader",
+            bookData: { isbn: "", title: id, authors: [], categories: [] },
+            summaries: { en: { short: "", detailed: "", language: "en" } },
+            primaryLanguage: "en",
+            confidenceMetrics: { overallScore: 70 },
+            createdAt: new Date("2024-01-01"),
+            ...fields,
+        });
+    }
+
+    function search(scope: string, query = {}, refresh = false) {
+        return searchLibrary("reader", "editor", scope, query, refresh, firestore.asFirestore());
+    }
+
+    beforeEach(() => {
+        clearSearchIndexes();
+        firestore = new FakeFirestore();
+        saveItem("solitude", { bookData: { title: "Cien años de soledad", categories: ["Fiction"] }, createdAt: new Date("2024-01-03") });
+        saveItem("cholera", { bookData: { title: "Love in the Time of Cholera", categories: ["Fiction"] }, createdAt: new Date("2024-01-02") });
+        saveItem("cosmos", { bookData: { title: "Cosmos", categories: ["Science"] } });
+        saveItem("other", { userId: "someone-else", bookData: { title: "Cosmos for others" } });
+    });
+
+    it("searches the user's own items with the shared index", async () => {
+        const page = await search("mine", { text: "soledad " });
+
+        expect(page.ids).toEqual(["solitude"]);
+        expect(page.total).toBe(1);
+    });
+
+    it("counts facets and pages through every item, not only the first page", async () => {
+        const first = await search("mine", { limit: 2 });
+        const second = await search("mine", { limit: 2, cursor: first.nextCursor });
+
+        expect(first.ids).toEqual(["solitude", "cholera"]);
+        expect(first.total).toBe(3);
+        expect(first.facets.category).toEqual([{ value: "Fiction", count: 2 }, { value: "Science", count: 1 }]);
+        expect(second.ids).toEqual(["cosmos"]);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    it("indexes the user's annotations", async () => {
+        firestore.write("libraries/cosmos/annotations/note-1", {
+            itemId: "cosmos",
+            userId: "reader",
+            kind: "verify",
+            anchor: { quote: "", prefix: "", suffix: "", start: 0, end: 0 },
+            note: "Check the Voyager dates",
+        });
+        firestore.write("libraries/cosmos/annotations/note-2", {
+            itemId: "cosmos",
+            userId: "someone-else",
+            kind: "note",
+            anchor: { quote: "", prefix: "", suffix: "", start: 0, end: 0 },
+            note: "Pale blue dot",
+        });
+
+        expect((await search("mine", { text: "voyager " })).ids).toEqual(["cosmos"]);
+        expect((await search("mine", { text: "pale " })).total).toBe(0);
+    });
+
+    it("reuses the index until asked to refresh it", async () => {
+        await search("mine");
+        saveItem("odyssey", { bookData: { title: "The Odyssey" } });
+
+        expect((await search("mine", { text: "odyssey " })).total).toBe(0);
+        expect((await search("mine", { text: "odyssey " }, true)).ids).toEqual(["odyssey"]);
+    });
+
+    it("searches the review queue of the reviewer", async () => {
+        saveItem("cosmos", { userId: "author", review: { reviewerId: "reader", status: "in_review" } });
+        saveItem("cholera", { userId: "author", review: { reviewerId: "reader", status: "approved" } });
+
+        expect((await search("review")).ids).toEqual(["cosmos"]);
+    });
+
+    it("limits organization scopes to the member's visibility", async () => {
+        firestore.write("organizations/org-1/members/reader", { uid: "reader", teamIds: ["team-a"] });
+        saveItem("shared", { userId: "author", orgId: "org-1", visibility: "org" });
+        saveItem("team-a", { userId: "author", orgId: "org-1", visibility: "team", teamId: "team-a" });
+        saveItem("team-b", { userId: "author", orgId: "org-1", visibility: "team", teamId: "team-b" });
+        saveItem("private", { userId: "author", orgId: "org-1", visibility: "private" });
+
+        expect((await search("org-1")).ids.sort()).toEqual(["shared", "team-a"]);
+    });
+
+    it("refuses organizations the user is not a member of", async () => {
+        await expectAsync(search("org-2")).toBeRejectedWithError(SearchScopeError);
+    });
+
+    it("only lets roles that view every library search them all", async () => {
+        await expectAsync(search("all")).toBeRejectedWithError(SearchScopeError);
+
+        const page = await searchLibrary("reader", "auditor", "all", {}, false, firestore.asFirestore());
+        expect(page.total).toBe(4);
+    });
+});
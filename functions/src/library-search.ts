@@ -0,0 +1,147 @@
+import * as admin from "firebase-admin";
+import { UserLibraryItem } from "../../src/app/core/interfaces/book.interface";
+import { SummaryAnnotation } from "../../src/app/core/interfaces/annotation.interface";
+import { LibraryFacetCount, LibrarySearchFacet, LibrarySearchQuery } from "../../src/app/core/interfaces/library-search.interface";
+import { UserRole } from "../../src/app/core/interfaces/user.interface";
+import { LibrarySearchIndex } from "../../src/app/core/search/library-search-index";
+import { hasPermission } from "../../src/app/core/utils/permissions";
+
+// Server-side library search: the same inverted index the browser uses, built from Firestore for the
+// scopes the user may read, so facets and cursors cover the whole library and not only what a page loaded.
+
+// Items per page the endpoint returns at most; exports follow the cursors
+export const MAX_SEARCH_PAGE_SIZE = 200;
+
+// An index is reused for searches within this time, e.g. while the user types; edits send `refresh`
+const INDEX_TTL_MS = 60 * 1000;
+const MAX_CACHED_INDEXES = 200;
+
+// Matches on the requested page by id; the browser reads the documents itself, through the security rules
+export interface ServerSearchPage {
+    ids: string[];
+    total: number;
+    facets: Record<LibrarySearchFacet, LibraryFacetCount[]>;
+    nextCursor: string | null;
+}
+
+export class SearchScopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SearchScopeError";
+    }
+}
+
+const indexes = new Map<string, { index: LibrarySearchIndex; builtAt: number }>();
+
+function toItem(doc: admin.firestore.QueryDocumentSnapshot): UserLibraryItem {
+    const data = doc.data();
+    return { id: doc.id, ...data, createdAt: data.createdAt?.toDate?.() || new Date(0) } as UserLibraryItem;
+}
+
+async function queryItems(query: admin.firestore.Query): Promise<UserLibraryItem[]> {
+    const snapshot = await query.get();
+    return snapshot.docs.map(toItem);
+}
+
+/**
+ * The items of a library scope, with the same visibility as the library page: own items, the review
+ * queue, every item for roles with `library:viewAll`, or what an organization member can see.
+ */
+export async function loadScopeItems(
+    uid: string,
+    role: UserRole,
+    scope: string,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<UserLibraryItem[]> {
+    const libraries = db.collection("libraries");
+
+    if (scope === "mine") {
+        return queryItems(libraries.where("userId", "==", uid));
+    }
+    if (scope === "review") {
+        return queryItems(libraries.where("review.reviewerId", "==", uid).where("review.status", "==", "in_review"));
+    }
+    if (scope === "all") {
+        if (!hasPermission(role, "library:viewAll")) {
+            throw new SearchScopeError("Your account cannot search every library.");
+        }
+        return queryItems(libraries);
+    }
+
+    const member = await db.collection("organizations").doc(scope).collection("members").doc(uid).get();
+    if (!member.exists) {
+        throw new SearchScopeError("You are not a member of this organization.");
+    }
+    const teamIds: string[] = member.data()?.teamIds || [];
+    const results = await Promise.all([
+        queryItems(libraries.where("orgId", "==", scope).where("visibility", "==", "org")),
+        ...teamIds.map((teamId) => queryItems(
+            libraries.where("orgId", "==", scope).where("visibility", "==", "team").where("teamId", "==", teamId)
+        )),
+    ]);
+    return results.flat();
+}
+
+// The user's own annotations by item id; they are private, so every scope indexes only these
+async function loadAnnotations(uid: string, db: admin.firestore.Firestore): Promise<Map<string, SummaryAnnotation[]>> {
+    const snapshot = await db.collectionGroup("annotations").where("userId", "==", uid).get();
+    const grouped = new Map<string, SummaryAnnotation[]>();
+    snapshot.docs.forEach((doc) => {
+        const annotation = { id: doc.id, ...doc.data() } as SummaryAnnotation;
+        grouped.set(annotation.itemId, [...(grouped.get(annotation.itemId) || []), annotation]);
+    });
+    return grouped;
+}
+
+async function getIndex(
+    uid: string,
+    role: UserRole,
+    scope: string,
+    refresh: boolean,
+    db: admin.firestore.Firestore
+): Promise<LibrarySearchIndex> {
+    const key = `${uid}/${scope}`;
+    const cached = indexes.get(key);
+    if (cached && !refresh && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+        return cached.index;
+    }
+
+    const [items, annotations] = await Promise.all([loadScopeItems(uid, role, scope, db), loadAnnotations(uid, db)]);
+    const index = new LibrarySearchIndex();
+    index.replaceAll(items, annotations);
+
+    indexes.delete(key);
+    indexes.set(key, { index, builtAt: Date.now() });
+    // Maps keep insertion order, so the first key is the least recently built index
+    if (indexes.size > MAX_CACHED_INDEXES) {
+        indexes.delete(indexes.keys().next().value!);
+    }
+    return index;
+}
+
+/**
+ * Search a library scope for the user. `refresh` rebuilds the index after the library changed.
+ */
+export async function searchLibrary(
+    uid: string,
+    role: UserRole,
+    scope: string,
+    query: LibrarySearchQuery,
+    refresh = false,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<ServerSearchPage> {
+    const index = await getIndex(uid, role, scope, refresh, db);
+    const page = index.search({ ...query, limit: query.limit && Math.min(query.limit, MAX_SEARCH_PAGE_SIZE) });
+
+    return {
+        ids: page.items.map((item) => item.id!),
+        total: page.total,
+        facets: page.facets,
+        nextCursor: page.nextCursor,
+    };
+}
+
+// Specs start from an empty cache
+export function clearSearchIndexes(): void {
+    indexes.clear();
+}
@@ -0,0 +1,33 @@
+import { FakeFirestore } from "./testing/fake-firestore";
+import { cleanupDeletedOrganization } from "./organization-cleanup";
+
+describe("cleanupDeletedOrganization", () => {
+    let firestore: FakeFirestore;
+
+    beforeEach(() => {
+        firestore = new FakeFirestore();
+        firestore.write("organizations/org-1/members/owner", { uid: "owner", role: "owner" });
+        firestore.write("organizations/org-1/members/editor", { uid: "editor", role: "member" });
+        firestore.write("organizations/org-1/teams/team-a", { name: "Team A" });
+        firestore.write("organizations/org-2/members/owner", { uid: "owner", role: "owner" });
+        firestore.write("invitations/pending", { orgId: "org-1", email: "new@example.com", status: "pending" });
+        firestore.write("invitations/accepted", { orgId: "org-1", email: "editor@example.com", status: "accepted" });
+        firestore.write("invitations/elsewhere", { orgId: "org-2", email: "new@example.com", status: "pending" });
+    });
+
+    it("deletes the members and teams of the organization only", async () => {
+        const result = await cleanupDeletedOrganization("org-1", firestore.asFirestore());
+
+        expect(result).toEqual({ members: 2, teams: 1, invitations: 1 });
+        expect(Array.from(firestore.documents.keys()).filter((path) => path.startsWith("organizations/")))
+            .toEqual(["organizations/org-2/members/owner"]);
+    });
+
+    it("revokes pending invitations so they can no longer be accepted", async () => {
+        await cleanupDeletedOrganization("org-1", firestore.asFirestore());
+
+        expect(firestore.documents.get("invitations/pending")?.status).toBe("revoked");
+        expect(firestore.documents.get("invitations/accepted")?.status).toBe("accepted");
+        expect(firestore.documents.get("invitations/elsewhere")?.status).toBe("pending");
+    });
+});
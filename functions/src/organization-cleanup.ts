@@ -0,0 +1,37 @@
+import * as admin from "firebase-admin";
+import { commitWrites, deleteDocuments } from "./firestore-batches";
+
+export interface OrganizationCleanupResult {
+    members: number;
+    teams: number;
+    invitations: number; // Pending invitations revoked
+}
+
+/**
+ * Remove what an organization leaves behind once its document is deleted: the member and team
+ * subcollections, which Firestore keeps, and pending invitations, which could otherwise still be
+ * accepted. Library items shared with the organization stay with their authors; without members
+ * nobody else can read them through the organization.
+ */
+export async function cleanupDeletedOrganization(
+    orgId: string,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<OrganizationCleanupResult> {
+    const organization = db.collection("organizations").doc(orgId);
+    const [members, teams, invitations] = await Promise.all([
+        organization.collection("members").get(),
+        organization.collection("teams").get(),
+        db.collection("invitations").where("orgId", "==", orgId).where("status", "==", "pending").get(),
+    ]);
+
+    await commitWrites(db, invitations.docs.map((invitation) => (batch) => batch.update(invitation.ref, {
+        status: "revoked",
+        respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })));
+
+    return {
+        members: await deleteDocuments(db, members.docs.map((doc) => doc.ref)),
+        teams: await deleteDocuments(db, teams.docs.map((doc) => doc.ref)),
+        invitations: invitations.size,
+    };
+}
@@ -0,0 +1,111 @@
+import { FakeFirestore } from "./testing/fake-firestore";
+import { QUOTA_PLANS, admitSummary, consumeQuota, getQuotaStatus } from "./quotas";
+
+function periods(now = new Date()): { day: string; month: string } {
+    const month = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+    return { day: `${month}-${String(now.getUTCDate()).padStart(2, "0")}`, month };
+}
+
+describe("quotas", () => {
+    let firestore: FakeFirestore;
+
+    function setUsage(uid: string, daily: number, monthly: number): void {
+        firestore.write(`users/${uid}/usage/${periods().day}`, { count: daily });
+        firestore.write(`users/${uid}/usage/${periods().month}`, { count: monthly });
+    }
+
+    function usage(uid: string): { daily: number; monthly: number } {
+        return {
+            daily: firestore.documents.get(`users/${uid}/usage/${periods().day}`)?.count || 0,
+            monthly: firestore.documents.get(`users/${uid}/usage/${periods().month}`)?.count || 0,
+        };
+    }
+
+    beforeEach(() => {
+        firestore = new FakeFirestore();
+        firestore.write("users/reader", {});
+        firestore.write("users/subscriber", { plan: "pro" });
+        firestore.write("users/administrator", { role: "admin", plan: "free" });
+    });
+
+    describe("getQuotaStatus", () => {
+        it("uses the free plan for users without a known plan", async () => {
+            firestore.write("users/reader", { plan: "platinum" });
+
+            const status = await getQuotaStatus("reader", firestore.asFirestore());
+            expect(status.plan).toBe("free");
+            expect(status.daily).toEqual({ limit: QUOTA_PLANS.free.daily, used: 0, remaining: QUOTA_PLANS.free.daily });
+        });
+
+        it("gives admins the admin plan whatever plan they are on", async () => {
+            expect((await getQuotaStatus("administrator", firestore.asFirestore())).plan).toBe("admin");
+        });
+
+        it("does not count anything", async () => {
+            await getQuotaStatus("reader", firestore.asFirestore());
+            expect(usage("reader")).toEqual({ daily: 0, monthly: 0 });
+        });
+    });
+
+    describe("consumeQuota", () => {
+        it("counts one summary against the daily and monthly quotas", async () => {
+            setUsage("subscriber", 3, 40);
+
+            const status = await consumeQuota("subscriber", firestore.asFirestore());
+            expect(status.allowed).toBeTrue();
+            expect(status.daily.remaining).toBe(QUOTA_PLANS.pro.daily - 4);
+            expect(usage("subscriber")).toEqual({ daily: 4, monthly: 41 });
+        });
+
+        it("allows the request that uses up the last summary", async () => {
+            setUsage("reader", QUOTA_PLANS.free.daily - 1, 20);
+
+            const status = await consumeQuota("reader", firestore.asFirestore());
+            expect(status.allowed).toBeTrue();
+            expect(status.exceeded).toBeUndefined();
+            expect(status.daily.remaining).toBe(0);
+        });
+
+        it("refuses at the daily limit without counting", async () => {
+            setUsage("reader", QUOTA_PLANS.free.daily, 20);
+
+            const status = await consumeQuota("reader", firestore.asFirestore());
+            expect(status.allowed).toBeFalse();
+            expect(status.exceeded).toBe("daily");
+            expect(usage("reader")).toEqual({ daily: QUOTA_PLANS.free.daily, monthly: 20 });
+        });
+
+        it("refuses at the monthly limit", async () => {
+            setUsage("reader", 0, QUOTA_PLANS.free.monthly);
+
+            expect((await consumeQuota("reader", firestore.asFirestore())).exceeded).toBe("monthly");
+        });
+    });
+
+    describe("admitSummary", () => {
+        it("counts the summary when the user and the free tier both allow it", async () => {
+            const admission = await admitSummary("reader", async () => false, firestore.asFirestore());
+
+            expect(admission.refusal).toBeUndefined();
+            expect(usage("reader")).toEqual({ daily: 1, monthly: 1 });
+        });
+
+        it("does not charge the user when the free tier limit is reached", async () => {
+            setUsage("reader", 2, 2);
+
+            const admission = await admitSummary("reader", async () => true, firestore.asFirestore());
+            expect(admission.refusal).toBe("global");
+            expect(admission.quota.daily.used).toBe(2);
+            expect(usage("reader")).toEqual({ daily: 2, monthly: 2 });
+        });
+
+        it("refuses users over their quota before touching the free tier limit", async () => {
+            setUsage("reader", QUOTA_PLANS.free.daily, 20);
+            const isGlobalLimitReached = jasmine.createSpy("isGlobalLimitReached").and.resolveTo(false);
+
+            const admission = await admitSummary("reader", isGlobalLimitReached, firestore.asFirestore());
+            expect(admission.refusal).toBe("quota");
+            expect(isGlobalLimitReached).not.toHaveBeenCalled();
+        });
+    });
+});
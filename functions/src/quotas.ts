@@ -0,0 +1,127 @@
+import * as admin from "firebase-admin";
+
+export interface QuotaLimits {
+    daily: number;
+    monthly: number;
+}
+
+// Why a summary may not be generated: the user's own quota, or the free tier limit shared by everyone
+export type QuotaRefusal = "quota" | "global";
+
+export interface SummaryAdmission {
+    quota: QuotaStatus;
+    refusal?: QuotaRefusal; // Absent when the summary may be generated; it has then been counted
+}
+
+export interface QuotaStatus {
+    plan: string;
+    allowed: boolean;
+    exceeded?: "daily" | "monthly";
+    daily: { limit: number; used: number; remaining: number };
+    monthly: { limit: number; used: number; remaining: number };
+}
+
+// Summaries a user may generate per plan. The plan is read from `users/{uid}.plan`;
+// users with the `admin` role always get the admin plan. Cache hits never count.
+export const QUOTA_PLANS: Record<string, QuotaLimits> = {
+    free: { daily: 10, monthly: 100 },
+    pro: { daily: 100, monthly: 2000 },
+    admin: { daily: 1000, monthly: 20000 },
+};
+const DEFAULT_PLAN = "free";
+
+function getPeriodKeys(now = new Date()): { day: string; month: string } {
+    const month = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+    return {
+        day: `${month}-${String(now.getUTCDate()).padStart(2, "0")}`,
+        month,
+    };
+}
+
+function resolvePlan(user: admin.firestore.DocumentData | undefined): string {
+    if (user?.role === "admin") return "admin";
+    return user?.plan && QUOTA_PLANS[user.plan] ? user.plan : DEFAULT_PLAN;
+}
+
+function buildStatus(plan: string, dailyUsed: number, monthlyUsed: number): QuotaStatus {
+    const limits = QUOTA_PLANS[plan];
+    const exceeded = dailyUsed >= limits.daily ? "daily" : monthlyUsed >= limits.monthly ? "monthly" : undefined;
+
+    return {
+        plan,
+        allowed: !exceeded,
+        exceeded,
+        daily: { limit: limits.daily, used: dailyUsed, remaining: Math.max(0, limits.daily - dailyUsed) },
+        monthly: { limit: limits.monthly, used: monthlyUsed, remaining: Math.max(0, limits.monthly - monthlyUsed) },
+    };
+}
+
+/**
+ * Read the user's quota without consuming it
+ */
+export async function getQuotaStatus(uid: string, db = admin.firestore()): Promise<QuotaStatus> {
+    const userRef = db.collection("users").doc(uid);
+    const periods = getPeriodKeys();
+
+    const [user, daily, monthly] = await Promise.all([
+        userRef.get(),
+        userRef.collection("usage").doc(periods.day).get(),
+        userRef.collection("usage").doc(periods.month).get(),
+    ]);
+
+    return buildStatus(resolvePlan(user.data()), daily.data()?.count || 0, monthly.data()?.count || 0);
+}
+
+/**
+ * Count one generated summary against the user's daily and monthly quotas, unless either is exhausted.
+ * Usage is stored in `users/{uid}/usage/{YYYY-MM-DD}` and `users/{uid}/usage/{YYYY-MM}`.
+ */
+export async function consumeQuota(uid: string, db = admin.firestore()): Promise<QuotaStatus> {
+    const userRef = db.collection("users").doc(uid);
+    const periods = getPeriodKeys();
+    const dailyRef = userRef.collection("usage").doc(periods.day);
+    const monthlyRef = userRef.collection("usage").doc(periods.month);
+
+    return db.runTransaction(async (transaction) => {
+        const [user, daily, monthly] = await Promise.all([
+            transaction.get(userRef),
+            transaction.get(dailyRef),
+            transaction.get(monthlyRef),
+        ]);
+
+        const status = buildStatus(resolvePlan(user.data()), daily.data()?.count || 0, monthly.data()?.count || 0);
+        if (!status.allowed) {
+            return status;
+        }
+
+        const now = new Date();
+        transaction.set(dailyRef, { count: status.daily.used + 1, period: "day", updatedAt: now }, { merge: true });
+        transaction.set(monthlyRef, { count: status.monthly.used + 1, period: "month", updatedAt: now }, { merge: true });
+
+        // This request was within quota even if it used up the last remaining summary
+        return { ...buildStatus(status.plan, status.daily.used + 1, status.monthly.used + 1), allowed: true, exceeded: undefined };
+    });
+}
+
+/**
+ * Decide whether the user may generate one summary and count it if so. The user's quota is read first,
+ * then the shared free tier limit; the summary is only counted against the user once both allow it, so
+ * requests refused by the free tier limit cost the user nothing.
+ */
+export async function admitSummary(
+    uid: string,
+    isGlobalLimitReached: () => Promise<boolean>,
+    db = admin.firestore()
+): Promise<SummaryAdmission> {
+    const status = await getQuotaStatus(uid, db);
+    if (!status.allowed) {
+        return { quota: status, refusal: "quota" };
+    }
+    if (await isGlobalLimitReached()) {
+        return { quota: status, refusal: "global" };
+    }
+
+    // Another request may have used the last summary in the meantime
+    const quota = await consumeQuota(uid, db);
+    return quota.allowed ? { quota } : { quota, refusal: "quota" };
+}
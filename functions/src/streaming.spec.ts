@@ -0,0 +1,80 @@
+import { JsonStringFieldStreamer, sendEvent, startEventStream } from "./streaming";
+
+describe("JsonStringFieldStreamer", () => {
+    let deltas: [string, string][];
+    let streamer: JsonStringFieldStreamer;
+
+    function streamed(field: string): string {
+        return deltas.filter(([name]) => name === field).map(([, text]) => text).join("");
+    }
+
+    beforeEach(() => {
+        deltas = [];
+        streamer = new JsonStringFieldStreamer(["shortSummary", "detailedSummary"], (field, text) => deltas.push([field, text]));
+    });
+
+    it("forwards each field's text as it arrives, without repeating it", () => {
+        ["{\"shortSummary\": \"La no", "vela sigue", " a una familia\", \"detailedSummary\":", " \"Larga\"}"]
+            .forEach((chunk) => streamer.push(chunk));
+
+        expect(deltas).toEqual([
+            ["shortSummary", "La no"],
+            ["shortSummary", "vela sigue"],
+            ["shortSummary", " a una familia"],
+            ["detailedSummary", "Larga"],
+        ]);
+    });
+
+    it("decodes escapes, waiting for those split across chunks", () => {
+        ["{\"shortSummary\": \"Dijo \\", "\"hola\\\" y se fue\\n", "El a\\u00", "f1o\"}"].forEach((chunk) => streamer.push(chunk));
+
+        expect(streamed("shortSummary")).toBe("Dijo \"hola\" y se fue\nEl año");
+        // The incomplete escapes were held back instead of sent as raw backslashes
+        expect(deltas.every(([, text]) => !text.includes("\\"))).toBeTrue();
+    });
+
+    it("ignores fields it was not asked for", () => {
+        streamer.push("{\"keyPoints\": [\"Uno\"], \"shortSummary\": \"Corto\"}");
+
+        expect(deltas).toEqual([["shortSummary", "Corto"]]);
+    });
+});
+
+describe("server-sent events", () => {
+    function fakeResponse() {
+        return {
+            statusCode: 0,
+            headers: {} as Record<string, string>,
+            body: "",
+            status(code: number) {
+                this.statusCode = code;
+            },
+            set(name: string, value: string) {
+                this.headers[name] = value;
+            },
+            write(text: string) {
+                this.body += text;
+            },
+        };
+    }
+
+    it("opens an uncached event stream", () => {
+        const response = fakeResponse();
+        startEventStream(response);
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers["Content-Type"]).toBe("text/event-stream; charset=utf-8");
+        expect(response.headers["Cache-Control"]).toBe("no-cache");
+    });
+
+    it("writes one event per block with its data as JSON", () => {
+        const response = fakeResponse();
+        sendEvent(response, "short_delta", { text: "Línea\nnueva" });
+        sendEvent(response, "confidence", { confidenceScore: 82 });
+
+        expect(response.body).toBe(
+            "event: short_delta\ndata: {\"text\":\"Línea\\nnueva\"}\n\n" +
+            "event: confidence\ndata: {\"confidenceScore\":82}\n\n"
+        );
+    });
+});
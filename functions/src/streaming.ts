@@ -0,0 +1,86 @@
+/**
+ * Server-sent events helpers for the streaming mode of generateBookSummary.
+ *
+ * Events, in order: `short_delta` and `detailed_delta` ({ text }) while the model writes,
+ * then `confidence`, then `done` with the same payload the JSON contract returns. `error` ends the stream early.
+ */
+export type SummaryStreamEvent = "short_delta" | "detailed_delta" | "confidence" | "done" | "error";
+
+export function startEventStream(response: any): void {
+    response.status(200);
+    response.set("Content-Type", "text/event-stream; charset=utf-8");
+    response.set("Cache-Control", "no-cache");
+    response.set("Connection", "keep-alive");
+    response.set("X-Accel-Buffering", "no");
+    response.flushHeaders?.();
+}
+
+export function sendEvent(response: any, event: SummaryStreamEvent, data: unknown): void {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Pulls the values of top-level string fields out of a JSON object while it is still being generated,
+ * so the text can be forwarded before the closing brace arrives.
+ */
+export class JsonStringFieldStreamer {
+    private buffer = "";
+    private emitted: Record<string, number> = {};
+
+    constructor(
+        private fields: string[],
+        private onDelta: (field: string, text: string) => void
+    ) { }
+
+    push(chunk: string): void {
+        this.buffer += chunk;
+
+        for (const field of this.fields) {
+            const value = this.readPartialString(field);
+            if (value === null) continue;
+
+            const alreadyEmitted = this.emitted[field] || 0;
+            if (value.length > alreadyEmitted) {
+                this.onDelta(field, value.substring(alreadyEmitted));
+                this.emitted[field] = value.length;
+            }
+        }
+    }
+
+    // Decoded value of `field` so far, or null if the field has not started yet
+    private readPartialString(field: string): string | null {
+        const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(this.buffer);
+        if (!start) return null;
+
+        let value = "";
+        let i = start.index + start[0].length;
+
+        while (i < this.buffer.length) {
+            const char = this.buffer[i];
+            if (char === "\"") break;
+
+            if (char !== "\\") {
+                value += char;
+                i++;
+                continue;
+            }
+
+            // Wait for the rest of an escape sequence split across chunks
+            const next = this.buffer[i + 1];
+            if (next === undefined) break;
+            if (next === "u") {
+                const hex = this.buffer.substring(i + 2, i + 6);
+                if (hex.length < 4) break;
+                value += String.fromCharCode(parseInt(hex, 16));
+                i += 6;
+                continue;
+            }
+
+            const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+            value += escapes[next] ?? next;
+            i += 2;
+        }
+
+        return value;
+    }
+}
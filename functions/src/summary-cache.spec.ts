@@ -0,0 +1,123 @@
+import { FakeFirestore } from "./testing/fake-firestore";
+import { AIBookSummary, SummaryRequest } from "./interfaces";
+import {
+    SummaryCacheVersion,
+    getCachedSummary,
+    getSummaryCacheVersionHash,
+    invalidateCachedSummaries,
+    storeCachedSummary,
+} from "./summary-cache";
+
+const VERSION: SummaryCacheVersion = {
+    promptVersion: "book-summary@1",
+    preset: {
+        id: "standard",
+        shortLength: { min: 250, max: 300 },
+        detailedLength: { min: 800, max: 1000 },
+        structure: "prose",
+        tone: "Neutral and academic.",
+    },
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.1,
+    maxTokens: 1200,
+    baseUrl: "",
+};
+
+function request(fields: Partial<SummaryRequest> = {}): SummaryRequest {
+    return {
+        title: "Cien años de soledad",
+        authors: ["Gabriel García Márquez"],
+        isbn: "978-0-06-088328-7",
+        description: "La historia de la familia Buendía.",
+        categories: ["Fiction"],
+        publisher: "Sudamericana",
+        publishedDate: "1967",
+        pageCount: 417,
+        language: "es",
+        targetLanguage: "es",
+        ...fields,
+    };
+}
+
+function summary(shortSummary: string): AIBookSummary {
+    return { shortSummary, detailedSummary: "", generatedAt: new Date("2024-03-01") } as unknown as AIBookSummary;
+}
+
+describe("summary cache", () => {
+    let firestore: FakeFirestore;
+    const hash = getSummaryCacheVersionHash(VERSION);
+
+    beforeEach(() => {
+        firestore = new FakeFirestore();
+    });
+
+    describe("getSummaryCacheVersionHash", () => {
+        it("is stable for the same settings and changes with any of them", () => {
+            expect(getSummaryCacheVersionHash({ ...VERSION })).toBe(hash);
+            expect(getSummaryCacheVersionHash({ ...VERSION, promptVersion: "book-summary@2" })).not.toBe(hash);
+            expect(getSummaryCacheVersionHash({ ...VERSION, model: "gpt-4o" })).not.toBe(hash);
+            expect(getSummaryCacheVersionHash({ ...VERSION, preset: { ...VERSION.preset, tone: "Warm and simple." } })).not.toBe(hash);
+        });
+    });
+
+    describe("getCachedSummary", () => {
+        it("returns what was stored for the same ISBN, book data, language and version", async () => {
+            await storeCachedSummary(request(), hash, summary("Cached"), firestore.asFirestore());
+
+            // ISBN formatting does not matter
+            const cached = await getCachedSummary(request({ isbn: "9780060883287" }), hash, firestore.asFirestore());
+            expect(cached?.shortSummary).toBe("Cached");
+            expect(cached?.generatedAt).toEqual(new Date("2024-03-01"));
+        });
+
+        it("keeps separate entries per target language, version and book data", async () => {
+            await storeCachedSummary(request(), hash, summary("Cached"), firestore.asFirestore());
+            const db = firestore.asFirestore();
+
+            expect(await getCachedSummary(request({ targetLanguage: "en" }), hash, db)).toBeNull();
+            expect(await getCachedSummary(request(), getSummaryCacheVersionHash({ ...VERSION, model: "gpt-4o" }), db)).toBeNull();
+            // Same ISBN sent with other metadata must not read, or overwrite, the summary other users get
+            expect(await getCachedSummary(request({ title: "Something else" }), hash, db)).toBeNull();
+        });
+
+        it("drops expired entries", async () => {
+            await storeCachedSummary(request(), hash, summary("Cached"), firestore.asFirestore());
+            const [path] = Array.from(firestore.documents.keys());
+            firestore.write(path, { expiresAt: new Date(Date.now() - 1000) }, true);
+
+            expect(await getCachedSummary(request(), hash, firestore.asFirestore())).toBeNull();
+            expect(firestore.documents.size).toBe(0);
+        });
+    });
+
+    describe("invalidateCachedSummaries", () => {
+        beforeEach(async () => {
+            const db = firestore.asFirestore();
+            await storeCachedSummary(request(), hash, summary("es"), db);
+            await storeCachedSummary(request({ targetLanguage: "en" }), hash, summary("en"), db);
+            await storeCachedSummary(request({ isbn: "9780140449136", title: "The Odyssey" }), hash, summary("other"), db);
+        });
+
+        it("deletes every entry for the ISBN", async () => {
+            expect(await invalidateCachedSummaries("978-0-06-088328-7", undefined, firestore.asFirestore())).toBe(2);
+            expect(await getCachedSummary(request(), hash, firestore.asFirestore())).toBeNull();
+            expect(firestore.documents.size).toBe(1);
+        });
+
+        it("can be limited to one target language", async () => {
+            expect(await invalidateCachedSummaries("9780060883287", "en", firestore.asFirestore())).toBe(1);
+            expect((await getCachedSummary(request(), hash, firestore.asFirestore()))?.shortSummary).toBe("es");
+        });
+
+        it("deletes more entries than fit in one batch", async () => {
+            for (let i = 0; i < 600; i++) {
+                firestore.write(`summaryCache/extra-${i}`, { isbn: "9780060883287", targetLanguage: "fr" }, false);
+            }
+
+            expect(await invalidateCachedSummaries("9780060883287", undefined, firestore.asFirestore())).toBe(602);
+            expect(firestore.commits).toEqual([500, 102]);
+            expect(firestore.documents.size).toBe(1);
+        });
+    });
+});
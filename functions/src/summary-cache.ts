@@ -0,0 +1,133 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { createHash } from "crypto";
+import { cleanISBN } from "../../src/app/core/utils/isbn";
+import { deleteDocuments } from "./firestore-batches";
+import { AIBookSummary, SummaryRequest } from "./interfaces";
+import { SummaryPreset } from "../../src/app/core/interfaces/summary-preset.interface";
+
+// Cached summaries expire after this many days. Configure a Firestore TTL policy on
+// `summaryCache.expiresAt` so expired documents are also removed from storage.
+const SUMMARY_CACHE_TTL_DAYS = 30;
+const SUMMARY_CACHE_COLLECTION = "summaryCache";
+
+export interface SummaryCacheVersion {
+    promptVersion: string;
+    preset: Pick<SummaryPreset, "id" | "shortLength" | "detailedLength" | "structure" | "tone">;
+    provider: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    baseUrl: string;
+}
+
+/**
+ * Short hash of everything that changes the model output besides the book itself
+ */
+export function getSummaryCacheVersionHash(version: SummaryCacheVersion): string {
+    return createHash("sha256")
+        .update(JSON.stringify(version))
+        .digest("hex")
+        .substring(0, 12);
+}
+
+/**
+ * Short hash of the book data the prompt is built from. The client sends this data, so a request with a real
+ * ISBN but different metadata gets its own cache entry instead of replacing the summary other users see.
+ */
+function getBookInputHash(request: SummaryRequest): string {
+    return createHash("sha256")
+        .update(JSON.stringify([
+            request.title,
+            request.authors,
+            request.description,
+            request.categories,
+            request.publisher,
+            request.publishedDate,
+            request.pageCount,
+            request.language,
+        ]))
+        .digest("hex")
+        .substring(0, 12);
+}
+
+function getCacheDocId(request: SummaryRequest, versionHash: string): string {
+    return `${cleanISBN(request.isbn)}_${request.targetLanguage}_${versionHash}_${getBookInputHash(request)}`;
+}
+
+/**
+ * Return a cached summary for the same ISBN, book data, target language and prompt/model version, if still fresh
+ */
+export async function getCachedSummary(
+    request: SummaryRequest,
+    versionHash: string,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<AIBookSummary | null> {
+    try {
+        const docRef = db.collection(SUMMARY_CACHE_COLLECTION).doc(getCacheDocId(request, versionHash));
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            return null;
+        }
+
+        const data = doc.data()!;
+        if (data.expiresAt?.toDate() <= new Date()) {
+            await docRef.delete();
+            return null;
+        }
+
+        docRef.update({ hits: admin.firestore.FieldValue.increment(1), lastHitAt: new Date() })
+            .catch((error) => logger.warn("Failed to record summary cache hit:", error));
+
+        return {
+            ...data.summary,
+            generatedAt: data.summary.generatedAt?.toDate() || new Date(),
+        } as AIBookSummary;
+    } catch (error) {
+        logger.warn("Summary cache lookup failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Store a freshly generated summary. Cache failures never fail the request.
+ */
+export async function storeCachedSummary(
+    request: SummaryRequest,
+    versionHash: string,
+    summary: AIBookSummary,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<void> {
+    try {
+        const now = new Date();
+        await db.collection(SUMMARY_CACHE_COLLECTION).doc(getCacheDocId(request, versionHash)).set({
+            isbn: cleanISBN(request.isbn),
+            targetLanguage: request.targetLanguage,
+            versionHash,
+            summary,
+            hits: 0,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + SUMMARY_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000),
+        });
+    } catch (error) {
+        logger.warn("Failed to store summary in cache:", error);
+    }
+}
+
+/**
+ * Delete every cached summary for an ISBN, optionally limited to one target language. An ISBN can have
+ * more entries than fit in one batch, so the deletes are committed in chunks.
+ */
+export async function invalidateCachedSummaries(
+    isbn: string,
+    targetLanguage?: string,
+    db: admin.firestore.Firestore = admin.firestore()
+): Promise<number> {
+    let query = db.collection(SUMMARY_CACHE_COLLECTION).where("isbn", "==", cleanISBN(isbn));
+    if (targetLanguage) {
+        query = query.where("targetLanguage", "==", targetLanguage);
+    }
+
+    const snapshot = await query.get();
+    return deleteDocuments(db, snapshot.docs.map((doc) => doc.ref));
+}
@@ -0,0 +1,37 @@
+import * as admin from "firebase-admin";
+import { SummaryPreset } from "../../src/app/core/interfaces/summary-preset.interface";
+import { getBuiltInPreset, validateSummaryPreset } from "../../src/app/core/llm/summary-presets";
+
+// Custom presets are written by admins from the app; see firestore.rules
+const SUMMARY_PRESET_COLLECTION = "summaryPresets";
+
+/**
+ * Look up a built-in or custom preset; no id means the standard preset.
+ * Returns null when the preset does not exist or fails validation.
+ */
+export async function resolveSummaryPreset(presetId?: string): Promise<SummaryPreset | null> {
+    const builtIn = getBuiltInPreset(presetId);
+    if (builtIn) {
+        return builtIn;
+    }
+    if (!/^[A-Za-z0-9_-]{1,128}$/.test(presetId || "")) {
+        return null; // Not a document id
+    }
+
+    const doc = await admin.firestore().collection(SUMMARY_PRESET_COLLECTION).doc(presetId!).get();
+    if (!doc.exists) {
+        return null;
+    }
+
+    const data = doc.data()!;
+    const preset: SummaryPreset = {
+        id: doc.id,
+        name: data.name,
+        description: data.description || "",
+        shortLength: data.shortLength,
+        detailedLength: data.detailedLength,
+        structure: data.structure,
+        tone: data.tone || "",
+    };
+    return validateSummaryPreset(preset).length === 0 ? preset : null;
+}
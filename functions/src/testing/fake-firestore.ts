@@ -0,0 +1,161 @@
+import * as admin from "firebase-admin";
+
+// In-memory stand-in for the parts of the Admin SDK Firestore API the functions use, for specs.
+// Dates come back as Timestamp-like objects, as they do from Firestore.
+
+type Data = Record<string, any>;
+
+function toStored(value: any): any {
+    if (value instanceof Date) return { toDate: () => value };
+    if (Array.isArray(value)) return value.map(toStored);
+    if (value && typeof value === "object" && !("toDate" in value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toStored(inner)]));
+    }
+    return value;
+}
+
+class FakeSnapshot {
+    constructor(readonly ref: FakeDocument, private stored: Data | undefined) { }
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): Data | undefined {
+        return this.stored;
+    }
+}
+
+class FakeDocument {
+    constructor(private db: FakeFirestore, readonly path: string) { }
+
+    get id(): string {
+        return this.path.split("/").pop()!;
+    }
+
+    collection(name: string): FakeCollection {
+        return new FakeCollection(this.db, `${this.path}/${name}`);
+    }
+
+    async get(): Promise<FakeSnapshot> {
+        return new FakeSnapshot(this, this.db.documents.get(this.path));
+    }
+
+    async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+        this.db.write(this.path, data, options?.merge);
+    }
+
+    async update(data: Data): Promise<void> {
+        this.db.write(this.path, data, true);
+    }
+
+    async delete(): Promise<void> {
+        this.db.documents.delete(this.path);
+    }
+}
+
+// Field paths may be dotted, as in `review.status`
+function fieldValue(data: Data, field: string): any {
+    return field.split(".").reduce((value, key) => value?.[key], data);
+}
+
+class FakeQuery {
+    constructor(
+        protected db: FakeFirestore,
+        readonly path: string,
+        private filters: [string, any][] = [],
+        private group = false // Collection group query: every collection named `path`
+    ) { }
+
+    where(field: string, operator: "==", value: any): FakeQuery {
+        return new FakeQuery(this.db, this.path, [...this.filters, [field, value]], this.group);
+    }
+
+    async get(): Promise<{ docs: FakeSnapshot[]; size: number; empty: boolean }> {
+        const docs = Array.from(this.db.documents.entries())
+            .filter(([path]) => this.contains(path))
+            .filter(([, data]) => this.filters.every(([field, value]) => fieldValue(data, field) === value))
+            .map(([path, data]) => new FakeSnapshot(new FakeDocument(this.db, path), data));
+        return { docs, size: docs.length, empty: docs.length === 0 };
+    }
+
+    private contains(path: string): boolean {
+        const segments = path.split("/");
+        if (this.group) {
+            return segments[segments.length - 2] === this.path;
+        }
+        return path.startsWith(`${this.path}/`) && !path.substring(this.path.length + 1).includes("/");
+    }
+}
+
+class FakeCollection extends FakeQuery {
+    doc(id: string): FakeDocument {
+        return new FakeDocument(this.db, `${this.path}/${id}`);
+    }
+}
+
+class FakeBatch {
+    private writes: (() => void)[] = [];
+
+    constructor(private db: FakeFirestore) { }
+
+    set(ref: FakeDocument, data: Data, options?: { merge?: boolean }): FakeBatch {
+        this.writes.push(() => this.db.write(ref.path, data, options?.merge));
+        return this;
+    }
+
+    update(ref: FakeDocument, data: Data): FakeBatch {
+        this.writes.push(() => this.db.write(ref.path, data, true));
+        return this;
+    }
+
+    delete(ref: FakeDocument): FakeBatch {
+        this.writes.push(() => this.db.documents.delete(ref.path));
+        return this;
+    }
+
+    async commit(): Promise<void> {
+        this.db.commits.push(this.writes.length);
+        if (this.writes.length > 500) {
+            throw new Error("A batch can contain at most 500 writes");
+        }
+        this.writes.forEach((write) => write());
+    }
+}
+
+export class FakeFirestore {
+    readonly documents = new Map<string, Data>();
+    readonly commits: number[] = []; // Writes in each committed batch
+
+    collection(name: string): FakeCollection {
+        return new FakeCollection(this, name);
+    }
+
+    collectionGroup(name: string): FakeQuery {
+        return new FakeQuery(this, name, [], true);
+    }
+
+    batch(): FakeBatch {
+        return new FakeBatch(this);
+    }
+
+    async runTransaction<T>(update: (transaction: FakeBatch & { get(ref: FakeDocument): Promise<FakeSnapshot> }) => Promise<T>): Promise<T> {
+        const batch = this.batch();
+        const result = await update(Object.assign(batch, { get: (ref: FakeDocument) => ref.get() }));
+        await batch.commit();
+        return result;
+    }
+
+    write(path: string, data: Data, merge = false): void {
+        this.documents.set(path, { ...(merge ? this.documents.get(path) : {}), ...toStored(data) });
+    }
+
+    // Typed as the Admin SDK Firestore for the functions under test
+    asFirestore(): admin.firestore.Firestore {
+        return this as unknown as admin.firestore.Firestore;
+    }
+}
@@ -1,4 +1,6 @@
 import { Routes } from '@angular/router';
+import { authGuard, guestGuard } from './core/guards/auth.guard';
+import { permissionGuard } from './core/guards/permission.guard';
 
 export const routes: Routes = [
     {
@@ -8,6 +10,7 @@ export const routes: Routes = [
     },
     {
         path: 'login',
+        canActivate: [guestGuard],
         loadComponent: () => import('./components/login/login.component').then(m => m.LoginComponent)
     },
     {
@@ -20,22 +23,54 @@ export const routes: Routes = [
     },
     {
         path: 'signup',
+        canActivate: [guestGuard],
         loadComponent: () => import('./components/signup/signup.component').then(m => m.SignupComponent)
     },
     {
         path: 'dashboard',
+        canActivate: [authGuard],
         loadComponent: () => import('./components/dashboard/dashboard.component').then(m => m.DashboardComponent)
     },
     {
         path: 'book-summary',
+        canActivate: [authGuard, permissionGuard],
+        data: { permission: 'summaries:generate' },
         loadComponent: () => import('./components/book-summary/book-summary.component').then(m => m.BookSummaryComponent)
     },
     {
         path: 'library',
+        canActivate: [authGuard],
         loadComponent: () => import('./components/library/library.component').then(m => m.LibraryComponent)
     },
+    {
+        path: 'collections',
+        canActivate: [authGuard],
+        loadComponent: () => import('./components/collections/collections.component').then(m => m.CollectionsComponent)
+    },
+    {
+        path: 'shared/:shareId',
+        loadComponent: () => import('./components/shared-collection/shared-collection.component').then(m => m.SharedCollectionComponent)
+    },
+    {
+        path: 'organizations',
+        canActivate: [authGuard],
+        loadComponent: () => import('./components/organizations/organizations.component').then(m => m.OrganizationsComponent)
+    },
+    {
+        path: 'summary-presets',
+        canActivate: [authGuard, permissionGuard],
+        data: { permission: 'presets:manage' },
+        loadComponent: () => import('./components/summary-presets/summary-presets.component').then(m => m.SummaryPresetsComponent)
+    },
+    {
+        path: 'prompt-experiments',
+        canActivate: [authGuard, permissionGuard],
+        data: { permission: 'library:viewAll' },
+        loadComponent: () => import('./components/prompt-experiments/prompt-experiments.component').then(m => m.PromptExperimentsComponent)
+    },
     {
         path: 'settings',
+        canActivate: [authGuard],
         loadComponent: () => import('./components/settings/settings.component').then(m => m.SettingsComponent)
     },
     {
@@ -0,0 +1,121 @@
+import { Component, Input, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { BatchJobService } from '../../core/services/batch-job.service';
+import { BatchJob, BatchJobItem, BatchStatus, ParsedIsbnList, SummaryLanguage } from '../../core/interfaces';
+import { SUMMARY_LANGUAGES } from '../../core/languages/language-registry';
+
+@Component({
+    selector: 'app-batch-summary',
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './batch-summary.component.html',
+    styleUrls: ['./batch-summary.component.scss']
+})
+export class BatchSummaryComponent implements OnDestroy {
+
+    @Input() language = 'en';
+
+    readonly languages: SummaryLanguage[] = SUMMARY_LANGUAGES;
+
+    isbnText = '';
+    parsed: ParsedIsbnList = { valid: [], invalid: [], duplicates: 0 };
+    isSubmitting = false;
+    errorMessage = '';
+
+    job: BatchJob | null = null;
+    items: BatchJobItem[] = [];
+
+    private jobSubscription?: Subscription;
+
+    constructor(public batchJobService: BatchJobService) { }
+
+    ngOnDestroy(): void {
+        this.jobSubscription?.unsubscribe();
+    }
+
+    onTextChange(): void {
+        this.parsed = this.batchJobService.parseIsbnList(this.isbnText);
+        this.errorMessage = '';
+    }
+
+    async onFileSelected(event: Event): Promise<void> {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        if (!file) return;
+
+        try {
+            const content = await file.text();
+            this.isbnText = this.isbnText.trim() ? `${this.isbnText.trim()}\n${content}` : content;
+            this.onTextChange();
+        } catch (error) {
+            console.error('Error reading ISBN file:', error);
+            this.errorMessage = 'Could not read the selected file.';
+        } finally {
+            input.value = '';
+        }
+    }
+
+    async startBatch(): Promise<void> {
+        if (this.parsed.valid.length === 0 || this.isSubmitting) return;
+
+        if (this.parsed.valid.length > this.batchJobService.MAX_ITEMS_PER_JOB) {
+            this.errorMessage = `A batch can contain at most ${this.batchJobService.MAX_ITEMS_PER_JOB} ISBNs.`;
+            return;
+        }
+
+        this.isSubmitting = true;
+        this.errorMessage = '';
+
+        try {
+            const jobId = await this.batchJobService.createJob(this.parsed.valid, this.language);
+            this.watch(jobId);
+            this.isbnText = '';
+            this.parsed = { valid: [], invalid: [], duplicates: 0 };
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to create batch job.';
+        } finally {
+            this.isSubmitting = false;
+        }
+    }
+
+    clearJob(): void {
+        this.jobSubscription?.unsubscribe();
+        this.job = null;
+        this.items = [];
+    }
+
+    get progressPercent(): number {
+        if (!this.job || this.job.total === 0) return 0;
+        return Math.round(((this.job.completed + this.job.failed) / this.job.total) * 100);
+    }
+
+    countByStatus(status: BatchStatus): number {
+        return this.items.filter(item => item.status === status).length;
+    }
+
+    getStatusClass(status: BatchStatus): string {
+        switch (status) {
+            case 'done': return 'bg-green-100 text-green-800';
+            case 'running': return 'bg-blue-100 text-blue-800';
+            case 'failed': return 'bg-red-100 text-red-800';
+            default: return 'bg-gray-100 text-gray-700';
+        }
+    }
+
+    private watch(jobId: string): void {
+        this.jobSubscription?.unsubscribe();
+        this.jobSubscription = this.batchJobService.watchJob(jobId).subscribe({
+            next: ({ job, items }) => {
+                this.job = job;
+                this.items = items;
+            },
+            error: (error) => {
+                console.error('Error watching batch job:', error);
+                this.errorMessage = 'Lost connection to the batch job. Reload to see its progress.';
+            }
+        });
+    }
+}
@@ -6,20 +6,44 @@ import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { AuthService } from '../../core/services/auth.service';
 import { BookService } from '../../core/services/book.service';
+import { CloudFunctionService } from '../../core/services/cloud-function.service';
 import { RecentActivityService } from '../../core/services/recent-activity.service';
+import { SummaryPresetService } from '../../core/services/summary-preset.service';
 import { ConfidenceMetricsComponent } from '../confidence-metrics/confidence-metrics.component';
-import { AuthUser } from '../../core/interfaces';
+import { BatchSummaryComponent } from '../batch-summary/batch-summary.component';
+import { StructuredSummaryComponent } from '../structured-summary/structured-summary.component';
+import { AuthUser, StructuredSummary, SummaryLanguage, SummaryPreset, SummaryQuota, SummaryStreamProgress } from '../../core/interfaces';
+import { validateISBN10, validateISBN13 } from '../../core/utils/isbn';
+import { createSummaryVariant } from '../../core/utils/summary-variants';
+import { describeElectoralRelevance } from '../../core/utils/structured-summary';
+import { BUILT_IN_SUMMARY_PRESETS, DEFAULT_SUMMARY_PRESET_ID } from '../../core/llm/summary-presets';
+import { checkSummaryLanguage } from '../../core/llm/summary-language';
+import {
+    FALLBACK_SUMMARY_LANGUAGE,
+    SUMMARY_LANGUAGES,
+    getNativeLanguageName,
+    isRtlLanguage,
+    isSummaryLanguage
+} from '../../core/languages/language-registry';
 
 @Component({
     selector: 'app-book-summary',
     standalone: true,
-    imports: [CommonModule, ReactiveFormsModule, RouterModule, ConfidenceMetricsComponent],
+    imports: [
+        CommonModule,
+        ReactiveFormsModule,
+        RouterModule,
+        ConfidenceMetricsComponent,
+        BatchSummaryComponent,
+        StructuredSummaryComponent
+    ],
     templateUrl: './book-summary.component.html',
     styleUrls: ['./book-summary.component.scss']
 })
 export class BookSummaryComponent implements OnInit, OnDestroy {
 
     isbnForm!: FormGroup;
+    mode: 'single' | 'batch' = 'single';
     isLoading = false;
     errorMessage = '';
     successMessage = '';
@@ -28,17 +52,13 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
     summaries: any = null;
     confidenceMetrics: any = null;
     aiSummary: any = null;
+    quota: SummaryQuota | null = null;
+    streamingSummary: SummaryStreamProgress | null = null;
+    presets: SummaryPreset[] = BUILT_IN_SUMMARY_PRESETS; // Custom presets are added once loaded
 
     private destroy$ = new Subject<void>();
 
-    languageMap: Record<string, string> = {
-        'en': 'English',
-        'es': 'Español',
-        'fr': 'Français',
-        'de': 'Deutsch',
-        'it': 'Italiano',
-        'pt': 'Português'
-    };
+    languages: SummaryLanguage[] = SUMMARY_LANGUAGES;
 
     isDemoMode = false;
 
@@ -46,13 +66,28 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
         private fb: FormBuilder,
         private authService: AuthService,
         private bookService: BookService,
+        private cloudFunctionService: CloudFunctionService,
         private recentActivityService: RecentActivityService,
+        private summaryPresetService: SummaryPresetService,
         private route: ActivatedRoute
     ) { }
 
     ngOnInit(): void {
         this.initializeForm();
         this.checkQueryParams();
+        this.loadPresets();
+
+        this.cloudFunctionService.quota$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(quota => this.quota = quota);
+    }
+
+    private async loadPresets(): Promise<void> {
+        this.presets = await this.summaryPresetService.getPresets();
+    }
+
+    get selectedPreset(): SummaryPreset | undefined {
+        return this.presets.find(preset => preset.id === this.isbnForm.get('preset')?.value);
     }
 
     private checkQueryParams(): void {
@@ -71,12 +106,12 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
 
     private initializeForm(): void {
         const browserLang = navigator.language.split('-')[0];
-        const supportedLanguages = ['en', 'es', 'fr', 'de', 'it', 'pt'];
-        const defaultLang = supportedLanguages.includes(browserLang) ? browserLang : 'en';
+        const defaultLang = isSummaryLanguage(browserLang) ? browserLang : FALLBACK_SUMMARY_LANGUAGE.code;
 
         this.isbnForm = this.fb.group({
             isbn: ['', [Validators.required, this.isbnValidator.bind(this)]],
-            language: [defaultLang, Validators.required]
+            language: [defaultLang, Validators.required],
+            preset: [DEFAULT_SUMMARY_PRESET_ID, Validators.required]
         });
 
         this.isbnForm.valueChanges.subscribe(() => {
@@ -87,14 +122,7 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
     }
 
     static validateISBN10(isbn: string): boolean {
-        if (!/^[\dX]{10}$/.test(isbn)) return false;
-        let sum = 0;
-        for (let i = 0; i < 9; i++) {
-            sum += (10 - i) * parseInt(isbn[i]);
-        }
-        let check = isbn[9] === 'X' ? 10 : parseInt(isbn[9]);
-        sum += check;
-        return sum % 11 === 0;
+        return validateISBN10(isbn);
     }
 
     isbnValidator(control: any): { [key: string]: boolean } | null {
@@ -113,17 +141,7 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
     }
 
     static validateISBN13(isbn: string): boolean {
-        if (!/^\d{13}$/.test(isbn)) return false;
-
-        let sum = 0;
-        for (let i = 0; i < 12; i++) {
-            sum += parseInt(isbn[i]) * (i % 2 === 0 ? 1 : 3);
-        }
-
-        const checkDigit = parseInt(isbn[12]);
-        const calculatedCheck = (10 - (sum % 10)) % 10;
-
-        return checkDigit === calculatedCheck;
+        return validateISBN13(isbn);
     }
 
     formatISBN(isbn: string): string {
@@ -145,7 +163,9 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
             this.successMessage = '';
             this.bookData = null;
             this.summaries = null;
+            this.aiSummary = null;
             this.confidenceMetrics = null;
+            this.streamingSummary = null;
 
             const { isbn, language } = this.isbnForm.value;
             const cleanISBN = isbn.replace(/[-\s]/g, '');
@@ -153,7 +173,11 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
             try {
                 this.bookData = await this.bookService.getBookByISBN(cleanISBN);
                 this.successMessage = 'Generating AI-powered summary... (This may take 10-30 seconds due to rate limiting)';
-                const summaryResult = await this.bookService.generateSummaries(this.bookData, language);
+                const summaryResult = await this.bookService.generateSummaries(this.bookData, language, {
+                    onProgress: progress => this.streamingSummary = progress,
+                    preset: this.selectedPreset
+                });
+                this.streamingSummary = null;
                 this.summaries = summaryResult.summary;
                 this.aiSummary = summaryResult.aiSummary;
 
@@ -183,7 +207,12 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
                 console.error('Error generating book summary:', error);
 
                 const errorMsg = error instanceof Error ? error.message : String(error);
-                if (
+                if (errorMsg.includes('Summary limit reached')) {
+                    this.limitMessage = `⏱️ ${errorMsg}`;
+                    this.errorMessage = '';
+                    this.successMessage = '';
+                    return;
+                } else if (
                     errorMsg.includes('rate limit') ||
                     errorMsg.includes('429') ||
                     errorMsg.includes('Too many requests')
@@ -213,6 +242,7 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
                 this.isbnForm.markAllAsTouched();
             } finally {
                 this.isLoading = false;
+                this.streamingSummary = null;
             }
         } else {
             this.isbnForm.markAllAsTouched();
@@ -252,7 +282,11 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
     }
 
     getLanguageName(code: string): string {
-        return this.languageMap[code] || code;
+        return getNativeLanguageName(code);
+    }
+
+    isRtl(code: string): boolean {
+        return isRtlLanguage(code);
     }
 
     generateDemoSummary(language: string): any {
@@ -285,6 +319,7 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
         }
 
         try {
+            const structured: StructuredSummary | undefined = this.aiSummary?.structured;
             const recentSummary = {
                 isbn: isbn,
                 title: this.bookData.title || 'Unknown Title',
@@ -294,9 +329,10 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
                 language: language,
                 isSaved: false,
                 summary: {
-                    overview: this.summaries.overview || '',
-                    keyPoints: this.summaries.keyPoints || [],
-                    electoralRelevance: this.summaries.electoralRelevance || ''
+                    overview: this.summaries.short || '',
+                    keyPoints: structured?.keyPoints || [],
+                    electoralRelevance: structured ? describeElectoralRelevance(structured) : '',
+                    ...(structured ? { structured } : {})
                 }
             };
 
@@ -308,46 +344,17 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
     }
 
     private validateSummaryLanguage(summaries: any, expectedLanguage: string): boolean {
-        if (!summaries || expectedLanguage === 'en') {
+        if (!summaries) {
             return true;
         }
 
-        const shortText = summaries.short?.toLowerCase() || '';
-        const detailedText = summaries.detailed?.toLowerCase() || '';
-        const fullText = `${shortText} ${detailedText}`;
-
-        const languagePatterns: Record<string, string[]> = {
-            'en': ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'this', 'that', 'these', 'those', 'is', 'are', 'was', 'were'],
-            'es': ['el', 'la', 'los', 'las', 'de', 'del', 'en', 'con', 'por', 'para', 'que', 'es', 'son', 'una', 'uno', 'esta', 'este', 'libro', 'obra'],
-            'fr': ['le', 'la', 'les', 'de', 'du', 'des', 'en', 'avec', 'pour', 'que', 'est', 'sont', 'une', 'un', 'cette', 'ce', 'livre', 'oeuvre'],
-            'de': ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'und', 'mit', 'für', 'ist', 'sind', 'diese', 'dieser', 'buch', 'werk'],
-            'it': ['il', 'la', 'lo', 'gli', 'le', 'di', 'del', 'in', 'con', 'per', 'che', 'è', 'sono', 'una', 'un', 'questo', 'questa', 'libro', 'opera'],
-            'pt': ['o', 'a', 'os', 'as', 'de', 'do', 'da', 'em', 'com', 'por', 'para', 'que', 'é', 'são', 'uma', 'um', 'este', 'esta', 'livro', 'obra']
-        };
-
-        const expectedWords = languagePatterns[expectedLanguage] || [];
-        const expectedWordCount = expectedWords.filter(word =>
-            fullText.includes(` ${word} `) || fullText.startsWith(`${word} `) || fullText.endsWith(` ${word}`)
-        ).length;
-
-        let wrongLanguageCount = 0;
-        if (expectedLanguage !== 'en') {
-            const englishWords = languagePatterns['en'];
-            wrongLanguageCount = englishWords.filter(word =>
-                fullText.includes(` ${word} `) || fullText.startsWith(`${word} `) || fullText.endsWith(` ${word}`)
-            ).length;
-        }
-
-        const isValid = expectedWordCount >= 3 && wrongLanguageCount <= 1;
-
+        const languageCheck = checkSummaryLanguage({ shortSummary: summaries.short || '', detailedSummary: summaries.detailed || '' }, expectedLanguage);
         console.log(`Language validation for ${expectedLanguage}:`, {
-            expectedWordCount,
-            wrongLanguageCount,
-            isValid,
-            textSample: fullText.substring(0, 100)
+            purity: languageCheck.purity,
+            offendingSentences: languageCheck.offendingSentences
         });
 
-        return isValid;
+        return !languageCheck.flagged;
     }
 
     async saveToLibrary(): Promise<void> {
@@ -366,7 +373,10 @@ export class BookSummaryComponent implements OnInit, OnDestroy {
 
                 const libraryItemId = await this.bookService.saveToUserLibrary({
                     bookData: this.bookData,
-                    summaries: this.summaries,
+                    summaries: {
+                        [this.summaries.language]: createSummaryVariant(this.summaries, this.aiSummary, this.confidenceMetrics)
+                    },
+                    primaryLanguage: this.summaries.language,
                     confidenceMetrics: this.confidenceMetrics,
                     aiSummary: this.aiSummary,
                     createdAt: new Date(),
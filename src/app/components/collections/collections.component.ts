@@ -0,0 +1,223 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { CollectionService } from '../../core/services/collection.service';
+import { LibraryExportService } from '../../core/services/library-export.service';
+import { AnnotationService } from '../../core/services/annotation.service';
+import { EXPORT_FORMATS, ExportFormat } from '../../core/export/export-formats';
+import { getSummaryVariant } from '../../core/utils/summary-variants';
+import { CollectionEntry, CollectionKind, LibraryCollection, UserLibraryItem } from '../../core/interfaces';
+
+@Component({
+    selector: 'app-collections',
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './collections.component.html',
+    styleUrls: ['./collections.component.scss']
+})
+export class CollectionsComponent implements OnInit {
+    collections: LibraryCollection[] = [];
+    selected: LibraryCollection | null = null;
+
+    // Entries of the selected collection with their library items, in collection order
+    rows: { entry: CollectionEntry; item: UserLibraryItem }[] = [];
+
+    newName = '';
+    newKind: CollectionKind = 'collection';
+    newDescription = '';
+
+    editName = '';
+    editDescription = '';
+    editKind: CollectionKind = 'collection';
+
+    exportFormat: ExportFormat = 'pdf';
+    readonly exportFormats = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+        .map(format => ({ format, label: EXPORT_FORMATS[format].label }));
+
+    isLoading = true;
+    isSaving = false;
+    errorMessage = '';
+    successMessage = '';
+    exportWarning = '';
+
+    constructor(
+        private collectionService: CollectionService,
+        private libraryExportService: LibraryExportService,
+        private annotationService: AnnotationService
+    ) { }
+
+    ngOnInit(): void {
+        this.loadCollections();
+    }
+
+    get doneCount(): number {
+        return this.rows.filter(row => row.entry.done).length;
+    }
+
+    get shareUrl(): string {
+        return this.selected?.shareId ? this.collectionService.getShareUrl(this.selected.shareId) : '';
+    }
+
+    async loadCollections(selectedId?: string): Promise<void> {
+        try {
+            this.isLoading = true;
+            this.collections = await this.collectionService.getCollections();
+
+            const next = this.collections.find(current => current.id === (selectedId || this.selected?.id))
+                || this.collections[0]
+                || null;
+            await this.selectCollection(next);
+        } catch (error) {
+            this.errorMessage = 'Failed to load collections';
+            console.error('Error loading collections:', error);
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    async selectCollection(target: LibraryCollection | null): Promise<void> {
+        this.selected = target;
+        this.rows = [];
+        if (!target) return;
+
+        this.editName = target.name;
+        this.editDescription = target.description || '';
+        this.editKind = target.kind;
+        try {
+            const items = new Map((await this.collectionService.getCollectionItems(target)).map(item => [item.id, item]));
+            this.rows = target.entries
+                .filter(entry => items.has(entry.itemId))
+                .map(entry => ({ entry: { ...entry }, item: items.get(entry.itemId)! }));
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load collection items';
+        }
+    }
+
+    async createCollection(): Promise<void> {
+        await this.run(async () => {
+            const collectionId = await this.collectionService.createCollection(this.newName, this.newKind, this.newDescription);
+            this.newName = '';
+            this.newDescription = '';
+            await this.loadCollections(collectionId);
+        }, this.newKind === 'reading_list' ? 'Reading list created' : 'Collection created');
+    }
+
+    async saveDetails(): Promise<void> {
+        if (!this.selected) return;
+        await this.run(async () => {
+            await this.collectionService.updateDetails(this.selected!, {
+                name: this.editName,
+                description: this.editDescription,
+                kind: this.editKind
+            });
+            await this.loadCollections(this.selected!.id);
+        }, 'Details saved');
+    }
+
+    async move(index: number, offset: number): Promise<void> {
+        const target = index + offset;
+        if (target < 0 || target >= this.rows.length) return;
+
+        const rows = [...this.rows];
+        [rows[index], rows[target]] = [rows[target], rows[index]];
+        await this.saveRows(rows);
+    }
+
+    async toggleDone(index: number): Promise<void> {
+        const rows = [...this.rows];
+        rows[index] = { ...rows[index], entry: { ...rows[index].entry, done: !rows[index].entry.done } };
+        await this.saveRows(rows);
+    }
+
+    // Notes are edited in place and saved when the field loses focus
+    async saveNote(): Promise<void> {
+        await this.saveRows(this.rows, 'Note saved');
+    }
+
+    async removeEntry(index: number): Promise<void> {
+        await this.saveRows(this.rows.filter((_, current) => current !== index), 'Removed from collection');
+    }
+
+    async exportCollection(): Promise<void> {
+        this.exportWarning = '';
+        await this.run(async () => {
+            const items = this.rows.map(row => row.item);
+            const annotations = await this.annotationService.getAnnotations(items);
+            const warnings = await this.libraryExportService.exportItems(
+                items,
+                this.exportFormat,
+                item => getSummaryVariant(item),
+                false,
+                item => annotations.get(item.id || '') || []
+            );
+            this.exportWarning = warnings.join(' ');
+        });
+    }
+
+    async share(): Promise<void> {
+        if (!this.selected) return;
+        await this.run(async () => {
+            const shareId = await this.collectionService.share(this.selected!);
+            this.selected!.shareId = shareId;
+        }, 'Share link created. Anyone with the link can view this collection.');
+    }
+
+    async copyShareUrl(): Promise<void> {
+        try {
+            await navigator.clipboard.writeText(this.shareUrl);
+            this.successMessage = 'Link copied to clipboard';
+        } catch (error) {
+            console.error('Error copying share link:', error);
+            this.errorMessage = 'Could not copy the link';
+        }
+    }
+
+    async revokeShare(): Promise<void> {
+        if (!this.selected || !confirm('Revoke the share link? People who have it will no longer be able to open it.')) return;
+        await this.run(async () => {
+            await this.collectionService.revokeShare(this.selected!);
+            delete this.selected!.shareId;
+        }, 'Share link revoked');
+    }
+
+    async deleteCollection(): Promise<void> {
+        if (!this.selected || !confirm(`Delete "${this.selected.name}"? The books stay in your library.`)) return;
+        await this.run(async () => {
+            await this.collectionService.deleteCollection(this.selected!);
+            this.selected = null;
+            await this.loadCollections();
+        }, 'Collection deleted');
+    }
+
+    kindLabel(kind: CollectionKind): string {
+        return kind === 'reading_list' ? 'Reading list' : 'Collection';
+    }
+
+    private async saveRows(rows: { entry: CollectionEntry; item: UserLibraryItem }[], success = ''): Promise<void> {
+        if (!this.selected) return;
+        await this.run(async () => {
+            const entries = rows.map(row => row.entry);
+            await this.collectionService.saveEntries(this.selected!, entries);
+            this.selected!.entries = entries;
+            this.rows = rows;
+        }, success);
+    }
+
+    private async run(action: () => Promise<void>, success = ''): Promise<void> {
+        if (this.isSaving) return;
+
+        this.isSaving = true;
+        this.errorMessage = '';
+        this.successMessage = '';
+        try {
+            await action();
+            this.successMessage = success;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Something went wrong';
+            console.error('Collection action failed:', error);
+        } finally {
+            this.isSaving = false;
+        }
+    }
+}
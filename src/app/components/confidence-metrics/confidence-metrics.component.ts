@@ -1,6 +1,6 @@
 import { Component, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ConfidenceMetrics, AIBookSummary } from '../../core/interfaces';
+import { ConfidenceMetrics, AIBookSummary, GroundingClaim, GroundingLabel } from '../../core/interfaces';
 
 @Component({
     selector: 'app-confidence-metrics',
@@ -79,6 +79,25 @@ export class ConfidenceMetricsComponent {
         return type.replace(/_/g, '-');
     }
 
+    countClaims(label: GroundingLabel): number {
+        return this.aiSummary?.grounding?.claims.filter(claim => claim.label === label).length || 0;
+    }
+
+    getGroundingClass(label: GroundingLabel): string {
+        return 'grounding-claim ' + label.replace(/_/g, '-');
+    }
+
+    // Shown on hover so reviewers can see which description sentences or fields support the claim
+    getClaimEvidence(claim: GroundingClaim): string {
+        if (claim.label === 'unverifiable') {
+            return 'Nothing in this sentence can be checked against the book data';
+        }
+        if (claim.evidence.length === 0) {
+            return 'Not found in the description or metadata';
+        }
+        return `${claim.support}% supported by:\n` + claim.evidence.map(evidence => `• ${evidence.field}: ${evidence.text}`).join('\n');
+    }
+
     getProcessingMethodName(method: string): string {
         return method === 'openai_api' ? 'OpenAI API' : 'Template Fallback';
     }
@@ -3,7 +3,9 @@ import { CommonModule } from '@angular/common';
 import { Router, RouterModule } from '@angular/router';
 import { AuthService } from '../../core/services/auth.service';
 import { RecentActivityService } from '../../core/services/recent-activity.service';
+import { AccessControlService } from '../../core/services/access-control.service';
 import { RecentSummary } from '../../core/interfaces';
+import { ELECTORAL_RELEVANCE_LABELS } from '../../core/utils/structured-summary';
 
 @Component({
     selector: 'app-dashboard',
@@ -15,10 +17,15 @@ import { RecentSummary } from '../../core/interfaces';
 export class DashboardComponent implements OnInit {
     recentSummaries: RecentSummary[] = [];
     showClearConfirmation = false;
+    readonly relevanceLabels = ELECTORAL_RELEVANCE_LABELS;
+    readonly canGenerate$ = this.accessControl.can$('summaries:generate');
+    readonly canManagePresets$ = this.accessControl.can$('presets:manage');
+    readonly canComparePrompts$ = this.accessControl.can$('library:viewAll');
 
     constructor(
         public authService: AuthService,
         private recentActivityService: RecentActivityService,
+        private accessControl: AccessControlService,
         private router: Router
     ) { }
 
@@ -0,0 +1,104 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { LibraryImportPreview, LibraryImportResult, LibraryImportService } from '../../core/services/library-import.service';
+import { IMPORT_FORMAT_LABELS } from '../../core/import/import-parsers';
+import { ImportAction, ImportPlanRow, ImportPlanSummary, planImport, summarizePlan } from '../../core/import/import-plan';
+import { SUMMARY_LANGUAGES } from '../../core/languages/language-registry';
+
+@Component({
+    selector: 'app-library-import',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './library-import.component.html',
+    styleUrls: ['./library-import.component.scss']
+})
+export class LibraryImportComponent {
+    @Output() imported = new EventEmitter<LibraryImportResult>();
+
+    fileName = '';
+    preview: LibraryImportPreview | null = null;
+    rows: ImportPlanRow[] = [];
+    summary: ImportPlanSummary = { create: 0, generate: 0, duplicates: 0, skipped: 0 };
+    queueGeneration = true;
+    language = 'en';
+    isReading = false;
+    isImporting = false;
+    errorMessage = '';
+    result: LibraryImportResult | null = null;
+
+    readonly formatLabels = IMPORT_FORMAT_LABELS;
+    readonly languages = SUMMARY_LANGUAGES;
+
+    constructor(private libraryImportService: LibraryImportService) { }
+
+    async onFileSelected(event: Event): Promise<void> {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        if (!file) return;
+
+        this.isReading = true;
+        this.errorMessage = '';
+        this.result = null;
+        try {
+            this.fileName = file.name;
+            this.preview = await this.libraryImportService.preview(await file.text());
+            this.updatePlan();
+        } catch (error) {
+            console.error('Error reading import file:', error);
+            this.errorMessage = error instanceof Error ? error.message : 'Could not read the selected file.';
+            this.preview = null;
+            this.rows = [];
+        } finally {
+            this.isReading = false;
+            input.value = '';
+        }
+    }
+
+    updatePlan(): void {
+        if (!this.preview) return;
+        this.rows = planImport(this.preview.candidates, this.preview.library, { queueGeneration: this.queueGeneration });
+        this.summary = summarizePlan(this.rows);
+    }
+
+    async runImport(): Promise<void> {
+        if (this.isImporting || this.summary.create + this.summary.generate === 0) return;
+
+        this.isImporting = true;
+        this.errorMessage = '';
+        try {
+            this.result = await this.libraryImportService.runImport(this.rows, this.language);
+            this.preview = null;
+            this.rows = [];
+            this.imported.emit(this.result);
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to import library.';
+        } finally {
+            this.isImporting = false;
+        }
+    }
+
+    reset(): void {
+        this.preview = null;
+        this.rows = [];
+        this.result = null;
+        this.fileName = '';
+        this.errorMessage = '';
+    }
+
+    getActionLabel(action: ImportAction): string {
+        switch (action) {
+            case 'create': return 'Import';
+            case 'generate': return 'Generate';
+            default: return 'Skip';
+        }
+    }
+
+    getActionClass(action: ImportAction): string {
+        switch (action) {
+            case 'create': return 'bg-green-100 text-green-800';
+            case 'generate': return 'bg-blue-100 text-blue-800';
+            default: return 'bg-gray-100 text-gray-700';
+        }
+    }
+}
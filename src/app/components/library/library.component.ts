@@ -1,38 +1,156 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { RouterModule } from '@angular/router';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 
 import { AuthService } from '../../core/services/auth.service';
 import { BookService } from '../../core/services/book.service';
-import { AuthUser, UserLibraryItem } from '../../core/interfaces';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { OrganizationMembership, OrganizationService } from '../../core/services/organization.service';
+import { ReviewService } from '../../core/services/review.service';
+import { LibraryExportService } from '../../core/services/library-export.service';
+import { LibrarySearchService } from '../../core/services/library-search.service';
+import { CollectionService } from '../../core/services/collection.service';
+import { AnnotationService } from '../../core/services/annotation.service';
+import { ReviewPanelComponent } from '../review-panel/review-panel.component';
+import { VersionHistoryComponent } from '../version-history/version-history.component';
+import { LibraryImportComponent } from '../library-import/library-import.component';
+import { SummaryAnnotationsComponent } from '../summary-annotations/summary-annotations.component';
+import { StructuredSummaryComponent } from '../structured-summary/structured-summary.component';
+import { REVIEW_STATUS_LABELS, getApprovedLanguage, getReviewStatus } from '../../core/utils/review-workflow';
+import { getSummaryLanguages, getSummaryVariant } from '../../core/utils/summary-variants';
+import { EXPORT_FORMATS, ExportFormat } from '../../core/export/export-formats';
+import { parseTags } from '../../core/utils/tags';
+import { ANNOTATION_KIND_LABELS } from '../../core/utils/annotations';
+import { getStructuredSummary } from '../../core/utils/structured-summary';
+import { SUMMARY_LANGUAGES, getNativeLanguageName, isRtlLanguage, isSummaryLanguage } from '../../core/languages/language-registry';
+import { environment } from '../../../environments/environment';
+import {
+    AnnotationKind,
+    AuthUser,
+    ConfidenceBand,
+    LibraryCollection,
+    LibraryFacetCount,
+    LibrarySearchFacet,
+    LibrarySearchQuery,
+    LibrarySortOrder,
+    LibraryVisibility,
+    StructuredSummary,
+    SummaryAnnotation,
+    SummaryVariant,
+    UserLibraryItem
+} from '../../core/interfaces';
+
+// One entry of the per-item sharing menu; `key` is what the <select> binds to
+interface ShareTarget {
+    key: string;
+    label: string;
+    visibility: LibraryVisibility;
+    orgId?: string;
+    teamId?: string;
+}
+
+const CONFIDENCE_BAND_LABELS: Record<ConfidenceBand, string> = {
+    high: 'High (80+)',
+    medium: 'Medium (60-79)',
+    low: 'Low (40-59)',
+    very_low: 'Very Low (<40)'
+};
+
+// Shared by items without annotations so the annotations input keeps the same reference
+const NO_ANNOTATIONS: SummaryAnnotation[] = [];
 
 @Component({
     selector: 'app-library',
     standalone: true,
-    imports: [CommonModule, RouterModule],
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterModule,
+        ReviewPanelComponent,
+        VersionHistoryComponent,
+        LibraryImportComponent,
+        SummaryAnnotationsComponent,
+        StructuredSummaryComponent
+    ],
     templateUrl: './library.component.html',
     styleUrls: ['./library.component.scss']
 })
 export class LibraryComponent implements OnInit, OnDestroy {
     libraryItems: UserLibraryItem[] = [];
+    annotations = new Map<string, SummaryAnnotation[]>(); // By item id
     filteredItems: UserLibraryItem[] = [];
     isLoading = true;
     errorMessage = '';
+    exportWarning = '';
     searchTerm = '';
     sortBy = 'newest';
+    filters: Partial<Record<LibrarySearchFacet, string>> = {};
+    facets: Partial<Record<LibrarySearchFacet, LibraryFacetCount[]>> = {};
+    totalMatches = 0;
+    nextCursor: string | null = null;
+    isLoadingMore = false;
+    readonly PAGE_SIZE = 24;
+    selectedIds = new Set<string>();
+    collections: LibraryCollection[] = [];
+    bulkTags = '';
+    bulkCollectionId = '';
+    isBulkUpdating = false;
+    readonly facetList: { key: LibrarySearchFacet; label: string }[] = [
+        { key: 'language', label: 'Language' },
+        { key: 'category', label: 'Category' },
+        { key: 'tag', label: 'Tag' },
+        { key: 'annotation', label: 'Annotations' },
+        { key: 'confidenceBand', label: 'Confidence' },
+        { key: 'publisher', label: 'Publisher' },
+        { key: 'year', label: 'Year' }
+    ];
     expandedItems = new Set<string>();
+    historyItems = new Set<string>();
+    canGenerate = false;
+    canEdit = false;
+    canViewAll = false;
+    organizations: OrganizationMembership[] = [];
+    shareTargets: ShareTarget[] = [{ key: 'private', label: 'Private', visibility: 'private' }];
+    scope = 'mine'; // 'mine', 'review', 'all' or an organization id
+    selectedLanguages: Record<string, string> = {}; // Variant shown per item id; the primary one when unset
+    regenerateItemId: string | null = null;
+    regenerateLanguage = 'en';
+    regenerateModel = '';
+    isRegenerating = false;
+    isExporting = false;
+    showImport = false;
+    bulkExportFormat: ExportFormat = 'pdf';
+    bulkExportOfficial = false;
+    readonly exportFormats = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+        .map(format => ({ format, label: EXPORT_FORMATS[format].label }));
+
+    readonly languages = SUMMARY_LANGUAGES;
+    readonly defaultModel = environment.llm.model;
+    readonly alternativeModels = environment.llm.alternativeModels;
 
+    private searchRequest = 0;
     private destroy$ = new Subject<void>();
 
     constructor(
         private authService: AuthService,
-        private bookService: BookService
+        private bookService: BookService,
+        private accessControl: AccessControlService,
+        private organizationService: OrganizationService,
+        private reviewService: ReviewService,
+        private libraryExportService: LibraryExportService,
+        private librarySearchService: LibrarySearchService,
+        private collectionService: CollectionService,
+        private annotationService: AnnotationService
     ) { }
 
     ngOnInit(): void {
         this.checkAuthState();
+        this.loadPermissions();
+        this.loadOrganizations();
+        this.loadCollections();
         this.loadLibrary();
     }
 
@@ -52,12 +170,67 @@ export class LibraryComponent implements OnInit, OnDestroy {
             });
     }
 
+    private async loadPermissions(): Promise<void> {
+        [this.canGenerate, this.canEdit, this.canViewAll] = await Promise.all([
+            this.accessControl.can('summaries:generate'),
+            this.accessControl.can('library:edit'),
+            this.accessControl.can('library:viewAll')
+        ]);
+    }
+
+    private async loadOrganizations(): Promise<void> {
+        this.organizations = await this.organizationService.getMyOrganizations();
+
+        const targets: ShareTarget[] = [{ key: 'private', label: 'Private', visibility: 'private' }];
+        for (const { organization, member } of this.organizations) {
+            targets.push({ key: `org:${organization.id}`, label: organization.name, visibility: 'org', orgId: organization.id });
+            if (member.teamIds.length === 0) continue;
+
+            const teams = await this.organizationService.getTeams(organization.id!).catch(() => []);
+            teams
+                .filter(team => member.teamIds.includes(team.id!))
+                .forEach(team => targets.push({
+                    key: `team:${organization.id}:${team.id}`,
+                    label: `${organization.name} / ${team.name}`,
+                    visibility: 'team',
+                    orgId: organization.id,
+                    teamId: team.id
+                }));
+        }
+        this.shareTargets = targets;
+    }
+
+    private async loadCollections(): Promise<void> {
+        this.collections = await this.collectionService.getCollections();
+    }
+
+    get scopeMembership(): OrganizationMembership | null {
+        return this.organizations.find(membership => membership.organization.id === this.scope) || null;
+    }
+
+    get scopeTitle(): string {
+        if (this.scope === 'all') return 'All Libraries';
+        if (this.scope === 'review') return 'Review Queue';
+        return this.scopeMembership?.organization.name || 'My Library';
+    }
+
     async loadLibrary(): Promise<void> {
         try {
             this.isLoading = true;
-            this.libraryItems = await this.bookService.getUserLibrary();
-            this.filteredItems = [...this.libraryItems];
-            this.sortLibrary();
+            this.errorMessage = '';
+            const membership = this.scopeMembership;
+            if (membership) {
+                this.libraryItems = await this.bookService.getOrganizationLibrary(membership.organization.id!, membership.member.teamIds);
+            } else if (this.scope === 'review') {
+                this.libraryItems = await this.reviewService.getAssignedReviews();
+            } else if (this.scope === 'all') {
+                this.libraryItems = await this.bookService.getAllLibraryItems();
+            } else {
+                this.libraryItems = await this.bookService.getUserLibrary();
+            }
+            this.annotations = await this.annotationService.getAnnotations(this.libraryItems);
+            await this.librarySearchService.index(this.scope, this.libraryItems, this.annotations);
+            await this.runSearch();
         } catch (error) {
             this.errorMessage = 'Failed to load library';
             console.error('Error loading library:', error);
@@ -66,64 +239,119 @@ export class LibraryComponent implements OnInit, OnDestroy {
         }
     }
 
+    // Imported items are always private, so they show up under My Library
+    async onImported(): Promise<void> {
+        if (this.scope !== 'mine') {
+            await this.onScopeChange('mine');
+        } else {
+            await this.loadLibrary();
+        }
+    }
+
+    async onScopeChange(scope: string): Promise<void> {
+        this.scope = scope;
+        this.expandedItems.clear();
+        this.historyItems.clear();
+        this.regenerateItemId = null;
+        this.filters = {};
+        this.selectedIds.clear();
+        await this.loadLibrary();
+    }
+
     onSearch(event: any): void {
-        this.searchTerm = event.target.value.toLowerCase();
-        this.filterAndSort();
+        this.searchTerm = event.target.value;
+        this.runSearch();
     }
 
     onSortChange(event: any): void {
         this.sortBy = event.target.value;
-        this.filterAndSort();
-    }
-
-    private filterAndSort(): void {
-        if (this.searchTerm) {
-            this.filteredItems = this.libraryItems.filter(item =>
-                item.bookData.title.toLowerCase().includes(this.searchTerm) ||
-                item.bookData.authors.some(author =>
-                    author.toLowerCase().includes(this.searchTerm)
-                ) ||
-                item.bookData.categories.some(category =>
-                    category.toLowerCase().includes(this.searchTerm)
-                )
-            );
+        this.runSearch();
+    }
+
+    onFilterChange(facet: LibrarySearchFacet, value: string): void {
+        if (value) {
+            this.filters[facet] = value;
         } else {
-            this.filteredItems = [...this.libraryItems];
-        }
-
-        this.sortLibrary();
-    }
-
-    private sortLibrary(): void {
-        switch (this.sortBy) {
-            case 'newest':
-                this.filteredItems.sort((a, b) =>
-                    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-                );
-                break;
-            case 'oldest':
-                this.filteredItems.sort((a, b) =>
-                    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-                );
-                break;
-            case 'title':
-                this.filteredItems.sort((a, b) =>
-                    a.bookData.title.localeCompare(b.bookData.title)
-                );
-                break;
-            case 'author':
-                this.filteredItems.sort((a, b) =>
-                    a.bookData.authors[0].localeCompare(b.bookData.authors[0])
-                );
-                break;
-            case 'confidence':
-                this.filteredItems.sort((a, b) =>
-                    b.confidenceMetrics.overallScore - a.confidenceMetrics.overallScore
-                );
-                break;
+            delete this.filters[facet];
+        }
+        this.runSearch();
+    }
+
+    // Facet options, keeping the selected value listed even when it fell out of the top counts
+    facetOptions(facet: LibrarySearchFacet): LibraryFacetCount[] {
+        const options = this.facets[facet] || [];
+        const selected = this.filters[facet];
+        return selected && !options.some(option => option.value === selected)
+            ? [{ value: selected, count: 0 }, ...options]
+            : options;
+    }
+
+    languageName(code: string): string {
+        return getNativeLanguageName(code);
+    }
+
+    isRtl(code: string): boolean {
+        return isRtlLanguage(code);
+    }
+
+    facetLabel(facet: LibrarySearchFacet, value: string): string {
+        if (facet === 'language') return isSummaryLanguage(value) ? getNativeLanguageName(value) : value.toUpperCase();
+        if (facet === 'confidenceBand') return CONFIDENCE_BAND_LABELS[value as ConfidenceBand] || value;
+        if (facet === 'annotation') return ANNOTATION_KIND_LABELS[value as AnnotationKind] || value;
+        return value;
+    }
+
+    get hasFilters(): boolean {
+        return Object.keys(this.filters).length > 0;
+    }
+
+    clearFilters(): void {
+        this.filters = {};
+        this.runSearch();
+    }
+
+    // Keystrokes can overlap; only the latest search updates the list
+    private async runSearch(): Promise<void> {
+        const request = ++this.searchRequest;
+        try {
+            const page = await this.librarySearchService.search(this.scope, this.searchQuery());
+            if (request !== this.searchRequest) return;
+
+            this.filteredItems = page.items;
+            this.totalMatches = page.total;
+            this.facets = page.facets;
+            this.nextCursor = page.nextCursor;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to search library';
+            console.error('Error searching library:', error);
+        }
+    }
+
+    async loadMore(): Promise<void> {
+        if (!this.nextCursor || this.isLoadingMore) return;
+
+        this.isLoadingMore = true;
+        try {
+            const page = await this.librarySearchService.search(this.scope, { ...this.searchQuery(), cursor: this.nextCursor });
+            this.filteredItems = [...this.filteredItems, ...page.items];
+            this.nextCursor = page.nextCursor;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load more summaries';
+            console.error('Error loading more summaries:', error);
+        } finally {
+            this.isLoadingMore = false;
         }
     }
 
+    private searchQuery(): LibrarySearchQuery {
+        return {
+            text: this.searchTerm,
+            filters: { ...this.filters },
+            sort: this.sortBy as LibrarySortOrder,
+            limit: this.PAGE_SIZE
+        };
+    }
+
     getConfidenceColor(score: number): string {
         if (score >= 80) return 'text-green-600 bg-green-100';
         if (score >= 60) return 'text-yellow-600 bg-yellow-100';
@@ -150,6 +378,266 @@ export class LibraryComponent implements OnInit, OnDestroy {
         return this.expandedItems.has(itemId);
     }
 
+    toggleHistory(itemId: string): void {
+        if (this.historyItems.has(itemId)) {
+            this.historyItems.delete(itemId);
+        } else {
+            this.historyItems.add(itemId);
+        }
+    }
+
+    isHistoryOpen(itemId: string): boolean {
+        return this.historyItems.has(itemId);
+    }
+
+    variantOf(item: UserLibraryItem): SummaryVariant {
+        return getSummaryVariant(item, this.selectedLanguages[item.id || '']);
+    }
+
+    structuredOf(item: UserLibraryItem): StructuredSummary | undefined {
+        return getStructuredSummary(this.variantOf(item));
+    }
+
+    languagesOf(item: UserLibraryItem): string[] {
+        return getSummaryLanguages(item);
+    }
+
+    selectLanguage(item: UserLibraryItem, language: string): void {
+        this.selectedLanguages[item.id || ''] = language;
+    }
+
+    openRegenerate(item: UserLibraryItem): void {
+        this.regenerateItemId = this.regenerateItemId === item.id ? null : item.id || null;
+        this.regenerateLanguage = this.variantOf(item).language;
+        this.regenerateModel = '';
+    }
+
+    // Regenerating an existing language replaces its text; the previous text stays in the version history
+    async regenerate(item: UserLibraryItem): Promise<void> {
+        if (this.isRegenerating) return;
+
+        const language = this.regenerateLanguage;
+        if (item.summaries[language]
+            && !confirm(`Replace the ${getNativeLanguageName(language)} summary? The current text stays in the version history.`)) {
+            return;
+        }
+
+        this.isRegenerating = true;
+        this.errorMessage = '';
+        try {
+            await this.bookService.regenerateSummary(item, language, this.regenerateModel || undefined);
+            this.selectedLanguages[item.id || ''] = language;
+            this.regenerateItemId = null;
+            await this.loadLibrary();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to regenerate summary';
+            console.error('Error regenerating summary:', error);
+        } finally {
+            this.isRegenerating = false;
+        }
+    }
+
+    async setPrimaryLanguage(item: UserLibraryItem, language: string): Promise<void> {
+        try {
+            await this.bookService.setPrimaryLanguage(item, language);
+            await this.loadLibrary();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to change the primary language';
+            console.error('Error setting primary language:', error);
+        }
+    }
+
+    async removeLanguage(item: UserLibraryItem, language: string): Promise<void> {
+        if (!confirm(`Remove the ${getNativeLanguageName(language)} summary from this item?`)) {
+            return;
+        }
+
+        try {
+            await this.bookService.removeSummaryVariant(item, language);
+            delete this.selectedLanguages[item.id || ''];
+            await this.loadLibrary();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to remove summary';
+            console.error('Error removing summary variant:', error);
+        }
+    }
+
+    isSelected(item: UserLibraryItem): boolean {
+        return this.selectedIds.has(item.id || '');
+    }
+
+    toggleSelected(item: UserLibraryItem): void {
+        if (!item.id) return;
+        if (this.selectedIds.has(item.id)) {
+            this.selectedIds.delete(item.id);
+        } else {
+            this.selectedIds.add(item.id);
+        }
+    }
+
+    get allShownSelected(): boolean {
+        return this.filteredItems.length > 0 && this.filteredItems.every(item => this.isSelected(item));
+    }
+
+    toggleSelectAll(): void {
+        if (this.allShownSelected) {
+            this.filteredItems.forEach(item => this.selectedIds.delete(item.id || ''));
+        } else {
+            this.filteredItems.forEach(item => item.id && this.selectedIds.add(item.id));
+        }
+    }
+
+    clearSelection(): void {
+        this.selectedIds.clear();
+    }
+
+    // Tags are stored on the item, so only items the user manages can be tagged
+    private selectedManageableIds(): string[] {
+        return this.libraryItems
+            .filter(item => item.id && this.selectedIds.has(item.id) && this.canManage(item))
+            .map(item => item.id!);
+    }
+
+    async bulkAddTags(): Promise<void> {
+        await this.bulkUpdate(() => this.bookService.addTags(this.selectedManageableIds(), parseTags(this.bulkTags)), true);
+    }
+
+    async bulkRemoveTags(): Promise<void> {
+        await this.bulkUpdate(() => this.bookService.removeTags(this.selectedManageableIds(), parseTags(this.bulkTags)), true);
+    }
+
+    async bulkAddToCollection(): Promise<void> {
+        const target = this.collections.find(current => current.id === this.bulkCollectionId);
+        if (!target) return;
+        await this.bulkUpdate(() => this.collectionService.addItems(target, Array.from(this.selectedIds)), false);
+    }
+
+    async bulkRemoveFromCollection(): Promise<void> {
+        const target = this.collections.find(current => current.id === this.bulkCollectionId);
+        if (!target) return;
+        await this.bulkUpdate(() => this.collectionService.removeItems(target, Array.from(this.selectedIds)), false);
+    }
+
+    private async bulkUpdate(update: () => Promise<void>, reloadLibrary: boolean): Promise<void> {
+        if (this.isBulkUpdating) return;
+
+        this.isBulkUpdating = true;
+        this.errorMessage = '';
+        try {
+            await update();
+            this.bulkTags = '';
+            await (reloadLibrary ? this.loadLibrary() : this.loadCollections());
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to update the selected items';
+            console.error('Error updating selected items:', error);
+        } finally {
+            this.isBulkUpdating = false;
+        }
+    }
+
+    async addItemTags(item: UserLibraryItem, input: HTMLInputElement): Promise<void> {
+        const tags = parseTags(input.value);
+        if (!item.id || tags.length === 0) return;
+
+        try {
+            await this.bookService.addTags([item.id], tags);
+            item.tags = Array.from(new Set([...(item.tags || []), ...tags]));
+            input.value = '';
+            await this.librarySearchService.index(this.scope, this.libraryItems, this.annotations);
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to add tag';
+            console.error('Error adding tag:', error);
+        }
+    }
+
+    async removeItemTag(item: UserLibraryItem, tag: string): Promise<void> {
+        if (!item.id) return;
+
+        try {
+            await this.bookService.removeTags([item.id], [tag]);
+            item.tags = (item.tags || []).filter(current => current !== tag);
+            await this.librarySearchService.index(this.scope, this.libraryItems, this.annotations);
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to remove tag';
+            console.error('Error removing tag:', error);
+        }
+    }
+
+    // The current user's own annotations; other readers of a shared item never see them
+    annotationsOf(item: UserLibraryItem): SummaryAnnotation[] {
+        return this.annotations.get(item.id || '') || NO_ANNOTATIONS;
+    }
+
+    async onAnnotationsChanged(item: UserLibraryItem, annotations: SummaryAnnotation[]): Promise<void> {
+        if (!item.id) return;
+
+        this.annotations.set(item.id, annotations);
+        try {
+            await this.librarySearchService.index(this.scope, this.libraryItems, this.annotations);
+        } catch (error) {
+            console.error('Error indexing annotations:', error);
+        }
+    }
+
+    getReviewLabel(item: UserLibraryItem): string {
+        return REVIEW_STATUS_LABELS[getReviewStatus(item.review)];
+    }
+
+    getReviewClass(item: UserLibraryItem): string {
+        switch (getReviewStatus(item.review)) {
+            case 'approved': return 'text-green-700 bg-green-100';
+            case 'in_review': return 'text-orange-700 bg-orange-100';
+            case 'rejected': return 'text-red-700 bg-red-100';
+            default: return 'text-gray-700 bg-gray-100';
+        }
+    }
+
+    isApproved(item: UserLibraryItem): boolean {
+        return getReviewStatus(item.review) === 'approved';
+    }
+
+    // The approved variant is selected; other languages of an approved item were never reviewed
+    canExportOfficial(item: UserLibraryItem): boolean {
+        return getApprovedLanguage(item) === this.variantOf(item).language;
+    }
+
+    isOwnItem(item: UserLibraryItem): boolean {
+        return item.userId === this.authService.getCurrentUser()?.uid;
+    }
+
+    // Owners manage their items; organization admins also manage items shared with their organization
+    canManage(item: UserLibraryItem): boolean {
+        if (!this.canEdit) return false;
+        if (this.isOwnItem(item)) return true;
+        const membership = this.organizations.find(current => current.organization.id === item.orgId);
+        return !!membership && (membership.member.role === 'owner' || membership.member.role === 'admin');
+    }
+
+    getShareKey(item: UserLibraryItem): string {
+        if (item.visibility === 'org') return `org:${item.orgId}`;
+        if (item.visibility === 'team') return `team:${item.orgId}:${item.teamId}`;
+        return 'private';
+    }
+
+    getShareLabel(item: UserLibraryItem): string {
+        return this.shareTargets.find(target => target.key === this.getShareKey(item))?.label || 'Shared';
+    }
+
+    async onShareChange(item: UserLibraryItem, key: string): Promise<void> {
+        const target = this.shareTargets.find(current => current.key === key);
+        if (!target || !item.id) return;
+
+        try {
+            await this.bookService.shareLibraryItem(item.id, target.visibility, target.orgId, target.teamId);
+            item.visibility = target.visibility;
+            item.orgId = target.orgId;
+            item.teamId = target.teamId;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to share item';
+            console.error('Error sharing item:', error);
+        }
+    }
+
     async deleteItem(itemId: string): Promise<void> {
         if (confirm('Are you sure you want to delete this book summary?')) {
             try {
@@ -162,68 +650,47 @@ export class LibraryComponent implements OnInit, OnDestroy {
         }
     }
 
-    async exportSummary(item: UserLibraryItem, format: 'txt' | 'json' = 'txt'): Promise<void> {
-        try {
-            let content = '';
-            let filename = '';
-            let mimeType = '';
-
-            if (format === 'txt') {
-                content = this.generateTextExport(item);
-                filename = `${item.bookData.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_summary.txt`;
-                mimeType = 'text/plain';
-            } else {
-                content = JSON.stringify(item, null, 2);
-                filename = `${item.bookData.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_summary.json`;
-                mimeType = 'application/json';
-            }
+    // Official exports are only available for approved summaries
+    async exportSummary(item: UserLibraryItem, format: ExportFormat = 'txt', official = false): Promise<void> {
+        await this.exportItems([item], format, official);
+    }
 
-            const blob = new Blob([content], { type: mimeType });
-            const url = window.URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = filename;
-            link.click();
-            window.URL.revokeObjectURL(url);
+    // Exports every match of the current search and filters, not only the loaded pages,
+    // each item in the language selected for it
+    async exportFiltered(): Promise<void> {
+        try {
+            const items = await this.librarySearchService.searchAll(this.scope, this.searchQuery());
+            await this.exportItems(items, this.bulkExportFormat, this.bulkExportOfficial);
         } catch (error) {
-            this.errorMessage = 'Failed to export summary';
-            console.error('Error exporting summary:', error);
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to export summaries';
         }
     }
 
-    private generateTextExport(item: UserLibraryItem): string {
-        return `
-SMARTLIBRO AI - BOOK SUMMARY
-============================
+    private async exportItems(items: UserLibraryItem[], format: ExportFormat, official: boolean): Promise<void> {
+        if (this.isExporting) return;
 
-Book Information:
-- Title: ${item.bookData.title}
-- Author(s): ${item.bookData.authors.join(', ')}
-- Publisher: ${item.bookData.publisher}
-- Published: ${item.bookData.publishedDate}
-- Pages: ${item.bookData.pageCount || 'Unknown'}
-- Categories: ${item.bookData.categories.join(', ')}
-- ISBN: ${item.bookData.isbn}
-- Rating: ${item.bookData.averageRating || 'N/A'}/5 (${item.bookData.ratingsCount || 0} reviews)
-
-AI Confidence Metrics:
-- Overall Score: ${item.confidenceMetrics.overallScore}%
-- Source Reliability: ${item.confidenceMetrics.sourceReliability}%
-- Content Coverage: ${item.confidenceMetrics.contentCoverage}%
-- Cross-Reference Validation: ${item.confidenceMetrics.crossReferenceValidation}%
-
-Quick Summary (${item.summaries.short.length}/300 characters):
-${item.summaries.short}
-
-Detailed Summary (${item.summaries.detailed.length}/1000 characters):
-${item.summaries.detailed}
-
-Generated: ${item.summaries.generatedAt}
-Language: ${item.summaries.language.toUpperCase()}
-Saved: ${item.createdAt}
+        this.isExporting = true;
+        this.errorMessage = '';
+        this.exportWarning = '';
+        try {
+            const warnings = await this.libraryExportService.exportItems(
+                items,
+                format,
+                item => this.variantOf(item),
+                official,
+                item => this.annotationsOf(item)
+            );
+            this.exportWarning = warnings.join(' ');
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to export summary';
+            console.error('Error exporting summary:', error);
+        } finally {
+            this.isExporting = false;
+        }
+    }
 
----
-Generated by SmartLibro AI - Intelligent Book Summaries for Electoral Services
-    `.trim();
+    // Checked on the loaded pages; the export itself rejects unapproved items on later pages
+    get allFilteredApproved(): boolean {
+        return this.filteredItems.length > 0 && this.filteredItems.every(item => this.canExportOfficial(item));
     }
 }
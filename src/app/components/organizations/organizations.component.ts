@@ -0,0 +1,201 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { OrganizationMembership, OrganizationService } from '../../core/services/organization.service';
+import {
+    OrganizationInvitation,
+    OrganizationMember,
+    OrganizationRole,
+    OrganizationTeam
+} from '../../core/interfaces';
+
+@Component({
+    selector: 'app-organizations',
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './organizations.component.html',
+    styleUrls: ['./organizations.component.scss']
+})
+export class OrganizationsComponent implements OnInit {
+    memberships: OrganizationMembership[] = [];
+    myInvitations: OrganizationInvitation[] = [];
+    selected: OrganizationMembership | null = null;
+
+    members: OrganizationMember[] = [];
+    teams: OrganizationTeam[] = [];
+    pendingInvitations: OrganizationInvitation[] = [];
+
+    newOrganizationName = '';
+    newTeamName = '';
+    inviteEmail = '';
+    inviteRole: Exclude<OrganizationRole, 'owner'> = 'member';
+    inviteTeamId = '';
+
+    isLoading = true;
+    isSaving = false;
+    errorMessage = '';
+    successMessage = '';
+
+    constructor(private organizationService: OrganizationService) { }
+
+    ngOnInit(): void {
+        this.loadOrganizations();
+    }
+
+    get isAdmin(): boolean {
+        return this.selected?.member.role === 'owner' || this.selected?.member.role === 'admin';
+    }
+
+    async loadOrganizations(selectedOrgId?: string): Promise<void> {
+        try {
+            this.isLoading = true;
+            [this.memberships, this.myInvitations] = await Promise.all([
+                this.organizationService.getMyOrganizations(),
+                this.organizationService.getMyInvitations()
+            ]);
+
+            const next = this.memberships.find(membership => membership.organization.id === selectedOrgId)
+                || this.memberships[0]
+                || null;
+            await this.selectOrganization(next);
+        } catch (error) {
+            this.errorMessage = 'Failed to load organizations';
+            console.error('Error loading organizations:', error);
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    async selectOrganization(membership: OrganizationMembership | null): Promise<void> {
+        this.selected = membership;
+        this.members = [];
+        this.teams = [];
+        this.pendingInvitations = [];
+        if (!membership) return;
+
+        const orgId = membership.organization.id!;
+        try {
+            [this.members, this.teams, this.pendingInvitations] = await Promise.all([
+                this.organizationService.getMembers(orgId),
+                this.organizationService.getTeams(orgId),
+                this.isAdmin ? this.organizationService.getPendingInvitations(orgId) : Promise.resolve([])
+            ]);
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load organization';
+        }
+    }
+
+    async createOrganization(): Promise<void> {
+        await this.run(async () => {
+            const orgId = await this.organizationService.createOrganization(this.newOrganizationName);
+            this.newOrganizationName = '';
+            await this.loadOrganizations(orgId);
+        }, 'Organization created');
+    }
+
+    async createTeam(): Promise<void> {
+        if (!this.selected) return;
+        await this.run(async () => {
+            await this.organizationService.createTeam(this.selected!.organization.id!, this.newTeamName);
+            this.newTeamName = '';
+            this.teams = await this.organizationService.getTeams(this.selected!.organization.id!);
+        }, 'Team created');
+    }
+
+    async invite(): Promise<void> {
+        if (!this.selected) return;
+        await this.run(async () => {
+            await this.organizationService.inviteMember(
+                this.selected!.organization,
+                this.inviteEmail,
+                this.inviteRole,
+                this.inviteTeamId ? [this.inviteTeamId] : []
+            );
+            this.inviteEmail = '';
+            this.pendingInvitations = await this.organizationService.getPendingInvitations(this.selected!.organization.id!);
+        }, 'Invitation sent');
+    }
+
+    async revoke(invitation: OrganizationInvitation): Promise<void> {
+        await this.run(async () => {
+            await this.organizationService.revokeInvitation(invitation.id!);
+            this.pendingInvitations = this.pendingInvitations.filter(pending => pending.id !== invitation.id);
+        }, 'Invitation revoked');
+    }
+
+    async accept(invitation: OrganizationInvitation): Promise<void> {
+        await this.run(async () => {
+            await this.organizationService.acceptInvitation(invitation);
+            await this.loadOrganizations(invitation.orgId);
+        }, `You joined ${invitation.orgName}`);
+    }
+
+    async decline(invitation: OrganizationInvitation): Promise<void> {
+        await this.run(async () => {
+            await this.organizationService.declineInvitation(invitation.id!);
+            this.myInvitations = this.myInvitations.filter(pending => pending.id !== invitation.id);
+        }, 'Invitation declined');
+    }
+
+    isInTeam(member: OrganizationMember, team: OrganizationTeam): boolean {
+        return member.teamIds.includes(team.id!);
+    }
+
+    async toggleTeam(member: OrganizationMember, team: OrganizationTeam): Promise<void> {
+        const teamIds = this.isInTeam(member, team)
+            ? member.teamIds.filter(teamId => teamId !== team.id)
+            : [...member.teamIds, team.id!];
+
+        await this.run(async () => {
+            await this.organizationService.updateMember(this.selected!.organization.id!, member.uid, { teamIds });
+            member.teamIds = teamIds;
+        });
+    }
+
+    async changeRole(member: OrganizationMember, role: Exclude<OrganizationRole, 'owner'>): Promise<void> {
+        await this.run(async () => {
+            await this.organizationService.updateMember(this.selected!.organization.id!, member.uid, { role });
+            member.role = role;
+        }, 'Role updated');
+    }
+
+    async removeMember(member: OrganizationMember): Promise<void> {
+        const leaving = member.uid === this.selected?.member.uid;
+        const prompt = leaving
+            ? `Leave ${this.selected?.organization.name}?`
+            : `Remove ${member.displayName || member.email} from ${this.selected?.organization.name}?`;
+        if (!confirm(prompt)) return;
+
+        await this.run(async () => {
+            await this.organizationService.removeMember(this.selected!.organization.id!, member);
+            if (leaving) {
+                await this.loadOrganizations();
+            } else {
+                this.members = this.members.filter(current => current.uid !== member.uid);
+                this.pendingInvitations = this.pendingInvitations.filter(pending => pending.email !== member.email);
+            }
+        }, leaving ? 'You left the organization' : 'Member removed');
+    }
+
+    getTeamName(teamId: string): string {
+        return this.teams.find(team => team.id === teamId)?.name || teamId;
+    }
+
+    private async run(action: () => Promise<void>, success = ''): Promise<void> {
+        if (this.isSaving) return;
+
+        this.isSaving = true;
+        this.errorMessage = '';
+        this.successMessage = '';
+        try {
+            await action();
+            this.successMessage = success;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Something went wrong';
+            console.error('Organization action failed:', error);
+        } finally {
+            this.isSaving = false;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { BookService } from '../../core/services/book.service';
+import { PromptExperiment, PromptTemplate, PromptVersionStats } from '../../core/interfaces';
+import { PROMPT_TEMPLATES } from '../../core/llm/prompt-templates';
+import { DEFAULT_PROMPT_VERSION, getPromptKey, getPromptTemplate, parsePromptExperiment } from '../../core/llm/prompt-registry';
+import { comparePromptVersions } from '../../core/utils/prompt-stats';
+import { environment } from '../../../environments/environment';
+
+@Component({
+    selector: 'app-prompt-experiments',
+    standalone: true,
+    imports: [CommonModule, RouterModule],
+    templateUrl: './prompt-experiments.component.html',
+    styleUrls: ['./prompt-experiments.component.scss']
+})
+export class PromptExperimentsComponent implements OnInit {
+    readonly templates: PromptTemplate[] = PROMPT_TEMPLATES;
+    readonly defaultPromptVersion = DEFAULT_PROMPT_VERSION;
+    readonly getPromptKey = getPromptKey;
+
+    experiment: PromptExperiment | null = null;
+    experimentError = '';
+    stats: PromptVersionStats[] = [];
+
+    isLoading = true;
+    errorMessage = '';
+
+    constructor(private bookService: BookService) { }
+
+    ngOnInit(): void {
+        try {
+            this.experiment = parsePromptExperiment(environment.llm.promptExperiment);
+        } catch (error) {
+            this.experimentError = error instanceof Error ? error.message : 'Invalid prompt experiment';
+        }
+        this.loadStats();
+    }
+
+    async loadStats(): Promise<void> {
+        try {
+            this.isLoading = true;
+            this.errorMessage = '';
+            this.stats = comparePromptVersions(await this.bookService.getAllLibraryItems());
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load summaries';
+            console.error('Error loading prompt statistics:', error);
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    // Share of the experiment's traffic sent to a template, 0 when it is not in the experiment
+    trafficShare(template: PromptTemplate): number {
+        if (!this.experiment) {
+            return getPromptKey(template) === DEFAULT_PROMPT_VERSION ? 100 : 0;
+        }
+        const total = this.experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+        const arm = this.experiment.arms.find(candidate => candidate.promptVersion === getPromptKey(template));
+        return arm ? Math.round(arm.weight / total * 100) : 0;
+    }
+
+    describe(promptVersion: string): string {
+        return getPromptTemplate(promptVersion)?.description || 'Not in the registry (recorded before the prompt registry existed)';
+    }
+}
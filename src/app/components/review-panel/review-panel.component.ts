@@ -0,0 +1,155 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AuthService } from '../../core/services/auth.service';
+import { OrganizationService } from '../../core/services/organization.service';
+import { ReviewService, ReviewerChoice } from '../../core/services/review.service';
+import { ReviewStatus, UserLibraryItem } from '../../core/interfaces';
+import { REVIEW_RATINGS, REVIEW_STATUS_LABELS, getReviewStatus } from '../../core/utils/review-workflow';
+import { getSummaryVariant } from '../../core/utils/summary-variants';
+
+@Component({
+    selector: 'app-review-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './review-panel.component.html',
+    styleUrls: ['./review-panel.component.scss']
+})
+export class ReviewPanelComponent implements OnChanges {
+    @Input({ required: true }) item!: UserLibraryItem;
+    @Input() canEdit = false; // Whether the account role allows editing at all
+    @Input() language?: string; // Summary variant to edit; the primary one when unset
+    @Output() changed = new EventEmitter<void>();
+
+    reviewers: ReviewerChoice[] = [];
+    selectedReviewerId = '';
+    commentText = '';
+    rating: number | null = null; // Optional quality rating sent with the decision
+    readonly ratings = REVIEW_RATINGS;
+    isEditing = false;
+    editShort = '';
+    editDetailed = '';
+    isSaving = false;
+    errorMessage = '';
+
+    constructor(
+        private authService: AuthService,
+        private organizationService: OrganizationService,
+        private reviewService: ReviewService
+    ) { }
+
+    async ngOnChanges(): Promise<void> {
+        this.selectedReviewerId = this.item.review?.reviewerId || '';
+        this.rating = null;
+        await this.loadReviewers();
+    }
+
+    get status(): ReviewStatus {
+        return getReviewStatus(this.item.review);
+    }
+
+    get statusLabel(): string {
+        return REVIEW_STATUS_LABELS[this.status];
+    }
+
+    get isAuthor(): boolean {
+        return this.item.userId === this.authService.getCurrentUser()?.uid;
+    }
+
+    get isReviewer(): boolean {
+        return !!this.item.review?.reviewerId && this.item.review.reviewerId === this.authService.getCurrentUser()?.uid;
+    }
+
+    get canModify(): boolean {
+        return this.canEdit && (this.isAuthor || this.isReviewer);
+    }
+
+    get canDecide(): boolean {
+        return this.canEdit && this.status === 'in_review' && this.isReviewer && !this.isAuthor;
+    }
+
+    // Reviewers come from the organization the item is shared with; authors cannot review their own summaries
+    private async loadReviewers(): Promise<void> {
+        if (!this.item.orgId || !this.isAuthor) {
+            this.reviewers = [];
+            return;
+        }
+
+        try {
+            const members = await this.organizationService.getMembers(this.item.orgId);
+            this.reviewers = members
+                .filter(member => member.uid !== this.item.userId)
+                .map(member => ({ uid: member.uid, name: member.displayName || member.email }));
+        } catch (error) {
+            console.error('Error loading reviewers:', error);
+            this.reviewers = [];
+        }
+    }
+
+    private selectedReviewer(): ReviewerChoice | undefined {
+        return this.reviewers.find(reviewer => reviewer.uid === this.selectedReviewerId);
+    }
+
+    async submit(): Promise<void> {
+        await this.run(() => this.reviewService.submitForReview(this.item, this.selectedReviewer()));
+    }
+
+    async assign(): Promise<void> {
+        await this.run(() => this.reviewService.assignReviewer(this.item, this.selectedReviewer() || null));
+    }
+
+    async approve(): Promise<void> {
+        await this.run(() => this.reviewService.approve(this.item, this.rating ?? undefined));
+    }
+
+    async reject(): Promise<void> {
+        await this.run(async () => {
+            await this.reviewService.reject(this.item, this.commentText, this.rating ?? undefined);
+            this.commentText = '';
+        });
+    }
+
+    async returnToDraft(): Promise<void> {
+        await this.run(() => this.reviewService.returnToDraft(this.item));
+    }
+
+    async addComment(): Promise<void> {
+        await this.run(async () => {
+            await this.reviewService.addComment(this.item, this.commentText);
+            this.commentText = '';
+        });
+    }
+
+    startEditing(): void {
+        const variant = getSummaryVariant(this.item, this.language);
+        this.editShort = variant.short;
+        this.editDetailed = variant.detailed;
+        this.isEditing = true;
+    }
+
+    async saveEdits(): Promise<void> {
+        if (this.status === 'approved' && !confirm('Editing an approved summary returns it to draft. Continue?')) {
+            return;
+        }
+        await this.run(async () => {
+            await this.reviewService.saveEdits(this.item, this.editShort, this.editDetailed, getSummaryVariant(this.item, this.language).language);
+            this.isEditing = false;
+        });
+    }
+
+    private async run(action: () => Promise<void>): Promise<void> {
+        if (this.isSaving) return;
+
+        this.isSaving = true;
+        this.errorMessage = '';
+        try {
+            await action();
+            this.changed.emit();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Review action failed';
+            console.error('Review action failed:', error);
+        } finally {
+            this.isSaving = false;
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { CollectionService } from '../../core/services/collection.service';
+import { SharedCollection } from '../../core/interfaces';
+
+// Read-only view of a shared collection; reachable without signing in
+@Component({
+    selector: 'app-shared-collection',
+    standalone: true,
+    imports: [CommonModule, RouterModule],
+    templateUrl: './shared-collection.component.html',
+    styleUrls: ['./shared-collection.component.scss']
+})
+export class SharedCollectionComponent implements OnInit {
+    sharedCollection: SharedCollection | null = null;
+    expanded = new Set<number>();
+
+    isLoading = true;
+    errorMessage = '';
+
+    constructor(
+        private collectionService: CollectionService,
+        private route: ActivatedRoute
+    ) { }
+
+    async ngOnInit(): Promise<void> {
+        const shareId = this.route.snapshot.paramMap.get('shareId') || '';
+        try {
+            this.sharedCollection = await this.collectionService.getSharedCollection(shareId);
+            if (!this.sharedCollection) {
+                this.errorMessage = 'This link is no longer available. The owner may have revoked it.';
+            }
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load shared collection';
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    toggleDetails(index: number): void {
+        if (this.expanded.has(index)) {
+            this.expanded.delete(index);
+        } else {
+            this.expanded.add(index);
+        }
+    }
+}
@@ -0,0 +1,18 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StructuredSummary } from '../../core/interfaces';
+import { ELECTORAL_RELEVANCE_LABELS, READING_LEVEL_LABELS } from '../../core/utils/structured-summary';
+
+@Component({
+    selector: 'app-structured-summary',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './structured-summary.component.html',
+    styleUrls: ['./structured-summary.component.scss']
+})
+export class StructuredSummaryComponent {
+    @Input({ required: true }) structured!: StructuredSummary;
+
+    readonly readingLevelLabels = READING_LEVEL_LABELS;
+    readonly relevanceLabels = ELECTORAL_RELEVANCE_LABELS;
+}
@@ -0,0 +1,196 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AnnotationService } from '../../core/services/annotation.service';
+import { AnnotatedField, AnnotationKind, SummaryAnnotation, UserLibraryItem } from '../../core/interfaces';
+import { ANNOTATED_FIELD_LABELS, ANNOTATION_KIND_LABELS, annotatedText } from '../../core/utils/annotations';
+import { TextSegment, resolveAnchor, segmentText } from '../../core/utils/text-anchor';
+import { isRtlLanguage } from '../../core/languages/language-registry';
+
+interface PendingSelection {
+    field: AnnotatedField;
+    start: number;
+    end: number;
+    quote: string;
+}
+
+// Overlapping annotations are drawn in the style of the most important kind
+const KIND_PRIORITY: AnnotationKind[] = ['verify', 'note', 'highlight'];
+
+@Component({
+    selector: 'app-summary-annotations',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './summary-annotations.component.html',
+    styleUrls: ['./summary-annotations.component.scss']
+})
+export class SummaryAnnotationsComponent implements OnChanges {
+    @Input({ required: true }) item!: UserLibraryItem;
+    @Input({ required: true }) language!: string;
+    @Input() annotations: SummaryAnnotation[] = [];
+    // The item's complete list of annotations after a change
+    @Output() changed = new EventEmitter<SummaryAnnotation[]>();
+
+    readonly fields: AnnotatedField[] = ['short', 'detailed'];
+    readonly fieldLabels = ANNOTATED_FIELD_LABELS;
+    readonly kindLabels = ANNOTATION_KIND_LABELS;
+
+    segments: Record<AnnotatedField, TextSegment[]> = { short: [], detailed: [] };
+    placed: SummaryAnnotation[] = []; // Found in the current text, in reading order
+    orphaned: SummaryAnnotation[] = [];
+
+    pending: PendingSelection | null = null;
+    pendingNote = '';
+    editingId = '';
+    editNote = '';
+    isSaving = false;
+    errorMessage = '';
+
+    constructor(private annotationService: AnnotationService) { }
+
+    ngOnChanges(): void {
+        this.pending = null;
+        this.layout();
+    }
+
+    get rtl(): boolean {
+        return isRtlLanguage(this.language);
+    }
+
+    markClass(segment: TextSegment): string {
+        const kinds = this.annotations.filter(annotation => segment.ids.includes(annotation.id!)).map(annotation => annotation.kind);
+        const kind = KIND_PRIORITY.find(candidate => kinds.includes(candidate));
+        return kind ? `annotation-mark annotation-${kind}` : '';
+    }
+
+    markTitle(segment: TextSegment): string {
+        return this.annotations
+            .filter(annotation => segment.ids.includes(annotation.id!))
+            .map(annotation => annotation.note || this.kindLabels[annotation.kind])
+            .join('\n');
+    }
+
+    // Turns the text selected inside one of the summaries into a pending annotation
+    onSelect(field: AnnotatedField, container: HTMLElement): void {
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+        const range = selection.getRangeAt(0);
+        if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+        let start = this.offsetOf(range.startContainer, range.startOffset);
+        let end = this.offsetOf(range.endContainer, range.endOffset);
+        if (start === null || end === null) return;
+
+        const text = this.textOf(field);
+        while (start < end && /\s/.test(text[start])) start++;
+        while (end > start && /\s/.test(text[end - 1])) end--;
+        if (end <= start) return;
+
+        this.pending = { field, start, end, quote: text.substring(start, end) };
+        this.pendingNote = '';
+        this.errorMessage = '';
+    }
+
+    async add(kind: AnnotationKind): Promise<void> {
+        const pending = this.pending;
+        if (!pending) return;
+
+        await this.run(async () => {
+            const annotation = await this.annotationService.addAnnotation(
+                this.item,
+                { language: this.language, field: pending.field, start: pending.start, end: pending.end },
+                kind,
+                this.pendingNote
+            );
+            this.pending = null;
+            window.getSelection()?.removeAllRanges();
+            this.changed.emit([...this.annotations, annotation]);
+        });
+    }
+
+    cancel(): void {
+        this.pending = null;
+        window.getSelection()?.removeAllRanges();
+    }
+
+    startEdit(annotation: SummaryAnnotation): void {
+        this.editingId = annotation.id || '';
+        this.editNote = annotation.note || '';
+    }
+
+    async saveNote(annotation: SummaryAnnotation): Promise<void> {
+        await this.run(async () => {
+            await this.annotationService.updateNote(annotation, this.editNote);
+            this.editingId = '';
+            this.changed.emit(this.annotations.map(current => current.id === annotation.id
+                ? { ...current, note: this.editNote.trim() || undefined, updatedAt: new Date() }
+                : current));
+        });
+    }
+
+    async remove(annotation: SummaryAnnotation): Promise<void> {
+        await this.run(async () => {
+            await this.annotationService.deleteAnnotation(annotation);
+            this.changed.emit(this.annotations.filter(current => current.id !== annotation.id));
+        });
+    }
+
+    private textOf(field: AnnotatedField): string {
+        return annotatedText(this.item, { language: this.language, field }) || '';
+    }
+
+    // Anchors are located again here, so annotations stay in place when the summary was edited in this session
+    private layout(): void {
+        this.placed = [];
+        this.orphaned = [];
+        const visible = this.annotations.filter(annotation => annotation.language === this.language);
+
+        for (const field of this.fields) {
+            const text = this.textOf(field);
+            const ranges: { id: string; start: number; end: number }[] = [];
+            visible.filter(annotation => annotation.field === field).forEach(annotation => {
+                const match = resolveAnchor(text, annotation.anchor);
+                if (match) {
+                    ranges.push({ id: annotation.id!, start: match.start, end: match.end });
+                    this.placed.push(annotation);
+                } else {
+                    this.orphaned.push(annotation);
+                }
+            });
+            this.segments[field] = segmentText(text, ranges);
+        }
+    }
+
+    // Segments carry their offset in the summary text; the selection offset counts from there
+    private offsetOf(node: Node, offset: number): number | null {
+        if (node.nodeType === Node.TEXT_NODE) {
+            const segment = node.parentElement?.closest('[data-start]');
+            return segment ? Number(segment.getAttribute('data-start')) + offset : null;
+        }
+
+        const element = node as Element;
+        if (element.hasAttribute?.('data-start')) {
+            return Number(element.getAttribute('data-start')) + (offset > 0 ? element.textContent?.length || 0 : 0);
+        }
+        // Between segments: the offset counts child nodes of the container
+        const next = Array.from(element.childNodes).slice(offset)
+            .find((child): child is Element => child instanceof Element && child.hasAttribute('data-start'));
+        return next ? Number(next.getAttribute('data-start')) : (element.textContent?.length ?? null);
+    }
+
+    private async run(action: () => Promise<void>): Promise<void> {
+        if (this.isSaving) return;
+
+        this.isSaving = true;
+        this.errorMessage = '';
+        try {
+            await action();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to save annotation';
+            console.error('Annotation action failed:', error);
+        } finally {
+            this.isSaving = false;
+        }
+    }
+}
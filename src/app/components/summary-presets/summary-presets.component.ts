@@ -0,0 +1,131 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { SummaryPresetInput, SummaryPresetService } from '../../core/services/summary-preset.service';
+import { SummaryPreset } from '../../core/interfaces';
+import {
+    PRESET_LENGTH_BOUNDS,
+    SUMMARY_STRUCTURES,
+    SUMMARY_STRUCTURE_LABELS,
+    getDefaultPreset,
+    validateSummaryPreset
+} from '../../core/llm/summary-presets';
+
+@Component({
+    selector: 'app-summary-presets',
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './summary-presets.component.html',
+    styleUrls: ['./summary-presets.component.scss']
+})
+export class SummaryPresetsComponent implements OnInit {
+    presets: SummaryPreset[] = [];
+
+    // Preset being edited; null while creating a new one
+    editingId: string | null = null;
+    draft: SummaryPresetInput = this.emptyDraft();
+
+    readonly structures = SUMMARY_STRUCTURES;
+    readonly structureLabels = SUMMARY_STRUCTURE_LABELS;
+    readonly bounds = PRESET_LENGTH_BOUNDS;
+
+    isLoading = true;
+    isSaving = false;
+    errorMessage = '';
+    successMessage = '';
+
+    constructor(private summaryPresetService: SummaryPresetService) { }
+
+    ngOnInit(): void {
+        this.loadPresets();
+    }
+
+    get draftErrors(): string[] {
+        return validateSummaryPreset(this.draft);
+    }
+
+    async loadPresets(): Promise<void> {
+        try {
+            this.isLoading = true;
+            this.presets = await this.summaryPresetService.getPresets();
+        } catch (error) {
+            this.errorMessage = 'Failed to load summary presets';
+            console.error('Error loading summary presets:', error);
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    // Built-in presets are copied into a new custom preset rather than edited
+    edit(preset: SummaryPreset): void {
+        this.editingId = preset.builtIn ? null : preset.id;
+        this.draft = {
+            name: preset.builtIn ? `${preset.name} (copy)` : preset.name,
+            description: preset.description,
+            shortLength: { ...preset.shortLength },
+            detailedLength: { ...preset.detailedLength },
+            structure: preset.structure,
+            tone: preset.tone
+        };
+        this.errorMessage = '';
+        this.successMessage = '';
+    }
+
+    resetDraft(): void {
+        this.editingId = null;
+        this.draft = this.emptyDraft();
+    }
+
+    async save(): Promise<void> {
+        await this.run(async () => {
+            if (this.editingId) {
+                await this.summaryPresetService.updatePreset(this.editingId, this.draft);
+            } else {
+                await this.summaryPresetService.createPreset(this.draft);
+            }
+            this.resetDraft();
+            await this.loadPresets();
+        }, this.editingId ? 'Preset saved' : 'Preset created');
+    }
+
+    async remove(preset: SummaryPreset): Promise<void> {
+        if (preset.builtIn || !confirm(`Delete the "${preset.name}" preset? Summaries generated with it are kept.`)) return;
+        await this.run(async () => {
+            await this.summaryPresetService.deletePreset(preset.id);
+            if (this.editingId === preset.id) {
+                this.resetDraft();
+            }
+            await this.loadPresets();
+        }, 'Preset deleted');
+    }
+
+    private emptyDraft(): SummaryPresetInput {
+        const standard = getDefaultPreset();
+        return {
+            name: '',
+            description: '',
+            shortLength: { ...standard.shortLength },
+            detailedLength: { ...standard.detailedLength },
+            structure: standard.structure,
+            tone: ''
+        };
+    }
+
+    private async run(action: () => Promise<void>, success = ''): Promise<void> {
+        if (this.isSaving) return;
+
+        this.isSaving = true;
+        this.errorMessage = '';
+        this.successMessage = '';
+        try {
+            await action();
+            this.successMessage = success;
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Something went wrong';
+            console.error('Summary preset action failed:', error);
+        } finally {
+            this.isSaving = false;
+        }
+    }
+}
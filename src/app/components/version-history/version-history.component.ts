@@ -0,0 +1,117 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SummaryVersionService } from '../../core/services/summary-version.service';
+import { SummaryVersion, SummaryVersionSource, UserLibraryItem } from '../../core/interfaces';
+import { DiffSegment, diffWords } from '../../core/utils/text-diff';
+import { getReviewStatus } from '../../core/utils/review-workflow';
+
+const SOURCE_LABELS: Record<SummaryVersionSource, string> = {
+    generated: 'Generated',
+    edited: 'Edited',
+    restored: 'Restored'
+};
+
+@Component({
+    selector: 'app-version-history',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './version-history.component.html',
+    styleUrls: ['./version-history.component.scss']
+})
+export class VersionHistoryComponent implements OnChanges {
+    @Input({ required: true }) item!: UserLibraryItem;
+    @Input() canRestore = false;
+    @Output() changed = new EventEmitter<void>();
+
+    versions: SummaryVersion[] = [];
+    selectedVersionId = '';
+    shortDiff: DiffSegment[] = [];
+    detailedDiff: DiffSegment[] = [];
+    isLoading = false;
+    isRestoring = false;
+    errorMessage = '';
+
+    constructor(private summaryVersionService: SummaryVersionService) { }
+
+    async ngOnChanges(): Promise<void> {
+        await this.loadVersions();
+    }
+
+    get selectedVersion(): SummaryVersion | undefined {
+        return this.versions.find(version => version.id === this.selectedVersionId);
+    }
+
+    // Versions are listed newest first; number them oldest first
+    versionNumber(version: SummaryVersion): number {
+        return this.versions.length - this.versions.indexOf(version);
+    }
+
+    sourceLabel(version: SummaryVersion): string {
+        return SOURCE_LABELS[version.source] || version.source;
+    }
+
+    // Compared with the item's summary in the version's language; removed variants have no current text
+    isCurrent(version: SummaryVersion): boolean {
+        const current = this.item.summaries[version.language];
+        return !!current && version.short === current.short && version.detailed === current.detailed;
+    }
+
+    select(version: SummaryVersion): void {
+        this.selectedVersionId = version.id || '';
+        this.compare();
+    }
+
+    // Left column shows the selected version, right column the current summary in the same language
+    compare(): void {
+        const version = this.selectedVersion;
+        const current = version ? this.item.summaries[version.language] : undefined;
+        this.shortDiff = version ? diffWords(version.short, current?.short || '') : [];
+        this.detailedDiff = version ? diffWords(version.detailed, current?.detailed || '') : [];
+    }
+
+    async restore(version: SummaryVersion): Promise<void> {
+        if (this.isRestoring) return;
+
+        const message = getReviewStatus(this.item.review) === 'approved'
+            ? `Restore version ${this.versionNumber(version)}? The summary will return to draft and need a new approval.`
+            : `Restore version ${this.versionNumber(version)}? The current summary stays in the history.`;
+        if (!confirm(message)) {
+            return;
+        }
+
+        this.isRestoring = true;
+        this.errorMessage = '';
+        try {
+            await this.summaryVersionService.restoreVersion(this.item, version);
+            this.changed.emit();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to restore version';
+            console.error('Error restoring version:', error);
+        } finally {
+            this.isRestoring = false;
+        }
+    }
+
+    private async loadVersions(): Promise<void> {
+        if (!this.item.id) return;
+
+        this.isLoading = true;
+        this.errorMessage = '';
+        try {
+            this.versions = await this.summaryVersionService.getVersions(this.item.id);
+
+            // Default to the newest version that differs from the current summary
+            const previous = this.versions.find(version => !this.isCurrent(version));
+            if (!this.selectedVersion) {
+                this.selectedVersionId = previous?.id || '';
+            }
+            this.compare();
+        } catch (error) {
+            this.errorMessage = error instanceof Error ? error.message : 'Failed to load version history';
+            this.versions = [];
+        } finally {
+            this.isLoading = false;
+        }
+    }
+}
@@ -0,0 +1,121 @@
+import { CONFIDENCE_FORMULA_VERSION, ConfidenceBookData, ConfidenceSummaryData, assessConfidence, measureConfidenceSignals } from './confidence-engine';
+
+// 600 characters, so descriptionRichness is 60
+const DESCRIPTION = 'Carl Sagan traces the history of astronomy and our place in the universe. '.repeat(8).padEnd(600, '.');
+
+function book(fields: Partial<ConfidenceBookData> = {}): ConfidenceBookData {
+    return {
+        title: 'Cosmos',
+        authors: ['Carl Sagan'],
+        publisher: 'Random House',
+        publishedDate: '1980',
+        description: DESCRIPTION,
+        pageCount: 396,
+        categories: ['Science'],
+        language: 'en',
+        fieldSources: { title: 'google_books', description: 'open_library' },
+        metadataAgreement: 90,
+        ...fields
+    };
+}
+
+const SUMMARY: ConfidenceSummaryData = {
+    shortSummary: 'Carl Sagan traces the history of astronomy in Cosmos.',
+    detailedSummary: 'In Cosmos, Carl Sagan traces the history of astronomy and explains our place in the universe.',
+    validation: { status: 'repaired', attempts: 2, errors: [] },
+    languageCheck: { purity: 90 } as ConfidenceSummaryData['languageCheck']
+};
+
+describe('measureConfidenceSignals', () => {
+    it('measures metadata signals and leaves summary signals unmeasured without a summary', () => {
+        expect(measureConfidenceSignals({ book: book(), targetLanguage: 'en', usesFallback: false })).toEqual({
+            metadataCompleteness: 100,
+            descriptionRichness: 60,
+            claimCoverage: null,
+            entityAnchoring: null,
+            metadataAgreement: 90,
+            languagePurity: null,
+            selfConsistency: null,
+            responseValidity: null,
+            subjectMention: null,
+            lengthFulfillment: null,
+            sentenceClarity: null,
+            sourceDiversity: 80
+        });
+    });
+
+    it('does not count placeholder metadata as known', () => {
+        const signals = measureConfidenceSignals({
+            book: book({ authors: ['Unknown Author'], publisher: 'Unknown Publisher', description: 'No description available.' }),
+            targetLanguage: 'en',
+            usesFallback: false
+        });
+
+        expect(signals.metadataCompleteness).toBe(63); // 5 of 8 fields
+        expect(signals.descriptionRichness).toBe(0);
+    });
+
+    it('scores the schema validation outcome, except for template fallbacks', () => {
+        const input = { book: book(), summary: SUMMARY, targetLanguage: 'en' };
+
+        expect(measureConfidenceSignals({ ...input, usesFallback: false }).responseValidity).toBe(75);
+        expect(measureConfidenceSignals({ ...input, usesFallback: true }).responseValidity).toBeNull();
+    });
+
+    it('uses the stored language check and only measures claim coverage within one language', () => {
+        const same = measureConfidenceSignals({ book: book(), summary: SUMMARY, targetLanguage: 'en', usesFallback: false });
+        const translated = measureConfidenceSignals({ book: book(), summary: SUMMARY, targetLanguage: 'es', usesFallback: false });
+
+        expect(same.languagePurity).toBe(90);
+        expect(same.subjectMention).toBe(100);
+        expect(same.claimCoverage).not.toBeNull();
+        expect(translated.claimCoverage).toBeNull();
+    });
+});
+
+describe('assessConfidence', () => {
+    it('weights the measured categories and renormalizes around unmeasured ones', () => {
+        const { metrics, formulaVersion } = assessConfidence({ book: book(), targetLanguage: 'en', usesFallback: false });
+
+        expect(formulaVersion).toBe(CONFIDENCE_FORMULA_VERSION);
+        expect(metrics.detailedBreakdown).toEqual({
+            dataQuality: 88, // 100 × .45 + 60 × .30 + 100 × .15 + 100 × .10
+            sourceReliability: 87, // (83 × .30 + 90 × .40) / .70, 83 being the mean source reliability
+            contentCoverage: 60, // descriptionRichness is the only measured factor
+            aiProcessing: 50, // Nothing measured: neutral, and left out of the overall score
+            crossValidation: 80 // sourceDiversity only
+        });
+        // (88 × .25 + 87 × .20 + 60 × .20 + 80 × .15) / .80
+        expect(metrics.overallScore).toBe(79);
+    });
+
+    it('takes 5 points off translated summaries', () => {
+        const { metrics } = assessConfidence({ book: book(), targetLanguage: 'es', usesFallback: false });
+
+        expect(metrics.factors.translationPenalty).toBe(5);
+        expect(metrics.overallScore).toBe(74);
+    });
+
+    it('reports unmeasured factors with their category score', () => {
+        const { detailedConfidenceFactors } = assessConfidence({ book: book(), targetLanguage: 'en', usesFallback: false });
+
+        expect(detailedConfidenceFactors.aiProcessing.factors).toEqual({
+            languageConsistency: 50,
+            translationQuality: 100, // Not a translation
+            summarizationAccuracy: 50,
+            responseCoherence: 50
+        });
+        expect(detailedConfidenceFactors.contentCoverage.factors.topicCoverage).toBe(60);
+    });
+
+    it('attributes sources to the providers recorded per field', () => {
+        const { sourceAttribution } = assessConfidence({ book: book(), summary: SUMMARY, targetLanguage: 'en', usesFallback: false });
+
+        expect(sourceAttribution.map(source => [source.type, source.source])).toEqual([
+            ['book_description', 'open_library'],
+            ['metadata', 'google_books'],
+            ['category_data', 'Google Books API'],
+            ['ai_knowledge', 'OpenAI GPT-3.5']
+        ]);
+    });
+});
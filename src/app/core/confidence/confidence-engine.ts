@@ -0,0 +1,316 @@
+import { AIBookSummary, DetailedConfidenceFactors, SourceAttribution } from '../interfaces/ai-summary.interface';
+import { ConfidenceMetrics } from '../interfaces/book.interface';
+import { describeLlm } from '../llm/llm-provider';
+import { measureLanguagePurity } from '../utils/language-detection';
+import {
+    measureClaimCoverage,
+    measureEntityAnchoring,
+    measureLengthFulfillment,
+    measureSentenceClarity,
+    measureSubjectMention
+} from './confidence-signals';
+
+/*
+ * Confidence formula, version 2. Shared by BookService, OpenAIService and the Cloud Functions so a score
+ * means the same thing wherever it was computed. Change CONFIDENCE_FORMULA_VERSION with any change below.
+ *
+ * Signals (0-100, null when not measurable):
+ *   metadataCompleteness  share of title, authors, publisher, date, description, pages, categories, language known
+ *   descriptionRichness   description length / 10, capped at 100
+ *   claimCoverage         summary content words found in the description and metadata (same-language only)
+ *   entityAnchoring       names and numbers in the summary found in the description and metadata
+ *   metadataAgreement     pairwise agreement of field values across metadata providers
+ *   languagePurity        share of the summary written in the target language
+ *   selfConsistency       content-word overlap with independently sampled summaries
+ *   responseValidity      schema validation: valid 100, repaired 75, invalid 25
+ *   subjectMention        summary names the title (50) and the author (50)
+ *   lengthFulfillment     summary lengths relative to the preset's maximum (standard preset: 300/1000 characters)
+ *   sentenceClarity       share of sentences with 6-40 words
+ *   sourceDiversity       metadata providers used: 1 → 50, 2 → 80, 3+ → 100
+ *
+ * Category = weighted mean of its measured factors (weights renormalized when a factor is null):
+ *   dataQuality        metadataCompleteness .45, descriptionRichness .30, publisher+date present .15, author known .10
+ *   sourceReliability  averageSourceReliability .30, metadataAgreement .40, entityAnchoring .30
+ *   contentCoverage    claimCoverage .45, descriptionRichness .20, sentenceClarity .10, lengthFulfillment .25
+ *   aiProcessing       languagePurity .35, entityAnchoring (translations only) .15, selfConsistency .30, responseValidity .20
+ *   crossValidation    sourceDiversity .30, entityAnchoring .30, subjectMention .20, selfConsistency .20
+ *
+ * Overall = weighted mean of measured categories (dataQuality .25, sourceReliability .20, contentCoverage .20,
+ * aiProcessing .20, crossValidation .15) minus 5 points for translated summaries.
+ * Unmeasured factors are reported with their category score so they do not look like failures.
+ */
+export const CONFIDENCE_FORMULA_VERSION = '2';
+
+// Score for a category with no measurable factor; such categories are left out of the overall score
+const NEUTRAL_SCORE = 50;
+
+const TRANSLATION_PENALTY = 5;
+
+const CATEGORY_WEIGHTS = {
+    dataQuality: 0.25,
+    sourceReliability: 0.2,
+    contentCoverage: 0.2,
+    aiProcessing: 0.2,
+    crossValidation: 0.15
+};
+
+export type ConfidenceSignalId =
+    | 'metadataCompleteness' | 'descriptionRichness' | 'claimCoverage' | 'entityAnchoring'
+    | 'metadataAgreement' | 'languagePurity' | 'selfConsistency' | 'responseValidity'
+    | 'subjectMention' | 'lengthFulfillment' | 'sentenceClarity' | 'sourceDiversity';
+
+export type ConfidenceSignals = Record<ConfidenceSignalId, number | null>;
+
+// Fields shared by BookMetadata and SummaryRequest
+export interface ConfidenceBookData {
+    title: string;
+    authors: string[];
+    publisher: string;
+    publishedDate: string;
+    description: string;
+    pageCount: number;
+    categories: string[];
+    language: string;
+    ratingsCount?: number;
+    fieldSources?: Partial<Record<string, string>>;
+    metadataAgreement?: number;
+}
+
+export type ConfidenceSummaryData = Pick<AIBookSummary, 'shortSummary' | 'detailedSummary'> &
+    Partial<Pick<AIBookSummary, 'validation' | 'languageCheck' | 'selfConsistency' | 'provider' | 'model' | 'preset'>>;
+
+export interface ConfidenceInput {
+    book: ConfidenceBookData;
+    summary?: ConfidenceSummaryData;
+    targetLanguage: string;
+    usesFallback: boolean;
+}
+
+export interface ConfidenceAssessment {
+    formulaVersion: string;
+    signals: ConfidenceSignals;
+    sourceAttribution: SourceAttribution[];
+    detailedConfidenceFactors: DetailedConfidenceFactors;
+    metrics: ConfidenceMetrics;
+}
+
+type WeightedFactor = [score: number | null, weight: number];
+
+// Placeholders written by the metadata registry when no provider had a value
+const UNKNOWN_VALUES = ['unknown title', 'unknown author', 'unknown publisher', 'unknown date', 'no description available.', 'uncategorized'];
+
+function isKnown(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.some(isKnown);
+    }
+    if (typeof value === 'number') {
+        return value > 0;
+    }
+    return typeof value === 'string' && value.trim().length > 0 && !UNKNOWN_VALUES.includes(value.trim().toLowerCase());
+}
+
+function weightedMean(factors: WeightedFactor[]): number | null {
+    const measured = factors.filter((factor): factor is [number, number] => factor[0] !== null);
+    const totalWeight = measured.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight === 0) {
+        return null;
+    }
+    return Math.round(measured.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight);
+}
+
+// Items saved before metadata providers were introduced were always fetched from Google Books
+function getFieldSource(book: ConfidenceBookData, ...fields: string[]): string {
+    const sources = fields
+        .map(field => book.fieldSources?.[field])
+        .filter((source): source is string => !!source);
+
+    return sources.length > 0 ? Array.from(new Set(sources)).join(', ') : 'Google Books API';
+}
+
+export function measureConfidenceSignals(input: ConfidenceInput): ConfidenceSignals {
+    const { book, summary, targetLanguage, usesFallback } = input;
+    const translated = book.language !== targetLanguage;
+    const summaryText = summary ? `${summary.shortSummary} ${summary.detailedSummary}` : '';
+    const descriptionText = isKnown(book.description) ? book.description : '';
+    const sourceText = [descriptionText, book.title, book.authors.join(' '), book.publisher, book.publishedDate, book.categories.join(' ')].join(' ');
+
+    const completenessFields = [book.title, book.authors, book.publisher, book.publishedDate, book.description, book.pageCount, book.categories, book.language];
+    const providers = new Set(Object.values(book.fieldSources || {}).filter(Boolean));
+
+    const validationScores: Record<string, number> = { valid: 100, repaired: 75, invalid: 25 };
+
+    return {
+        metadataCompleteness: Math.round((completenessFields.filter(isKnown).length / completenessFields.length) * 100),
+        descriptionRichness: Math.min(100, Math.round(descriptionText.length / 10)),
+        claimCoverage: summary && !translated ? measureClaimCoverage(summaryText, sourceText) : null,
+        entityAnchoring: summary ? measureEntityAnchoring(summaryText, sourceText) : null,
+        metadataAgreement: book.metadataAgreement ?? null,
+        languagePurity: summary
+            ? summary.languageCheck?.purity ?? measureLanguagePurity([summary.shortSummary, summary.detailedSummary], targetLanguage).purity
+            : null,
+        selfConsistency: summary?.selfConsistency ?? null,
+        responseValidity: !usesFallback && summary?.validation ? validationScores[summary.validation.status] ?? null : null,
+        subjectMention: summary ? measureSubjectMention(summaryText, book.title, book.authors) : null,
+        lengthFulfillment: summary
+            ? measureLengthFulfillment(summary.shortSummary, summary.detailedSummary, summary.preset?.shortLength.max, summary.preset?.detailedLength.max)
+            : null,
+        sentenceClarity: summary ? measureSentenceClarity(summary.detailedSummary) : null,
+        sourceDiversity: providers.size >= 3 ? 100 : providers.size === 2 ? 80 : 50
+    };
+}
+
+/**
+ * Score a book and (optionally) its summary with the shared confidence formula
+ */
+export function assessConfidence(input: ConfidenceInput): ConfidenceAssessment {
+    const { book, summary, targetLanguage, usesFallback } = input;
+    const signals = measureConfidenceSignals(input);
+    const translated = book.language !== targetLanguage;
+    const descriptionLength = isKnown(book.description) ? book.description.length : 0;
+    const categoriesKnown = isKnown(book.categories);
+
+    // Summaries saved before providers were recorded were always generated by GPT-3.5
+    const modelLabel = summary?.model ? describeLlm(summary.provider, summary.model) : 'OpenAI GPT-3.5';
+
+    const sourceAttribution: SourceAttribution[] = [
+        {
+            type: 'book_description',
+            content: descriptionLength > 0 ? book.description.substring(0, 200) + '...' : 'No description available',
+            reliability: signals.descriptionRichness ?? 0,
+            relevance: 95,
+            length: descriptionLength,
+            source: getFieldSource(book, 'description'),
+            weight: descriptionLength > 0 ? 0.4 : 0
+        },
+        {
+            type: 'metadata',
+            content: `${book.title} by ${book.authors.join(', ')} (${book.publisher}, ${book.publishedDate})`,
+            reliability: signals.metadataCompleteness ?? 0,
+            relevance: 85,
+            length: book.title.length + book.authors.join(', ').length,
+            source: getFieldSource(book, 'title', 'authors', 'publisher'),
+            weight: 0.25
+        },
+        {
+            type: 'category_data',
+            content: book.categories.join(', '),
+            reliability: categoriesKnown ? 85 : 40,
+            relevance: 80,
+            length: book.categories.join(', ').length,
+            source: getFieldSource(book, 'categories'),
+            weight: categoriesKnown ? 0.15 : 0.05
+        },
+        {
+            type: usesFallback ? 'fallback_template' : 'ai_knowledge',
+            content: usesFallback ? 'SmartLibroAI language-specific template' : `${modelLabel} knowledge base`,
+            reliability: 85,
+            relevance: 75,
+            length: 0,
+            source: usesFallback ? 'SmartLibroAI' : modelLabel,
+            weight: 0.2
+        }
+    ];
+
+    const publisherKnown = (isKnown(book.publisher) ? 50 : 0) + (isKnown(book.publishedDate) ? 50 : 0);
+    const authorKnown = isKnown(book.authors) ? 100 : 0;
+    const averageSourceReliability = Math.round(sourceAttribution.reduce((sum, source) => sum + source.reliability, 0) / sourceAttribution.length);
+    const translationQuality = translated ? signals.entityAnchoring : null;
+
+    const categories = {
+        dataQuality: weightedMean([[signals.metadataCompleteness, 0.45], [signals.descriptionRichness, 0.3], [publisherKnown, 0.15], [authorKnown, 0.1]]),
+        sourceReliability: weightedMean([[averageSourceReliability, 0.3], [signals.metadataAgreement, 0.4], [signals.entityAnchoring, 0.3]]),
+        contentCoverage: weightedMean([[signals.claimCoverage, 0.45], [signals.descriptionRichness, 0.2], [signals.sentenceClarity, 0.1], [signals.lengthFulfillment, 0.25]]),
+        aiProcessing: weightedMean([[signals.languagePurity, 0.35], [translationQuality, 0.15], [signals.selfConsistency, 0.3], [signals.responseValidity, 0.2]]),
+        crossValidation: weightedMean([[signals.sourceDiversity, 0.3], [signals.entityAnchoring, 0.3], [signals.subjectMention, 0.2], [signals.selfConsistency, 0.2]])
+    };
+    const scores = {
+        dataQuality: categories.dataQuality ?? NEUTRAL_SCORE,
+        sourceReliability: categories.sourceReliability ?? NEUTRAL_SCORE,
+        contentCoverage: categories.contentCoverage ?? NEUTRAL_SCORE,
+        aiProcessing: categories.aiProcessing ?? NEUTRAL_SCORE,
+        crossValidation: categories.crossValidation ?? NEUTRAL_SCORE
+    };
+    const or = (value: number | null, category: keyof typeof scores) => value ?? scores[category];
+
+    const detailedConfidenceFactors: DetailedConfidenceFactors = {
+        dataQuality: {
+            score: scores.dataQuality,
+            factors: {
+                descriptionLength,
+                metadataCompleteness: or(signals.metadataCompleteness, 'dataQuality'),
+                publisherReliability: publisherKnown,
+                authorCredibility: authorKnown
+            }
+        },
+        sourceReliability: {
+            score: scores.sourceReliability,
+            factors: {
+                primarySourcesCount: Math.max(1, new Set(Object.values(book.fieldSources || {}).filter(Boolean)).size),
+                averageSourceReliability,
+                sourceConsistency: or(signals.metadataAgreement, 'sourceReliability'),
+                verifiableInformation: or(signals.entityAnchoring, 'sourceReliability')
+            }
+        },
+        contentCoverage: {
+            score: scores.contentCoverage,
+            factors: {
+                topicCoverage: or(signals.claimCoverage, 'contentCoverage'),
+                thematicDepth: or(signals.descriptionRichness, 'contentCoverage'),
+                conceptualClarity: or(signals.sentenceClarity, 'contentCoverage'),
+                structuralCompleteness: or(signals.lengthFulfillment, 'contentCoverage')
+            }
+        },
+        aiProcessing: {
+            score: scores.aiProcessing,
+            factors: {
+                languageConsistency: or(signals.languagePurity, 'aiProcessing'),
+                translationQuality: translated ? or(translationQuality, 'aiProcessing') : 100,
+                summarizationAccuracy: or(signals.selfConsistency, 'aiProcessing'),
+                responseCoherence: or(signals.responseValidity, 'aiProcessing')
+            }
+        },
+        crossValidation: {
+            score: scores.crossValidation,
+            factors: {
+                multiSourceVerification: or(signals.sourceDiversity, 'crossValidation'),
+                factualConsistency: or(signals.entityAnchoring, 'crossValidation'),
+                contextualRelevance: or(signals.subjectMention, 'crossValidation'),
+                logicalCoherence: or(signals.selfConsistency, 'crossValidation')
+            }
+        }
+    };
+
+    const translationPenalty = translated ? TRANSLATION_PENALTY : 0;
+    const weightedOverall = weightedMean(
+        (Object.keys(CATEGORY_WEIGHTS) as (keyof typeof CATEGORY_WEIGHTS)[])
+            .map(category => [categories[category], CATEGORY_WEIGHTS[category]] as WeightedFactor)
+    ) ?? NEUTRAL_SCORE;
+
+    const metrics: ConfidenceMetrics = {
+        overallScore: Math.max(0, Math.min(100, weightedOverall - translationPenalty)),
+        sourceReliability: scores.sourceReliability,
+        contentCoverage: scores.contentCoverage,
+        crossReferenceValidation: scores.crossValidation,
+        factors: {
+            sourcesUsed: sourceAttribution.filter(source => source.weight > 0).length,
+            averageSourceRating: averageSourceReliability,
+            descriptionLength,
+            reviewsCount: book.ratingsCount || 0,
+            dataQualityScore: scores.dataQuality,
+            aiProcessingScore: scores.aiProcessing,
+            translationPenalty
+        },
+        detailedBreakdown: { ...scores },
+        sourceAttribution,
+        formulaVersion: CONFIDENCE_FORMULA_VERSION,
+        signals
+    };
+
+    return {
+        formulaVersion: CONFIDENCE_FORMULA_VERSION,
+        signals,
+        sourceAttribution,
+        detailedConfidenceFactors,
+        metrics
+    };
+}
@@ -0,0 +1,209 @@
+// Measurable inputs for the confidence engine. Every function returns a 0-100 score,
+// or null when the signal cannot be measured for this book/summary.
+
+// Words shorter than this are mostly function words in all supported languages
+const MIN_CONTENT_WORD_LENGTH = 5;
+
+// Words are compared on this prefix so simple inflections (explore/explores/exploring) still match
+const STEM_LENGTH = 6;
+
+// Mean share of supported words at which coverage scores 100; summaries always paraphrase
+const FULL_COVERAGE_SUPPORT = 0.6;
+
+// Mean content-word overlap between independent samples at which self-consistency scores 100
+const FULL_SELF_CONSISTENCY = 0.5;
+
+// Summary lengths (characters) requested by the standard preset
+const TARGET_SHORT_LENGTH = 300;
+const TARGET_DETAILED_LENGTH = 1000;
+
+export function words(text: string): string[] {
+    return (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+export function contentStems(text: string): Set<string> {
+    return new Set(
+        words(text)
+            .filter(word => word.length >= MIN_CONTENT_WORD_LENGTH)
+            .map(word => word.substring(0, STEM_LENGTH))
+    );
+}
+
+export function splitSentences(text: string): string[] {
+    return (text || '')
+        .split(/(?<=[.!?…])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 0);
+}
+
+function clampScore(value: number): number {
+    return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * Share of each summary sentence's content words that also occur in the source text, averaged over sentences.
+ * Only meaningful when the summary is in the same language as the source.
+ */
+export function measureClaimCoverage(summary: string, sourceText: string): number | null {
+    const sourceStems = contentStems(sourceText);
+    if (sourceStems.size === 0) {
+        return null;
+    }
+
+    const supportRatios = splitSentences(summary)
+        .map(sentence => Array.from(contentStems(sentence)))
+        .filter(sentenceStems => sentenceStems.length >= 3)
+        .map(sentenceStems => sentenceStems.filter(stem => sourceStems.has(stem)).length / sentenceStems.length);
+
+    if (supportRatios.length === 0) {
+        return null;
+    }
+
+    const meanSupport = supportRatios.reduce((sum, ratio) => sum + ratio, 0) / supportRatios.length;
+    return clampScore((meanSupport / FULL_COVERAGE_SUPPORT) * 100);
+}
+
+// Capitalized words not at the start of a sentence, and numbers of two or more digits
+export function extractAnchors(text: string): string[] {
+    const anchors: string[] = [];
+    for (const sentence of splitSentences(text)) {
+        const tokens = sentence.match(/[\p{L}\p{N}]+/gu) || [];
+        tokens.forEach((token, index) => {
+            const isName = index > 0 && token.length >= 3 && /^\p{Lu}\p{Ll}/u.test(token);
+            const isNumber = /^\d{2,}$/.test(token);
+            if (isName || isNumber) {
+                anchors.push(token.toLowerCase());
+            }
+        });
+    }
+    return Array.from(new Set(anchors));
+}
+
+/**
+ * Share of names and numbers in the summary that can be found in the source text.
+ * Language independent, so it also works for translated summaries.
+ */
+export function measureEntityAnchoring(summary: string, sourceText: string): number | null {
+    const anchors = extractAnchors(summary);
+    if (anchors.length < 2) {
+        return null;
+    }
+
+    const sourceWords = new Set(words(sourceText));
+    const anchored = anchors.filter(anchor => sourceWords.has(anchor)).length;
+    return clampScore((anchored / anchors.length) * 100);
+}
+
+/**
+ * Whether the summary names the book and its author: 50 points each
+ */
+export function measureSubjectMention(summary: string, title: string, authors: string[]): number {
+    const summaryWords = new Set(words(summary));
+    const titleWords = words(title.split(':')[0]).filter(word => word.length >= 4);
+    const surnames = authors
+        .filter(author => author && author !== 'Unknown Author')
+        .map(author => words(author).pop() || '');
+
+    const titleFound = titleWords.length > 0 && titleWords.every(word => summaryWords.has(word));
+    const authorFound = surnames.some(surname => surname && summaryWords.has(surname));
+    return (titleFound ? 50 : 0) + (authorFound ? 50 : 0);
+}
+
+/**
+ * How close the short and detailed summaries come to their requested maximum lengths
+ */
+export function measureLengthFulfillment(
+    shortSummary: string,
+    detailedSummary: string,
+    targetShortLength = TARGET_SHORT_LENGTH,
+    targetDetailedLength = TARGET_DETAILED_LENGTH
+): number {
+    const shortRatio = Math.min(1, (shortSummary?.length || 0) / (targetShortLength * 0.8));
+    const detailedRatio = Math.min(1, (detailedSummary?.length || 0) / (targetDetailedLength * 0.8));
+    return clampScore((shortRatio * 0.4 + detailedRatio * 0.6) * 100);
+}
+
+/**
+ * Share of sentences with a readable length (6-40 words)
+ */
+export function measureSentenceClarity(text: string): number | null {
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) {
+        return null;
+    }
+
+    const readable = sentences.filter(sentence => {
+        const count = words(sentence).length;
+        return count >= 6 && count <= 40;
+    }).length;
+    return clampScore((readable / sentences.length) * 100);
+}
+
+/**
+ * Mean content-word overlap (Jaccard) between the summary and independently sampled summaries of the same book
+ */
+export function measureSelfConsistency(summary: string, samples: string[]): number | null {
+    const summaryStems = contentStems(summary);
+    const overlaps = samples
+        .map(sample => contentStems(sample))
+        .filter(sampleStems => sampleStems.size > 0 && summaryStems.size > 0)
+        .map(sampleStems => {
+            const shared = Array.from(sampleStems).filter(stem => summaryStems.has(stem)).length;
+            return shared / (summaryStems.size + sampleStems.size - shared);
+        });
+
+    if (overlaps.length === 0) {
+        return null;
+    }
+
+    const meanOverlap = overlaps.reduce((sum, overlap) => sum + overlap, 0) / overlaps.length;
+    return clampScore((meanOverlap / FULL_SELF_CONSISTENCY) * 100);
+}
+
+function normalizeValue(value: unknown): string {
+    const text = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+    return words(text).join(' ');
+}
+
+function valuesAgree(field: string, a: unknown, b: unknown): boolean {
+    if (field === 'publishedDate') {
+        return String(a).substring(0, 4) === String(b).substring(0, 4);
+    }
+    if (field === 'pageCount') {
+        const larger = Math.max(Number(a), Number(b));
+        return larger > 0 && Math.abs(Number(a) - Number(b)) / larger <= 0.1;
+    }
+
+    const left = normalizeValue(a);
+    const right = normalizeValue(b);
+    // Subtitles and middle initials differ between catalogues; containment counts as agreement
+    return left === right || left.startsWith(right) || right.startsWith(left);
+}
+
+const AGREEMENT_FIELDS = ['title', 'authors', 'publisher', 'publishedDate', 'pageCount', 'language'];
+
+/**
+ * Share of field values that agree between metadata providers, compared pairwise.
+ * Null when no field was returned by more than one provider.
+ */
+export function measureMetadataAgreement(records: Record<string, unknown>[]): number | null {
+    let compared = 0;
+    let agreed = 0;
+
+    for (const field of AGREEMENT_FIELDS) {
+        const values = records
+            .map(record => record[field])
+            .filter(value => Array.isArray(value) ? value.length > 0 : !!value);
+
+        for (let i = 0; i < values.length; i++) {
+            for (let j = i + 1; j < values.length; j++) {
+                compared++;
+                if (valuesAgree(field, values[i], values[j])) {
+                    agreed++;
+                }
+            }
+        }
+    }
+
+    return compared > 0 ? clampScore((agreed / compared) * 100) : null;
+}
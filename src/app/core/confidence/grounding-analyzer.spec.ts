@@ -0,0 +1,68 @@
+import { GROUNDING_ANALYZER_VERSION, GroundingSource, analyzeGrounding } from './grounding-analyzer';
+
+const DESCRIPTION = 'Carl Sagan explores the origins of the universe. The book describes the Voyager missions in detail.';
+
+const SOURCE: GroundingSource = {
+    title: 'Cosmos',
+    authors: ['Carl Sagan'],
+    publisher: 'Random House',
+    publishedDate: '1980',
+    description: DESCRIPTION,
+    categories: ['Science'],
+    language: 'en'
+};
+
+describe('analyzeGrounding', () => {
+    it('labels each sentence by the share of its content words found in the sources', () => {
+        const report = analyzeGrounding(
+            'Sagan explores the origins of the universe. Sagan explores distant galaxies. ' +
+            'It covers quantum chromodynamics extensively. Short one.',
+            SOURCE,
+            'en'
+        );
+
+        expect(report.analyzerVersion).toBe(GROUNDING_ANALYZER_VERSION);
+        expect(report.method).toBe('lexical');
+        expect(report.claims.map(claim => [claim.label, claim.support])).toEqual([
+            ['grounded', 100],
+            ['partially_grounded', 50],
+            ['ungrounded', 0],
+            ['unverifiable', 0] // Too few content words to judge
+        ]);
+        // One of the three verifiable claims is grounded
+        expect(report.groundedShare).toBe(33);
+    });
+
+    it('points at the supporting description sentence with its offsets', () => {
+        const summary = 'In short, Sagan explores the origins of the universe.';
+        const [claim] = analyzeGrounding(summary, SOURCE, 'en').claims;
+
+        expect(claim.start).toBe(0);
+        expect(claim.end).toBe(summary.length);
+        expect(claim.evidence).toEqual([{
+            field: 'description',
+            text: 'Carl Sagan explores the origins of the universe.',
+            start: 0,
+            end: DESCRIPTION.indexOf(' The book')
+        }]);
+    });
+
+    it('matches translated summaries on names and numbers only', () => {
+        const report = analyzeGrounding('Sagan describe las misiones Voyager de 1980. Es un libro muy bonito.', SOURCE, 'es');
+
+        expect(report.method).toBe('entities');
+        expect(report.claims[0].label).toBe('grounded');
+        expect(report.claims[0].evidence.map(evidence => evidence.field)).toEqual(['description', 'publishedDate']);
+        expect(report.claims[1].label).toBe('unverifiable');
+        expect(report.groundedShare).toBe(100);
+    });
+
+    it('reports 0 when nothing could be verified', () => {
+        expect(analyzeGrounding('', SOURCE, 'en')).toEqual({
+            analyzerVersion: GROUNDING_ANALYZER_VERSION,
+            method: 'lexical',
+            groundedShare: 0,
+            claims: []
+        });
+    });
+});
@@ -0,0 +1,147 @@
+import { GroundingClaim, GroundingEvidence, GroundingLabel, GroundingReport } from '../interfaces/ai-summary.interface';
+import { contentStems, extractAnchors, words } from './confidence-signals';
+
+// Bump when matching or thresholds change so stored reports can be told apart
+export const GROUNDING_ANALYZER_VERSION = '1';
+
+// Share of a claim's content that must be found in the evidence
+const GROUNDED_SUPPORT = 0.6;
+const PARTIAL_SUPPORT = 0.3;
+
+// A claim is matched against at most this many description sentences / metadata fields
+const MAX_EVIDENCE = 3;
+
+interface TextSpan {
+    field: string;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Book fields the analyzer can match against; BookMetadata and SummaryRequest both satisfy this
+export interface GroundingSource {
+    title: string;
+    authors: string[];
+    publisher: string;
+    publishedDate: string;
+    description: string;
+    categories: string[];
+    language: string;
+}
+
+// Sentences with their offsets in the original text
+function sentenceSpans(text: string, field: string): TextSpan[] {
+    const spans: TextSpan[] = [];
+    const boundary = /(?<=[.!?…])\s+|\n+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    const push = (end: number) => {
+        const raw = text.substring(start, end);
+        const trimmed = raw.trim();
+        if (trimmed) {
+            const offset = start + raw.indexOf(trimmed);
+            spans.push({ field, text: trimmed, start: offset, end: offset + trimmed.length });
+        }
+    };
+
+    while ((match = boundary.exec(text)) !== null) {
+        push(match.index);
+        start = match.index + match[0].length;
+    }
+    push(text.length);
+
+    return spans;
+}
+
+function sourceSpans(source: GroundingSource): TextSpan[] {
+    const metadata: [string, string][] = [
+        ['title', source.title],
+        ['authors', source.authors.join(', ')],
+        ['publisher', source.publisher],
+        ['publishedDate', source.publishedDate],
+        ['categories', source.categories.join(', ')]
+    ];
+
+    return [
+        ...sentenceSpans(source.description || '', 'description'),
+        ...metadata
+            .filter(([, value]) => !!value)
+            .map(([field, value]) => ({ field, text: value, start: 0, end: value.length }))
+    ];
+}
+
+function labelFor(support: number): GroundingLabel {
+    if (support >= GROUNDED_SUPPORT) return 'grounded';
+    if (support >= PARTIAL_SUPPORT) return 'partially_grounded';
+    return 'ungrounded';
+}
+
+// Greedily pick the spans that cover the most of the claim's remaining terms
+function matchClaim(claim: TextSpan, terms: Set<string>, spans: TextSpan[], termsOf: (text: string) => Set<string>): GroundingClaim {
+    const uncovered = new Set(terms);
+    const evidence: GroundingEvidence[] = [];
+    const spanTerms = spans.map(span => termsOf(span.text));
+
+    while (evidence.length < MAX_EVIDENCE && uncovered.size > 0) {
+        let bestIndex = -1;
+        let bestGain = 0;
+        spanTerms.forEach((candidate, index) => {
+            const gain = Array.from(uncovered).filter(term => candidate.has(term)).length;
+            if (gain > bestGain) {
+                bestGain = gain;
+                bestIndex = index;
+            }
+        });
+
+        if (bestIndex === -1) {
+            break;
+        }
+
+        const span = spans[bestIndex];
+        evidence.push({ field: span.field, text: span.text, start: span.start, end: span.end });
+        spanTerms[bestIndex].forEach(term => uncovered.delete(term));
+    }
+
+    const support = (terms.size - uncovered.size) / terms.size;
+    return {
+        text: claim.text,
+        start: claim.start,
+        end: claim.end,
+        label: labelFor(support),
+        support: Math.round(support * 100),
+        evidence
+    };
+}
+
+/**
+ * Split the detailed summary into claims (sentences) and match each one to supporting spans in the
+ * description and metadata. Same-language summaries are matched on content words; translated ones can
+ * only be matched on names and numbers, so claims without either are labelled 'unverifiable'.
+ */
+export function analyzeGrounding(detailedSummary: string, source: GroundingSource, summaryLanguage: string): GroundingReport {
+    const method = source.language && source.language !== summaryLanguage ? 'entities' : 'lexical';
+    const termsOf = method === 'lexical'
+        ? (text: string) => contentStems(text)
+        : (text: string) => new Set(words(text));
+    const spans = sourceSpans(source);
+
+    const claims = sentenceSpans(detailedSummary || '', 'detailedSummary').map(claim => {
+        const terms = method === 'lexical' ? contentStems(claim.text) : new Set(extractAnchors(claim.text));
+        if (terms.size < (method === 'lexical' ? 2 : 1)) {
+            return { text: claim.text, start: claim.start, end: claim.end, label: 'unverifiable' as const, support: 0, evidence: [] };
+        }
+        return matchClaim(claim, terms, spans, termsOf);
+    });
+
+    const verifiable = claims.filter(claim => claim.label !== 'unverifiable');
+    const grounded = verifiable.filter(claim => claim.label === 'grounded').length;
+
+    return {
+        analyzerVersion: GROUNDING_ANALYZER_VERSION,
+        method,
+        // 0 when nothing could be verified
+        groundedShare: verifiable.length > 0 ? Math.round((grounded / verifiable.length) * 100) : 0,
+        claims
+    };
+}
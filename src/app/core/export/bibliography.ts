@@ -0,0 +1,121 @@
+import { BookMetadata } from '../interfaces/book.interface';
+import { cleanISBN } from '../utils/isbn';
+
+// BibTeX, RIS and CSL-JSON records built from BookMetadata
+
+interface PersonName {
+    family: string;
+    given: string;
+}
+
+// "García Márquez, Gabriel" is read as family, given; without a comma the last word is the family name
+export function parsePersonName(name: string): PersonName {
+    const trimmed = (name || '').trim();
+    if (trimmed.includes(',')) {
+        const [family, ...given] = trimmed.split(',');
+        return { family: family.trim(), given: given.join(',').trim() };
+    }
+    const parts = trimmed.split(/\s+/);
+    return { family: parts.pop() || '', given: parts.join(' ') };
+}
+
+function knownAuthors(book: BookMetadata): string[] {
+    return (book.authors || []).filter(author => author && author !== 'Unknown Author');
+}
+
+function parseDate(publishedDate: string): number[] {
+    const parts = (publishedDate || '').match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+    return parts ? parts.slice(1).filter(Boolean).map(Number) : [];
+}
+
+function citationKey(book: BookMetadata, used: Set<string>): string {
+    const author = knownAuthors(book)[0];
+    const surname = author ? parsePersonName(author).family : 'anon';
+    const year = parseDate(book.publishedDate)[0] || 'nd';
+    const word = (book.title || '').split(/\s+/).find(candidate => candidate.length > 3) || 'book';
+    const base = `${surname}${year}${word}`.normalize('NFD').replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+
+    // Keys must be unique within a file: smith2001a, smith2001b, ...
+    let key = base;
+    for (let suffix = 0; used.has(key); suffix++) {
+        key = base + String.fromCharCode(97 + suffix);
+    }
+    used.add(key);
+    return key;
+}
+
+function escapeBibtex(text: string): string {
+    return (text || '').replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+}
+
+export function renderBibtex(books: BookMetadata[]): string {
+    const used = new Set<string>();
+    return books.map(book => {
+        const fields: [string, string][] = [
+            ['title', `{${escapeBibtex(book.title)}}`],
+            ['author', knownAuthors(book).map(author => {
+                const { family, given } = parsePersonName(author);
+                return given ? `${family}, ${given}` : family;
+            }).map(escapeBibtex).join(' and ')],
+            ['publisher', escapeBibtex(book.publisher)],
+            ['year', String(parseDate(book.publishedDate)[0] || '')],
+            ['isbn', cleanISBN(book.isbn)],
+            ['pagetotal', book.pageCount ? String(book.pageCount) : ''],
+            ['language', book.language || '']
+        ];
+
+        const body = fields
+            .filter(([, value]) => value && value !== '{}')
+            .map(([name, value]) => `  ${name} = {${value}}`)
+            .join(',\n');
+        return `@book{${citationKey(book, used)},\n${body}\n}`;
+    }).join('\n\n') + '\n';
+}
+
+/**
+ * RIS records (one per book), as read by Zotero, EndNote and Mendeley
+ */
+export function renderRis(books: BookMetadata[]): string {
+    return books.map(book => {
+        const date = parseDate(book.publishedDate);
+        const lines: [string, string][] = [
+            ['TY', 'BOOK'],
+            ['TI', book.title],
+            ...knownAuthors(book).map(author => {
+                const { family, given } = parsePersonName(author);
+                return ['AU', given ? `${family}, ${given}` : family] as [string, string];
+            }),
+            ['PB', book.publisher],
+            ['PY', date[0] ? String(date[0]) : ''],
+            ['DA', date.length ? date.map(part => String(part).padStart(2, '0')).join('/') : ''],
+            ['SN', cleanISBN(book.isbn)],
+            ['SP', book.pageCount ? String(book.pageCount) : ''],
+            ['LA', book.language],
+            ...(book.categories || []).map(category => ['KW', category] as [string, string])
+        ];
+
+        return [
+            ...lines.filter(([, value]) => value).map(([tag, value]) => `${tag}  - ${value.replace(/[\r\n]+/g, ' ')}`),
+            'ER  - '
+        ].join('\r\n');
+    }).join('\r\n\r\n') + '\r\n';
+}
+
+export function renderCslJson(books: BookMetadata[]): string {
+    const used = new Set<string>();
+    const records = books.map(book => {
+        const date = parseDate(book.publishedDate);
+        return {
+            id: citationKey(book, used),
+            type: 'book',
+            title: book.title,
+            author: knownAuthors(book).map(author => parsePersonName(author)),
+            ...(book.publisher ? { publisher: book.publisher } : {}),
+            ...(date.length ? { issued: { 'date-parts': [date] } } : {}),
+            ISBN: cleanISBN(book.isbn),
+            ...(book.pageCount ? { 'number-of-pages': book.pageCount } : {}),
+            ...(book.language ? { language: book.language } : {})
+        };
+    });
+    return JSON.stringify(records, null, 2);
+}
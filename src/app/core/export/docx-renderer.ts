@@ -0,0 +1,139 @@
+import { ExportImage } from './export-formats';
+import { Report, ReportBlock } from './report';
+import { ZipEntry, createZip } from './zip';
+
+// Office Open XML (DOCX) writer for reports: one document part, a style sheet and the cover images
+
+const EMU_PER_POINT = 12700;
+const HEADING_SIZES = { 1: 40, 2: 32, 3: 24 }; // Half-points
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="jpeg" ContentType="image/jpeg"/>
+<Default Extension="png" ContentType="image/png"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+function headingStyle(level: 1 | 2 | 3): string {
+    return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>` +
+        `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/>` +
+        `<w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${HEADING_SIZES[level]}"/></w:rPr></w:style>`;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>` +
+    `<w:sz w:val="21"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headingStyle(1)}
+${headingStyle(2)}
+${headingStyle(3)}
+</w:styles>`;
+
+// XML 1.0 does not allow most control characters, not even escaped
+function escapeXml(text: string): string {
+    return (text || '')
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// Line breaks inside a paragraph become <w:br/>
+function run(text: string, properties = ''): string {
+    const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : '';
+    return (text || '').split(/\r?\n/)
+        .map(line => `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+        .join(`<w:r><w:br/></w:r>`);
+}
+
+function paragraph(content: string, properties = ''): string {
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function table(rows: [string, string][]): string {
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`;
+    const cell = (content: string, width: number) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraph(content, '<w:spacing w:after="0"/>')}</w:tc>`;
+
+    return `<w:tbl><w:tblPr><w:tblW w:w="9000" w:type="dxa"/><w:tblBorders>` +
+        ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('') +
+        `</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>` +
+        `<w:tblGrid><w:gridCol w:w="3000"/><w:gridCol w:w="6000"/></w:tblGrid>` +
+        rows.map(([label, value]) => `<w:tr>${cell(run(label, '<w:b/>'), 3000)}${cell(run(value), 6000)}</w:tr>`).join('') +
+        `</w:tbl>` +
+        // Word merges a table with a directly following one; an empty paragraph keeps them apart
+        paragraph('', '<w:spacing w:after="0"/>');
+}
+
+function drawing(relationshipId: string, id: number, width: number, height: number): string {
+    const cx = Math.round(width * EMU_PER_POINT);
+    const cy = Math.round(height * EMU_PER_POINT);
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+        `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Cover ${id}"/>` +
+        `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+        `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+        `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+        `<pic:nvPicPr><pic:cNvPr id="${id}" name="Cover ${id}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+        `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+        `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+        `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+export function renderDocx(report: Report): Uint8Array {
+    const images: ExportImage[] = [];
+
+    const body = report.blocks.map((block: ReportBlock) => {
+        switch (block.type) {
+            case 'heading':
+                return paragraph(run(block.text), `<w:pStyle w:val="Heading${block.level}"/>`);
+            case 'paragraph':
+                return paragraph(run(block.text, block.muted ? '<w:color w:val="6B7280"/><w:sz w:val="19"/>' : ''));
+            case 'table':
+                return table(block.rows);
+            case 'image':
+                images.push(block.image);
+                return paragraph(drawing(`rIdImage${images.length}`, images.length, block.width, block.height));
+            case 'pageBreak':
+                return paragraph('<w:r><w:br w:type="page"/></w:r>');
+        }
+    }).join('');
+
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ` +
+        `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ` +
+        `xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">` +
+        `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>` +
+        `<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/>` +
+        `</w:sectPr></w:body></w:document>`;
+
+    const mediaPath = (image: ExportImage, index: number) => `media/cover${index + 1}.${image.format === 'jpeg' ? 'jpeg' : 'png'}`;
+    const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+${images.map((image, index) =>
+        `<Relationship Id="rIdImage${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${mediaPath(image, index)}"/>`
+    ).join('\n')}
+</Relationships>`;
+
+    const entries: ZipEntry[] = [
+        { path: '[Content_Types].xml', data: CONTENT_TYPES },
+        { path: '_rels/.rels', data: PACKAGE_RELS },
+        { path: 'word/document.xml', data: document },
+        { path: 'word/styles.xml', data: STYLES },
+        { path: 'word/_rels/document.xml.rels', data: documentRels },
+        ...images.map((image, index) => ({ path: `word/${mediaPath(image, index)}`, data: image.data }))
+    ];
+
+    return createZip(entries);
+}
@@ -0,0 +1,139 @@
+import { SummaryVariant, UserLibraryItem } from '../interfaces/book.interface';
+import { SummaryAnnotation } from '../interfaces/annotation.interface';
+import { REVIEW_STATUS_LABELS, getReviewStatus } from '../utils/review-workflow';
+import { describeAnnotation } from '../utils/annotations';
+import { READING_LEVEL_LABELS, describeElectoralRelevance, getStructuredSummary } from '../utils/structured-summary';
+
+// Library export formats. Everything here is plain TypeScript without browser APIs, so the
+// renderers also run in the SSR server; LibraryExportService adds cover downloads and the file download.
+
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'csv' | 'txt' | 'json' | 'bibtex' | 'ris' | 'csl-json';
+
+export interface ExportFormatInfo {
+    label: string;
+    extension: string;
+    mimeType: string;
+    bibliographic: boolean; // Built from BookMetadata only; summaries are not included
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    'pdf': { label: 'PDF report', extension: 'pdf', mimeType: 'application/pdf', bibliographic: false },
+    'docx': {
+        label: 'Word report (DOCX)',
+        extension: 'docx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        bibliographic: false
+    },
+    'md': { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', bibliographic: false },
+    'csv': { label: 'CSV', extension: 'csv', mimeType: 'text/csv', bibliographic: false },
+    'txt': { label: 'Plain text', extension: 'txt', mimeType: 'text/plain', bibliographic: false },
+    'json': { label: 'JSON', extension: 'json', mimeType: 'application/json', bibliographic: false },
+    'bibtex': { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex', bibliographic: true },
+    'ris': { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems', bibliographic: true },
+    'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json', bibliographic: true }
+};
+
+// Cover image bytes with the pixel size read from the file header
+export interface ExportImage {
+    data: Uint8Array;
+    format: 'jpeg' | 'png';
+    width: number;
+    height: number;
+    components: number; // Colour channels; PDF needs this for JPEG images
+}
+
+// One library item as exported: the summary variant chosen in the library, an optional cover and
+// the exporting user's annotations on that variant
+export interface ExportEntry {
+    item: UserLibraryItem;
+    variant: SummaryVariant;
+    cover?: ExportImage;
+    annotations?: SummaryAnnotation[];
+}
+
+export interface ExportOptions {
+    official: boolean; // Only approved items; marked as official in every format
+    exportedAt: Date;
+}
+
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string | Uint8Array;
+    warnings?: string[]; // Shown to the user after the download, e.g. letters the PDF font lacks
+}
+
+export function reviewLine(entry: ExportEntry, options: ExportOptions): string {
+    const review = entry.item.review;
+    return options.official
+        ? `OFFICIAL SUMMARY - approved by ${review?.reviewerName || review?.reviewerId} on ${review?.decidedAt?.toLocaleDateString() || 'unknown date'}`
+        : `Review status: ${REVIEW_STATUS_LABELS[getReviewStatus(review)]} (not an official summary)`;
+}
+
+// Metrics of the exported variant; variants saved before they carried their own metrics use the item's
+export function entryMetrics(entry: ExportEntry) {
+    return entry.variant.confidenceMetrics || entry.item.confidenceMetrics;
+}
+
+// Label/value rows shared by the PDF, DOCX and Markdown reports
+export function confidenceRows(entry: ExportEntry): [string, string][] {
+    const metrics = entryMetrics(entry);
+    const breakdown = metrics.detailedBreakdown;
+    const rows: [string, string][] = [
+        ['Overall score', `${metrics.overallScore}%`],
+        ['Source reliability', `${breakdown?.sourceReliability ?? metrics.sourceReliability}%`],
+        ['Content coverage', `${breakdown?.contentCoverage ?? metrics.contentCoverage}%`],
+        ['Cross-reference validation', `${breakdown?.crossValidation ?? metrics.crossReferenceValidation}%`]
+    ];
+    if (breakdown) {
+        rows.push(['Data quality', `${breakdown.dataQuality}%`], ['AI processing', `${breakdown.aiProcessing}%`]);
+    }
+    return rows;
+}
+
+export function annotationLines(entry: ExportEntry): string[] {
+    return (entry.annotations || []).map(describeAnnotation);
+}
+
+export function keyPointLines(entry: ExportEntry): string[] {
+    return getStructuredSummary(entry.variant)?.keyPoints || [];
+}
+
+// Empty for summaries generated without the structured analysis
+export function analysisRows(entry: ExportEntry): [string, string][] {
+    const structured = getStructuredSummary(entry.variant);
+    if (!structured) {
+        return [];
+    }
+    return [
+        ['Main themes', structured.themes.join(', ')],
+        ['Target audience', structured.targetAudience],
+        ['Reading level', READING_LEVEL_LABELS[structured.readingLevel]],
+        ['Electoral relevance', describeElectoralRelevance(structured)]
+    ];
+}
+
+export function metadataRows(entry: ExportEntry): [string, string][] {
+    const book = entry.item.bookData;
+    return [
+        ['Author(s)', book.authors.join(', ')],
+        ['Publisher', book.publisher],
+        ['Published', book.publishedDate],
+        ['Pages', book.pageCount ? String(book.pageCount) : 'Unknown'],
+        ['Categories', book.categories.join(', ')],
+        ['ISBN', book.isbn],
+        ['Summary language', entry.variant.language.toUpperCase()]
+    ];
+}
+
+// Accents are dropped rather than replaced, so "Cien años de soledad" becomes cien_anos_de_soledad
+export function slugify(text: string): string {
+    return (text || 'export').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
+export function exportFilename(entries: ExportEntry[], format: ExportFormat, options: ExportOptions): string {
+    const base = entries.length === 1
+        ? `${slugify(entries[0].item.bookData.title)}_${options.official ? 'official' : 'summary'}`
+        : `smartlibro_${options.official ? 'official_' : ''}library_${options.exportedAt.toISOString().substring(0, 10)}`;
+    return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,59 @@
+import { ExportImage } from './export-formats';
+
+// Reads the size of JPEG and PNG covers from their headers so reports can scale them without decoding
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG colour type -> channels
+const PNG_COMPONENTS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function readJpeg(data: Uint8Array): ExportImage | null {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) {
+            return null;
+        }
+        const marker = data[offset + 1];
+        if (marker === 0xff) {
+            offset++; // Fill byte
+            continue;
+        }
+
+        // Start-of-frame markers hold the image size; C4 (DHT), C8 (JPG) and CC (DAC) share the range
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return {
+                data,
+                format: 'jpeg',
+                height: (data[offset + 5] << 8) | data[offset + 6],
+                width: (data[offset + 7] << 8) | data[offset + 8],
+                components: data[offset + 9]
+            };
+        }
+        offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+    }
+    return null;
+}
+
+function readPng(data: Uint8Array): ExportImage | null {
+    if (data.length < 26) {
+        return null;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return {
+        data,
+        format: 'png',
+        width: view.getUint32(16),
+        height: view.getUint32(20),
+        components: PNG_COMPONENTS[data[25]] || 3
+    };
+}
+
+export function readImageInfo(data: Uint8Array): ExportImage | null {
+    if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8) {
+        return readJpeg(data);
+    }
+    if (PNG_SIGNATURE.every((byte, index) => data[index] === byte)) {
+        return readPng(data);
+    }
+    return null;
+}
@@ -0,0 +1,54 @@
+import { renderPdf } from './pdf-renderer';
+import { Report } from './report';
+
+// Guaraní nasal vowels: ẽ, ĩ, ũ and ỹ are precomposed letters outside Latin-1, g̃ only exists as g
+// followed by a combining tilde; ñ and á are in WinAnsi
+const GUARANI = 'Ñande rekove ko yvy ári, ñande ĩ ha ñane ẽ, mitã ũ ha ỹ, ha g̃uahẽ.';
+
+function report(text: string, title = 'Informe'): Report {
+    return { title, blocks: [{ type: 'heading', text: title, level: 1 }, { type: 'paragraph', text }] };
+}
+
+function contentOf(data: Uint8Array): string {
+    return Array.from(data, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('renderPdf', () => {
+    it('writes WinAnsi letters as they are', () => {
+        const pdf = renderPdf(report('Año ñandutí, café — “cita”'));
+
+        expect(pdf.substitutions.size).toBe(0);
+        // ñ, í, é and the typographic punctuation as WinAnsi octal escapes
+        expect(contentOf(pdf.data)).toContain('(A\\361o \\361andut\\355, caf\\351 \\227 \\223cita\\224) Tj');
+    });
+
+    it('falls back to the base letter for Guaraní nasal vowels and reports each one', () => {
+        const pdf = renderPdf(report(GUARANI));
+        const content = contentOf(pdf.data);
+
+        expect(content).toContain('(\\321ande rekove ko yvy \\341ri, \\361ande i ha \\361ane e, mit\\343 u ha y, ha guahe.) Tj');
+        expect(content).not.toContain('?');
+        expect([...pdf.substitutions]).toEqual([
+            ['ĩ', 'i'],
+            ['ẽ', 'e'],
+            ['ũ', 'u'],
+            ['ỹ', 'y'],
+            ['g̃', 'g']
+        ]);
+    });
+
+    it('reports letters in the title and table rows too', () => {
+        const pdf = renderPdf({ title: 'Ñe\'ẽ', blocks: [{ type: 'table', rows: [['Ñe\'ẽ', 'Avañe\'ẽ']] }] });
+
+        expect([...pdf.substitutions]).toEqual([['ẽ', 'e']]);
+        expect(contentOf(pdf.data)).toContain('/Title (\\321e\'e)');
+    });
+
+    it('only writes "?" for letters without a WinAnsi base letter, and reports them', () => {
+        const pdf = renderPdf(report('Книга?'));
+
+        expect(contentOf(pdf.data)).toContain('(??????) Tj');
+        expect(pdf.substitutions.get('К')).toBe('?');
+        expect(pdf.substitutions.has('?')).toBeFalse();
+    });
+});
@@ -0,0 +1,324 @@
+import { ExportImage } from './export-formats';
+import { Report } from './report';
+
+// PDF 1.4 writer for reports: standard Helvetica fonts (WinAnsi encoding, no embedding) and
+// JPEG covers passed through as DCT streams. PNG covers would need decoding and are left out.
+// Letters WinAnsi lacks (Guaraní ẽ and g̃, Vietnamese, non-Latin scripts) are written as their base
+// letter, or '?' when there is none, and reported back so the export can warn about them.
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BODY_SIZE = 10.5;
+const HEADING_SIZES = { 1: 20, 2: 16, 3: 12 };
+const LINE_HEIGHT = 1.4;
+const LABEL_WIDTH = 150;
+
+const TEXT_COLOR = '0.07 0.09 0.15 rg';
+const MUTED_COLOR = '0.42 0.45 0.5 rg';
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Helvetica-Bold is not in the table; scaling the regular widths keeps wrapped lines inside the margin
+const BOLD_FACTOR = 1.1;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+    'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+    '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+function winAnsiCode(char: string): number {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+        return code;
+    }
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f; // '?'
+}
+
+function isWinAnsi(text: string): boolean {
+    return [...text].every(char => char === '?' || winAnsiCode(char) !== 0x3f);
+}
+
+// Maps each letter with its combining marks to text WinAnsi can show, recording every replacement
+function toWinAnsi(text: string, substitutions: Map<string, string>): string {
+    return text.normalize('NFC').replace(/[^\s\p{M}]\p{M}*|\p{M}+/gu, letter => {
+        if (isWinAnsi(letter)) {
+            return letter;
+        }
+        const base = letter.normalize('NFD').replace(/\p{M}/gu, '');
+        const replacement = base && isWinAnsi(base) ? base : '?';
+        substitutions.set(letter, replacement);
+        return replacement;
+    });
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+    let width = 0;
+    for (const char of text) {
+        const code = winAnsiCode(char);
+        width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return width * size / 1000 * (bold ? BOLD_FACTOR : 1);
+}
+
+// PDF string literal; non-ASCII bytes as octal escapes so content streams stay ASCII
+function pdfString(text: string): string {
+    let result = '(';
+    for (const char of text) {
+        const code = winAnsiCode(char);
+        if (char === '(' || char === ')' || char === '\\') {
+            result += '\\' + char;
+        } else if (code > 0x7e) {
+            result += '\\' + code.toString(8).padStart(3, '0');
+        } else {
+            result += String.fromCharCode(code);
+        }
+    }
+    return result + ')';
+}
+
+function wrapText(text: string, size: number, bold: boolean, maxWidth: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of (text || '').split(/\r?\n/)) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (textWidth(candidate, size, bold) <= maxWidth) {
+                line = candidate;
+                continue;
+            }
+            if (line) {
+                lines.push(line);
+            }
+            // Words longer than a line are broken by character
+            line = '';
+            for (const char of word) {
+                if (line && textWidth(line + char, size, bold) > maxWidth) {
+                    lines.push(line);
+                    line = '';
+                }
+                line += char;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
+interface PdfPage {
+    content: string[];
+    images: number[]; // Indexes into the image list
+}
+
+class PdfLayout {
+    pages: PdfPage[] = [];
+    images: ExportImage[] = [];
+    substitutions = new Map<string, string>();
+    private y = 0;
+
+    constructor() {
+        this.newPage();
+    }
+
+    newPage(): void {
+        this.pages.push({ content: [], images: [] });
+        this.y = PAGE_HEIGHT - MARGIN;
+    }
+
+    private get page(): PdfPage {
+        return this.pages[this.pages.length - 1];
+    }
+
+    private ensureSpace(height: number): void {
+        if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) {
+            this.newPage();
+        }
+    }
+
+    space(height: number): void {
+        this.y -= height;
+    }
+
+    text(text: string, x: number, size: number, bold: boolean, color = TEXT_COLOR): void {
+        this.page.content.push(
+            `BT ${color} /${bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${x.toFixed(2)} ${this.y.toFixed(2)} Tm ${pdfString(text)} Tj ET`
+        );
+    }
+
+    lines(text: string, size: number, bold: boolean, color = TEXT_COLOR): void {
+        const lineHeight = size * LINE_HEIGHT;
+        for (const line of wrapText(toWinAnsi(text, this.substitutions), size, bold, CONTENT_WIDTH)) {
+            this.ensureSpace(lineHeight);
+            this.y -= lineHeight;
+            this.text(line, MARGIN, size, bold, color);
+        }
+    }
+
+    table(rows: [string, string][]): void {
+        const lineHeight = BODY_SIZE * LINE_HEIGHT;
+        for (const [label, value] of rows) {
+            const labelLines = wrapText(toWinAnsi(label, this.substitutions), BODY_SIZE, true, LABEL_WIDTH - 8);
+            const valueLines = wrapText(toWinAnsi(value, this.substitutions), BODY_SIZE, false, CONTENT_WIDTH - LABEL_WIDTH);
+            const height = Math.max(labelLines.length, valueLines.length) * lineHeight + 4;
+            this.ensureSpace(height);
+
+            const top = this.y;
+            labelLines.forEach((line, index) => {
+                this.y = top - (index + 1) * lineHeight;
+                this.text(line, MARGIN, BODY_SIZE, true);
+            });
+            valueLines.forEach((line, index) => {
+                this.y = top - (index + 1) * lineHeight;
+                this.text(line, MARGIN + LABEL_WIDTH, BODY_SIZE, false);
+            });
+            this.y = top - height;
+            this.page.content.push(
+                `0.82 0.84 0.86 RG 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${(PAGE_WIDTH - MARGIN).toFixed(2)} ${this.y.toFixed(2)} l S`
+            );
+        }
+    }
+
+    image(image: ExportImage, width: number, height: number): void {
+        if (image.format !== 'jpeg') {
+            return;
+        }
+        this.ensureSpace(height);
+        this.y -= height;
+        this.images.push(image);
+        this.page.images.push(this.images.length - 1);
+        this.page.content.push(`q ${width} 0 0 ${height} ${MARGIN} ${this.y.toFixed(2)} cm /Im${this.images.length - 1} Do Q`);
+    }
+}
+
+class PdfWriter {
+    private parts: Uint8Array[] = [];
+    private length = 0;
+    private offsets: number[] = [];
+
+    write(data: string | Uint8Array): void {
+        const bytes = typeof data === 'string' ? Uint8Array.from(data, char => char.charCodeAt(0) & 0xff) : data;
+        this.parts.push(bytes);
+        this.length += bytes.length;
+    }
+
+    object(id: number, body: string, stream?: Uint8Array | string): void {
+        this.offsets[id] = this.length;
+        this.write(`${id} 0 obj\n${body}\n`);
+        if (stream !== undefined) {
+            this.write('stream\n');
+            this.write(stream);
+            this.write('\nendstream\n');
+        }
+        this.write('endobj\n');
+    }
+
+    finish(rootId: number, infoId: number): Uint8Array {
+        const xrefOffset = this.length;
+        const count = this.offsets.length;
+        this.write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+        for (let id = 1; id < count; id++) {
+            this.write(`${String(this.offsets[id]).padStart(10, '0')} 00000 n \n`);
+        }
+        this.write(`trailer\n<< /Size ${count} /Root ${rootId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+        const result = new Uint8Array(this.length);
+        let offset = 0;
+        for (const part of this.parts) {
+            result.set(part, offset);
+            offset += part.length;
+        }
+        return result;
+    }
+}
+
+function imageColorSpace(image: ExportImage): string {
+    if (image.components === 1) return '/DeviceGray';
+    // Adobe CMYK JPEGs store inverted values
+    if (image.components === 4) return '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]';
+    return '/DeviceRGB';
+}
+
+export interface PdfDocument {
+    data: Uint8Array;
+    substitutions: Map<string, string>; // Letters Helvetica cannot show, with what was written instead
+}
+
+export function renderPdf(report: Report): PdfDocument {
+    const layout = new PdfLayout();
+    const title = toWinAnsi(report.title, layout.substitutions);
+
+    report.blocks.forEach((block, index) => {
+        switch (block.type) {
+            case 'heading':
+                if (index > 0) layout.space(block.level === 3 ? 6 : 10);
+                layout.lines(block.text, HEADING_SIZES[block.level], true);
+                layout.space(4);
+                break;
+            case 'paragraph':
+                layout.lines(block.text, block.muted ? BODY_SIZE - 1 : BODY_SIZE, false, block.muted ? MUTED_COLOR : TEXT_COLOR);
+                layout.space(6);
+                break;
+            case 'table':
+                layout.table(block.rows);
+                layout.space(6);
+                break;
+            case 'image':
+                layout.image(block.image, block.width, block.height);
+                layout.space(10);
+                break;
+            case 'pageBreak':
+                layout.newPage();
+                break;
+        }
+    });
+
+    // Object ids: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images, then a page and its content per page
+    const writer = new PdfWriter();
+    const firstImageId = 6;
+    const firstPageId = firstImageId + layout.images.length;
+    const pageIds = layout.pages.map((_, index) => firstPageId + index * 2);
+
+    writer.write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writer.object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writer.object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writer.object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writer.object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    writer.object(5, `<< /Title ${pdfString(title)} /Producer (SmartLibro AI) >>`);
+
+    layout.images.forEach((image, index) => {
+        writer.object(
+            firstImageId + index,
+            `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${imageColorSpace(image)} ` +
+            `/BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+            image.data
+        );
+    });
+
+    layout.pages.forEach((page, index) => {
+        const footer = `BT ${MUTED_COLOR} /F1 8 Tf 1 0 0 1 ${MARGIN} ${MARGIN / 2} Tm ` +
+            `${pdfString(`${title} · Page ${index + 1} of ${layout.pages.length}`)} Tj ET`;
+        const content = [...page.content, footer].join('\n');
+        const xObjects = page.images.map(imageIndex => `/Im${imageIndex} ${firstImageId + imageIndex} 0 R`).join(' ');
+
+        writer.object(
+            pageIds[index],
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+            `/Contents ${pageIds[index] + 1} 0 R >>`
+        );
+        writer.object(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    return { data: writer.finish(1, 5), substitutions: layout.substitutions };
+}
@@ -0,0 +1,51 @@
+import { EXPORT_FORMATS, ExportEntry, ExportFile, ExportFormat, ExportOptions, exportFilename } from './export-formats';
+import { renderBibtex, renderCslJson, renderRis } from './bibliography';
+import { renderDocx } from './docx-renderer';
+import { renderPdf } from './pdf-renderer';
+import { buildReport } from './report';
+import { renderCsv, renderJson, renderMarkdown, renderText } from './text-formats';
+
+type RenderedContent = Pick<ExportFile, 'content' | 'warnings'>;
+
+// Helvetica only covers WinAnsi; DOCX leaves the glyphs to the reader's fonts
+function substitutionWarnings(substitutions: Map<string, string>): string[] {
+    if (substitutions.size === 0) {
+        return [];
+    }
+    const replaced = [...substitutions].map(([letter, replacement]) => `${letter} as ${replacement}`).join(', ');
+    return [`The PDF font cannot show every letter, so it writes ${replaced}. Export as DOCX to keep them.`];
+}
+
+function renderContent(entries: ExportEntry[], format: ExportFormat, options: ExportOptions): RenderedContent {
+    const books = entries.map(entry => entry.item.bookData);
+
+    switch (format) {
+        case 'pdf': {
+            const pdf = renderPdf(buildReport(entries, options));
+            return { content: pdf.data, warnings: substitutionWarnings(pdf.substitutions) };
+        }
+        case 'docx': return { content: renderDocx(buildReport(entries, options)) };
+        case 'md': return { content: renderMarkdown(entries, options) };
+        case 'csv': return { content: renderCsv(entries) };
+        case 'txt': return { content: renderText(entries, options) };
+        case 'json': return { content: renderJson(entries) };
+        case 'bibtex': return { content: renderBibtex(books) };
+        case 'ris': return { content: renderRis(books) };
+        case 'csl-json': return { content: renderCslJson(books) };
+    }
+}
+
+/**
+ * Render library entries in one of the export formats. Pure function: no network or DOM access,
+ * covers must already be attached to the entries.
+ */
+export function renderExport(entries: ExportEntry[], format: ExportFormat, options: ExportOptions): ExportFile {
+    if (entries.length === 0) {
+        throw new Error('Nothing to export');
+    }
+    return {
+        filename: exportFilename(entries, format, options),
+        mimeType: EXPORT_FORMATS[format].mimeType,
+        ...renderContent(entries, format, options)
+    };
+}
@@ -0,0 +1,100 @@
+import {
+    ExportEntry,
+    ExportImage,
+    ExportOptions,
+    analysisRows,
+    annotationLines,
+    confidenceRows,
+    keyPointLines,
+    metadataRows,
+    reviewLine
+} from './export-formats';
+
+// Layout-neutral report shared by the PDF and DOCX renderers
+
+export type ReportBlock =
+    | { type: 'heading'; text: string; level: 1 | 2 | 3 }
+    | { type: 'paragraph'; text: string; muted?: boolean }
+    | { type: 'table'; rows: [string, string][] }
+    | { type: 'image'; image: ExportImage; width: number; height: number } // Size in points
+    | { type: 'pageBreak' };
+
+export interface Report {
+    title: string;
+    blocks: ReportBlock[];
+}
+
+// Covers are drawn at this height (points), keeping their aspect ratio
+const COVER_HEIGHT = 140;
+
+function generationLine(entry: ExportEntry): string {
+    const aiSummary = entry.variant.aiSummary || entry.item.aiSummary;
+    const method = aiSummary?.processingMethod === 'fallback_template'
+        ? 'template (AI unavailable)'
+        : [aiSummary?.provider, aiSummary?.model].filter(Boolean).join(' ') || 'AI';
+    const generatedAt = entry.variant.generatedAt instanceof Date && !isNaN(entry.variant.generatedAt.getTime())
+        ? entry.variant.generatedAt.toISOString().substring(0, 10)
+        : 'unknown date';
+    return `Generated ${generatedAt} with ${method}`;
+}
+
+export function buildReport(entries: ExportEntry[], options: ExportOptions): Report {
+    const title = `SmartLibro AI - ${options.official ? 'Official Summaries' : 'Book Summaries'}`;
+    const blocks: ReportBlock[] = [
+        { type: 'heading', text: title, level: 1 },
+        {
+            type: 'paragraph',
+            text: `Exported ${options.exportedAt.toISOString().substring(0, 10)} · ${entries.length} ${entries.length === 1 ? 'book' : 'books'}`,
+            muted: true
+        }
+    ];
+
+    entries.forEach((entry, index) => {
+        if (index > 0) {
+            blocks.push({ type: 'pageBreak' });
+        }
+        if (entry.cover && entry.cover.width > 0 && entry.cover.height > 0) {
+            blocks.push({
+                type: 'image',
+                image: entry.cover,
+                width: Math.round(COVER_HEIGHT * entry.cover.width / entry.cover.height),
+                height: COVER_HEIGHT
+            });
+        }
+
+        blocks.push(
+            { type: 'heading', text: entry.item.bookData.title, level: 2 },
+            { type: 'paragraph', text: reviewLine(entry, options), muted: true },
+            { type: 'table', rows: metadataRows(entry) },
+            { type: 'heading', text: 'Quick Summary', level: 3 },
+            { type: 'paragraph', text: entry.variant.short },
+            { type: 'heading', text: 'Detailed Summary', level: 3 },
+            { type: 'paragraph', text: entry.variant.detailed }
+        );
+
+        const analysis = analysisRows(entry);
+        if (analysis.length > 0) {
+            blocks.push(
+                { type: 'heading', text: 'Key Points', level: 3 },
+                ...keyPointLines(entry).map(line => ({ type: 'paragraph' as const, text: `• ${line}` })),
+                { type: 'table', rows: analysis }
+            );
+        }
+
+        const annotations = annotationLines(entry);
+        if (annotations.length > 0) {
+            blocks.push(
+                { type: 'heading', text: 'Annotations', level: 3 },
+                ...annotations.map(line => ({ type: 'paragraph' as const, text: line }))
+            );
+        }
+
+        blocks.push(
+            { type: 'heading', text: 'Confidence Breakdown', level: 3 },
+            { type: 'table', rows: confidenceRows(entry) },
+            { type: 'paragraph', text: generationLine(entry), muted: true }
+        );
+    });
+
+    return { title, blocks };
+}
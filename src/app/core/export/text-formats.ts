@@ -0,0 +1,159 @@
+import {
+    ExportEntry,
+    ExportOptions,
+    analysisRows,
+    annotationLines,
+    confidenceRows,
+    entryMetrics,
+    keyPointLines,
+    metadataRows,
+    reviewLine
+} from './export-formats';
+import { REVIEW_STATUS_LABELS, getReviewStatus } from '../utils/review-workflow';
+import { READING_LEVEL_LABELS, describeElectoralRelevance, getStructuredSummary } from '../utils/structured-summary';
+
+// Plain text, Markdown, CSV and JSON exports
+
+function textEntry(entry: ExportEntry, options: ExportOptions): string {
+    const { item, variant } = entry;
+    const book = item.bookData;
+    const metrics = entryMetrics(entry);
+    const annotations = annotationLines(entry);
+    const analysis = analysisRows(entry);
+    const analysisText = analysis.length > 0
+        ? `\nKey Points:\n${keyPointLines(entry).map(line => `- ${line}`).join('\n')}\n\nAnalysis:\n${analysis.map(([label, value]) => `- ${label}: ${value}`).join('\n')}\n`
+        : '';
+
+    return `
+SMARTLIBRO AI - BOOK SUMMARY
+============================
+${reviewLine(entry, options)}
+
+Book Information:
+- Title: ${book.title}
+- Author(s): ${book.authors.join(', ')}
+- Publisher: ${book.publisher}
+- Published: ${book.publishedDate}
+- Pages: ${book.pageCount || 'Unknown'}
+- Categories: ${book.categories.join(', ')}
+- ISBN: ${book.isbn}
+- Rating: ${book.averageRating || 'N/A'}/5 (${book.ratingsCount || 0} reviews)
+
+AI Confidence Metrics:
+- Overall Score: ${metrics.overallScore}%
+- Source Reliability: ${metrics.sourceReliability}%
+- Content Coverage: ${metrics.contentCoverage}%
+- Cross-Reference Validation: ${metrics.crossReferenceValidation}%
+
+Quick Summary (${variant.short.length}/300 characters):
+${variant.short}
+
+Detailed Summary (${variant.detailed.length}/1000 characters):
+${variant.detailed}
+${analysisText}${annotations.length > 0 ? `\nAnnotations:\n${annotations.map(line => `- ${line}`).join('\n')}\n` : ''}
+Generated: ${variant.generatedAt}
+Language: ${variant.language.toUpperCase()}
+Saved: ${item.createdAt}
+
+---
+Generated by SmartLibro AI - Intelligent Book Summaries for Electoral Services
+    `.trim();
+}
+
+export function renderText(entries: ExportEntry[], options: ExportOptions): string {
+    return entries.map(entry => textEntry(entry, options)).join('\n\n\n');
+}
+
+// Characters with a meaning in Markdown inline text
+function escapeMarkdown(text: string): string {
+    return (text || '').replace(/([\\`*_{}\[\]<>#|])/g, '\\$1');
+}
+
+export function renderMarkdown(entries: ExportEntry[], options: ExportOptions): string {
+    const sections = entries.map(entry => {
+        const { item, variant } = entry;
+        const table = (rows: [string, string][]) => [
+            '| | |',
+            '|---|---|',
+            ...rows.map(([label, value]) => `| ${label} | ${escapeMarkdown(value)} |`)
+        ].join('\n');
+
+        return [
+            `## ${escapeMarkdown(item.bookData.title)}`,
+            item.bookData.imageLinks?.thumbnail ? `![Cover](${item.bookData.imageLinks.thumbnail})` : '',
+            `_${escapeMarkdown(reviewLine(entry, options))}_`,
+            table(metadataRows(entry)),
+            '### Quick Summary',
+            escapeMarkdown(variant.short),
+            '### Detailed Summary',
+            escapeMarkdown(variant.detailed),
+            analysisRows(entry).length > 0 ? '### Key Points' : '',
+            keyPointLines(entry).map(line => `- ${escapeMarkdown(line)}`).join('\n'),
+            analysisRows(entry).length > 0 ? table(analysisRows(entry)) : '',
+            annotationLines(entry).length > 0 ? '### Annotations' : '',
+            annotationLines(entry).map(line => `- ${escapeMarkdown(line)}`).join('\n'),
+            '### Confidence',
+            table(confidenceRows(entry))
+        ].filter(Boolean).join('\n\n');
+    });
+
+    return [
+        `# SmartLibro AI - ${options.official ? 'Official Summaries' : 'Book Summaries'}`,
+        `Exported ${options.exportedAt.toISOString().substring(0, 10)} · ${entries.length} ${entries.length === 1 ? 'book' : 'books'}`,
+        ...sections
+    ].join('\n\n') + '\n';
+}
+
+const CSV_COLUMNS = [
+    'ISBN', 'Title', 'Authors', 'Publisher', 'Published', 'Pages', 'Categories', 'Summary Language',
+    'Confidence', 'Review Status', 'Quick Summary', 'Detailed Summary', 'Saved', 'Annotations',
+    'Key Points', 'Main Themes', 'Target Audience', 'Reading Level', 'Electoral Relevance'
+];
+
+function csvCell(value: string | number): string {
+    let text = String(value ?? '');
+    // Spreadsheets run cells starting with these characters as formulas
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per item (RFC 4180). Starts with a byte order mark so spreadsheet programs read it as UTF-8.
+ */
+export function renderCsv(entries: ExportEntry[]): string {
+    const rows = entries.map(entry => {
+        const { item, variant } = entry;
+        const book = item.bookData;
+        const structured = getStructuredSummary(variant);
+        return [
+            book.isbn,
+            book.title,
+            book.authors.join('; '),
+            book.publisher,
+            book.publishedDate,
+            book.pageCount || '',
+            book.categories.join('; '),
+            variant.language,
+            entryMetrics(entry).overallScore,
+            REVIEW_STATUS_LABELS[getReviewStatus(item.review)],
+            variant.short,
+            variant.detailed,
+            item.createdAt instanceof Date ? item.createdAt.toISOString() : String(item.createdAt),
+            annotationLines(entry).join('\n'),
+            structured?.keyPoints.join('\n') || '',
+            structured?.themes.join('; ') || '',
+            structured?.targetAudience || '',
+            structured ? READING_LEVEL_LABELS[structured.readingLevel] : '',
+            structured ? describeElectoralRelevance(structured) : ''
+        ].map(csvCell).join(',');
+    });
+
+    return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function renderJson(entries: ExportEntry[]): string {
+    const items = entries.map(entry => entry.annotations?.length ? { ...entry.item, annotations: entry.annotations } : entry.item);
+    return JSON.stringify(items.length === 1 ? items[0] : items, null, 2);
+}
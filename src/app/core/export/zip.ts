@@ -0,0 +1,120 @@
+// Minimal ZIP writer (stored entries, no compression) for DOCX packages
+
+export interface ZipEntry {
+    path: string;
+    data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+class ByteWriter {
+    private chunks: Uint8Array[] = [];
+    length = 0;
+
+    bytes(data: Uint8Array): void {
+        this.chunks.push(data);
+        this.length += data.length;
+    }
+
+    uint16(value: number): void {
+        this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff]));
+    }
+
+    uint32(value: number): void {
+        this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]));
+    }
+
+    toBytes(): Uint8Array {
+        const result = new Uint8Array(this.length);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            result.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return result;
+    }
+}
+
+// Every entry gets the same timestamp (1980-01-01) so identical input gives identical files
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const UTF8_FLAG = 0x0800;
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const out = new ByteWriter();
+    const central = new ByteWriter();
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+        const offset = out.length;
+
+        out.uint32(0x04034b50);
+        out.uint16(20);
+        out.uint16(UTF8_FLAG);
+        out.uint16(0); // Stored
+        out.uint16(DOS_TIME);
+        out.uint16(DOS_DATE);
+        out.uint32(crc);
+        out.uint32(data.length);
+        out.uint32(data.length);
+        out.uint16(name.length);
+        out.uint16(0);
+        out.bytes(name);
+        out.bytes(data);
+
+        central.uint32(0x02014b50);
+        central.uint16(20);
+        central.uint16(20);
+        central.uint16(UTF8_FLAG);
+        central.uint16(0);
+        central.uint16(DOS_TIME);
+        central.uint16(DOS_DATE);
+        central.uint32(crc);
+        central.uint32(data.length);
+        central.uint32(data.length);
+        central.uint16(name.length);
+        central.uint16(0);
+        central.uint16(0);
+        central.uint16(0);
+        central.uint16(0);
+        central.uint32(0);
+        central.uint32(offset);
+        central.bytes(name);
+    }
+
+    const centralOffset = out.length;
+    const centralBytes = central.toBytes();
+    out.bytes(centralBytes);
+
+    out.uint32(0x06054b50);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(entries.length);
+    out.uint16(entries.length);
+    out.uint32(centralBytes.length);
+    out.uint32(centralOffset);
+    out.uint16(0);
+
+    return out.toBytes();
+}
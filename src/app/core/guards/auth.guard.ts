@@ -0,0 +1,35 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { filter, map, switchMap, take } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+
+// Both guards wait for Firebase Auth to restore the session so a reload does not bounce signed-in users
+
+function currentUser() {
+    const authService = inject(AuthService);
+    return authService.loading$.pipe(
+        filter(loading => !loading),
+        take(1),
+        switchMap(() => authService.user$.pipe(take(1)))
+    );
+}
+
+/**
+ * Signed-out users are sent to the login page
+ */
+export const authGuard: CanActivateFn = () => {
+    const router = inject(Router);
+    return currentUser().pipe(
+        map(user => user ? true : router.createUrlTree(['/login']))
+    );
+};
+
+/**
+ * Signed-in users skip the login and signup pages
+ */
+export const guestGuard: CanActivateFn = () => {
+    const router = inject(Router);
+    return currentUser().pipe(
+        map(user => user ? router.createUrlTree(['/dashboard']) : true)
+    );
+};
@@ -0,0 +1,20 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AccessControlService } from '../services/access-control.service';
+import { Permission } from '../utils/permissions';
+
+/**
+ * Requires the permission named in the route's `data.permission`. Use after authGuard.
+ */
+export const permissionGuard: CanActivateFn = async (route) => {
+    const router = inject(Router);
+    const accessControl = inject(AccessControlService);
+    const permission = route.data['permission'] as Permission;
+
+    if (await accessControl.can(permission)) {
+        return true;
+    }
+
+    console.warn(`Access denied: missing permission ${permission}`);
+    return router.createUrlTree(['/dashboard']);
+};
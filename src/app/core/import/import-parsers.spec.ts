@@ -0,0 +1,110 @@
+import { parseCsv, parseImportFile } from './import-parsers';
+
+describe('parseCsv', () => {
+    it('splits records and fields', () => {
+        expect(parseCsv('a,b\r\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+        expect(parseCsv('"Tolkien, J.R.R.","He said ""hi""","two\nlines"')).toEqual([
+            ['Tolkien, J.R.R.', 'He said "hi"', 'two\nlines']
+        ]);
+    });
+
+    it('drops blank records', () => {
+        expect(parseCsv('a\n\n,\nb')).toEqual([['a'], ['b']]);
+    });
+
+    it('reads other delimiters', () => {
+        expect(parseCsv('a\tb', '\t')).toEqual([['a', 'b']]);
+    });
+});
+
+describe('parseImportFile', () => {
+    it('rejects empty files', () => {
+        expect(() => parseImportFile('\uFEFF  ')).toThrowError('The file is empty');
+    });
+
+    it('rejects malformed JSON', () => {
+        expect(() => parseImportFile('{"title": ')).toThrowError('The file is not valid JSON');
+    });
+
+    it('reads Goodreads exports, unwrapping their spreadsheet-safe ISBNs', () => {
+        const parsed = parseImportFile([
+            'Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,Publisher,Number of Pages,Year Published,Original Publication Year,Exclusive Shelf',
+            '2767052,"The Hunger Games (The Hunger Games, #1)",Suzanne Collins,"Collins, Suzanne",,"=""0439023483""","=""9780439023481""",Scholastic Press,374,2008,2008,read'
+        ].join('\n'));
+
+        expect(parsed.format).toBe('goodreads');
+        expect(parsed.candidates).toEqual([{
+            row: 1,
+            isbn: '9780439023481',
+            title: 'The Hunger Games (The Hunger Games, #1)',
+            authors: ['Suzanne Collins'],
+            metadata: { publisher: 'Scholastic Press', publishedDate: '2008', pageCount: 374 }
+        }]);
+    });
+
+    it('reads LibraryThing exports', () => {
+        const parsed = parseImportFile([
+            'Title\tPrimary Author\tSecondary Author\tPublication\tDate\tISBNs\tPage Count\tSubjects',
+            'Beloved\tToni Morrison\t\tKnopf (1987), Edition: 1st, 275 pages\t1987\t[0306406152]\t275\tFiction; Slavery'
+        ].join('\n'));
+
+        expect(parsed.format).toBe('librarything');
+        expect(parsed.candidates[0]).toEqual({
+            row: 1,
+            isbn: '0306406152',
+            title: 'Beloved',
+            authors: ['Toni Morrison'],
+            metadata: { publisher: 'Knopf', publishedDate: '1987', pageCount: 275, categories: ['Fiction', 'Slavery'] }
+        });
+    });
+
+    it('reads other spreadsheets by column name, splitting authors on semicolons only', () => {
+        const parsed = parseImportFile('ISBN,Title,Authors\n978-0-306-40615-7,Signals,"Tolkien, J.R.R.; Lewis, C.S."');
+
+        expect(parsed.format).toBe('csv');
+        expect(parsed.candidates[0].isbn).toBe('9780306406157');
+        expect(parsed.candidates[0].authors).toEqual(['Tolkien, J.R.R.', 'Lewis, C.S.']);
+    });
+
+    it('flags spreadsheet rows without an ISBN or title', () => {
+        const parsed = parseImportFile('isbn,title\n12345,');
+
+        expect(parsed.candidates[0].problem).toBe('No valid ISBN or title');
+    });
+
+    it('reads plain ISBN lists and keeps tokens that are not ISBNs for the preview', () => {
+        const parsed = parseImportFile('9780439023481\n0-306-40615-2; not-an-isbn');
+
+        expect(parsed.format).toBe('isbn-list');
+        expect(parsed.candidates.map(candidate => candidate.isbn)).toEqual(['9780439023481', '0306406152', undefined]);
+        expect(parsed.candidates[2].problem).toBe('"not-an-isbn" is not a valid ISBN');
+    });
+
+    it('reads summaries from JSON exports and revives their dates', () => {
+        const parsed = parseImportFile(JSON.stringify([{
+            bookData: { isbn: '9780439023481', title: 'The Hunger Games', authors: ['Suzanne Collins'] },
+            summaries: {
+                es: { short: 'Corto', detailed: 'Largo', language: 'es', generatedAt: '2024-03-01T10:00:00.000Z' }
+            },
+            primaryLanguage: 'fr',
+            createdAt: '2024-03-01T09:00:00.000Z'
+        }]));
+
+        const stored = parsed.candidates[0].stored!;
+        expect(parsed.format).toBe('json');
+        expect(parsed.candidates[0].isbn).toBe('9780439023481');
+        expect(stored.primaryLanguage).toBe('es');
+        expect(stored.summaries['es'].generatedAt).toEqual(new Date('2024-03-01T10:00:00.000Z'));
+        expect(stored.createdAt).toEqual(new Date('2024-03-01T09:00:00.000Z'));
+    });
+
+    it('reads JSON records that only hold book metadata like spreadsheet rows', () => {
+        const parsed = parseImportFile('{"isbn": "9780439023481", "title": "The Hunger Games", "authors": ["Suzanne Collins"]}');
+
+        expect(parsed.candidates[0].isbn).toBe('9780439023481');
+        expect(parsed.candidates[0].stored).toBeUndefined();
+    });
+});
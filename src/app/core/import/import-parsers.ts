@@ -0,0 +1,286 @@
+import { AIBookSummary } from '../interfaces/ai-summary.interface';
+import { BookMetadata, ConfidenceMetrics, SummaryVariant, SummaryVariants } from '../interfaces/book.interface';
+import { cleanISBN, isValidISBN } from '../utils/isbn';
+import { normalizeSummaries } from '../utils/summary-variants';
+
+// Parsers for library import files. Like the exporters they are plain TypeScript without browser APIs.
+
+export type ImportFormat = 'json' | 'goodreads' | 'librarything' | 'csv' | 'isbn-list';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+    'json': 'SmartLibro JSON export',
+    'goodreads': 'Goodreads export',
+    'librarything': 'LibraryThing export',
+    'csv': 'CSV with ISBN / title columns',
+    'isbn-list': 'ISBN list'
+};
+
+// Summaries and metrics of an item from a JSON export; metrics are missing in hand-written backups
+export interface ImportedSummaries {
+    summaries: SummaryVariants;
+    primaryLanguage: string;
+    confidenceMetrics?: ConfidenceMetrics;
+    aiSummary?: AIBookSummary;
+    createdAt?: Date;
+}
+
+// One book read from an import file
+export interface ImportCandidate {
+    row: number; // 1-based record number in the file, for the preview
+    isbn?: string; // Valid ISBN without separators
+    title: string;
+    authors: string[];
+    metadata: Partial<BookMetadata>; // Whatever the file had; ISBN lookups fill in the rest
+    stored?: ImportedSummaries; // Present when the file carries summaries
+    problem?: string; // Why the record cannot be imported as read
+}
+
+export interface ParsedImport {
+    format: ImportFormat;
+    candidates: ImportCandidate[];
+}
+
+/**
+ * RFC 4180 records. Quoted fields may contain delimiters, doubled quotes and line breaks.
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(current => current.some(value => value.trim() !== ''));
+}
+
+// Goodreads writes ISBNs as ="0439023483" so spreadsheets keep the leading zero; LibraryThing as [0439023483]
+function unwrapIsbn(value: string): string {
+    return (value || '').trim().replace(/^="?|"$/g, '').replace(/^\[|\]$/g, '');
+}
+
+function firstValidIsbn(values: string[]): string | undefined {
+    return values
+        .flatMap(value => unwrapIsbn(value).split(/[,;\s]+/))
+        .map(cleanISBN)
+        .find(isbn => isValidISBN(isbn));
+}
+
+// "Tolkien, J.R.R." -> "J.R.R. Tolkien"
+function fromSortName(name: string): string {
+    const [family, ...given] = (name || '').split(',');
+    return given.length > 0 ? `${given.join(',').trim()} ${family.trim()}`.trim() : family.trim();
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value || '').split(/[,;|]/).map(part => part.trim()).filter(Boolean);
+}
+
+type Row = (column: string) => string;
+
+function goodreadsCandidate(get: Row, row: number): ImportCandidate {
+    const isbn = firstValidIsbn([get('ISBN13'), get('ISBN')]);
+    const year = get('Original Publication Year') || get('Year Published');
+    return candidate(row, isbn, get('Title'), [get('Author'), ...splitList(get('Additional Authors'))], {
+        ...(get('Publisher') ? { publisher: get('Publisher') } : {}),
+        ...(year ? { publishedDate: year } : {}),
+        ...(Number(get('Number of Pages')) > 0 ? { pageCount: Number(get('Number of Pages')) } : {})
+    });
+}
+
+function libraryThingCandidate(get: Row, row: number): ImportCandidate {
+    const isbn = firstValidIsbn([get('ISBNs'), get('ISBN')]);
+    // "Publication" reads like "Little, Brown (1991), Edition: 1st, 277 pages"
+    const publisher = get('Publication') || get('PUBLICATION INFO');
+    const date = (get('Date') || get('DATE')).match(/\d{4}/)?.[0];
+    const pages = Number(get('Page Count'));
+    return candidate(
+        row,
+        isbn,
+        get('Title') || get('TITLE'),
+        [get('Primary Author') || fromSortName(get('AUTHOR (last, first)')), ...splitList(get('Secondary Author'))],
+        {
+            ...(publisher ? { publisher: publisher.split(/\s*\(/)[0].trim() } : {}),
+            ...(date ? { publishedDate: date } : {}),
+            ...(pages > 0 ? { pageCount: pages } : {}),
+            ...(get('Subjects') ? { categories: splitList(get('Subjects')) } : {})
+        }
+    );
+}
+
+// Any other spreadsheet, including our own CSV export, matched on common column names
+function genericCsvCandidate(get: Row, row: number): ImportCandidate {
+    const isbn = firstValidIsbn([get('isbn13'), get('isbn'), get('isbn10')]);
+    // Author names can contain commas ("Tolkien, J.R.R."), so only semicolons separate authors here
+    const authors = (get('authors') || get('author')).split(/[;|]/);
+    return candidate(row, isbn, get('title'), authors, {
+        ...(get('publisher') ? { publisher: get('publisher') } : {}),
+        ...(get('published') || get('year') ? { publishedDate: get('published') || get('year') } : {})
+    });
+}
+
+function candidate(row: number, isbn: string | undefined, title: string, authors: string[], metadata: Partial<BookMetadata>): ImportCandidate {
+    const cleanAuthors = authors.map(author => author.trim()).filter(Boolean);
+    return {
+        row,
+        ...(isbn ? { isbn } : {}),
+        title: (title || '').trim(),
+        authors: cleanAuthors,
+        metadata,
+        ...(!isbn && !(title || '').trim() ? { problem: 'No valid ISBN or title' } : {})
+    };
+}
+
+function detectCsvFormat(header: string[]): ImportFormat | null {
+    const columns = new Set(header);
+    if (columns.has('Author l-f') || (columns.has('Book Id') && columns.has('Exclusive Shelf'))) return 'goodreads';
+    if (columns.has('Primary Author') || columns.has('ISBNs') || columns.has('AUTHOR (last, first)')) return 'librarything';
+    const lower = header.map(column => column.toLowerCase());
+    if (lower.some(column => column.startsWith('isbn')) || lower.includes('title')) return 'csv';
+    return null;
+}
+
+function parseSpreadsheet(content: string): ParsedImport | null {
+    const firstLine = content.split(/\r?\n/, 1)[0];
+    const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+    const [header, ...records] = parseCsv(content, delimiter);
+    const columns = (header || []).map(column => column.trim());
+    const format = detectCsvFormat(columns);
+    if (!format) {
+        return null;
+    }
+
+    const toCandidate = format === 'goodreads' ? goodreadsCandidate
+        : format === 'librarything' ? libraryThingCandidate
+        : genericCsvCandidate;
+    const lowerColumns = columns.map(column => column.toLowerCase());
+
+    return {
+        format,
+        candidates: records.map((record, index) => {
+            const get: Row = column => {
+                let position = columns.indexOf(column);
+                if (position === -1 && format === 'csv') position = lowerColumns.indexOf(column);
+                return position === -1 ? '' : (record[position] || '').trim();
+            };
+            return toCandidate(get, index + 1);
+        })
+    };
+}
+
+function toDate(value: unknown): Date | undefined {
+    const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+// JSON turns dates into strings; variants need them back as dates before they are saved
+function reviveVariants(summaries: SummaryVariants): SummaryVariants {
+    return Object.fromEntries(Object.entries(summaries)
+        .filter(([, variant]) => variant && typeof variant.short === 'string' && typeof variant.detailed === 'string')
+        .map(([language, variant]): [string, SummaryVariant] => [language, {
+            ...variant,
+            language: variant.language || language,
+            generatedAt: toDate(variant.generatedAt) || new Date(),
+            ...(variant.aiSummary ? { aiSummary: { ...variant.aiSummary, generatedAt: toDate(variant.aiSummary.generatedAt) || new Date() } } : {})
+        }]));
+}
+
+/**
+ * Items from our JSON export (one item or an array) or a legacy localStorage backup. Records that
+ * only hold book metadata, with or without a `bookData` wrapper, are read like a spreadsheet row.
+ */
+function parseJson(content: string): ParsedImport {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const records = (Array.isArray(parsed) ? parsed : [parsed]) as Record<string, any>[];
+    return {
+        format: 'json',
+        candidates: records.map((record, index) => {
+            const book: Partial<BookMetadata> = record?.['bookData'] || record || {};
+            const isbn = firstValidIsbn([String(book.isbn || '')]);
+            const result = candidate(index + 1, isbn, String(book.title || ''), Array.isArray(book.authors) ? book.authors : [], book);
+
+            if (record?.['summaries']) {
+                const { summaries, primaryLanguage } = normalizeSummaries(record);
+                const variants = reviveVariants(summaries);
+                if (Object.keys(variants).length > 0) {
+                    result.stored = {
+                        summaries: variants,
+                        primaryLanguage: variants[primaryLanguage] ? primaryLanguage : Object.keys(variants)[0],
+                        ...(record['confidenceMetrics'] ? { confidenceMetrics: record['confidenceMetrics'] } : {}),
+                        ...(record['aiSummary'] ? { aiSummary: record['aiSummary'] } : {}),
+                        ...(toDate(record['createdAt']) ? { createdAt: toDate(record['createdAt']) } : {})
+                    };
+                }
+            }
+            return result;
+        })
+    };
+}
+
+// Tokens that are not ISBNs are kept so the preview can list them
+function parseIsbnList(content: string): ParsedImport {
+    const tokens = content
+        .split(/[\r\n,;\t]+/)
+        .map(token => token.trim().replace(/^"|"$/g, ''))
+        .filter(token => token.length > 0 && !/^isbn(-?1[03])?$/i.test(token));
+
+    return {
+        format: 'isbn-list',
+        candidates: tokens.map((token, index) => {
+            const isbn = cleanISBN(token);
+            return isValidISBN(isbn)
+                ? { row: index + 1, isbn, title: '', authors: [], metadata: {} }
+                : { row: index + 1, title: '', authors: [], metadata: {}, problem: `"${token}" is not a valid ISBN` };
+        })
+    };
+}
+
+/**
+ * Read an import file, detecting its format from the content: JSON, a Goodreads or LibraryThing export,
+ * any CSV with ISBN or title columns, and otherwise a list of ISBNs.
+ */
+export function parseImportFile(content: string): ParsedImport {
+    const text = (content || '').replace(/^\uFEFF/, '').trim();
+    if (!text) {
+        throw new Error('The file is empty');
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+        return parseJson(text);
+    }
+    return parseSpreadsheet(text) || parseIsbnList(text);
+}
@@ -0,0 +1,79 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { ImportCandidate, ImportedSummaries } from './import-parsers';
+import { planImport, summarizePlan } from './import-plan';
+
+const STORED: ImportedSummaries = {
+    summaries: { en: { short: 'Short', detailed: 'Detailed', language: 'en', generatedAt: new Date() } },
+    primaryLanguage: 'en'
+};
+
+function candidate(row: number, fields: Partial<ImportCandidate>): ImportCandidate {
+    return { row, title: '', authors: [], metadata: {}, ...fields };
+}
+
+function libraryItem(id: string, isbn: string, title: string, authors: string[]): UserLibraryItem {
+    return { id, bookData: { isbn, title, authors } } as UserLibraryItem;
+}
+
+describe('planImport', () => {
+    const library = [libraryItem('item-1', '9780439023481', 'The Hunger Games', ['Suzanne Collins'])];
+
+    it('creates records with stored summaries and queues the others when asked to', () => {
+        const rows = planImport([
+            candidate(1, { isbn: '9780306406157', title: 'Signals', stored: STORED }),
+            candidate(2, { isbn: '9780140449136', title: 'The Odyssey' })
+        ], library, { queueGeneration: true });
+
+        expect(rows.map(row => row.action)).toEqual(['create', 'generate']);
+    });
+
+    it('skips records without summaries unless generation is queued', () => {
+        const [row] = planImport([candidate(1, { isbn: '9780140449136' })], library, { queueGeneration: false });
+
+        expect(row.action).toBe('skip');
+        expect(row.reason).toBe('No stored summary');
+    });
+
+    it('cannot queue records without an ISBN', () => {
+        const [row] = planImport([candidate(1, { title: 'Untitled notes' })], library, { queueGeneration: true });
+
+        expect(row.reason).toBe('No stored summary and no ISBN to generate one from');
+    });
+
+    it('passes on problems found while parsing', () => {
+        const [row] = planImport([candidate(1, { problem: 'No valid ISBN or title' })], library, { queueGeneration: true });
+
+        expect(row).toEqual(jasmine.objectContaining({ action: 'skip', reason: 'No valid ISBN or title' }));
+    });
+
+    it('recognises library items by ISBN-10 or ISBN-13', () => {
+        const [row] = planImport([candidate(1, { isbn: '0439023483', stored: STORED })], library, { queueGeneration: true });
+
+        expect(row).toEqual(jasmine.objectContaining({ action: 'skip', reason: 'Already in your library', duplicateOf: 'item-1' }));
+    });
+
+    it('recognises other editions by main title and author surname, ignoring series notes and accents', () => {
+        const rows = planImport([
+            candidate(1, { title: 'The Hunger Games (The Hunger Games, #1)', authors: ['Collins, Suzanne'], stored: STORED }),
+            candidate(2, { isbn: '9780306406157', title: 'Cien años de soledad: edición conmemorativa', authors: ['Gabriel García Márquez'] }),
+            candidate(3, { isbn: '9780140449136', title: 'Cien anos de soledad', authors: ['G. Garcia Marquez'] })
+        ], library, { queueGeneration: true });
+
+        expect(rows[0].duplicateOf).toBe('item-1');
+        expect(rows[1].action).toBe('generate');
+        expect(rows[2]).toEqual(jasmine.objectContaining({ action: 'skip', reason: 'Same book as row 2', duplicateOf: 'row:2' }));
+    });
+});
+
+describe('summarizePlan', () => {
+    it('counts duplicates among the skipped rows', () => {
+        const rows = planImport([
+            candidate(1, { isbn: '9780306406157', stored: STORED }),
+            candidate(2, { isbn: '9780140449136' }),
+            candidate(3, { isbn: '9780306406157' }),
+            candidate(4, { problem: 'No valid ISBN or title' })
+        ], [], { queueGeneration: true });
+
+        expect(summarizePlan(rows)).toEqual({ create: 1, generate: 1, duplicates: 1, skipped: 2 });
+    });
+});
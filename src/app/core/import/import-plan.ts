@@ -0,0 +1,98 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { normalizeISBNKey } from '../utils/isbn';
+import { ImportCandidate } from './import-parsers';
+
+// Dry run of an import: what would happen to each record, decided before anything is written
+
+// 'create' saves the stored summaries, 'generate' queues the ISBN as a batch job
+export type ImportAction = 'create' | 'generate' | 'skip';
+
+export interface ImportPlanRow {
+    candidate: ImportCandidate;
+    action: ImportAction;
+    reason?: string; // Why the record is skipped
+    duplicateOf?: string; // Id of the library item, or the earlier row, that holds the same book
+}
+
+export interface ImportPlanOptions {
+    queueGeneration: boolean; // Records without summaries are queued for generation instead of skipped
+}
+
+export interface ImportPlanSummary {
+    create: number;
+    generate: number;
+    duplicates: number;
+    skipped: number; // Includes duplicates
+}
+
+function normalizeText(text: string): string {
+    return (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Subtitles and series notes ("(The Hunger Games, #1)") are left out: catalogues disagree on them most
+function titleKey(title: string, authors: string[]): string | null {
+    const mainTitle = normalizeText((title || '').split(':')[0].replace(/\s*\([^)]*\)\s*$/, ''));
+    if (!mainTitle) {
+        return null;
+    }
+    const author = (authors || []).find(name => name && name !== 'Unknown Author') || '';
+    const surname = author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/).pop() || '';
+    return `${mainTitle}|${normalizeText(surname)}`;
+}
+
+/**
+ * Keys a book is recognised by: its ISBN-13 and its title and first author's surname. The title key
+ * catches the same book saved from another edition or imported from a file without ISBNs.
+ */
+function bookKeys(isbn: string | undefined, title: string, authors: string[]): string[] {
+    const keys: string[] = [];
+    if (isbn) keys.push(`isbn:${normalizeISBNKey(isbn)}`);
+    const byTitle = titleKey(title, authors);
+    if (byTitle) keys.push(`title:${byTitle}`);
+    return keys;
+}
+
+export function planImport(candidates: ImportCandidate[], library: UserLibraryItem[], options: ImportPlanOptions): ImportPlanRow[] {
+    const existing = new Map<string, string>();
+    library.forEach(item => {
+        bookKeys(item.bookData.isbn, item.bookData.title, item.bookData.authors)
+            .forEach(key => existing.set(key, item.id || ''));
+    });
+    const seen = new Map<string, number>();
+
+    return candidates.map(candidate => {
+        if (candidate.problem) {
+            return { candidate, action: 'skip', reason: candidate.problem };
+        }
+
+        const keys = bookKeys(candidate.isbn, candidate.title, candidate.authors);
+        const libraryMatch = keys.find(key => existing.has(key));
+        if (libraryMatch) {
+            return { candidate, action: 'skip', reason: 'Already in your library', duplicateOf: existing.get(libraryMatch) };
+        }
+        const fileMatch = keys.find(key => seen.has(key));
+        if (fileMatch) {
+            return { candidate, action: 'skip', reason: `Same book as row ${seen.get(fileMatch)}`, duplicateOf: `row:${seen.get(fileMatch)}` };
+        }
+        keys.forEach(key => seen.set(key, candidate.row));
+
+        if (candidate.stored) {
+            return { candidate, action: 'create' };
+        }
+        if (!candidate.isbn) {
+            return { candidate, action: 'skip', reason: 'No stored summary and no ISBN to generate one from' };
+        }
+        return options.queueGeneration
+            ? { candidate, action: 'generate' }
+            : { candidate, action: 'skip', reason: 'No stored summary' };
+    });
+}
+
+export function summarizePlan(rows: ImportPlanRow[]): ImportPlanSummary {
+    return {
+        create: rows.filter(row => row.action === 'create').length,
+        generate: rows.filter(row => row.action === 'generate').length,
+        duplicates: rows.filter(row => row.duplicateOf !== undefined).length,
+        skipped: rows.filter(row => row.action === 'skip').length
+    };
+}
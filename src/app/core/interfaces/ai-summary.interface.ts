@@ -1,3 +1,5 @@
+import { SummaryPresetRef } from './summary-preset.interface';
+
 export interface SourceAttribution {
     type: 'book_description' | 'publisher_info' | 'author_bio' | 'category_data' | 'review_excerpt' | 'metadata' | 'ai_knowledge' | 'fallback_template';
     content: string;
@@ -68,6 +70,77 @@ export interface AIBookSummary {
     generatedAt: Date;
     processingMethod: 'openai_api' | 'fallback_template';
     translationApplied: boolean;
+    provider?: string; // LLM provider that generated the summary (openai, openai_compatible, stub)
+    model?: string; // Model reported by the provider, e.g. gpt-3.5-turbo
+    promptVersion?: string; // Prompt template key (`name@version`, see core/llm/prompt-registry); absent for fallback summaries
+    promptExperiment?: string; // Experiment that picked the prompt version, if any
+    validation?: SummaryValidation;
+    languageCheck?: SummaryLanguageCheck;
+    selfConsistency?: number; // 0-100 agreement with extra sampled summaries, when sampling is enabled
+    confidenceFormulaVersion?: string; // See core/confidence/confidence-engine
+    grounding?: GroundingReport;
+    structured?: StructuredSummary; // Absent for fallback summaries and summaries generated before it was added
+    preset?: SummaryPresetRef; // Length and style preset the prompt asked for; absent for fallback and older summaries
+}
+
+export type ReadingLevel = 'introductory' | 'general' | 'advanced' | 'specialist';
+
+export type ElectoralRelevanceLevel = 'none' | 'low' | 'medium' | 'high';
+
+// Analysis of the book returned alongside the short and detailed summaries, in the summary language
+export interface StructuredSummary {
+    keyPoints: string[];
+    themes: string[];
+    targetAudience: string;
+    readingLevel: ReadingLevel;
+    electoralRelevance: {
+        level: ElectoralRelevanceLevel; // How much the book bears on elections, public policy and civic life
+        assessment: string;
+    };
+}
+
+// Outcome of checking the LLM response against the summary schema.
+// 'invalid' means the model answered but never matched the schema; 'unavailable' means it could not be reached.
+export interface SummaryValidation {
+    status: 'valid' | 'repaired' | 'invalid' | 'unavailable';
+    attempts: number; // LLM calls made, including the repair re-prompt
+    errors: string[]; // Schema violations in the last rejected response
+}
+
+// Measured share of the summary written in the target language (see core/utils/language-detection)
+export interface SummaryLanguageCheck {
+    purity: number; // 0-100
+    threshold: number; // Purity below this is flagged
+    flagged: boolean;
+    regenerated: boolean; // A language-correction re-prompt was made
+    offendingSentences: string[];
+}
+
+// 'unverifiable': nothing to match on (no content words, or a translated claim with no name or number)
+export type GroundingLabel = 'grounded' | 'partially_grounded' | 'ungrounded' | 'unverifiable';
+
+export interface GroundingEvidence {
+    field: string; // 'description' or the BookMetadata field that supports the claim
+    text: string;
+    start: number; // Offsets into the field value
+    end: number;
+}
+
+export interface GroundingClaim {
+    text: string;
+    start: number; // Offsets into detailedSummary
+    end: number;
+    label: GroundingLabel;
+    support: number; // 0-100 share of the claim's content found in the evidence
+    evidence: GroundingEvidence[];
+}
+
+// Which sentences of detailedSummary are supported by the description and metadata
+export interface GroundingReport {
+    analyzerVersion: string;
+    method: 'lexical' | 'entities'; // 'entities' when the summary and description are in different languages
+    groundedShare: number; // 0-100 share of verifiable claims labelled grounded
+    claims: GroundingClaim[];
 }
 
 export interface SummaryRequest {
@@ -81,4 +154,10 @@ export interface SummaryRequest {
     pageCount: number;
     language: string;
     targetLanguage: string;
+    fieldSources?: Record<string, string>; // Metadata provider per BookMetadata field
+    metadataAgreement?: number; // 0-100 agreement between metadata providers
+    forceRefresh?: boolean; // Skip the server summary cache and generate a new summary
+    stream?: boolean; // Ask the Cloud Function for server-sent events instead of a single JSON body
+    model?: string; // One of environment.llm.alternativeModels instead of the configured model
+    preset?: string; // Built-in or summaryPresets id; the standard preset when absent
 }
@@ -0,0 +1,29 @@
+// Highlights, notes and "verify" marks a user places on a summary's text
+export type AnnotationKind = 'highlight' | 'note' | 'verify';
+
+export type AnnotatedField = 'short' | 'detailed';
+
+// Position of an annotation in the summary text. The quote and the text around it are kept so the
+// annotation can be found again after the summary is edited.
+export interface TextAnchor {
+    start: number;
+    end: number;
+    quote: string;
+    prefix: string;
+    suffix: string;
+}
+
+// Stored in libraries/{itemId}/annotations/{annotationId}; only the user who wrote it can read it
+export interface SummaryAnnotation {
+    id?: string;
+    itemId: string;
+    userId: string;
+    language: string; // Summary variant the annotation belongs to
+    field: AnnotatedField;
+    kind: AnnotationKind;
+    anchor: TextAnchor;
+    note?: string;
+    orphaned?: boolean; // The quoted text could not be found in the current summary
+    createdAt: Date;
+    updatedAt?: Date;
+}
@@ -0,0 +1,32 @@
+export type BatchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+    id?: string;
+    userId: string;
+    targetLanguage: string;
+    status: BatchStatus;
+    total: number;
+    completed: number;
+    failed: number;
+    lastError?: string; // Why the worker paused, e.g. the free tier limit was reached
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+export interface BatchJobItem {
+    id?: string;
+    isbn: string;
+    position: number; // Order in the submitted list
+    status: BatchStatus;
+    attempts: number;
+    title?: string;
+    error?: string;
+    libraryItemId?: string; // Set once the summary was saved to the library
+    updatedAt?: Date;
+}
+
+export interface ParsedIsbnList {
+    valid: string[];
+    invalid: string[];
+    duplicates: number;
+}
@@ -1,4 +1,6 @@
 import { AIBookSummary } from './ai-summary.interface';
+import { LibraryItemReview } from './review.interface';
+import { SummaryPresetRef } from './summary-preset.interface';
 
 export interface BookMetadata {
   isbn: string;
@@ -18,13 +20,20 @@ export interface BookMetadata {
     large: string;
   };
   language: string;
+  fieldSources?: BookMetadataFieldSources; // Provider name that supplied each field
+  metadataAgreement?: number; // 0-100 agreement between providers; absent when only one provider answered
 }
 
+export type BookMetadataField = Exclude<keyof BookMetadata, 'fieldSources' | 'metadataAgreement'>;
+
+export type BookMetadataFieldSources = Partial<Record<BookMetadataField, string>>;
+
 export interface BookSummary {
-  short: string; // 300 characters
-  detailed: string; // 1000 characters
+  short: string; // Up to preset.shortLength.max characters, 300 without a preset
+  detailed: string; // Up to preset.detailedLength.max characters, 1000 without a preset
   language: string;
   generatedAt: Date;
+  preset?: SummaryPresetRef; // Absent for summaries generated before presets and for fallback summaries
 }
 
 export interface ConfidenceMetrics {
@@ -49,20 +58,40 @@ export interface ConfidenceMetrics {
     crossValidation: number;
   };
   sourceAttribution?: any[]; // Will be populated from AI response
+  formulaVersion?: string; // CONFIDENCE_FORMULA_VERSION the scores were computed with; absent for version 1
+  signals?: Record<string, number | null>; // Measured inputs, null when not measurable
 }
 
+// One language version of a library item's summary, with how that version was generated
+export interface SummaryVariant extends BookSummary {
+  aiSummary?: AIBookSummary;
+  confidenceMetrics?: ConfidenceMetrics;
+}
+
+// Summary variants of a library item keyed by language code
+export type SummaryVariants = Record<string, SummaryVariant>;
+
 export interface SummaryResult {
   summary: BookSummary;
   aiSummary?: AIBookSummary;
 }
 
+// Who can read a library item: only its creator, one team of its organization, or the whole organization
+export type LibraryVisibility = 'private' | 'team' | 'org';
+
 export interface UserLibraryItem {
   id?: string;
   bookData: BookMetadata;
-  summaries: BookSummary;
-  confidenceMetrics: ConfidenceMetrics;
-  aiSummary?: AIBookSummary; // Include AI summary for detailed analysis
+  summaries: SummaryVariants;
+  primaryLanguage: string; // Variant shown by default
+  confidenceMetrics: ConfidenceMetrics; // Mirrors the primary variant
+  aiSummary?: AIBookSummary; // Mirrors the primary variant
   createdAt: Date;
   updatedAt?: Date;
   userId: string; // Make userId required for Firestore
+  visibility?: LibraryVisibility; // Missing on items saved before sharing existed; treated as private
+  orgId?: string; // Organization the item is shared with; its admins can also manage the item
+  teamId?: string; // Set when visibility is 'team'
+  review?: LibraryItemReview;
+  tags?: string[]; // User-defined labels, normalized by normalizeTag; missing on items saved before tags existed
 }
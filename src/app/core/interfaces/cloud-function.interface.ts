@@ -1,7 +1,31 @@
 import { AIBookSummary } from './ai-summary.interface';
 
+export interface SummaryQuotaPeriod {
+    limit: number;
+    used: number;
+    remaining: number;
+}
+
+export interface SummaryQuota {
+    plan: string;
+    allowed: boolean;
+    exceeded?: 'daily' | 'monthly';
+    daily: SummaryQuotaPeriod;
+    monthly: SummaryQuotaPeriod;
+}
+
 export interface CloudFunctionResponse {
     success: boolean;
     data?: AIBookSummary;
     error?: string;
+    cached?: boolean;
+    quotaExceeded?: boolean;
+    quota?: SummaryQuota; // Remaining summaries for the signed-in user
+}
+
+// Partial summary text received so far in streaming mode
+export interface SummaryStreamProgress {
+    shortSummary: string;
+    detailedSummary: string;
+    confidenceScore?: number;
 }
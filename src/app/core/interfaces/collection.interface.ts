@@ -0,0 +1,46 @@
+// Reading lists are ordered collections whose entries can be checked off
+export type CollectionKind = 'collection' | 'reading_list';
+
+export interface CollectionEntry {
+    itemId: string; // Library item id
+    note?: string;
+    done?: boolean; // Reading lists only
+    addedAt: Date;
+}
+
+export interface LibraryCollection {
+    id?: string;
+    userId: string;
+    name: string;
+    description?: string;
+    kind: CollectionKind;
+    entries: CollectionEntry[]; // In display order
+    shareId?: string; // Id of the published snapshot in sharedCollections while a share link exists
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+// What a read-only link shows: a copy of the collection made when it was shared or last changed
+export interface SharedCollectionEntry {
+    title: string;
+    authors: string[];
+    isbn: string;
+    thumbnail: string;
+    language: string;
+    shortSummary: string;
+    detailedSummary: string;
+    note?: string;
+    done?: boolean;
+}
+
+export interface SharedCollection {
+    id?: string;
+    userId: string;
+    collectionId: string;
+    ownerName?: string;
+    name: string;
+    description?: string;
+    kind: CollectionKind;
+    entries: SharedCollectionEntry[]; // Read from sharedCollections/{id}/entries, one document per library item
+    publishedAt: Date;
+}
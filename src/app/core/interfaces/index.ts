@@ -4,3 +4,14 @@ export * from './auth.interface';
 export * from './user.interface';
 export * from './recent-activity.interface';
 export * from './cloud-function.interface';
+export * from './metadata-provider.interface';
+export * from './batch-job.interface';
+export * from './organization.interface';
+export * from './review.interface';
+export * from './summary-version.interface';
+export * from './library-search.interface';
+export * from './collection.interface';
+export * from './annotation.interface';
+export * from './summary-preset.interface';
+export * from './prompt-template.interface';
+export * from './summary-language.interface';
@@ -0,0 +1,41 @@
+import { UserLibraryItem } from './book.interface';
+import { SummaryAnnotation } from './annotation.interface';
+
+export type LibrarySortOrder = 'relevance' | 'newest' | 'oldest' | 'title' | 'author' | 'confidence';
+
+export type LibrarySearchFacet = 'language' | 'category' | 'tag' | 'annotation' | 'confidenceBand' | 'publisher' | 'year';
+
+export type ConfidenceBand = 'high' | 'medium' | 'low' | 'very_low';
+
+export interface LibrarySearchQuery {
+    text?: string;
+    filters?: Partial<Record<LibrarySearchFacet, string>>; // One selected value per facet
+    sort?: LibrarySortOrder; // Relevance only applies to text searches; newest otherwise
+    limit?: number;
+    cursor?: string | null; // nextCursor of the previous page
+}
+
+export interface LibraryFacetCount {
+    value: string;
+    count: number;
+}
+
+export interface LibrarySearchPage {
+    items: UserLibraryItem[];
+    total: number; // Matches on all pages
+    facets: Record<LibrarySearchFacet, LibraryFacetCount[]>; // Each facet counted with the other filters applied
+    nextCursor: string | null;
+}
+
+/**
+ * Where library searches run. The default backend indexes the loaded items in memory; the server
+ * backend searches through the searchLibraryItems Cloud Function, and other engines can be plugged in
+ * through LibrarySearchService.setBackend.
+ */
+export interface LibrarySearchBackend {
+    readonly id: string;
+    // Scopes are 'mine', 'review', 'all' or an organization id, as in the library page.
+    // Annotations are the searching user's own, by item id.
+    index(scope: string, items: UserLibraryItem[], annotations?: Map<string, SummaryAnnotation[]>): Promise<void>;
+    search(scope: string, query: LibrarySearchQuery): Promise<LibrarySearchPage>;
+}
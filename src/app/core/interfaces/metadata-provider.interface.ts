@@ -0,0 +1,14 @@
+import { BookMetadata } from './book.interface';
+
+export interface BookMetadataProvider {
+    readonly id: string;
+    readonly name: string; // Reported in BookMetadata.fieldSources and SourceAttribution.source
+    isEnabled(): boolean;
+    lookup(isbn: string): Promise<Partial<BookMetadata> | null>;
+}
+
+export interface MetadataProviderResult {
+    providerId: string;
+    providerName: string;
+    data: Partial<BookMetadata>;
+}
@@ -0,0 +1,44 @@
+// Role inside one organization, independent of the account-wide UserRole
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface Organization {
+    id?: string;
+    name: string;
+    ownerId: string;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+// Stored in organizations/{orgId}/members/{uid}
+export interface OrganizationMember {
+    uid: string;
+    orgId: string;
+    email: string;
+    displayName?: string;
+    role: OrganizationRole;
+    teamIds: string[];
+    inviteId?: string; // Invitation the member joined with; the owner has none
+    joinedAt: Date;
+}
+
+// Stored in organizations/{orgId}/teams/{teamId}
+export interface OrganizationTeam {
+    id?: string;
+    name: string;
+    createdAt: Date;
+}
+
+export interface OrganizationInvitation {
+    id?: string;
+    orgId: string;
+    orgName: string;
+    email: string; // Lowercased; matched against the invitee's sign-in email
+    role: Exclude<OrganizationRole, 'owner'>;
+    teamIds: string[];
+    invitedBy: string;
+    status: InvitationStatus;
+    createdAt: Date;
+    respondedAt?: Date;
+}
@@ -0,0 +1,39 @@
+// Versioned prompt for the summary LLM call. `{{name}}` inserts a variable; `{{#name}}...{{/name}}` keeps its
+// text only when the variable is set and `{{^name}}...{{/name}}` only when it is not.
+// Registered templates live in core/llm/prompt-templates and are never edited: changes get a new version.
+export interface PromptTemplate {
+    name: string; // e.g. 'book-summary'
+    version: string;
+    description: string;
+    system?: string;
+    user: string;
+}
+
+// One version in a traffic split; weights are relative to each other
+export interface PromptExperimentArm {
+    promptVersion: string; // Template key, `name@version`
+    weight: number;
+}
+
+export interface PromptExperiment {
+    id: string;
+    arms: PromptExperimentArm[];
+}
+
+// Prompt chosen for one summary request
+export interface PromptAssignment {
+    promptVersion: string;
+    experimentId?: string; // Set when the version was picked by an experiment
+}
+
+// Summaries and review outcomes of one prompt version, for comparing versions
+export interface PromptVersionStats {
+    promptVersion: string;
+    experimentIds: string[];
+    summaries: number;
+    averageConfidence: number | null; // Overall confidence score, 0-100
+    decisions: number; // Approved or rejected by a reviewer
+    approvalRate: number | null; // 0-100
+    ratings: number;
+    averageRating: number | null; // 1-5
+}
@@ -1,3 +1,5 @@
+import { StructuredSummary } from './ai-summary.interface';
+
 export interface RecentSummary {
     id: string;
     isbn: string;
@@ -15,5 +17,6 @@ export interface RecentSummary {
         overview: string;
         keyPoints: string[];
         electoralRelevance: string;
+        structured?: StructuredSummary; // Absent for demo summaries and entries saved before it was added
     };
 }
@@ -0,0 +1,25 @@
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+export interface ReviewComment {
+    authorId: string;
+    authorName?: string;
+    text: string;
+    createdAt: Date;
+}
+
+// Editorial state of a library item. Items saved before the workflow existed have none and count as drafts.
+export interface LibraryItemReview {
+    status: ReviewStatus;
+    reviewerId?: string;
+    reviewerName?: string;
+    autoRouted?: boolean; // Sent to review automatically because confidence was below the threshold
+    submittedAt?: Date;
+    decidedAt?: Date; // When the item was last approved or rejected
+    rating?: number; // 1-5 quality rating the reviewer gave with their last decision, if any
+    promptVersion?: string; // Prompt version of the primary summary at the last decision, for comparing prompts
+    approvedLanguage?: string; // Variant the last approval covers; approvals recorded before it covered the primary variant
+    approvedVersionId?: string; // Newest version of that variant at the approval, when the item has version history
+    lastEditedBy?: string;
+    lastEditedAt?: Date;
+    comments: ReviewComment[];
+}
@@ -0,0 +1,22 @@
+// Examples and vocabulary the summary prompt shows the model for one target language
+export interface PromptLanguageHints {
+    exampleShort: string;
+    exampleDetailed: string;
+    exampleFactors: string[];
+    exampleSources: string[];
+    requiredWords: [string, string][]; // Word to use and the English word it replaces
+}
+
+// Language summaries can be written in. Definitions live in core/languages, one file per language,
+// and are listed in core/languages/language-registry.
+export interface SummaryLanguage {
+    code: string; // ISO 639-1
+    iso6392: string[]; // ISO 639-2 codes used by catalogue records, bibliographic and terminology forms
+    name: string; // English name, used in prompts
+    nativeName: string; // Shown in language pickers
+    rtl: boolean;
+    promptHints?: PromptLanguageHints; // Without hints the prompt uses the English examples
+    // A few hundred words in the register of book summaries, for the language purity check.
+    // Without one, sentences only count against a summary when they are clearly in another profiled language.
+    seedCorpus?: string;
+}
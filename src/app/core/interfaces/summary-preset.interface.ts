@@ -0,0 +1,25 @@
+// How the detailed summary is laid out: running text, a bullet list or a sectioned outline
+export type SummaryStructure = 'prose' | 'bullets' | 'outline';
+
+export interface SummaryLengthRange {
+    min: number; // Characters
+    max: number; // Characters; longer answers are trimmed to this length
+}
+
+// Named set of length, structure and tone instructions for the summary prompt.
+// Built-in presets live in core/llm/summary-presets; admins add more in the `summaryPresets` collection.
+export interface SummaryPreset {
+    id: string;
+    name: string;
+    description: string;
+    shortLength: SummaryLengthRange;
+    detailedLength: SummaryLengthRange;
+    structure: SummaryStructure;
+    tone: string; // Style instruction added to the prompt, e.g. "Warm and simple, for readers aged 8-12"
+    builtIn?: boolean;
+    createdBy?: string; // Admin uid, custom presets only
+    updatedAt?: Date;
+}
+
+// What a generated summary records about its preset; the lengths stay correct if the preset is later changed
+export type SummaryPresetRef = Pick<SummaryPreset, 'id' | 'name' | 'shortLength' | 'detailedLength' | 'structure'>;
@@ -0,0 +1,19 @@
+// How a version came about: the model's output, a manual edit, or a restore of an earlier version
+export type SummaryVersionSource = 'generated' | 'edited' | 'restored';
+
+// Stored in libraries/{itemId}/versions/{versionId}; versions are never changed once written
+export interface SummaryVersion {
+    id?: string;
+    short: string;
+    detailed: string;
+    language: string;
+    source: SummaryVersionSource;
+    authorId: string;
+    authorName?: string;
+    createdAt: Date;
+    processingMethod?: 'openai_api' | 'fallback_template';
+    provider?: string;
+    model?: string;
+    promptVersion?: string;
+    restoredFrom?: string; // Id of the version that was restored
+}
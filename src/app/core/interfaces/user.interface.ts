@@ -1,3 +1,7 @@
+// reader: views summaries without generating them; editor: generates and manages summaries;
+// admin: editor plus every library; auditor: read-only access to every library
+export type UserRole = 'reader' | 'editor' | 'admin' | 'auditor';
+
 export interface User {
     uid: string;
     email: string;
@@ -11,4 +15,6 @@ export interface User {
         theme: string;
     };
     libraryCount?: number;
+    plan?: string; // Summary quota plan (free, pro), set by administrators only
+    role?: UserRole; // Set by administrators only; accounts without a role are editors
 }
@@ -0,0 +1,10 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+// No curated prompt hints or seed corpus yet, like Quechua
+export const AYMARA: SummaryLanguage = {
+    code: 'ay',
+    iso6392: ['aym'],
+    name: 'Aymara',
+    nativeName: 'Aymar aru',
+    rtl: false
+};
@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const BASQUE: SummaryLanguage = {
+    code: 'eu',
+    iso6392: ['baq', 'eus'],
+    name: 'Basque',
+    nativeName: 'Euskara',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Liburu honek garapen ekonomiko eta sozialari buruzko teoria nagusiak aztertzen ditu...',
+        exampleDetailed: 'Hazkunde ekonomikoaren oinarrizko kontzeptuak sakonki aztertzen dituen lan osoa, metodologia berritzaileak eta kasu-azterketa garrantzitsuak aurkeztuz, teoria horiek testuinguru errealetan nola aplikatzen diren erakusten duena...',
+        exampleFactors: ['Informazio bibliografiko osoa eskuragarri', 'Edukiaren deskribapen zehatza', 'Argi zehaztutako kategoriak'],
+        exampleSources: ['Argitaletxearen deskribapen ofiziala', 'Google Books metadatuak', 'Egiaztatutako informazio bibliografikoa'],
+        requiredWords: []
+    },
+    seedCorpus: `Liburu honek hiriaren historia aztertzen du, hura eraiki zuten pertsonen bizitzen bidez. Egileak
+        ideia nagusien kontakizun argi eta atsegina eskaintzen du, irakurleek baliagarri aurkituko dituzten
+        adibide praktikoekin. Lan sakona da, zientziak eta gizarteak azken mendean elkarri nola eragin dioten
+        aztertzen duena. Eleberriak bere familia utzi eta bizitza berri baten bila herrialde osoan zehar
+        bidaiatzen duen emakume gazte bati jarraitzen dio. Umorez eta zorroztasunez idatzita, istorioak
+        erakusten du zer gertatzen den adiskidetasuna gerrak probatzen duenean. Kapitulu bakoitzak arazoaren
+        ikuspegi ezberdin bat aurkezten du eta ikasten jarraitzeko galderekin amaitzen da. Ezinbesteko sarrera
+        ikasleentzat eta gaian interesa duen edonorentzat, lehen aldiz argitaratu zenean asko goraipatu zena.`
+};
@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const CATALAN: SummaryLanguage = {
+    code: 'ca',
+    iso6392: ['cat'],
+    name: 'Catalan',
+    nativeName: 'Català',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Aquest llibre explora les principals teories sobre el desenvolupament econòmic i social...',
+        exampleDetailed: 'Una obra completa que analitza en profunditat els conceptes fonamentals del creixement econòmic, presentant metodologies innovadores i estudis de cas rellevants que demostren l\'aplicació pràctica d\'aquestes teories en contextos reals...',
+        exampleFactors: ['Informació bibliogràfica completa disponible', 'Descripció detallada del contingut', 'Categories clarament definides'],
+        exampleSources: ['Descripció oficial de l\'editorial', 'Metadades de Google Books', 'Informació bibliogràfica verificada'],
+        requiredWords: [['ofereix', 'offers'], ['explora', 'explores'], ['presenta', 'presents'], ['anàlisi', 'analysis'], ['comprensió', 'understanding'], ['obra', 'work']]
+    },
+    seedCorpus: `Aquest llibre explora la història de la ciutat a través de la vida de les persones que la van
+        construir. L'autor ofereix un relat clar i amè de les idees principals, amb exemples pràctics que els
+        lectors trobaran útils. És una obra reflexiva que examina com la ciència i la societat s'han influït
+        mútuament durant l'últim segle. La novel·la segueix una jove que deixa la seva família i viatja per tot
+        el país a la recerca d'una nova vida. Escrita amb humor i perspicàcia, la història mostra què passa quan
+        l'amistat es posa a prova amb la guerra. Cada capítol presenta una perspectiva diferent del problema i
+        acaba amb preguntes per continuar estudiant. Una introducció essencial per a estudiants i per a
+        qualsevol persona interessada en el tema, que va ser molt elogiada quan es va publicar per primera vegada.`
+};
@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const ENGLISH: SummaryLanguage = {
+    code: 'en',
+    iso6392: ['eng'],
+    name: 'English',
+    nativeName: 'English',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'This book explores the main theories about economic and social development...',
+        exampleDetailed: 'A comprehensive work that analyzes fundamental concepts of economic growth in depth, presenting innovative methodologies and relevant case studies that demonstrate the practical application of these theories in real contexts...',
+        exampleFactors: ['Complete bibliographic information available', 'Detailed content description', 'Clearly defined categories'],
+        exampleSources: ['Official publisher description', 'Google Books metadata', 'Verified bibliographic information'],
+        requiredWords: []
+    },
+    seedCorpus: `This book explores the history of the city through the lives of the people who built it. The author
+        offers a clear and engaging account of the main ideas, with practical examples that readers will find
+        useful. It is a thoughtful work that examines how science and society have shaped each other over the
+        last century. The novel follows a young woman who leaves her family and travels across the country in
+        search of a new life. Written with humour and insight, the story shows what happens when friendship is
+        tested by war. Each chapter presents a different perspective on the problem and ends with questions
+        for further study. An essential introduction for students and anyone interested in the subject, which
+        was widely praised when it was first published.`
+};
@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const FRENCH: SummaryLanguage = {
+    code: 'fr',
+    iso6392: ['fre', 'fra'],
+    name: 'French',
+    nativeName: 'Français',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Ce livre explore les principales théories sur le développement économique et social...',
+        exampleDetailed: 'Un ouvrage complet qui analyse en profondeur les concepts fondamentaux de la croissance économique, présentant des méthodologies innovantes et des études de cas pertinentes qui démontrent l\'application pratique de ces théories dans des contextes réels...',
+        exampleFactors: ['Informations bibliographiques complètes disponibles', 'Description détaillée du contenu', 'Catégories clairement définies'],
+        exampleSources: ['Description officielle de l\'éditeur', 'Métadonnées Google Books', 'Informations bibliographiques vérifiées'],
+        requiredWords: []
+    },
+    seedCorpus: `Ce livre explore l'histoire de la ville à travers la vie des personnes qui l'ont construite. L'auteur
+        propose un récit clair et captivant des idées principales, avec des exemples pratiques que les lecteurs
+        trouveront utiles. C'est une œuvre réfléchie qui examine comment la science et la société se sont
+        façonnées mutuellement au cours du dernier siècle. Le roman suit une jeune femme qui quitte sa famille et
+        traverse le pays à la recherche d'une nouvelle vie. Écrite avec humour et finesse, l'histoire montre ce
+        qui arrive lorsque l'amitié est mise à l'épreuve par la guerre. Chaque chapitre présente une perspective
+        différente sur le problème et se termine par des questions pour approfondir. Une introduction essentielle
+        pour les étudiants et tous ceux qui s'intéressent au sujet, très saluée lors de sa première parution.`
+};
@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const GALICIAN: SummaryLanguage = {
+    code: 'gl',
+    iso6392: ['glg'],
+    name: 'Galician',
+    nativeName: 'Galego',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Este libro explora as principais teorías sobre o desenvolvemento económico e social...',
+        exampleDetailed: 'Unha obra completa que analiza en profundidade os conceptos fundamentais do crecemento económico, presentando metodoloxías innovadoras e estudos de caso relevantes que demostran a aplicación práctica destas teorías en contextos reais...',
+        exampleFactors: ['Información bibliográfica completa dispoñible', 'Descrición detallada do contido', 'Categorías claramente definidas'],
+        exampleSources: ['Descrición oficial da editorial', 'Metadatos de Google Books', 'Información bibliográfica verificada'],
+        requiredWords: [['ofrece', 'offers'], ['explora', 'explores'], ['presenta', 'presents'], ['análise', 'analysis'], ['perspectivas', 'perspectives'], ['comprensión', 'understanding'], ['obra', 'work']]
+    },
+    seedCorpus: `Este libro explora a historia da cidade a través da vida das persoas que a construíron. O autor
+        ofrece un relato claro e ameno das ideas principais, con exemplos prácticos que os lectores acharán
+        útiles. É unha obra reflexiva que examina como a ciencia e a sociedade se influíron mutuamente durante o
+        último século. A novela segue unha moza que deixa a súa familia e viaxa por todo o país en busca dunha
+        nova vida. Escrita con humor e agudeza, a historia amosa o que acontece cando a amizade se pon a proba na
+        guerra. Cada capítulo presenta unha perspectiva distinta do problema e remata con preguntas para seguir
+        estudando. Unha introdución esencial para estudantes e para calquera persoa interesada no tema, que foi
+        moi eloxiada cando se publicou por primeira vez.`
+};
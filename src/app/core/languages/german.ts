@@ -0,0 +1,25 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const GERMAN: SummaryLanguage = {
+    code: 'de',
+    iso6392: ['ger', 'deu'],
+    name: 'German',
+    nativeName: 'Deutsch',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Dieses Buch erforscht die wichtigsten Theorien über wirtschaftliche und soziale Entwicklung...',
+        exampleDetailed: 'Ein umfassendes Werk, das die grundlegenden Konzepte des Wirtschaftswachstums tiefgreifend analysiert und innovative Methodologien sowie relevante Fallstudien präsentiert, die die praktische Anwendung dieser Theorien in realen Kontexten demonstrieren...',
+        exampleFactors: ['Vollständige bibliographische Informationen verfügbar', 'Detaillierte Inhaltsbeschreibung', 'Klar definierte Kategorien'],
+        exampleSources: ['Offizielle Verlagsbeschreibung', 'Google Books Metadaten', 'Verifizierte bibliographische Informationen'],
+        requiredWords: [['bietet', 'offers'], ['erforscht', 'explores'], ['präsentiert', 'presents'], ['Analyse', 'analysis'], ['Perspektiven', 'perspectives'], ['Verständnis', 'understanding'], ['Werk', 'work']]
+    },
+    seedCorpus: `Dieses Buch erkundet die Geschichte der Stadt anhand des Lebens der Menschen, die sie erbaut haben. Der
+        Autor bietet eine klare und fesselnde Darstellung der wichtigsten Ideen, mit praktischen Beispielen, die
+        Leser nützlich finden werden. Es ist ein nachdenkliches Werk, das untersucht, wie Wissenschaft und
+        Gesellschaft sich im letzten Jahrhundert gegenseitig geprägt haben. Der Roman folgt einer jungen Frau,
+        die ihre Familie verlässt und auf der Suche nach einem neuen Leben durch das ganze Land reist. Mit Humor
+        und Einsicht geschrieben, zeigt die Geschichte, was geschieht, wenn Freundschaft durch den Krieg auf die
+        Probe gestellt wird. Jedes Kapitel stellt eine andere Sichtweise auf das Problem vor und endet mit Fragen
+        zur Vertiefung. Eine unverzichtbare Einführung für Studierende und alle, die sich für das Thema
+        interessieren, die bei ihrem ersten Erscheinen viel gelobt wurde.`
+};
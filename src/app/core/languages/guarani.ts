@@ -0,0 +1,10 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+// No curated prompt hints or seed corpus yet, like Quechua
+export const GUARANI: SummaryLanguage = {
+    code: 'gn',
+    iso6392: ['grn'],
+    name: 'Guarani',
+    nativeName: 'Avañe\'ẽ',
+    rtl: false
+};
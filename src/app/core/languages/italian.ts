@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const ITALIAN: SummaryLanguage = {
+    code: 'it',
+    iso6392: ['ita'],
+    name: 'Italian',
+    nativeName: 'Italiano',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Questo libro esplora le principali teorie sullo sviluppo economico e sociale...',
+        exampleDetailed: 'Un\'opera completa che analizza in profondità i concetti fondamentali della crescita economica, presentando metodologie innovative e casi di studio rilevanti che dimostrano l\'applicazione pratica di queste teorie in contesti reali...',
+        exampleFactors: ['Informazioni bibliografiche complete disponibili', 'Descrizione dettagliata del contenuto', 'Categorie chiaramente definite'],
+        exampleSources: ['Descrizione ufficiale dell\'editore', 'Metadati Google Books', 'Informazioni bibliografiche verificate'],
+        requiredWords: [['offre', 'offers'], ['esplora', 'explores'], ['presenta', 'presents'], ['analisi', 'analysis'], ['prospettive', 'perspectives'], ['comprensione', 'understanding'], ['opera', 'work']]
+    },
+    seedCorpus: `Questo libro esplora la storia della città attraverso la vita delle persone che l'hanno costruita.
+        L'autore offre un racconto chiaro e coinvolgente delle idee principali, con esempi pratici che i lettori
+        troveranno utili. È un'opera riflessiva che esamina come la scienza e la società si siano influenzate a
+        vicenda nell'ultimo secolo. Il romanzo segue una giovane donna che lascia la sua famiglia e attraversa
+        il paese in cerca di una nuova vita. Scritta con umorismo e acutezza, la storia mostra cosa succede
+        quando l'amicizia viene messa alla prova dalla guerra. Ogni capitolo presenta una prospettiva diversa sul
+        problema e si conclude con domande per approfondire. Un'introduzione essenziale per gli studenti e per
+        chiunque sia interessato all'argomento, molto apprezzata quando fu pubblicata per la prima volta.`
+};
@@ -0,0 +1,64 @@
+import { PromptLanguageHints, SummaryLanguage } from '../interfaces/summary-language.interface';
+import { AYMARA } from './aymara';
+import { BASQUE } from './basque';
+import { CATALAN } from './catalan';
+import { ENGLISH } from './english';
+import { FRENCH } from './french';
+import { GALICIAN } from './galician';
+import { GERMAN } from './german';
+import { GUARANI } from './guarani';
+import { ITALIAN } from './italian';
+import { PORTUGUESE } from './portuguese';
+import { QUECHUA } from './quechua';
+import { SPANISH } from './spanish';
+
+// Summary languages shared by the app, the Cloud Functions and the evaluation harness, in picker order.
+// To add a language, write its definition next to the others and list it here.
+export const SUMMARY_LANGUAGES: SummaryLanguage[] = [
+    ENGLISH,
+    SPANISH,
+    FRENCH,
+    GERMAN,
+    ITALIAN,
+    PORTUGUESE,
+    CATALAN,
+    GALICIAN,
+    BASQUE,
+    QUECHUA,
+    AYMARA,
+    GUARANI
+];
+
+// Unknown codes fall back to English, the language summaries were written in before translation existed
+export const FALLBACK_SUMMARY_LANGUAGE = ENGLISH;
+
+export function getSummaryLanguage(code: string): SummaryLanguage | undefined {
+    return SUMMARY_LANGUAGES.find(language => language.code === code);
+}
+
+export function isSummaryLanguage(code: string): boolean {
+    return !!getSummaryLanguage(code);
+}
+
+// English name, for prompts
+export function getLanguageName(code: string): string {
+    return (getSummaryLanguage(code) || FALLBACK_SUMMARY_LANGUAGE).name;
+}
+
+// Name in the language itself, for display; unknown codes are shown as they are
+export function getNativeLanguageName(code: string): string {
+    return getSummaryLanguage(code)?.nativeName || code;
+}
+
+export function isRtlLanguage(code: string): boolean {
+    return !!getSummaryLanguage(code)?.rtl;
+}
+
+export function getPromptLanguageHints(code: string): PromptLanguageHints {
+    return getSummaryLanguage(code)?.promptHints || FALLBACK_SUMMARY_LANGUAGE.promptHints as PromptLanguageHints;
+}
+
+// ISO 639-1 code for an ISO 639-2 code from a catalogue record
+export function fromIso6392(code: string): string | undefined {
+    return SUMMARY_LANGUAGES.find(language => language.iso6392.includes(code))?.code;
+}
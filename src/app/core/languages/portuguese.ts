@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const PORTUGUESE: SummaryLanguage = {
+    code: 'pt',
+    iso6392: ['por'],
+    name: 'Portuguese',
+    nativeName: 'Português',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Este livro explora as principais teorias sobre desenvolvimento econômico e social...',
+        exampleDetailed: 'Uma obra completa que analisa em profundidade os conceitos fundamentais do crescimento econômico, apresentando metodologias inovadoras e estudos de caso relevantes que demonstram a aplicação prática dessas teorias em contextos reais...',
+        exampleFactors: ['Informações bibliográficas completas disponíveis', 'Descrição detalhada do conteúdo', 'Categorias claramente definidas'],
+        exampleSources: ['Descrição oficial da editora', 'Metadados do Google Books', 'Informações bibliográficas verificadas'],
+        requiredWords: [['oferece', 'offers'], ['explora', 'explores'], ['apresenta', 'presents'], ['análise', 'analysis'], ['perspectivas', 'perspectives'], ['compreensão', 'understanding'], ['obra', 'work']]
+    },
+    seedCorpus: `Este livro explora a história da cidade através da vida das pessoas que a construíram. O autor oferece
+        um relato claro e envolvente das principais ideias, com exemplos práticos que os leitores acharão úteis.
+        É uma obra reflexiva que examina como a ciência e a sociedade se influenciaram mutuamente durante o
+        último século. O romance acompanha uma jovem que deixa a sua família e viaja por todo o país em busca de
+        uma nova vida. Escrita com humor e sensibilidade, a história mostra o que acontece quando a amizade é
+        posta à prova pela guerra. Cada capítulo apresenta uma perspetiva diferente sobre o problema e termina
+        com perguntas para aprofundar o estudo. Uma introdução essencial para estudantes e para qualquer pessoa
+        interessada no tema, que foi muito elogiada quando foi publicada pela primeira vez.`
+};
@@ -0,0 +1,11 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+// No curated prompt hints or seed corpus yet: prompts use the English examples and the purity check
+// only flags sentences that are clearly in another language
+export const QUECHUA: SummaryLanguage = {
+    code: 'qu',
+    iso6392: ['que'],
+    name: 'Quechua',
+    nativeName: 'Runa Simi',
+    rtl: false
+};
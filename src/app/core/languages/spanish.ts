@@ -0,0 +1,24 @@
+import { SummaryLanguage } from '../interfaces/summary-language.interface';
+
+export const SPANISH: SummaryLanguage = {
+    code: 'es',
+    iso6392: ['spa'],
+    name: 'Spanish',
+    nativeName: 'Español',
+    rtl: false,
+    promptHints: {
+        exampleShort: 'Este libro explora las principales teorías sobre el desarrollo económico y social...',
+        exampleDetailed: 'Una obra completa que analiza en profundidad los conceptos fundamentales del crecimiento económico, presentando metodologías innovadoras y casos de estudio relevantes que demuestran la aplicación práctica de estas teorías en contextos reales...',
+        exampleFactors: ['Información bibliográfica completa disponible', 'Descripción detallada del contenido', 'Categorías claramente definidas'],
+        exampleSources: ['Descripción oficial del editor', 'Metadatos de Google Books', 'Información bibliográfica verificada'],
+        requiredWords: [['ofrece', 'delivers'], ['explora', 'explores'], ['presenta', 'presents'], ['análisis', 'analysis'], ['perspectivas', 'perspectives'], ['comprensión', 'understanding']]
+    },
+    seedCorpus: `Este libro explora la historia de la ciudad a través de la vida de las personas que la construyeron.
+        El autor ofrece un relato claro y ameno de las ideas principales, con ejemplos prácticos que los
+        lectores encontrarán útiles. Es una obra reflexiva que examina cómo la ciencia y la sociedad se han
+        influido mutuamente durante el último siglo. La novela sigue a una joven que deja a su familia y viaja
+        por todo el país en busca de una nueva vida. Escrita con humor y perspicacia, la historia muestra lo que
+        ocurre cuando la amistad se pone a prueba en la guerra. Cada capítulo presenta una perspectiva distinta
+        del problema y termina con preguntas para seguir estudiando. Una introducción esencial para estudiantes
+        y para cualquier persona interesada en el tema, que fue muy elogiada cuando se publicó por primera vez.`
+};
@@ -0,0 +1,19 @@
+import { LlmConfig, LlmProvider } from './llm-provider';
+import { ChatCompletionClient, OpenAICompatibleProvider } from './openai-compatible.provider';
+import { StubLlmProvider } from './stub.provider';
+
+// createClient is only called for OpenAI and OpenAI-compatible providers
+export function createLlmProvider(
+    config: LlmConfig,
+    createClient: (config: LlmConfig) => ChatCompletionClient
+): LlmProvider {
+    switch (config.provider) {
+        case 'stub':
+            return new StubLlmProvider();
+        case 'openai':
+        case 'openai_compatible':
+            return new OpenAICompatibleProvider(config, createClient(config));
+        default:
+            throw new Error(`Unknown LLM provider: ${config.provider}`);
+    }
+}
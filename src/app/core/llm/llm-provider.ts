@@ -0,0 +1,49 @@
+// LLM provider abstraction shared by OpenAIService and the Cloud Functions.
+// Keep this folder free of Angular and SDK imports so both builds can compile it.
+
+export type LlmProviderId = 'openai' | 'openai_compatible' | 'stub';
+
+export interface LlmConfig {
+    provider: LlmProviderId;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+    consistencySamples?: number; // Extra summaries sampled to measure self-consistency (0 disables)
+}
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmCompletionRequest {
+    messages: LlmMessage[];
+    jsonMode?: boolean;
+    maxTokens?: number; // Overrides LlmConfig.maxTokens for this call
+    onDelta?: (text: string) => void; // Stream the completion; called with each new chunk of text
+}
+
+export interface LlmCompletion {
+    content: string;
+    provider: LlmProviderId;
+    model: string;
+}
+
+export interface LlmProvider {
+    readonly id: LlmProviderId;
+    readonly model: string;
+    complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+    'openai': 'OpenAI',
+    'openai_compatible': 'Self-hosted LLM',
+    'stub': 'Offline stub'
+};
+
+// Human readable name used in source attribution, e.g. "OpenAI gpt-3.5-turbo"
+export function describeLlm(provider: string | undefined, model: string | undefined): string {
+    const label = LLM_PROVIDER_LABELS[provider as LlmProviderId] || 'OpenAI';
+    return model ? `${label} ${model}` : label;
+}
@@ -0,0 +1,52 @@
+import { LlmCompletion, LlmCompletionRequest, LlmConfig, LlmProvider, LlmProviderId } from './llm-provider';
+
+// The subset of the `openai` SDK client this provider needs. Callers construct the client
+// (with their own apiKey/baseURL) so this file does not depend on a specific SDK build.
+export interface ChatCompletionClient {
+    chat: {
+        completions: {
+            create(params: any): Promise<any>;
+        };
+    };
+}
+
+// Works with api.openai.com and any server implementing the chat completions API (llama.cpp, Ollama, vLLM)
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly id: LlmProviderId;
+    readonly model: string;
+
+    constructor(private config: LlmConfig, private client: ChatCompletionClient) {
+        this.id = config.provider;
+        this.model = config.model;
+    }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const completion = await this.client.chat.completions.create({
+            model: this.config.model,
+            messages: request.messages,
+            max_tokens: request.maxTokens ?? this.config.maxTokens,
+            temperature: this.config.temperature,
+            ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+            ...(request.onDelta ? { stream: true } : {})
+        });
+
+        let content = '';
+        if (request.onDelta) {
+            for await (const chunk of completion) {
+                const delta = chunk.choices?.[0]?.delta?.content || '';
+                if (delta) {
+                    content += delta;
+                    request.onDelta(delta);
+                }
+            }
+        } else {
+            content = completion.choices?.[0]?.message?.content || '';
+        }
+
+        return {
+            content,
+            provider: this.id,
+            model: completion.model || this.config.model
+        };
+    }
+}
@@ -0,0 +1,103 @@
+import { PromptExperiment } from '../interfaces/prompt-template.interface';
+import { getDefaultPreset } from './summary-presets';
+import { DEFAULT_PROMPT_VERSION, PromptBook, assignPromptVersion, parsePromptExperiment, renderSummaryPrompt, renderTemplate } from './prompt-registry';
+
+function experiment(id: string, weights: [number, number]): PromptExperiment {
+    return {
+        id,
+        arms: [
+            { promptVersion: 'book-summary@1', weight: weights[0] },
+            { promptVersion: 'book-summary@2', weight: weights[1] }
+        ]
+    };
+}
+
+describe('prompt registry', () => {
+    describe('parsePromptExperiment', () => {
+        it('reads the id and weighted versions', () => {
+            expect(parsePromptExperiment(' shorter-prompt:book-summary@1=20, book-summary@2=80 ')).toEqual(experiment('shorter-prompt', [20, 80]));
+        });
+
+        it('treats an empty value as no experiment', () => {
+            expect(parsePromptExperiment(undefined)).toBeNull();
+            expect(parsePromptExperiment('  ')).toBeNull();
+        });
+
+        it('rejects a missing id, unregistered versions and weights that are not positive', () => {
+            expect(() => parsePromptExperiment('book-summary@1=50')).toThrowError(/must start with an id/);
+            expect(() => parsePromptExperiment('test:book-summary@9=50')).toThrowError(/unregistered prompt version "book-summary@9"/);
+            expect(() => parsePromptExperiment('test:book-summary@1=0')).toThrowError(/needs a positive weight for book-summary@1/);
+            expect(() => parsePromptExperiment('test:book-summary@1')).toThrowError(/needs a positive weight/);
+        });
+    });
+
+    describe('assignPromptVersion', () => {
+        it('uses the default version without an experiment', () => {
+            expect(assignPromptVersion(null, '9780060883287')).toEqual({ promptVersion: DEFAULT_PROMPT_VERSION });
+        });
+
+        it('always puts a book in the same bucket of an experiment', () => {
+            const split = experiment('shorter-prompt', [50, 50]);
+
+            // FNV-1a of "shorter-prompt:9780060883287" is 0.094 of the range; the Cloud Function must agree
+            expect(assignPromptVersion(split, '9780060883287')).toEqual({ promptVersion: 'book-summary@1', experimentId: 'shorter-prompt' });
+            expect(assignPromptVersion(split, '9780060883287')).toEqual(assignPromptVersion({ ...split }, '9780060883287'));
+            // The experiment id is part of the key, so a new experiment reshuffles the books (0.974 here)
+            expect(assignPromptVersion(experiment('other', [50, 50]), '9780060883287').promptVersion).toBe('book-summary@2');
+        });
+
+        it('splits books roughly by the arm weights', () => {
+            const split = experiment('shorter-prompt', [20, 80]);
+            let firstArm = 0;
+            for (let i = 0; i < 1000; i++) {
+                if (assignPromptVersion(split, String(9780000000000 + i * 7919)).promptVersion === 'book-summary@1') {
+                    firstArm++;
+                }
+            }
+
+            expect(firstArm).toBeGreaterThan(150);
+            expect(firstArm).toBeLessThan(250);
+        });
+    });
+
+    describe('renderTemplate', () => {
+        it('keeps sections by their variable and fails on unknown variables', () => {
+            const text = '{{#translate}}Translate to {{language}}.{{/translate}}{{^translate}}Keep {{language}}.{{/translate}}';
+
+            expect(renderTemplate(text, { translate: true, language: 'Spanish' })).toBe('Translate to Spanish.');
+            expect(renderTemplate(text, { translate: false, language: 'Spanish' })).toBe('Keep Spanish.');
+            expect(() => renderTemplate('{{missing}}', {})).toThrowError('Prompt variable "missing" is not defined');
+        });
+    });
+
+    describe('renderSummaryPrompt', () => {
+        const book: PromptBook = {
+            title: 'Cien años de soledad',
+            authors: ['Gabriel García Márquez'],
+            isbn: '9780060883287',
+            description: 'La historia de la familia Buendía.',
+            categories: ['Fiction'],
+            publisher: 'Sudamericana',
+            publishedDate: '1967',
+            pageCount: 417,
+            language: 'es',
+            targetLanguage: 'en'
+        };
+
+        it('renders every registered version with the preset instructions', () => {
+            for (const version of ['book-summary@1', 'book-summary@2']) {
+                const prompt = renderSummaryPrompt(version, book, getDefaultPreset());
+                const text = prompt.messages.map(message => message.content).join('\n');
+
+                expect(prompt.promptVersion).toBe(version);
+                expect(text).toContain('Cien años de soledad');
+                expect(text).toContain('SUMMARY STYLE ("Standard"):');
+                expect(text).not.toContain('{{');
+            }
+        });
+
+        it('refuses unregistered versions', () => {
+            expect(() => renderSummaryPrompt('book-summary@9', book, getDefaultPreset())).toThrowError('Prompt version book-summary@9 is not registered');
+        });
+    });
+});
@@ -0,0 +1,168 @@
+import { SummaryRequest } from '../interfaces/ai-summary.interface';
+import { PromptAssignment, PromptExperiment, PromptTemplate } from '../interfaces/prompt-template.interface';
+import { SummaryPreset } from '../interfaces/summary-preset.interface';
+import { getLanguageName, getPromptLanguageHints } from '../languages/language-registry';
+import { LlmMessage } from './llm-provider';
+import { PROMPT_TEMPLATES } from './prompt-templates';
+import { buildPresetInstructions, describeLength } from './summary-presets';
+
+// Prompt registry shared by OpenAIService and the Cloud Functions
+
+// Used when no experiment is configured, and for books outside every experiment arm
+export const DEFAULT_PROMPT_VERSION = 'book-summary@2';
+
+export type PromptVariables = Record<string, string | boolean>;
+
+export type PromptBook = Pick<SummaryRequest,
+    'title' | 'authors' | 'isbn' | 'description' | 'categories' | 'publisher' | 'publishedDate' | 'pageCount' | 'language' | 'targetLanguage'>;
+
+export interface RenderedPrompt {
+    promptVersion: string;
+    messages: LlmMessage[];
+}
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export function getPromptKey(template: PromptTemplate): string {
+    return `${template.name}@${template.version}`;
+}
+
+export function getPromptTemplate(promptVersion: string): PromptTemplate | undefined {
+    return PROMPT_TEMPLATES.find(template => getPromptKey(template) === promptVersion);
+}
+
+/**
+ * Variables available to every summary template
+ */
+export function buildPromptVariables(book: PromptBook, preset: SummaryPreset): PromptVariables {
+    const targetLanguageName = getLanguageName(book.targetLanguage);
+    const hints = getPromptLanguageHints(book.targetLanguage);
+    const description = book.description || '';
+
+    return {
+        title: book.title,
+        authors: book.authors.join(', '),
+        isbn: book.isbn,
+        publisher: book.publisher || '',
+        publishedDate: book.publishedDate || '',
+        pageCount: String(book.pageCount || ''),
+        categories: (book.categories || []).join(', '),
+        description,
+        descriptionExcerpt: description.substring(0, 150),
+        language: book.language,
+        targetLanguage: book.targetLanguage,
+        targetLanguageName,
+        targetLanguageNameUpper: targetLanguageName.toUpperCase(),
+        needsTranslation: book.language !== book.targetLanguage,
+        presetInstructions: buildPresetInstructions(preset, targetLanguageName),
+        shortLength: describeLength(preset.shortLength),
+        detailedLength: describeLength(preset.detailedLength),
+        exampleShort: hints.exampleShort,
+        exampleDetailed: hints.exampleDetailed,
+        exampleFactors: JSON.stringify(hints.exampleFactors),
+        exampleSources: JSON.stringify(hints.exampleSources),
+        requiredWords: hints.requiredWords.map(([word, english]) => `- Use "${word}" NOT "${english}"`).join('\n')
+    };
+}
+
+function readVariable(variables: PromptVariables, name: string): string | boolean {
+    if (!(name in variables)) {
+        throw new Error(`Prompt variable "${name}" is not defined`);
+    }
+    return variables[name];
+}
+
+/**
+ * Fill in a template. Sections are resolved first, repeatedly, so they can be nested.
+ */
+export function renderTemplate(text: string, variables: PromptVariables): string {
+    let rendered = text;
+    let previous: string;
+    do {
+        previous = rendered;
+        rendered = rendered.replace(SECTION_PATTERN, (_match, kind: string, name: string, body: string) =>
+            (kind === '#') === Boolean(readVariable(variables, name)) ? body : '');
+    } while (rendered !== previous);
+
+    return rendered.replace(VARIABLE_PATTERN, (_match, name: string) => String(readVariable(variables, name))).trim();
+}
+
+/**
+ * Messages for the summary completion. Throws for unregistered versions.
+ */
+export function renderSummaryPrompt(promptVersion: string, book: PromptBook, preset: SummaryPreset): RenderedPrompt {
+    const template = getPromptTemplate(promptVersion);
+    if (!template) {
+        throw new Error(`Prompt version ${promptVersion} is not registered`);
+    }
+
+    const variables = buildPromptVariables(book, preset);
+    const messages: LlmMessage[] = [];
+    if (template.system) {
+        messages.push({ role: 'system', content: renderTemplate(template.system, variables) });
+    }
+    messages.push({ role: 'user', content: renderTemplate(template.user, variables) });
+    return { promptVersion, messages };
+}
+
+/**
+ * Read an experiment from `<id>:<version>=<weight>,<version>=<weight>`, e.g.
+ * `shorter-prompt:book-summary@1=50,book-summary@2=50`. Empty means no experiment; malformed values throw.
+ */
+export function parsePromptExperiment(spec: string | undefined): PromptExperiment | null {
+    const value = (spec || '').trim();
+    if (!value) {
+        return null;
+    }
+
+    const separator = value.indexOf(':');
+    const id = value.substring(0, separator).trim();
+    if (separator < 1 || !/^[\w-]+$/.test(id)) {
+        throw new Error(`Prompt experiment "${value}" must start with an id followed by ":"`);
+    }
+
+    const arms = value.substring(separator + 1).split(',').map(entry => {
+        const [promptVersion, weight] = entry.split('=').map(part => part.trim());
+        if (!getPromptTemplate(promptVersion)) {
+            throw new Error(`Prompt experiment ${id} uses unregistered prompt version "${promptVersion}"`);
+        }
+        const parsedWeight = Number(weight);
+        if (!(parsedWeight > 0)) {
+            throw new Error(`Prompt experiment ${id} needs a positive weight for ${promptVersion}`);
+        }
+        return { promptVersion, weight: parsedWeight };
+    });
+
+    return { id, arms };
+}
+
+// FNV-1a hash of the key mapped to [0, 1)
+function hashToFraction(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the prompt version for a book. Books rather than users are assigned, so every reader of a book gets the
+ * same version, cached summaries stay valid and the browser and the Cloud Function agree.
+ */
+export function assignPromptVersion(experiment: PromptExperiment | null, isbn: string): PromptAssignment {
+    if (!experiment) {
+        return { promptVersion: DEFAULT_PROMPT_VERSION };
+    }
+
+    const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+    let point = hashToFraction(`${experiment.id}:${isbn}`) * totalWeight;
+    for (const arm of experiment.arms) {
+        point -= arm.weight;
+        if (point < 0) {
+            return { promptVersion: arm.promptVersion, experimentId: experiment.id };
+        }
+    }
+    return { promptVersion: experiment.arms[experiment.arms.length - 1].promptVersion, experimentId: experiment.id };
+}
@@ -0,0 +1,123 @@
+import { PromptTemplate } from '../interfaces/prompt-template.interface';
+
+// Registered summary prompts. Never edit a template that has been deployed: summaries and the summary cache
+// record the version, so add a new version and point DEFAULT_PROMPT_VERSION or an experiment at it.
+
+const SUMMARY_JSON_FORMAT = `{
+  "shortSummary": "Write {{shortLength}} in {{targetLanguageName}} ONLY",
+  "detailedSummary": "Write {{detailedLength}} in {{targetLanguageName}} ONLY",
+  "confidenceScore": 85,
+  "reasoningFactors": ["Factor 1 in {{targetLanguageName}}", "Factor 2 in {{targetLanguageName}}", "Factor 3 in {{targetLanguageName}}"],
+  "sourcesUsed": ["Source 1 in {{targetLanguageName}}", "Source 2 in {{targetLanguageName}}"],
+  "keyPoints": ["Key point 1 in {{targetLanguageName}}", "Key point 2 in {{targetLanguageName}}", "Key point 3 in {{targetLanguageName}}"],
+  "themes": ["Theme 1 in {{targetLanguageName}}", "Theme 2 in {{targetLanguageName}}"],
+  "targetAudience": "Who the book is for, one sentence in {{targetLanguageName}}",
+  "readingLevel": "introductory | general | advanced | specialist",
+  "electoralRelevance": {
+    "level": "none | low | medium | high",
+    "assessment": "1-2 sentences in {{targetLanguageName}} on how the book bears on elections, public policy or civic life"
+  }
+}`;
+
+const COMPACT_JSON_FORMAT = `{
+  "shortSummary": "{{shortLength}} in {{targetLanguageName}}",
+  "detailedSummary": "{{detailedLength}} in {{targetLanguageName}}",
+  "confidenceScore": 85,
+  "reasoningFactors": ["factor1", "factor2"],
+  "sourcesUsed": ["source1", "source2"],
+  "keyPoints": ["3-7 key points in {{targetLanguageName}}"],
+  "themes": ["1-6 main themes, a few words each, in {{targetLanguageName}}"],
+  "targetAudience": "Who the book is for, one sentence in {{targetLanguageName}}",
+  "readingLevel": "introductory | general | advanced | specialist",
+  "electoralRelevance": {
+    "level": "none | low | medium | high",
+    "assessment": "1-2 sentences in {{targetLanguageName}} on how the book bears on elections, public policy or civic life"
+  }
+}`;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        name: 'book-summary',
+        version: '1',
+        description: 'Full book metadata with worked examples in the target language and strict language rules. Formerly the browser prompt.',
+        system: 'You are a professional book summarizer. CRITICAL REQUIREMENT: Your response must be 100% in {{targetLanguageName}}. ' +
+            'NEVER mix languages. NEVER use English words if the target is not English. ' +
+            'NEVER use {{targetLanguageName}} words if the target is not {{targetLanguageName}}. ' +
+            'Every word, every phrase, every sentence must be purely in {{targetLanguageName}}.',
+        user: `ABSOLUTE REQUIREMENT: You MUST respond 100% in {{targetLanguageName}}. NO mixing of languages allowed.
+
+CRITICAL INSTRUCTION: This book is originally in "{{language}}" but you MUST write your summary in {{targetLanguageName}}. If these are different languages, you are translating the summary to {{targetLanguageName}}.
+
+EXAMPLES of proper format in {{targetLanguageName}}:
+- shortSummary: "{{exampleShort}}"
+- detailedSummary: "{{exampleDetailed}}"
+- reasoningFactors: {{exampleFactors}}
+- sourcesUsed: {{exampleSources}}
+
+Book Information:
+- Title: "{{title}}" (keep original title)
+- Author(s): {{authors}} (keep original names)
+- ISBN: {{isbn}} (universal identifier - works in any language)
+- Publisher: {{publisher}}
+- Published: {{publishedDate}}
+- Pages: {{pageCount}}
+- Categories: {{categories}}
+- Book's Original Language: "{{language}}"
+- SUMMARY MUST BE IN: {{targetLanguageName}}
+- Description: "{{description}}"
+
+LANGUAGE TRANSLATION RULE:
+- Book language: "{{language}}"
+- Summary language: {{targetLanguageName}}
+- If different: Translate concepts and ideas to {{targetLanguageName}}
+- Keep author names and book title as original
+- Write ALL analysis and summary text in {{targetLanguageName}}
+
+EXAMPLE SCENARIOS:
+- Spanish book + German summary = Write in German
+- English book + Portuguese summary = Write in Portuguese
+- French book + Italian summary = Write in Italian
+- ANY book language + {{targetLanguageName}} summary = Write in {{targetLanguageName}}
+
+{{presetInstructions}}
+
+RESPOND WITH JSON in {{targetLanguageName}}:
+${SUMMARY_JSON_FORMAT}
+
+STRICT RULES:
+1. Every single word must be in {{targetLanguageName}}
+2. Do not translate author names or book titles
+3. Use natural {{targetLanguageName}} grammar and vocabulary
+4. NO English if target is not English
+5. NO Spanish if target is not Spanish
+6. NO mixing any languages
+7. Follow the examples provided above, in the summary style given above`
+    },
+    {
+        name: 'book-summary',
+        version: '2',
+        description: 'Title, authors and a short description excerpt, with required vocabulary when translating. Formerly the Cloud Function prompt.',
+        user: `{{#needsTranslation}}TRANSLATE AND SUMMARIZE: Create a book summary in pure {{targetLanguageName}} from a book originally in {{language}}.
+
+CRITICAL: Write EVERYTHING in {{targetLanguageName}}. This is a TRANSLATION task.
+
+Book: "{{title}}" by {{authors}}
+Original Language: {{language}}
+Target Language: {{targetLanguageName}}
+Description: "{{descriptionExcerpt}}"
+{{#requiredWords}}
+MANDATORY {{targetLanguageNameUpper}} WORDS:
+{{requiredWords}}
+
+TRANSLATE EVERYTHING TO {{targetLanguageNameUpper}}.
+{{/requiredWords}}{{/needsTranslation}}{{^needsTranslation}}Create a book summary in {{targetLanguageName}}.
+
+Book: "{{title}}" by {{authors}}
+Description: "{{descriptionExcerpt}}"
+{{/needsTranslation}}
+{{presetInstructions}}
+
+Return JSON in {{targetLanguageName}}:
+${COMPACT_JSON_FORMAT}`
+    }
+];
@@ -0,0 +1,48 @@
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './llm-provider';
+
+// Deterministic offline provider for tests and demos: the same prompt always yields the same summary
+export class StubLlmProvider implements LlmProvider {
+    readonly id = 'stub' as const;
+    readonly model = 'stub-summarizer-1';
+
+    constructor(private respond?: (request: LlmCompletionRequest) => string) { }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const content = this.respond ? this.respond(request) : this.defaultResponse(request);
+
+        if (request.onDelta) {
+            // Emit in fixed-size chunks so streaming code paths are exercised too
+            for (let i = 0; i < content.length; i += 24) {
+                request.onDelta(content.substring(i, i + 24));
+            }
+        }
+
+        return { content, provider: this.id, model: this.model };
+    }
+
+    private defaultResponse(request: LlmCompletionRequest): string {
+        const prompt = request.messages.map(message => message.content).join('\n');
+        const title = prompt.match(/"([^"]{1,200})"/)?.[1] || 'This book';
+        const authors = prompt.match(/ by ([^\n]+)/)?.[1]?.trim() || 'its author';
+
+        return JSON.stringify({
+            shortSummary: `"${title}" by ${authors}: an offline summary generated without a language model, based only on the catalogue record.`,
+            detailedSummary: `"${title}" by ${authors}. This summary was produced by the offline stub provider, which returns a fixed text for every request with the same prompt. It is intended for automated tests and air-gapped demos and does not describe the book's actual content.`,
+            confidenceScore: 50,
+            reasoningFactors: ['Offline stub provider'],
+            sourcesUsed: ['Book metadata'],
+            keyPoints: [
+                `"${title}" is described from its catalogue record only.`,
+                'The offline stub provider returns the same analysis for the same prompt.',
+                'No claims about the content of the book are made.'
+            ],
+            themes: ['Offline summary'],
+            targetAudience: 'Developers running automated tests or offline demos.',
+            readingLevel: 'general',
+            electoralRelevance: {
+                level: 'none',
+                assessment: 'Not assessed: the offline stub provider does not analyze the book.'
+            }
+        });
+    }
+}
@@ -0,0 +1,28 @@
+import { measureSelfConsistency } from '../confidence/confidence-signals';
+import { LlmCompletion, LlmCompletionRequest } from './llm-provider';
+import { SummaryPayload, completeValidatedSummary } from './summary-schema';
+
+/**
+ * Request `samples` more summaries for the same prompt and measure how much they agree with `summary`.
+ * Samples that fail are skipped; returns undefined when sampling is disabled or every sample failed.
+ */
+export async function sampleSelfConsistency(
+    complete: (request: LlmCompletionRequest) => Promise<LlmCompletion>,
+    request: LlmCompletionRequest,
+    summary: SummaryPayload,
+    samples: number
+): Promise<number | undefined> {
+    const sampledSummaries: string[] = [];
+
+    // One at a time: parallel samples would multiply the chance of hitting provider rate limits
+    for (let i = 0; i < samples; i++) {
+        try {
+            const sample = await completeValidatedSummary(complete, { ...request, onDelta: undefined });
+            sampledSummaries.push(sample.payload.detailedSummary);
+        } catch (error) {
+            console.warn('Self-consistency sample failed:', error);
+        }
+    }
+
+    return measureSelfConsistency(summary.detailedSummary, sampledSummaries) ?? undefined;
+}
@@ -0,0 +1,67 @@
+import { SummaryLanguageCheck } from '../interfaces/ai-summary.interface';
+import { LANGUAGE_PURITY_THRESHOLD, measureLanguagePurity } from '../utils/language-detection';
+import { LlmCompletion, LlmCompletionRequest } from './llm-provider';
+import { SummaryPayload, ValidatedSummaryCompletion, completeValidatedSummary } from './summary-schema';
+
+export interface LanguageCheckedSummary {
+    result: ValidatedSummaryCompletion;
+    languageCheck: SummaryLanguageCheck;
+}
+
+// Measure how much of a summary is written in the target language
+export function checkSummaryLanguage(
+    summary: Pick<SummaryPayload, 'shortSummary' | 'detailedSummary'>,
+    targetLanguage: string,
+    regenerated = false
+): SummaryLanguageCheck {
+    const report = measureLanguagePurity([summary.shortSummary, summary.detailedSummary], targetLanguage);
+    return {
+        purity: report.purity,
+        threshold: LANGUAGE_PURITY_THRESHOLD,
+        flagged: report.purity < LANGUAGE_PURITY_THRESHOLD,
+        regenerated,
+        offendingSentences: report.offendingSentences
+    };
+}
+
+/**
+ * Regenerate a validated summary once when too much of it is not in the target language.
+ * The purer of the two answers is kept; it stays flagged if it is still below the threshold.
+ */
+export async function enforceSummaryLanguage(
+    complete: (request: LlmCompletionRequest) => Promise<LlmCompletion>,
+    request: LlmCompletionRequest,
+    result: ValidatedSummaryCompletion,
+    targetLanguage: string,
+    targetLanguageName: string
+): Promise<LanguageCheckedSummary> {
+    const languageCheck = checkSummaryLanguage(result.payload, targetLanguage);
+    if (!languageCheck.flagged) {
+        return { result, languageCheck };
+    }
+
+    try {
+        const regenerated = await completeValidatedSummary(complete, {
+            ...request,
+            messages: [
+                ...request.messages,
+                { role: 'assistant', content: JSON.stringify(result.payload) },
+                {
+                    role: 'user',
+                    content: `Parts of your reply are not written in ${targetLanguageName}:\n- ${languageCheck.offendingSentences.join('\n- ')}\n\n` +
+                        `Rewrite the whole JSON object so that every sentence is in ${targetLanguageName}. Keep the same fields.`
+                }
+            ],
+            onDelta: undefined
+        });
+        const regeneratedCheck = checkSummaryLanguage(regenerated.payload, targetLanguage, true);
+        if (regeneratedCheck.purity > languageCheck.purity) {
+            return { result: regenerated, languageCheck: regeneratedCheck };
+        }
+    } catch (error) {
+        // Keep the first answer; it is returned flagged
+        console.warn('Language regeneration failed:', error);
+    }
+
+    return { result, languageCheck: { ...languageCheck, regenerated: true } };
+}
@@ -0,0 +1,113 @@
+import { SummaryPreset } from '../interfaces/summary-preset.interface';
+import {
+    buildPresetInstructions,
+    describeLength,
+    getBuiltInPreset,
+    getDefaultPreset,
+    toPresetRef,
+    validateSummaryPreset
+} from './summary-presets';
+
+function preset(fields: Partial<SummaryPreset> = {}): SummaryPreset {
+    return {
+        id: 'book-club',
+        name: 'Book club',
+        description: 'Discussion starters for reading groups.',
+        shortLength: { min: 100, max: 200 },
+        detailedLength: { min: 400, max: 900 },
+        structure: 'bullets',
+        tone: 'Friendly and curious.',
+        ...fields
+    };
+}
+
+describe('summary presets', () => {
+    describe('validateSummaryPreset', () => {
+        it('accepts the built-in presets and a valid custom preset', () => {
+            expect(validateSummaryPreset(preset())).toEqual([]);
+            expect(validateSummaryPreset(getDefaultPreset())).toEqual([]);
+        });
+
+        it('requires a name of at most 60 characters, a known structure and a tone of at most 500 characters', () => {
+            expect(validateSummaryPreset(preset({ name: '  ' }))).toEqual(['Name is required']);
+            expect(validateSummaryPreset(preset({ name: 'x'.repeat(61) }))).toEqual(['Name must be at most 60 characters']);
+            expect(validateSummaryPreset(preset({ structure: 'table' as SummaryPreset['structure'] })))
+                .toEqual(['Structure must be one of prose, bullets, outline']);
+            expect(validateSummaryPreset(preset({ tone: 'x'.repeat(501) }))).toEqual(['Tone must be at most 500 characters']);
+        });
+
+        it('keeps lengths within the preset bounds', () => {
+            expect(validateSummaryPreset(preset({ shortLength: { min: 30, max: 200 } })))
+                .toEqual(['Short summary length must be between 40 and 400 characters']);
+            expect(validateSummaryPreset(preset({ detailedLength: { min: 400, max: 1501 } })))
+                .toEqual(['Detailed summary length must be between 150 and 1500 characters']);
+            // The bounds themselves are allowed
+            expect(validateSummaryPreset(preset({ shortLength: { min: 40, max: 400 }, detailedLength: { min: 150, max: 1500 } })))
+                .toEqual([]);
+        });
+
+        it('rejects fractional, missing and inverted lengths', () => {
+            expect(validateSummaryPreset(preset({ shortLength: { min: 100.5, max: 200 } })))
+                .toEqual(['Short summary length must be whole numbers of characters']);
+            expect(validateSummaryPreset(preset({ detailedLength: undefined })))
+                .toEqual(['Detailed summary length must be whole numbers of characters']);
+            expect(validateSummaryPreset(preset({ shortLength: { min: 300, max: 200 } })))
+                .toEqual(['Short summary minimum length must not exceed its maximum']);
+        });
+    });
+
+    describe('getBuiltInPreset', () => {
+        it('falls back to the standard preset without an id', () => {
+            expect(getBuiltInPreset(undefined)?.id).toBe('standard');
+            expect(getBuiltInPreset('kids')?.name).toBe('Kid-friendly');
+            expect(getBuiltInPreset('book-club')).toBeUndefined();
+        });
+    });
+
+    describe('toPresetRef', () => {
+        it('copies the length ranges so later edits to the preset do not change it', () => {
+            const source = preset();
+            const ref = toPresetRef(source);
+            source.shortLength.max = 250;
+
+            expect(ref).toEqual({
+                id: 'book-club',
+                name: 'Book club',
+                shortLength: { min: 100, max: 200 },
+                detailedLength: { min: 400, max: 900 },
+                structure: 'bullets'
+            });
+        });
+    });
+
+    describe('buildPresetInstructions', () => {
+        it('states the lengths in the target language and the detailed summary layout', () => {
+            const instructions = buildPresetInstructions(preset(), 'Spanish').split('\n');
+
+            expect(instructions[0]).toBe('SUMMARY STYLE ("Book club"):');
+            expect(instructions[1]).toBe('- shortSummary: 100-200 characters in Spanish');
+            expect(instructions[2]).toBe(
+                '- detailedSummary: 400-900 characters in Spanish, written as a list of 3-6 bullet points, each on its own line starting with "- "'
+            );
+        });
+
+        it('quotes the tone as a style note', () => {
+            const instructions = buildPresetInstructions(preset({ tone: ' Say "hi" first. ' }), 'English');
+
+            expect(instructions).toContain(`- Tone: "Say 'hi' first."`);
+        });
+
+        it('leaves the tone line out when there is no tone', () => {
+            const instructions = buildPresetInstructions(preset({ tone: ' ', structure: 'prose' }), 'English').split('\n');
+
+            expect(instructions.length).toBe(4);
+            expect(instructions[2]).toContain('written as one or two paragraphs of running text');
+        });
+    });
+
+    describe('describeLength', () => {
+        it('describes a range in characters', () => {
+            expect(describeLength({ min: 250, max: 300 })).toBe('250-300 characters');
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import { SummaryLengthRange, SummaryPreset, SummaryPresetRef, SummaryStructure } from '../interfaces/summary-preset.interface';
+
+// Summary presets shared by OpenAIService, BookService and the Cloud Functions
+
+export const DEFAULT_SUMMARY_PRESET_ID = 'standard';
+
+export const SUMMARY_STRUCTURES: SummaryStructure[] = ['prose', 'bullets', 'outline'];
+
+export const SUMMARY_STRUCTURE_LABELS: Record<SummaryStructure, string> = {
+    prose: 'Paragraphs',
+    bullets: 'Bullet points',
+    outline: 'Outline'
+};
+
+// Range every preset must stay within. Kept inside SUMMARY_PAYLOAD_SCHEMA so a model that slightly
+// overshoots a preset is trimmed rather than rejected.
+export const PRESET_LENGTH_BOUNDS: { short: SummaryLengthRange; detailed: SummaryLengthRange } = {
+    short: { min: 40, max: 400 },
+    detailed: { min: 150, max: 1500 }
+};
+
+export const BUILT_IN_SUMMARY_PRESETS: SummaryPreset[] = [
+    {
+        id: 'standard',
+        name: 'Standard',
+        description: 'A short paragraph and a full summary in a neutral, academic register.',
+        shortLength: { min: 250, max: 300 },
+        detailedLength: { min: 800, max: 1000 },
+        structure: 'prose',
+        tone: 'Neutral and academic.',
+        builtIn: true
+    },
+    {
+        id: 'blurb',
+        name: 'One-line blurb',
+        description: 'Tweet-length teaser with a brief paragraph behind it.',
+        shortLength: { min: 80, max: 280 },
+        detailedLength: { min: 150, max: 400 },
+        structure: 'prose',
+        tone: 'Punchy and conversational. The short summary is a single sentence without hashtags or emoji.',
+        builtIn: true
+    },
+    {
+        id: 'executive',
+        name: 'Executive brief',
+        description: 'The main takeaway first, then a few bullet points for decision makers.',
+        shortLength: { min: 150, max: 250 },
+        detailedLength: { min: 500, max: 800 },
+        structure: 'bullets',
+        tone: 'Direct and businesslike. Lead with the main takeaway and say why it matters.',
+        builtIn: true
+    },
+    {
+        id: 'study-guide',
+        name: 'Study guide',
+        description: 'An outline of the main sections and concepts to review.',
+        shortLength: { min: 200, max: 300 },
+        detailedLength: { min: 900, max: 1500 },
+        structure: 'outline',
+        tone: 'Instructive. Name the key concepts a student should be able to explain.',
+        builtIn: true
+    },
+    {
+        id: 'kids',
+        name: 'Kid-friendly',
+        description: 'Simple words and short sentences for readers aged 8 to 12.',
+        shortLength: { min: 120, max: 250 },
+        detailedLength: { min: 400, max: 700 },
+        structure: 'prose',
+        tone: 'Warm and simple, for readers aged 8 to 12. Use short sentences and everyday words.',
+        builtIn: true
+    }
+];
+
+export function getBuiltInPreset(id: string | undefined): SummaryPreset | undefined {
+    return BUILT_IN_SUMMARY_PRESETS.find(preset => preset.id === (id || DEFAULT_SUMMARY_PRESET_ID));
+}
+
+export function getDefaultPreset(): SummaryPreset {
+    return getBuiltInPreset(DEFAULT_SUMMARY_PRESET_ID)!;
+}
+
+export function toPresetRef(preset: SummaryPreset): SummaryPresetRef {
+    return {
+        id: preset.id,
+        name: preset.name,
+        shortLength: { ...preset.shortLength },
+        detailedLength: { ...preset.detailedLength },
+        structure: preset.structure
+    };
+}
+
+function checkRange(label: string, range: SummaryLengthRange | undefined, bounds: SummaryLengthRange): string[] {
+    if (!range || !Number.isInteger(range.min) || !Number.isInteger(range.max)) {
+        return [`${label} length must be whole numbers of characters`];
+    }
+    const errors: string[] = [];
+    if (range.min < bounds.min || range.max > bounds.max) {
+        errors.push(`${label} length must be between ${bounds.min} and ${bounds.max} characters`);
+    }
+    if (range.min > range.max) {
+        errors.push(`${label} minimum length must not exceed its maximum`);
+    }
+    return errors;
+}
+
+/**
+ * Problems with a custom preset, empty when it can be used. The Cloud Function checks presets again
+ * before use, so a preset edited outside the app cannot break the prompt.
+ */
+export function validateSummaryPreset(preset: Partial<SummaryPreset>): string[] {
+    const errors: string[] = [];
+    if (!preset.name?.trim()) {
+        errors.push('Name is required');
+    } else if (preset.name.trim().length > 60) {
+        errors.push('Name must be at most 60 characters');
+    }
+    if (!preset.structure || !SUMMARY_STRUCTURES.includes(preset.structure)) {
+        errors.push(`Structure must be one of ${SUMMARY_STRUCTURES.join(', ')}`);
+    }
+    if ((preset.tone || '').length > 500) {
+        errors.push('Tone must be at most 500 characters');
+    }
+    errors.push(
+        ...checkRange('Short summary', preset.shortLength, PRESET_LENGTH_BOUNDS.short),
+        ...checkRange('Detailed summary', preset.detailedLength, PRESET_LENGTH_BOUNDS.detailed)
+    );
+    return errors;
+}
+
+function describeStructure(structure: SummaryStructure): string {
+    switch (structure) {
+        case 'bullets':
+            return 'a list of 3-6 bullet points, each on its own line starting with "- "';
+        case 'outline':
+            return 'an outline: 2-5 section headings on their own lines, each followed by lines starting with "- "';
+        default:
+            return 'one or two paragraphs of running text';
+    }
+}
+
+/**
+ * Prompt lines for the preset's lengths, layout and tone. The tone is written by admins, so it is
+ * quoted as a style note rather than trusted as an instruction.
+ */
+export function buildPresetInstructions(preset: SummaryPreset, targetLanguageName: string): string {
+    return [
+        `SUMMARY STYLE ("${preset.name}"):`,
+        `- shortSummary: ${preset.shortLength.min}-${preset.shortLength.max} characters in ${targetLanguageName}`,
+        `- detailedSummary: ${preset.detailedLength.min}-${preset.detailedLength.max} characters in ${targetLanguageName}, written as ${describeStructure(preset.structure)}`,
+        preset.tone.trim() ? `- Tone: "${preset.tone.trim().replace(/"/g, "'")}"` : '',
+        '- The style changes only the two summaries; every other field keeps its format'
+    ].filter(Boolean).join('\n');
+}
+
+// Length hint for the JSON example in the prompts, e.g. "250-300 characters"
+export function describeLength(range: SummaryLengthRange): string {
+    return `${range.min}-${range.max} characters`;
+}
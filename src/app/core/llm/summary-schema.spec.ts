@@ -0,0 +1,102 @@
+import { LlmCompletion, LlmCompletionRequest } from './llm-provider';
+import { SummaryPayload, SummaryValidationError, checkSummaryPayload, completeValidatedSummary } from './summary-schema';
+
+function payload(fields: Partial<SummaryPayload> = {}): SummaryPayload {
+    return {
+        shortSummary: 'A family saga across seven generations in the town of Macondo.',
+        detailedSummary: 'The novel follows the Buendía family from the founding of Macondo to its end. '.repeat(3),
+        confidenceScore: 82,
+        reasoningFactors: ['Well-known novel'],
+        sourcesUsed: ['book_description'],
+        keyPoints: ['The founding of Macondo', 'Repeating family names', 'The banana massacre'],
+        themes: ['Solitude', 'Memory'],
+        targetAudience: 'Adult readers of literary fiction',
+        readingLevel: 'general',
+        electoralRelevance: { level: 'none', assessment: 'A novel without electoral content.' },
+        ...fields
+    };
+}
+
+function completion(content: string): LlmCompletion {
+    return { content, provider: 'stub', model: 'stub' };
+}
+
+describe('checkSummaryPayload', () => {
+    it('accepts a payload matching the schema, also inside a code fence', () => {
+        const json = JSON.stringify(payload());
+
+        expect(checkSummaryPayload(json)).toEqual({ payload: payload(), errors: [] });
+        expect(checkSummaryPayload('```json\n' + json + '\n```').payload).toEqual(payload());
+    });
+
+    it('rejects empty and malformed responses', () => {
+        expect(checkSummaryPayload('  ').errors).toEqual(['Response was empty']);
+        expect(checkSummaryPayload('{"shortSummary": ').errors[0]).toMatch(/^Response is not valid JSON/);
+    });
+
+    it('lists every schema error with its path', () => {
+        const { electoralRelevance, ...withoutRelevance } = payload({
+            confidenceScore: 120,
+            keyPoints: ['Too few'],
+            readingLevel: 'expert' as SummaryPayload['readingLevel']
+        });
+        const check = checkSummaryPayload(JSON.stringify(withoutRelevance));
+
+        expect(check.payload).toBeNull();
+        expect(check.errors).toEqual([
+            '$.electoralRelevance is required',
+            '$.confidenceScore must be <= 100',
+            '$.keyPoints must have at least 3 items',
+            '$.keyPoints[0] must be at least 10 characters',
+            '$.readingLevel must be one of introductory, general, advanced, specialist'
+        ]);
+    });
+
+    it('reports wrong types instead of checking their contents', () => {
+        expect(checkSummaryPayload(JSON.stringify(payload({ themes: 'Solitude' as unknown as string[] }))).errors)
+            .toEqual(['$.themes must be an array, got string']);
+    });
+});
+
+describe('completeValidatedSummary', () => {
+    const request: LlmCompletionRequest = { messages: [{ role: 'user', content: 'Summarize' }], onDelta: () => { } };
+
+    it('returns a valid first answer without re-prompting', async () => {
+        const complete = jasmine.createSpy('complete').and.resolveTo(completion(JSON.stringify(payload())));
+
+        const result = await completeValidatedSummary(complete, request);
+        expect(result.validation).toEqual({ status: 'valid', attempts: 1, errors: [] });
+        expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-prompts once with the errors and the schema, without streaming the repair', async () => {
+        const complete = jasmine.createSpy('complete').and.returnValues(
+            Promise.resolve(completion('{"shortSummary": "Too short"}')),
+            Promise.resolve(completion(JSON.stringify(payload())))
+        );
+
+        const result = await completeValidatedSummary(complete, request);
+        const repair: LlmCompletionRequest = complete.calls.argsFor(1)[0];
+
+        expect(result.validation.status).toBe('repaired');
+        expect(result.validation.attempts).toBe(2);
+        expect(result.validation.errors).toContain('$.shortSummary must be at least 40 characters');
+        expect(repair.onDelta).toBeUndefined();
+        expect(repair.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+        expect(repair.messages[1].content).toBe('{"shortSummary": "Too short"}');
+        expect(repair.messages[2].content).toContain('- $.shortSummary must be at least 40 characters');
+        expect(repair.messages[2].content).toContain('"required":["shortSummary"');
+    });
+
+    it('fails with the errors of the repaired answer when it is still invalid', async () => {
+        const complete = jasmine.createSpy('complete').and.returnValues(
+            Promise.resolve(completion('not json')),
+            Promise.resolve(completion(JSON.stringify(payload({ confidenceScore: -1 }))))
+        );
+
+        await expectAsync(completeValidatedSummary(complete, request)).toBeRejectedWithError(
+            SummaryValidationError,
+            'LLM response failed schema validation: $.confidenceScore must be >= 0'
+        );
+    });
+});
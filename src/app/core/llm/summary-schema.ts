@@ -0,0 +1,219 @@
+import {
+    ElectoralRelevanceLevel,
+    ReadingLevel,
+    StructuredSummary,
+    SummaryValidation
+} from '../interfaces/ai-summary.interface';
+import { LlmCompletion, LlmCompletionRequest, LlmMessage } from './llm-provider';
+
+// The JSON object every summary prompt asks the model for
+export interface SummaryPayload {
+    shortSummary: string;
+    detailedSummary: string;
+    confidenceScore: number;
+    reasoningFactors: string[];
+    sourcesUsed: string[];
+    keyPoints: string[];
+    themes: string[];
+    targetAudience: string;
+    readingLevel: ReadingLevel;
+    electoralRelevance: {
+        level: ElectoralRelevanceLevel;
+        assessment: string;
+    };
+}
+
+export const READING_LEVELS: ReadingLevel[] = ['introductory', 'general', 'advanced', 'specialist'];
+
+export const ELECTORAL_RELEVANCE_LEVELS: ElectoralRelevanceLevel[] = ['none', 'low', 'medium', 'high'];
+
+// Subset of JSON Schema understood by validateAgainstSchema below
+interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number';
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    enum?: string[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+}
+
+// Lengths are deliberately looser than the prompt asks for: summaries are trimmed to the preset's maximum
+// lengths afterwards, so only clearly truncated or runaway answers are rejected. See PRESET_LENGTH_BOUNDS.
+export const SUMMARY_PAYLOAD_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: [
+        'shortSummary', 'detailedSummary', 'confidenceScore', 'reasoningFactors', 'sourcesUsed',
+        'keyPoints', 'themes', 'targetAudience', 'readingLevel', 'electoralRelevance'
+    ],
+    properties: {
+        shortSummary: { type: 'string', minLength: 40, maxLength: 600 },
+        detailedSummary: { type: 'string', minLength: 150, maxLength: 2000 },
+        confidenceScore: { type: 'number', minimum: 0, maximum: 100 },
+        reasoningFactors: { type: 'array', items: { type: 'string', minLength: 1 } },
+        sourcesUsed: { type: 'array', items: { type: 'string', minLength: 1 } },
+        keyPoints: { type: 'array', minItems: 3, maxItems: 7, items: { type: 'string', minLength: 10, maxLength: 300 } },
+        themes: { type: 'array', minItems: 1, maxItems: 6, items: { type: 'string', minLength: 2, maxLength: 80 } },
+        targetAudience: { type: 'string', minLength: 10, maxLength: 300 },
+        readingLevel: { type: 'string', enum: READING_LEVELS },
+        electoralRelevance: {
+            type: 'object',
+            required: ['level', 'assessment'],
+            properties: {
+                level: { type: 'string', enum: ELECTORAL_RELEVANCE_LEVELS },
+                assessment: { type: 'string', minLength: 10, maxLength: 600 }
+            }
+        }
+    }
+};
+
+export interface SummaryPayloadCheck {
+    payload: SummaryPayload | null;
+    errors: string[];
+}
+
+export interface ValidatedSummaryCompletion {
+    payload: SummaryPayload;
+    completion: LlmCompletion;
+    validation: SummaryValidation;
+}
+
+// Thrown when the model still does not match the schema after the repair re-prompt
+export class SummaryValidationError extends Error {
+    constructor(public validation: SummaryValidation) {
+        super(`LLM response failed schema validation: ${validation.errors.join('; ')}`);
+        this.name = 'SummaryValidationError';
+    }
+}
+
+function validateAgainstSchema(value: any, schema: JsonSchema, path: string): string[] {
+    const errors: string[] = [];
+    const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+    if (schema.type === 'number' ? actualType !== 'number' || isNaN(value) : actualType !== schema.type) {
+        return [`${path} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${actualType}`];
+    }
+
+    if (schema.type === 'string') {
+        if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+            errors.push(`${path} must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path} must be at most ${schema.maxLength} characters`);
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+            errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+        }
+    } else if (schema.type === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} must be <= ${schema.maximum}`);
+        }
+    } else if (schema.type === 'array') {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path} must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path} must have at most ${schema.maxItems} items`);
+        }
+        value.forEach((item: any, index: number) => {
+            if (schema.items) {
+                errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+            }
+        });
+    } else if (schema.type === 'object') {
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) {
+                errors.push(`${path}.${key} is required`);
+            }
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (value[key] !== undefined) {
+                errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+            }
+        }
+    }
+
+    return errors;
+}
+
+// Parse a raw completion and check it against SUMMARY_PAYLOAD_SCHEMA
+export function checkSummaryPayload(raw: string): SummaryPayloadCheck {
+    // Models without a JSON mode often wrap the object in a markdown code fence
+    const text = (raw || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    if (!text) {
+        return { payload: null, errors: ['Response was empty'] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error: any) {
+        return { payload: null, errors: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    const errors = validateAgainstSchema(parsed, SUMMARY_PAYLOAD_SCHEMA, '$');
+    return { payload: errors.length === 0 ? parsed as SummaryPayload : null, errors };
+}
+
+// The structured part of a validated payload, as stored on AIBookSummary.structured
+export function toStructuredSummary(payload: SummaryPayload): StructuredSummary {
+    return {
+        keyPoints: payload.keyPoints.map(point => point.trim()),
+        themes: payload.themes.map(theme => theme.trim()),
+        targetAudience: payload.targetAudience.trim(),
+        readingLevel: payload.readingLevel,
+        electoralRelevance: {
+            level: payload.electoralRelevance.level,
+            assessment: payload.electoralRelevance.assessment.trim()
+        }
+    };
+}
+
+// Follow-up turn asking the model to fix its previous answer
+export function buildSummaryRepairMessages(messages: LlmMessage[], badResponse: string, errors: string[]): LlmMessage[] {
+    return [
+        ...messages,
+        { role: 'assistant', content: badResponse },
+        {
+            role: 'user',
+            content: `Your previous reply did not match the required format:\n- ${errors.join('\n- ')}\n\n` +
+                `Reply again with only a JSON object, in the same language as before, matching this JSON schema:\n` +
+                JSON.stringify(SUMMARY_PAYLOAD_SCHEMA)
+        }
+    ];
+}
+
+/**
+ * Request a summary and validate it, re-prompting once with the schema errors if it does not match.
+ * `complete` is the provider call (optionally wrapped with retries). The repair call is never streamed,
+ * so streamed text from a rejected first answer is superseded by the final result.
+ */
+export async function completeValidatedSummary(
+    complete: (request: LlmCompletionRequest) => Promise<LlmCompletion>,
+    request: LlmCompletionRequest
+): Promise<ValidatedSummaryCompletion> {
+    const completion = await complete(request);
+    const check = checkSummaryPayload(completion.content);
+    if (check.payload) {
+        return { payload: check.payload, completion, validation: { status: 'valid', attempts: 1, errors: [] } };
+    }
+
+    const repaired = await complete({
+        ...request,
+        messages: buildSummaryRepairMessages(request.messages, completion.content, check.errors),
+        onDelta: undefined
+    });
+    const repairCheck = checkSummaryPayload(repaired.content);
+    if (repairCheck.payload) {
+        return { payload: repairCheck.payload, completion: repaired, validation: { status: 'repaired', attempts: 2, errors: check.errors } };
+    }
+
+    throw new SummaryValidationError({ status: 'invalid', attempts: 2, errors: repairCheck.errors });
+}
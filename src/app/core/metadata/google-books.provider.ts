@@ -0,0 +1,43 @@
+import { BookMetadata, BookMetadataProvider } from '../interfaces';
+import { MetadataHttpClient } from './metadata-lookup';
+
+export class GoogleBooksMetadataProvider implements BookMetadataProvider {
+    readonly id = 'google_books';
+    readonly name = 'Google Books API';
+    private readonly GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1/volumes';
+
+    constructor(private client: MetadataHttpClient) { }
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    async lookup(isbn: string): Promise<Partial<BookMetadata> | null> {
+        const response = await this.client.getJson(`${this.GOOGLE_BOOKS_API}?q=isbn:${isbn}`);
+
+        if (!response?.items || response.items.length === 0) {
+            return null;
+        }
+
+        const volumeInfo = response.items[0].volumeInfo || {};
+
+        return {
+            title: volumeInfo.title,
+            authors: volumeInfo.authors,
+            publisher: volumeInfo.publisher,
+            publishedDate: volumeInfo.publishedDate,
+            description: volumeInfo.description,
+            pageCount: volumeInfo.pageCount,
+            categories: volumeInfo.categories,
+            averageRating: volumeInfo.averageRating,
+            ratingsCount: volumeInfo.ratingsCount,
+            imageLinks: {
+                thumbnail: volumeInfo.imageLinks?.thumbnail || '',
+                small: volumeInfo.imageLinks?.small || '',
+                medium: volumeInfo.imageLinks?.medium || '',
+                large: volumeInfo.imageLinks?.large || ''
+            },
+            language: volumeInfo.language
+        };
+    }
+}
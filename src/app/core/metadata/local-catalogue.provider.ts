@@ -0,0 +1,35 @@
+import { BookMetadata, BookMetadataProvider } from '../interfaces';
+import { CatalogueRecords, parseCatalogue } from '../utils/catalogue-parsers';
+import { normalizeISBNKey } from '../utils/isbn';
+import { MetadataHttpClient } from './metadata-lookup';
+
+// Catalogue file at `url`, loaded once. XML catalogues need DOMParser, so only JSON ones load in the Cloud Functions.
+export class LocalCatalogueMetadataProvider implements BookMetadataProvider {
+    readonly id = 'local_catalogue';
+    readonly name = 'Local Catalogue';
+    private catalogue: Promise<CatalogueRecords> | null = null;
+
+    constructor(private client: MetadataHttpClient, private url: string) { }
+
+    isEnabled(): boolean {
+        return !!this.url;
+    }
+
+    async lookup(isbn: string): Promise<Partial<BookMetadata> | null> {
+        const catalogue = await this.loadCatalogue();
+        return catalogue.get(normalizeISBNKey(isbn)) || null;
+    }
+
+    private loadCatalogue(): Promise<CatalogueRecords> {
+        if (!this.catalogue) {
+            this.catalogue = this.client.getText(this.url)
+                .then(content => parseCatalogue(content || ''))
+                .catch(error => {
+                    console.error('Failed to load local catalogue:', error);
+                    this.catalogue = null;
+                    return new Map();
+                });
+        }
+        return this.catalogue;
+    }
+}
@@ -0,0 +1,109 @@
+import { BookMetadata, BookMetadataField, BookMetadataFieldSources, BookMetadataProvider, MetadataProviderResult } from '../interfaces';
+import { measureMetadataAgreement } from '../confidence/confidence-signals';
+
+// Provider lookup and merging shared by MetadataProviderRegistryService and the batch worker
+
+const MERGED_FIELDS: BookMetadataField[] = [
+    'title', 'authors', 'publisher', 'publishedDate', 'description', 'pageCount',
+    'categories', 'averageRating', 'ratingsCount', 'imageLinks', 'language'
+];
+
+// GET a URL and return its body; the app passes HttpClient, the Cloud Functions pass fetch
+export interface MetadataHttpClient {
+    getJson(url: string): Promise<any>;
+    getText(url: string): Promise<string>;
+}
+
+/**
+ * Enabled providers in priority order: the configured order first, any other provider after
+ */
+export function rankProviders(providers: BookMetadataProvider[], order: string[]): BookMetadataProvider[] {
+    const rank = (provider: BookMetadataProvider) => {
+        const index = order.indexOf(provider.id);
+        return index === -1 ? order.length : index;
+    };
+
+    return providers
+        .filter(provider => provider.isEnabled())
+        .sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Ask every provider at once and merge what they found, or null when none knows the ISBN.
+ * A failing provider counts as having no data.
+ */
+export async function lookupMetadata(isbn: string, providers: BookMetadataProvider[]): Promise<BookMetadata | null> {
+    const settled = await Promise.all(providers.map(async provider => {
+        try {
+            const data = await provider.lookup(isbn);
+            return data ? { providerId: provider.id, providerName: provider.name, data } : null;
+        } catch (error) {
+            console.warn(`Metadata provider ${provider.id} failed for ISBN ${isbn}:`, error);
+            return null;
+        }
+    }));
+
+    const results = settled.filter((result): result is MetadataProviderResult => result !== null);
+    return results.length > 0 ? mergeMetadataResults(isbn, results) : null;
+}
+
+function hasValue(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (typeof value === 'number') return value > 0;
+    return value !== undefined && value !== null;
+}
+
+// Generic over the field so the value keeps that field's type
+function copyField<K extends keyof BookMetadata>(target: Partial<BookMetadata>, source: Partial<BookMetadata>, field: K): void {
+    target[field] = source[field];
+}
+
+/**
+ * Each field is taken from the highest-priority provider that has a usable value for it
+ */
+export function mergeMetadataResults(isbn: string, results: MetadataProviderResult[]): BookMetadata {
+    const merged: Partial<BookMetadata> = {};
+    const fieldSources: BookMetadataFieldSources = {};
+
+    MERGED_FIELDS.forEach(field => {
+        if (field === 'imageLinks') {
+            return;
+        }
+
+        const result = results.find(candidate => hasValue(candidate.data[field]));
+        if (result) {
+            copyField(merged, result.data, field);
+            fieldSources[field] = result.providerName;
+        }
+    });
+
+    const imageLinks = { thumbnail: '', small: '', medium: '', large: '' };
+    (Object.keys(imageLinks) as (keyof BookMetadata['imageLinks'])[]).forEach(size => {
+        const result = results.find(candidate => !!candidate.data.imageLinks?.[size]);
+        if (result) {
+            imageLinks[size] = result.data.imageLinks![size];
+            fieldSources.imageLinks = fieldSources.imageLinks || result.providerName;
+        }
+    });
+
+    const metadataAgreement = measureMetadataAgreement(results.map(result => result.data as Record<string, unknown>));
+
+    return {
+        isbn: isbn,
+        title: merged.title || 'Unknown Title',
+        authors: merged.authors || ['Unknown Author'],
+        publisher: merged.publisher || 'Unknown Publisher',
+        publishedDate: merged.publishedDate || 'Unknown Date',
+        description: merged.description || 'No description available.',
+        pageCount: merged.pageCount || 0,
+        categories: merged.categories || ['Uncategorized'],
+        averageRating: merged.averageRating || 0,
+        ratingsCount: merged.ratingsCount || 0,
+        imageLinks,
+        language: merged.language || 'en',
+        fieldSources,
+        // Omitted rather than undefined: Firestore rejects undefined fields
+        ...(metadataAgreement !== null ? { metadataAgreement } : {})
+    };
+}
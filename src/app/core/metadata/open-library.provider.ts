@@ -0,0 +1,61 @@
+import { BookMetadata, BookMetadataProvider } from '../interfaces';
+import { toIso6391 } from '../utils/catalogue-parsers';
+import { MetadataHttpClient } from './metadata-lookup';
+
+export class OpenLibraryMetadataProvider implements BookMetadataProvider {
+    readonly id = 'open_library';
+    readonly name = 'Open Library';
+    private readonly OPEN_LIBRARY_API = 'https://openlibrary.org';
+
+    constructor(private client: MetadataHttpClient) { }
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    async lookup(isbn: string): Promise<Partial<BookMetadata> | null> {
+        const response = await this.client.getJson(
+            `${this.OPEN_LIBRARY_API}/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`
+        );
+
+        const book = response?.[`ISBN:${isbn}`];
+        if (!book) {
+            return null;
+        }
+
+        const edition = book.key ? await this.fetchJson(`${book.key}.json`) : null;
+        const work = edition?.works?.[0]?.key ? await this.fetchJson(`${edition.works[0].key}.json`) : null;
+
+        return {
+            title: [book.title, book.subtitle].filter(Boolean).join(': '),
+            authors: book.authors?.map((author: any) => author.name),
+            publisher: book.publishers?.[0]?.name,
+            publishedDate: book.publish_date,
+            description: this.readDescription(edition?.description) || this.readDescription(work?.description),
+            pageCount: book.number_of_pages,
+            categories: book.subjects?.slice(0, 5).map((subject: any) => subject.name),
+            imageLinks: {
+                thumbnail: book.cover?.small || '',
+                small: book.cover?.small || '',
+                medium: book.cover?.medium || '',
+                large: book.cover?.large || ''
+            },
+            language: toIso6391(edition?.languages?.[0]?.key?.split('/').pop())
+        };
+    }
+
+    private async fetchJson(path: string): Promise<any> {
+        try {
+            return await this.client.getJson(`${this.OPEN_LIBRARY_API}${path}`);
+        } catch (error) {
+            console.warn(`Open Library request failed for ${path}:`, error);
+            return null;
+        }
+    }
+
+    // Open Library stores descriptions either as a string or as { type, value }
+    private readDescription(description: any): string | undefined {
+        if (!description) return undefined;
+        return typeof description === 'string' ? description : description.value;
+    }
+}
@@ -0,0 +1,25 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { SummaryAnnotation } from '../interfaces/annotation.interface';
+import { LibrarySearchBackend, LibrarySearchPage, LibrarySearchQuery } from '../interfaces/library-search.interface';
+import { LibrarySearchIndex } from './library-search-index';
+
+// Default backend: one in-memory index per scope, built from the items the library page loaded
+export class InProcessSearchBackend implements LibrarySearchBackend {
+    readonly id = 'in-process';
+
+    private indexes = new Map<string, LibrarySearchIndex>();
+
+    async index(scope: string, items: UserLibraryItem[], annotations = new Map<string, SummaryAnnotation[]>()): Promise<void> {
+        const index = this.indexes.get(scope) || new LibrarySearchIndex();
+        index.replaceAll(items, annotations);
+        this.indexes.set(scope, index);
+    }
+
+    async search(scope: string, query: LibrarySearchQuery): Promise<LibrarySearchPage> {
+        const index = this.indexes.get(scope);
+        if (!index) {
+            throw new Error(`Library scope "${scope}" has not been indexed`);
+        }
+        return index.search(query);
+    }
+}
@@ -0,0 +1,190 @@
+import { SummaryAnnotation } from '../interfaces/annotation.interface';
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { LibrarySearchIndex, confidenceBand } from './library-search-index';
+
+interface ItemFields {
+    title: string;
+    authors?: string[];
+    categories?: string[];
+    publisher?: string;
+    publishedDate?: string;
+    tags?: string[];
+    score?: number;
+    createdAt?: string;
+    summary?: string;
+    languages?: string[];
+}
+
+function item(id: string, fields: ItemFields): UserLibraryItem {
+    const languages = fields.languages || ['en'];
+    return {
+        id,
+        userId: 'user-1',
+        bookData: {
+            isbn: '',
+            title: fields.title,
+            authors: fields.authors || [],
+            categories: fields.categories || [],
+            publisher: fields.publisher || '',
+            publishedDate: fields.publishedDate || ''
+        },
+        summaries: Object.fromEntries(languages.map(language => [language, {
+            short: fields.summary || '',
+            detailed: '',
+            language,
+            generatedAt: new Date()
+        }])),
+        primaryLanguage: languages[0],
+        confidenceMetrics: { overallScore: fields.score ?? 70 },
+        createdAt: new Date(fields.createdAt || '2024-01-01'),
+        ...(fields.tags ? { tags: fields.tags } : {})
+    } as unknown as UserLibraryItem;
+}
+
+function ids(items: UserLibraryItem[]): string[] {
+    return items.map(current => current.id!);
+}
+
+describe('confidenceBand', () => {
+    it('uses the library confidence label thresholds', () => {
+        expect([95, 80, 79, 60, 40, 39].map(confidenceBand)).toEqual(['high', 'high', 'medium', 'medium', 'low', 'very_low']);
+    });
+});
+
+describe('LibrarySearchIndex', () => {
+    let index: LibrarySearchIndex;
+
+    beforeEach(() => {
+        index = new LibrarySearchIndex();
+        index.replaceAll([
+            item('solitude', {
+                title: 'Cien años de soledad',
+                authors: ['Gabriel García Márquez'],
+                categories: ['Fiction'],
+                publisher: 'Sudamericana',
+                publishedDate: '1967-05-30',
+                tags: ['classics'],
+                score: 85,
+                createdAt: '2024-01-03',
+                languages: ['es', 'en']
+            }),
+            item('cholera', {
+                title: 'Love in the Time of Cholera',
+                authors: ['Gabriel García Márquez'],
+                categories: ['Fiction'],
+                publishedDate: '1985',
+                score: 65,
+                createdAt: '2024-01-02'
+            }),
+            item('cosmos', {
+                title: 'Cosmos',
+                authors: ['Carl Sagan'],
+                categories: ['Science'],
+                summary: 'A journey through the universe and the history of astronomy.',
+                score: 30,
+                createdAt: '2024-01-01'
+            })
+        ]);
+    });
+
+    it('matches folded words in any field', () => {
+        // Equal scores fall back to id order
+        expect(ids(index.search({ text: 'garcia marquez ' }).items)).toEqual(['cholera', 'solitude']);
+        expect(ids(index.search({ text: 'SOLEDAD ' }).items)).toEqual(['solitude']);
+        expect(ids(index.search({ text: 'astronomy ' }).items)).toEqual(['cosmos']);
+    });
+
+    it('ranks title matches above summary matches', () => {
+        index.add(item('sagan', { title: 'Carl Sagan: A Life', summary: 'The making of Cosmos and its reception.' }));
+
+        expect(ids(index.search({ text: 'cosmos ' }).items)).toEqual(['cosmos', 'sagan']);
+    });
+
+    it('requires every term to match', () => {
+        expect(index.search({ text: 'gabriel cosmos ' }).total).toBe(0);
+    });
+
+    it('matches the word being typed as a prefix', () => {
+        expect(ids(index.search({ text: 'chol' }).items)).toEqual(['cholera']);
+        expect(ids(index.search({ text: 'márquez gab' }).items)).toEqual(['cholera', 'solitude']);
+    });
+
+    it('lists everything newest first without a query', () => {
+        expect(ids(index.search({}).items)).toEqual(['solitude', 'cholera', 'cosmos']);
+        expect(ids(index.search({ sort: 'relevance' }).items)).toEqual(['solitude', 'cholera', 'cosmos']);
+    });
+
+    it('sorts by title ignoring accents, and by confidence', () => {
+        expect(ids(index.search({ sort: 'title' }).items)).toEqual(['solitude', 'cosmos', 'cholera']);
+        expect(ids(index.search({ sort: 'confidence' }).items)).toEqual(['solitude', 'cholera', 'cosmos']);
+    });
+
+    it('pages through the results with a cursor', () => {
+        const first = index.search({ sort: 'oldest', limit: 2 });
+        const second = index.search({ sort: 'oldest', limit: 2, cursor: first.nextCursor });
+
+        expect(ids(first.items)).toEqual(['cosmos', 'cholera']);
+        expect(first.total).toBe(3);
+        expect(ids(second.items)).toEqual(['solitude']);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    it('keeps the cursor position when the item it points at is removed', () => {
+        const first = index.search({ sort: 'oldest', limit: 1 });
+        index.remove('cosmos');
+
+        expect(ids(index.search({ sort: 'oldest', limit: 1, cursor: first.nextCursor }).items)).toEqual(['cholera']);
+    });
+
+    it('breaks ties by id so pages neither repeat nor skip items', () => {
+        index.replaceAll(['b', 'a', 'c'].map(id => item(id, { title: 'Same', createdAt: '2024-02-01' })));
+        const first = index.search({ limit: 2 });
+        const second = index.search({ limit: 2, cursor: first.nextCursor });
+
+        expect(ids(first.items)).toEqual(['a', 'b']);
+        expect(ids(second.items)).toEqual(['c']);
+    });
+
+    it('counts each facet with the other filters applied', () => {
+        const page = index.search({ filters: { category: 'Fiction', confidenceBand: 'high' } });
+
+        expect(ids(page.items)).toEqual(['solitude']);
+        expect(page.facets.category).toEqual([{ value: 'Fiction', count: 1 }]);
+        // A facet ignores its own selection, so the other values stay visible for switching
+        expect(page.facets.confidenceBand).toEqual([{ value: 'high', count: 1 }, { value: 'medium', count: 1 }]);
+        expect(page.facets.language).toEqual([{ value: 'en', count: 1 }, { value: 'es', count: 1 }]);
+        expect(page.facets.year).toEqual([{ value: '1967', count: 1 }]);
+        expect(page.facets.publisher).toEqual([{ value: 'Sudamericana', count: 1 }]);
+        expect(page.facets.tag).toEqual([{ value: 'classics', count: 1 }]);
+    });
+
+    it('counts facets over the text matches only', () => {
+        const page = index.search({ text: 'gabriel ' });
+
+        expect(page.facets.category).toEqual([{ value: 'Fiction', count: 2 }]);
+    });
+
+    it('indexes the user\'s annotations', () => {
+        const note = {
+            itemId: 'cosmos',
+            kind: 'verify',
+            anchor: { start: 0, end: 9, quote: 'A journey', prefix: '', suffix: ' through' },
+            note: 'Check the Voyager dates'
+        } as SummaryAnnotation;
+        index.add(item('cosmos', { title: 'Cosmos', authors: ['Carl Sagan'] }), [note]);
+
+        const page = index.search({ text: 'voyager ' });
+        expect(ids(page.items)).toEqual(['cosmos']);
+        expect(page.facets.annotation).toEqual([{ value: 'verify', count: 1 }]);
+    });
+
+    it('forgets removed and replaced items', () => {
+        index.remove('cosmos');
+        index.add(item('cholera', { title: 'El amor en los tiempos del cólera' }));
+
+        expect(index.size).toBe(2);
+        expect(index.search({ text: 'cosmos ' }).total).toBe(0);
+        expect(index.search({ text: 'love ' }).total).toBe(0);
+        expect(ids(index.search({ text: 'colera ' }).items)).toEqual(['cholera']);
+    });
+});
@@ -0,0 +1,253 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { SummaryAnnotation } from '../interfaces/annotation.interface';
+import {
+    ConfidenceBand,
+    LibraryFacetCount,
+    LibrarySearchFacet,
+    LibrarySearchPage,
+    LibrarySearchQuery,
+    LibrarySortOrder
+} from '../interfaces/library-search.interface';
+import { normalizeSummaries } from '../utils/summary-variants';
+import { foldAccents, parseQuery, tokenize } from './search-tokenizer';
+
+// In-memory inverted index over library items: token -> item id -> weight
+
+const FIELD_WEIGHTS = {
+    isbn: 4,
+    title: 3,
+    authors: 2,
+    tags: 2,
+    categories: 1.5,
+    publisher: 1,
+    annotations: 1,
+    summary: 0.5
+};
+
+// A prefix match scores less than the whole word
+const PREFIX_FACTOR = 0.5;
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_FACET_VALUES = 20;
+
+export const FACETS: LibrarySearchFacet[] = ['language', 'category', 'tag', 'annotation', 'confidenceBand', 'publisher', 'year'];
+
+// Same thresholds as the library's confidence labels
+export function confidenceBand(score: number): ConfidenceBand {
+    if (score >= 80) return 'high';
+    if (score >= 60) return 'medium';
+    if (score >= 40) return 'low';
+    return 'very_low';
+}
+
+interface IndexedItem {
+    item: UserLibraryItem;
+    facets: Record<LibrarySearchFacet, string[]>;
+    tokens: string[]; // Kept so the item can be removed from the postings
+}
+
+type SortValue = number | string;
+
+function facetValues(item: UserLibraryItem, annotations: SummaryAnnotation[]): Record<LibrarySearchFacet, string[]> {
+    const book = item.bookData;
+    const year = (book.publishedDate || '').match(/\d{4}/)?.[0];
+    return {
+        language: Object.keys(normalizeSummaries(item).summaries),
+        category: Array.from(new Set((book.categories || []).map(category => category.trim()).filter(Boolean))),
+        tag: item.tags || [],
+        annotation: Array.from(new Set(annotations.map(annotation => annotation.kind))),
+        confidenceBand: [confidenceBand(item.confidenceMetrics?.overallScore ?? 0)],
+        publisher: book.publisher?.trim() ? [book.publisher.trim()] : [],
+        year: year ? [year] : []
+    };
+}
+
+function fieldTexts(item: UserLibraryItem, annotations: SummaryAnnotation[]): [keyof typeof FIELD_WEIGHTS, string][] {
+    const book = item.bookData;
+    const summaries = Object.values(normalizeSummaries(item).summaries);
+    return [
+        ['isbn', (book.isbn || '').replace(/[-\s]/g, '')],
+        ['title', book.title],
+        ['authors', (book.authors || []).join(' ')],
+        ['tags', (item.tags || []).join(' ')],
+        ['categories', (book.categories || []).join(' ')],
+        ['publisher', book.publisher],
+        ['annotations', annotations.map(annotation => `${annotation.anchor.quote} ${annotation.note || ''}`).join(' ')],
+        ['summary', summaries.map(variant => `${variant.short} ${variant.detailed}`).join(' ')]
+    ];
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+export class LibrarySearchIndex {
+    private items = new Map<string, IndexedItem>();
+    private postings = new Map<string, Map<string, number>>();
+    private vocabulary: string[] | null = null; // Sorted tokens for prefix lookups; rebuilt after changes
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    replaceAll(items: UserLibraryItem[], annotations = new Map<string, SummaryAnnotation[]>()): void {
+        this.items.clear();
+        this.postings.clear();
+        this.vocabulary = null;
+        items.forEach(item => this.add(item, annotations.get(item.id || '')));
+    }
+
+    add(item: UserLibraryItem, annotations: SummaryAnnotation[] = []): void {
+        if (!item.id) return;
+        this.remove(item.id);
+
+        const weights = new Map<string, number>();
+        for (const [field, text] of fieldTexts(item, annotations)) {
+            for (const token of tokenize(text || '')) {
+                weights.set(token, (weights.get(token) || 0) + FIELD_WEIGHTS[field]);
+            }
+        }
+
+        weights.forEach((weight, token) => {
+            let posting = this.postings.get(token);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(token, posting);
+                this.vocabulary = null;
+            }
+            posting.set(item.id!, weight);
+        });
+        this.items.set(item.id, { item, facets: facetValues(item, annotations), tokens: Array.from(weights.keys()) });
+    }
+
+    remove(itemId: string): void {
+        const indexed = this.items.get(itemId);
+        if (!indexed) return;
+
+        indexed.tokens.forEach(token => {
+            const posting = this.postings.get(token);
+            posting?.delete(itemId);
+            if (posting && posting.size === 0) {
+                this.postings.delete(token);
+                this.vocabulary = null;
+            }
+        });
+        this.items.delete(itemId);
+    }
+
+    search(query: LibrarySearchQuery): LibrarySearchPage {
+        const scores = this.matchText(query.text || '');
+        const filters = query.filters || {};
+        const candidates = scores ? Array.from(scores.keys()) : Array.from(this.items.keys());
+
+        const matchesFilters = (id: string, except?: LibrarySearchFacet) => FACETS.every(facet =>
+            facet === except || !filters[facet] || this.items.get(id)!.facets[facet].includes(filters[facet]!)
+        );
+
+        const matches = candidates.filter(id => matchesFilters(id));
+        const facets = Object.fromEntries(FACETS.map(facet => [
+            facet,
+            this.countFacet(facet, candidates.filter(id => matchesFilters(id, facet)))
+        ])) as Record<LibrarySearchFacet, LibraryFacetCount[]>;
+
+        // Ties are broken by id so the order, and with it the cursor, is stable
+        const sort: LibrarySortOrder = query.sort === 'relevance' && !scores ? 'newest' : query.sort || (scores ? 'relevance' : 'newest');
+        const sortValue = (id: string) => this.sortValue(id, sort, scores);
+        const ordered = matches
+            .map(id => ({ id, value: sortValue(id) }))
+            .sort((a, b) => compareValues(a.value, b.value) || a.id.localeCompare(b.id));
+
+        let start = 0;
+        if (query.cursor) {
+            const [value, id] = JSON.parse(query.cursor) as [SortValue, string];
+            const after = ordered.findIndex(entry => (compareValues(entry.value, value) || entry.id.localeCompare(id)) > 0);
+            start = after === -1 ? ordered.length : after;
+        }
+
+        const limit = query.limit || DEFAULT_PAGE_SIZE;
+        const page = ordered.slice(start, start + limit);
+        const last = page[page.length - 1];
+
+        return {
+            items: page.map(entry => this.items.get(entry.id)!.item),
+            total: ordered.length,
+            facets,
+            nextCursor: last && start + limit < ordered.length ? JSON.stringify([last.value, last.id]) : null
+        };
+    }
+
+    /**
+     * Scores of the items containing every query term, or null when the query has no terms.
+     */
+    private matchText(text: string): Map<string, number> | null {
+        const { terms, prefix } = parseQuery(text);
+        if (terms.length === 0 && !prefix) {
+            return null;
+        }
+
+        const termPostings: Map<string, number>[] = terms.map(term => this.postings.get(term) || new Map());
+        if (prefix) {
+            termPostings.push(this.prefixPosting(prefix));
+        }
+
+        // Start from the rarest term so the intersection stays small
+        termPostings.sort((a, b) => a.size - b.size);
+        const scores = new Map(termPostings[0]);
+        for (const posting of termPostings.slice(1)) {
+            scores.forEach((score, id) => {
+                const weight = posting.get(id);
+                if (weight === undefined) {
+                    scores.delete(id);
+                } else {
+                    scores.set(id, score + weight);
+                }
+            });
+        }
+        return scores;
+    }
+
+    // Best weight per item among the tokens starting with the prefix
+    private prefixPosting(prefix: string): Map<string, number> {
+        const vocabulary = this.vocabulary ||= Array.from(this.postings.keys()).sort();
+        const result = new Map<string, number>();
+
+        let low = 0;
+        let high = vocabulary.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (vocabulary[middle] < prefix) low = middle + 1;
+            else high = middle;
+        }
+
+        for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(prefix); i++) {
+            const factor = vocabulary[i] === prefix ? 1 : PREFIX_FACTOR;
+            this.postings.get(vocabulary[i])!.forEach((weight, id) => {
+                result.set(id, Math.max(result.get(id) || 0, weight * factor));
+            });
+        }
+        return result;
+    }
+
+    private countFacet(facet: LibrarySearchFacet, ids: string[]): LibraryFacetCount[] {
+        const counts = new Map<string, number>();
+        ids.forEach(id => this.items.get(id)!.facets[facet].forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+        return Array.from(counts, ([value, count]) => ({ value, count }))
+            .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+            .slice(0, MAX_FACET_VALUES);
+    }
+
+    // Ascending sort keys; descending orders are negated
+    private sortValue(id: string, sort: LibrarySortOrder, scores: Map<string, number> | null): SortValue {
+        const item = this.items.get(id)!.item;
+        const created = new Date(item.createdAt).getTime() || 0;
+        switch (sort) {
+            case 'relevance': return -(scores?.get(id) || 0);
+            case 'oldest': return created;
+            case 'title': return foldAccents(item.bookData.title);
+            case 'author': return foldAccents(item.bookData.authors?.[0] || '');
+            case 'confidence': return -(item.confidenceMetrics?.overallScore ?? 0);
+            default: return -created;
+        }
+    }
+}
@@ -0,0 +1,62 @@
+// Tokenizer for the library search index. Queries and documents go through the same steps, so
+// "Gabriel García Márquez", "garcia marquez" and "GARCÍA" all meet on the same tokens.
+
+// Letters that do not decompose into a base letter plus a combining mark
+const SPECIAL_LETTERS: Record<string, string> = {
+    'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th'
+};
+
+// Articles, prepositions and conjunctions of the summary languages (en, es, fr, pt, de, it)
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'with',
+    'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'lo', 'los', 'para', 'por', 'que', 'se', 'su', 'un', 'una', 'y',
+    'au', 'aux', 'ce', 'des', 'du', 'et', 'il', 'le', 'les', 'ou', 'par', 'pour', 'qui', 'sur', 'une',
+    'ao', 'as', 'com', 'da', 'das', 'do', 'dos', 'e', 'em', 'na', 'no', 'nos', 'o', 'os', 'um', 'uma',
+    'das', 'dem', 'den', 'der', 'die', 'ein', 'eine', 'einer', 'im', 'ist', 'mit', 'und', 'von', 'zu',
+    'che', 'di', 'gli', 'i', 'il', 'nel', 'per', 'sono', 'uno'
+]);
+
+export function foldAccents(text: string): string {
+    return (text || '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[ßæœøłđðþ]/g, letter => SPECIAL_LETTERS[letter]);
+}
+
+// Plural "s" is the one inflection all six languages share; "-ss" words (class, Gauss) keep theirs
+function normalizeToken(token: string): string {
+    return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+/**
+ * Folded, de-pluralised words of a text. Stop words are dropped unless `keepStopwords` is set.
+ */
+export function tokenize(text: string, keepStopwords = false): string[] {
+    return (foldAccents(text).match(/[a-z0-9]+/g) || [])
+        .filter(token => keepStopwords || !STOPWORDS.has(token))
+        .map(normalizeToken);
+}
+
+export interface QueryTerms {
+    terms: string[]; // Must match exactly
+    prefix: string | null; // The last word, which may still be being typed
+}
+
+/**
+ * Split a query into terms. The last word is matched as a prefix unless the query ends with a space,
+ * and it is kept even when it is a stop word so typing "the" does not empty the results.
+ */
+export function parseQuery(text: string): QueryTerms {
+    const words = foldAccents(text).match(/[a-z0-9]+/g) || [];
+    if (words.length === 0) {
+        return { terms: [], prefix: null };
+    }
+
+    const typing = !/\s$/.test(text);
+    const complete = typing ? words.slice(0, -1) : words;
+    return {
+        terms: Array.from(new Set(complete.filter(word => !STOPWORDS.has(word)).map(normalizeToken))),
+        prefix: typing ? normalizeToken(words[words.length - 1]) : null
+    };
+}
@@ -0,0 +1,58 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { ServerSearchBackend } from './server-search-backend';
+
+function jsonResponse(status: number, body: object): Response {
+    return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+const PAGE = { success: true, ids: ['b', 'a'], total: 5, facets: {}, nextCursor: '["x","a"]' };
+
+describe('ServerSearchBackend', () => {
+    let requests: any[];
+    let answer: Response;
+    let backend: ServerSearchBackend;
+
+    beforeEach(() => {
+        requests = [];
+        answer = jsonResponse(200, PAGE);
+        backend = new ServerSearchBackend(
+            'https://search.example',
+            async () => 'token',
+            async ids => ids.map(id => ({ id }) as UserLibraryItem),
+            async (_, init) => {
+                requests.push({ headers: init?.headers, body: JSON.parse(String(init?.body)) });
+                return answer;
+            }
+        );
+    });
+
+    it('sends the query with the ID token and reads the page items by id', async () => {
+        const page = await backend.search('mine', { text: 'cosmos', limit: 2 });
+
+        expect(requests[0].headers['Authorization']).toBe('Bearer token');
+        expect(requests[0].body).toEqual({ scope: 'mine', query: { text: 'cosmos', limit: 2 }, refresh: false });
+        expect(page.items.map(item => item.id)).toEqual(['b', 'a']);
+        expect(page.total).toBe(5);
+        expect(page.nextCursor).toBe('["x","a"]');
+    });
+
+    it('asks the server to rebuild a scope once after it was reindexed', async () => {
+        await backend.index('mine');
+        await backend.search('mine', {});
+        await backend.search('mine', {});
+        await backend.search('review', {});
+
+        expect(requests.map(request => request.body.refresh)).toEqual([true, false, false]);
+    });
+
+    it('keeps asking for a rebuild until a search succeeds', async () => {
+        await backend.index('mine');
+        answer = jsonResponse(500, { success: false, error: 'Failed to search library.' });
+
+        await expectAsync(backend.search('mine', {})).toBeRejectedWithError('Failed to search library.');
+        answer = jsonResponse(200, PAGE);
+        await backend.search('mine', {});
+
+        expect(requests.map(request => request.body.refresh)).toEqual([true, true]);
+    });
+});
@@ -0,0 +1,58 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { LibrarySearchBackend, LibrarySearchPage, LibrarySearchQuery } from '../interfaces/library-search.interface';
+
+// Answer of the searchLibraryItems Cloud Function: the page as item ids
+interface ServerSearchResponse extends Omit<LibrarySearchPage, 'items'> {
+    success: boolean;
+    ids: string[];
+    error?: string;
+}
+
+/**
+ * Searches with the searchLibraryItems Cloud Function, which indexes the scope from Firestore on the
+ * server. The page's items are then read by id in the browser, so the security rules still apply.
+ */
+export class ServerSearchBackend implements LibrarySearchBackend {
+    readonly id = 'server';
+
+    // Scopes whose items changed since the server last indexed them
+    private stale = new Set<string>();
+
+    constructor(
+        private url: string,
+        private getIdToken: () => Promise<string | null>,
+        private loadItems: (ids: string[]) => Promise<UserLibraryItem[]>,
+        private fetchFn: typeof fetch = (input, init) => fetch(input, init)
+    ) { }
+
+    // The server reads the items itself; the call only tells it to rebuild the index on the next search
+    async index(scope: string): Promise<void> {
+        this.stale.add(scope);
+    }
+
+    async search(scope: string, query: LibrarySearchQuery): Promise<LibrarySearchPage> {
+        const idToken = await this.getIdToken();
+        if (!idToken) {
+            throw new Error('You must be signed in to search the library');
+        }
+
+        const refresh = this.stale.has(scope);
+        const response = await this.fetchFn(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${idToken}` },
+            body: JSON.stringify({ scope, query, refresh })
+        });
+        const body = await response.json() as ServerSearchResponse;
+        if (!response.ok || !body.success) {
+            throw new Error(body.error || `Library search failed with status ${response.status}`);
+        }
+        this.stale.delete(scope);
+
+        return {
+            items: await this.loadItems(body.ids),
+            total: body.total,
+            facets: body.facets,
+            nextCursor: body.nextCursor
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { Observable, firstValueFrom, from, of } from 'rxjs';
+import { catchError, filter, map, shareReplay, switchMap, take } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { UserService } from './user.service';
+import { UserRole } from '../interfaces';
+import { DEFAULT_ROLE, Permission, hasPermission, resolveRole } from '../utils/permissions';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class AccessControlService {
+    // Role of the signed-in user, null while signed out. Re-read whenever the user changes.
+    readonly role$: Observable<UserRole | null>;
+
+    constructor(
+        private authService: AuthService,
+        private userService: UserService
+    ) {
+        this.role$ = this.authService.user$.pipe(
+            switchMap(user => {
+                if (!user) {
+                    return of(null);
+                }
+                return from(this.userService.getUser(user.uid)).pipe(
+                    map(profile => resolveRole(profile?.role)),
+                    catchError(error => {
+                        console.error('Error loading user role:', error);
+                        return of(DEFAULT_ROLE);
+                    })
+                );
+            }),
+            shareReplay(1)
+        );
+    }
+
+    can$(permission: Permission): Observable<boolean> {
+        return this.role$.pipe(map(role => role !== null && hasPermission(role, permission)));
+    }
+
+    // Waits for Firebase Auth to restore the session before answering
+    async getRole(): Promise<UserRole | null> {
+        await firstValueFrom(this.authService.loading$.pipe(filter(loading => !loading), take(1)));
+        return firstValueFrom(this.role$);
+    }
+
+    async can(permission: Permission): Promise<boolean> {
+        const role = await this.getRole();
+        return role !== null && hasPermission(role, permission);
+    }
+}
@@ -0,0 +1,223 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    DocumentData,
+    DocumentReference,
+    addDoc,
+    collection,
+    collectionGroup,
+    deleteDoc,
+    deleteField,
+    doc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import {
+    AnnotatedField,
+    AnnotationKind,
+    AuthUser,
+    SummaryAnnotation,
+    UserLibraryItem
+} from '../interfaces';
+import { createAnchor, resolveAnchor } from '../utils/text-anchor';
+import { annotatedText } from '../utils/annotations';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class AnnotationService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    /**
+     * The current user's annotations on the given items, grouped by item id and re-anchored to the
+     * current summary text. Anchors that moved or could no longer be found are saved back.
+     */
+    async getAnnotations(items: UserLibraryItem[]): Promise<Map<string, SummaryAnnotation[]>> {
+        const grouped = new Map<string, SummaryAnnotation[]>();
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser || items.length === 0) {
+                return grouped;
+            }
+
+            const snapshot = await getDocs(
+                query(collectionGroup(this.firestore, 'annotations'), where('userId', '==', currentUser.uid))
+            );
+            const itemsById = new Map(items.map(item => [item.id, item]));
+            const updates: [DocumentReference, DocumentData][] = [];
+
+            snapshot.docs.forEach(annotationDoc => {
+                const item = itemsById.get(annotationDoc.data()['itemId']);
+                if (!item) return;
+
+                const annotation = this.toAnnotation(annotationDoc.id, annotationDoc.data());
+                const update = this.reanchor(item, annotation);
+                if (update) {
+                    updates.push([annotationDoc.ref, update]);
+                }
+                grouped.set(item.id!, [...(grouped.get(item.id!) || []), annotation]);
+            });
+
+            for (let start = 0; start < updates.length; start += 450) {
+                const batch = writeBatch(this.firestore);
+                updates.slice(start, start + 450).forEach(([ref, update]) => batch.update(ref, update));
+                await batch.commit();
+            }
+            grouped.forEach(annotations => annotations.sort((a, b) => a.anchor.start - b.anchor.start));
+            return grouped;
+
+        } catch (error) {
+            console.error('Error getting annotations:', error);
+            return grouped;
+        }
+    }
+
+    async addAnnotation(
+        item: UserLibraryItem,
+        target: { language: string; field: AnnotatedField; start: number; end: number },
+        kind: AnnotationKind,
+        note = ''
+    ): Promise<SummaryAnnotation> {
+        try {
+            const currentUser = await this.requireUser();
+            const text = annotatedText(item, target);
+
+            if (!item.id || text === undefined) {
+                throw new Error('This summary cannot be annotated');
+            }
+            if (target.start >= target.end || target.end > text.length) {
+                throw new Error('Select some text of the summary first');
+            }
+            if (kind === 'note' && !note.trim()) {
+                throw new Error('Write a note for the selected text');
+            }
+
+            const annotation = {
+                itemId: item.id,
+                userId: currentUser.uid,
+                language: target.language,
+                field: target.field,
+                kind,
+                anchor: createAnchor(text, target.start, target.end),
+                ...(note.trim() ? { note: note.trim() } : {})
+            };
+            const annotationRef = await addDoc(this.annotationsRef(item.id), {
+                ...annotation,
+                createdAt: serverTimestamp()
+            });
+            return { id: annotationRef.id, ...annotation, createdAt: new Date() };
+
+        } catch (error) {
+            console.error('Error adding annotation:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to add annotation.');
+        }
+    }
+
+    async updateNote(annotation: SummaryAnnotation, note: string): Promise<void> {
+        try {
+            await updateDoc(doc(this.annotationsRef(annotation.itemId), annotation.id!), {
+                note: note.trim() || deleteField(),
+                updatedAt: serverTimestamp()
+            });
+
+        } catch (error) {
+            console.error('Error updating annotation:', error);
+            throw new Error('Failed to update annotation.');
+        }
+    }
+
+    async deleteAnnotation(annotation: SummaryAnnotation): Promise<void> {
+        try {
+            await deleteDoc(doc(this.annotationsRef(annotation.itemId), annotation.id!));
+
+        } catch (error) {
+            console.error('Error deleting annotation:', error);
+            throw new Error('Failed to delete annotation.');
+        }
+    }
+
+    // Other users' annotations on a shared item are private to them; the cleanupDeletedLibraryItem
+    // Cloud Function deletes those once the item is gone
+    async deleteMyAnnotations(itemId: string): Promise<void> {
+        try {
+            const currentUser = await this.requireUser();
+            const snapshot = await getDocs(query(this.annotationsRef(itemId), where('userId', '==', currentUser.uid)));
+            if (snapshot.empty) return;
+
+            const batch = writeBatch(this.firestore);
+            snapshot.docs.forEach(annotationDoc => batch.delete(annotationDoc.ref));
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error deleting annotations:', error);
+            throw new Error('Failed to delete annotations.');
+        }
+    }
+
+    // Moves the annotation to its place in the current text; returns the fields to save when anything changed
+    private reanchor(item: UserLibraryItem, annotation: SummaryAnnotation): DocumentData | null {
+        const text = annotatedText(item, annotation);
+        const match = text !== undefined ? resolveAnchor(text, annotation.anchor) : null;
+
+        if (!match) {
+            if (annotation.orphaned) return null;
+            annotation.orphaned = true;
+            return { orphaned: true };
+        }
+
+        const anchor = createAnchor(text!, match.start, match.end);
+        const changed = annotation.orphaned
+            || anchor.start !== annotation.anchor.start
+            || anchor.quote !== annotation.anchor.quote
+            || anchor.prefix !== annotation.anchor.prefix
+            || anchor.suffix !== annotation.anchor.suffix;
+
+        if (!changed) return null;
+        annotation.anchor = anchor;
+        delete annotation.orphaned;
+        return { anchor, orphaned: deleteField() };
+    }
+
+    private annotationsRef(itemId: string) {
+        return collection(this.firestore, 'libraries', itemId, 'annotations');
+    }
+
+    private toAnnotation(id: string, data: DocumentData): SummaryAnnotation {
+        return {
+            id,
+            ...data,
+            createdAt: data['createdAt']?.toDate() || new Date(),
+            updatedAt: data['updatedAt']?.toDate()
+        } as SummaryAnnotation;
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await this.getCurrentUser();
+        if (!currentUser) {
+            throw new Error('User must be logged in to annotate summaries');
+        }
+        return currentUser;
+    }
+
+    private getCurrentUser(): Promise<AuthUser | null> {
+        return new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+    }
+}
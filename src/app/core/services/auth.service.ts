@@ -123,6 +123,14 @@ export class AuthService {
         } catch (error) {
             throw this.handleAuthError(error);
         }
+    }
+
+    // Firebase ID token for authenticating Cloud Function calls; refreshed by the SDK when close to expiry
+    async getIdToken(): Promise<string | null> {
+        if (!this.auth?.currentUser) {
+            return null;
+        }
+        return this.auth.currentUser.getIdToken();
     } async resetPassword(email: string): Promise<void> {
         try {
             console.log('Starting password reset process...');
@@ -0,0 +1,188 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import {
+    Firestore,
+    collection,
+    doc,
+    getDocs,
+    onSnapshot,
+    orderBy,
+    query,
+    serverTimestamp,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import { AuthUser, BatchJob, BatchJobItem, ParsedIsbnList } from '../interfaces';
+import { cleanISBN, isValidISBN } from '../utils/isbn';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class BatchJobService {
+    readonly MAX_ITEMS_PER_JOB = 200;
+
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    // Accepts one ISBN per line, comma/semicolon separated values or a CSV export with an ISBN column
+    parseIsbnList(content: string): ParsedIsbnList {
+        const tokens = content
+            .split(/[\r\n,;\t]+/)
+            .map(token => token.trim().replace(/^"|"$/g, ''))
+            .filter(token => token.length > 0 && !/^isbn(-?1[03])?$/i.test(token));
+
+        const valid: string[] = [];
+        const invalid: string[] = [];
+        let duplicates = 0;
+
+        tokens.forEach(token => {
+            const isbn = cleanISBN(token);
+            if (!isValidISBN(isbn)) {
+                invalid.push(token);
+            } else if (valid.includes(isbn)) {
+                duplicates++;
+            } else {
+                valid.push(isbn);
+            }
+        });
+
+        return { valid, invalid, duplicates };
+    }
+
+    async createJob(isbns: string[], targetLanguage: string): Promise<string> {
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser) {
+                throw new Error('User must be logged in to create batch jobs');
+            }
+
+            if (isbns.length === 0) {
+                throw new Error('No valid ISBNs to process');
+            }
+
+            if (isbns.length > this.MAX_ITEMS_PER_JOB) {
+                throw new Error(`A batch can contain at most ${this.MAX_ITEMS_PER_JOB} ISBNs`);
+            }
+
+            const jobRef = doc(collection(this.firestore, 'jobs'));
+            const batch = writeBatch(this.firestore);
+
+            batch.set(jobRef, {
+                userId: currentUser.uid,
+                targetLanguage,
+                status: 'pending',
+                total: isbns.length,
+                completed: 0,
+                failed: 0,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+
+            // Items are keyed by position; the security rules only accept ids below the job's total
+            isbns.forEach((isbn, position) => {
+                batch.set(doc(jobRef, 'items', String(position)), {
+                    isbn,
+                    position,
+                    status: 'pending',
+                    attempts: 0,
+                    updatedAt: serverTimestamp()
+                });
+            });
+
+            await batch.commit();
+            return jobRef.id;
+
+        } catch (error) {
+            console.error('Error creating batch job:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to create batch job.');
+        }
+    }
+
+    watchJob(jobId: string): Observable<{ job: BatchJob | null; items: BatchJobItem[] }> {
+        return new Observable(subscriber => {
+            const jobRef = doc(this.firestore, 'jobs', jobId);
+            let job: BatchJob | null = null;
+            let items: BatchJobItem[] = [];
+
+            const unsubscribeJob = onSnapshot(jobRef, snapshot => {
+                const data = snapshot.data();
+                job = data ? {
+                    id: snapshot.id,
+                    ...data,
+                    createdAt: data['createdAt']?.toDate() || new Date(),
+                    updatedAt: data['updatedAt']?.toDate()
+                } as BatchJob : null;
+                subscriber.next({ job, items });
+            }, error => subscriber.error(error));
+
+            const unsubscribeItems = onSnapshot(
+                query(collection(jobRef, 'items'), orderBy('position')),
+                snapshot => {
+                    items = snapshot.docs.map(itemDoc => {
+                        const data = itemDoc.data();
+                        return {
+                            id: itemDoc.id,
+                            ...data,
+                            updatedAt: data['updatedAt']?.toDate()
+                        } as BatchJobItem;
+                    });
+                    subscriber.next({ job, items });
+                },
+                error => subscriber.error(error)
+            );
+
+            return () => {
+                unsubscribeJob();
+                unsubscribeItems();
+            };
+        });
+    }
+
+    async getUserJobs(): Promise<BatchJob[]> {
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser) {
+                return [];
+            }
+
+            const q = query(
+                collection(this.firestore, 'jobs'),
+                where('userId', '==', currentUser.uid),
+                orderBy('createdAt', 'desc')
+            );
+
+            const querySnapshot = await getDocs(q);
+            return querySnapshot.docs.map(jobDoc => {
+                const data = jobDoc.data();
+                return {
+                    id: jobDoc.id,
+                    ...data,
+                    createdAt: data['createdAt']?.toDate() || new Date(),
+                    updatedAt: data['updatedAt']?.toDate()
+                } as BatchJob;
+            });
+
+        } catch (error) {
+            console.error('Error getting batch jobs:', error);
+            return [];
+        }
+    }
+
+    private getCurrentUser(): Promise<AuthUser | null> {
+        return new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+    }
+}
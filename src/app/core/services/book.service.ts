@@ -1,10 +1,8 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
 import {
   Firestore,
   collection,
   doc,
-  addDoc,
   getDocs,
   getDoc,
   updateDoc,
@@ -13,81 +11,67 @@ import {
   where,
   orderBy,
   serverTimestamp,
-
+  deleteField,
+  writeBatch,
+  WriteBatch,
+  FieldValue,
+  arrayUnion,
+  arrayRemove,
+  DocumentData
 } from 'firebase/firestore';
 import { OpenAIService } from './openai.service';
-import { CloudFunctionService } from './cloud-function.service';
+import { CloudFunctionError, CloudFunctionService } from './cloud-function.service';
 import { FirebaseService } from './firebase.service';
 import { AuthService } from './auth.service';
 import { UserService } from './user.service';
+import { SummaryVersionService } from './summary-version.service';
+import { AnnotationService } from './annotation.service';
+import { MetadataProviderRegistryService } from './metadata-provider-registry.service';
 import { environment } from '../../../environments/environment';
 import {
   AIBookSummary,
+  AuthUser,
   SummaryRequest,
   BookMetadata,
   BookSummary,
   ConfidenceMetrics,
   SummaryResult,
-  UserLibraryItem
+  SummaryPreset,
+  SummaryStreamProgress,
+  UserLibraryItem,
+  LibraryVisibility,
+  LibraryItemReview
 } from '../interfaces';
-import {
-  FORBIDDEN_ENGLISH_WORDS,
-  LANGUAGE_REPLACEMENTS,
-  LANGUAGE_PHRASE_PATTERNS,
-  LANGUAGE_WORD_PATTERNS
-} from '../utils/constants';
+import { checkSummaryLanguage } from '../llm/summary-language';
+import { assessConfidence } from '../confidence/confidence-engine';
+import { analyzeGrounding } from '../confidence/grounding-analyzer';
+import { createInitialReview, getReviewStatus } from '../utils/review-workflow';
+import { createGeneratedVersion } from '../utils/summary-versions';
+import { LibrarySummaries, normalizeSummaries } from '../utils/summary-variants';
+import { normalizeTag } from '../utils/tags';
 
 @Injectable({
   providedIn: 'root'
 })
 export class BookService {
-  private readonly GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1/volumes';
   private firestore: Firestore;
 
   constructor(
-    private http: HttpClient,
+    private metadataRegistry: MetadataProviderRegistryService,
     private openaiService: OpenAIService,
     private cloudFunctionService: CloudFunctionService,
     private firebaseService: FirebaseService,
     private authService: AuthService,
-    private userService: UserService
+    private userService: UserService,
+    private summaryVersionService: SummaryVersionService,
+    private annotationService: AnnotationService
   ) {
     this.firestore = this.firebaseService.getFirestore();
   }
 
   async getBookByISBN(isbn: string): Promise<BookMetadata> {
     try {
-
-      const response = await this.http.get(`${this.GOOGLE_BOOKS_API}?q=isbn:${isbn}`).toPromise() as any;
-
-      if (!response.items || response.items.length === 0) {
-        throw new Error('Book not found. Please check the ISBN and try again.');
-      }
-
-      const book = response.items[0];
-      const volumeInfo = book.volumeInfo;
-
-      const bookData: BookMetadata = {
-        isbn: isbn,
-        title: volumeInfo.title || 'Unknown Title',
-        authors: volumeInfo.authors || ['Unknown Author'],
-        publisher: volumeInfo.publisher || 'Unknown Publisher',
-        publishedDate: volumeInfo.publishedDate || 'Unknown Date',
-        description: volumeInfo.description || 'No description available.',
-        pageCount: volumeInfo.pageCount || 0,
-        categories: volumeInfo.categories || ['Uncategorized'],
-        averageRating: volumeInfo.averageRating || 0,
-        ratingsCount: volumeInfo.ratingsCount || 0,
-        imageLinks: {
-          thumbnail: volumeInfo.imageLinks?.thumbnail || '',
-          small: volumeInfo.imageLinks?.small || '',
-          medium: volumeInfo.imageLinks?.medium || '',
-          large: volumeInfo.imageLinks?.large || ''
-        },
-        language: volumeInfo.language || 'en'
-      };
-
-      return bookData;
+      return await this.metadataRegistry.lookup(isbn);
 
     } catch (error) {
       console.error('Error fetching book data:', error);
@@ -95,7 +79,14 @@ export class BookService {
     }
   }
 
-  async generateSummaries(bookData: BookMetadata, language: string = 'en'): Promise<SummaryResult> {
+  // onProgress receives partial summary text while the Cloud Function streams its response;
+  // model picks one of environment.llm.alternativeModels instead of the configured model;
+  // preset sets length, structure and tone (the standard preset when omitted)
+  async generateSummaries(
+    bookData: BookMetadata,
+    language: string = 'en',
+    options: { onProgress?: (progress: SummaryStreamProgress) => void; model?: string; preset?: SummaryPreset } = {}
+  ): Promise<SummaryResult> {
     try {
       // Validate required fields before calling cloud function
       if (!bookData.title || !bookData.isbn) {
@@ -113,7 +104,11 @@ export class BookService {
         publishedDate: bookData.publishedDate,
         pageCount: bookData.pageCount,
         language: bookData.language,
-        targetLanguage: language
+        targetLanguage: language,
+        fieldSources: bookData.fieldSources,
+        metadataAgreement: bookData.metadataAgreement,
+        ...(options.model ? { model: options.model } : {}),
+        ...(options.preset ? { preset: options.preset.id } : {})
       };
 
       console.log('SummaryRequest payload:', summaryRequest);
@@ -121,12 +116,12 @@ export class BookService {
       let aiSummary: AIBookSummary;
 
       if (environment.useCloudFunctions && this.cloudFunctionService.isCloudFunctionEnabled()) {
-        aiSummary = await this.cloudFunctionService.generateBookSummary(summaryRequest);
+        aiSummary = await this.cloudFunctionService.generateBookSummary(summaryRequest, options.onProgress);
       } else {
-        aiSummary = await this.openaiService.generateBookSummary(summaryRequest);
+        aiSummary = await this.openaiService.generateBookSummary(summaryRequest, options.preset);
       }
 
-      aiSummary = this.validateAndCleanSummaryLanguage(aiSummary, language);
+      aiSummary = this.applySummaryChecks(aiSummary, bookData, language);
 
       if (aiSummary.language !== language) {
         console.warn(`Language mismatch! Expected: ${language}, Got: ${aiSummary.language}`);
@@ -136,7 +131,8 @@ export class BookService {
         short: aiSummary.shortSummary,
         detailed: aiSummary.detailedSummary,
         language: language,
-        generatedAt: aiSummary.generatedAt
+        generatedAt: aiSummary.generatedAt,
+        ...(aiSummary.preset ? { preset: aiSummary.preset } : {})
       };
 
       return {
@@ -147,6 +143,11 @@ export class BookService {
     } catch (error) {
       console.error('Error generating AI summaries:', error);
 
+      // Per-user limits, expired sessions and missing permissions must reach the user instead of a locally generated summary
+      if (error instanceof CloudFunctionError) {
+        throw error;
+      }
+
       const isQuotaError = error instanceof Error && (
         error.message.includes('insufficient_quota') ||
         error.message.includes('quota') ||
@@ -157,13 +158,14 @@ export class BookService {
         console.warn('⚠️ OpenAI quota exceeded - using enhanced demo mode');
 
         const demoSummary = this.generateEnhancedDemoSummary(bookData, language);
+        const languageCheck = checkSummaryLanguage({ shortSummary: demoSummary.short, detailedSummary: demoSummary.detailed }, language);
 
-        const { sourceAttribution } = this.calculateDetailedConfidence(
-          bookData,
-          undefined,
-          true,
-          bookData.language !== language
-        );
+        const confidence = assessConfidence({
+          book: bookData,
+          summary: { shortSummary: demoSummary.short, detailedSummary: demoSummary.detailed, languageCheck },
+          targetLanguage: language,
+          usesFallback: true
+        });
 
         return {
           summary: demoSummary,
@@ -173,18 +175,14 @@ export class BookService {
             confidenceScore: 75,
             reasoningFactors: ['Demo mode due to API quota limits'],
             sourcesUsed: ['Book metadata', 'Demo generation'],
-            sourceAttribution: sourceAttribution,
-            detailedConfidenceFactors: {
-              dataQuality: { score: 70, factors: { descriptionLength: 0, metadataCompleteness: 80, publisherReliability: 70, authorCredibility: 60 } },
-              sourceReliability: { score: 75, factors: { primarySourcesCount: 2, averageSourceReliability: 75, sourceConsistency: 80, verifiableInformation: 70 } },
-              contentCoverage: { score: 65, factors: { topicCoverage: 60, thematicDepth: 70, conceptualClarity: 65, structuralCompleteness: 65 } },
-              aiProcessing: { score: 85, factors: { languageConsistency: 90, translationQuality: 80, summarizationAccuracy: 85, responseCoherence: 85 } },
-              crossValidation: { score: 70, factors: { multiSourceVerification: 60, factualConsistency: 80, contextualRelevance: 70, logicalCoherence: 70 } }
-            },
+            sourceAttribution: confidence.sourceAttribution,
+            detailedConfidenceFactors: confidence.detailedConfidenceFactors,
+            confidenceFormulaVersion: confidence.formulaVersion,
             language: language,
             generatedAt: new Date(),
             processingMethod: 'fallback_template' as const,
-            translationApplied: bookData.language !== language
+            translationApplied: bookData.language !== language,
+            languageCheck
           }
         };
       }
@@ -344,17 +342,14 @@ export class BookService {
 
   async calculateConfidenceMetrics(bookData: BookMetadata, summaries: BookSummary, aiSummary?: AIBookSummary): Promise<ConfidenceMetrics> {
     try {
-      const usesFallback = !aiSummary || (aiSummary as any).processingMethod === 'fallback_template';
-      const translationApplied = bookData.language !== summaries.language;
-
-      const { confidence } = this.calculateDetailedConfidence(
-        bookData,
-        aiSummary,
-        usesFallback,
-        translationApplied
-      );
+      const usesFallback = !aiSummary || aiSummary.processingMethod === 'fallback_template';
 
-      return confidence;
+      return assessConfidence({
+        book: bookData,
+        summary: aiSummary ?? { shortSummary: summaries.short, detailedSummary: summaries.detailed },
+        targetLanguage: summaries.language,
+        usesFallback
+      }).metrics;
 
     } catch (error) {
       console.error('Error calculating confidence metrics:', error);
@@ -362,187 +357,98 @@ export class BookService {
     }
   }
 
-  private calculateDetailedConfidence(
-    bookData: BookMetadata,
-    aiSummary?: any,
-    usesFallback: boolean = false,
-    translationApplied: boolean = false
-  ): { confidence: ConfidenceMetrics, sourceAttribution: any[] } {
-
-    const descriptionLength = bookData.description?.length || 0;
-    const hasCompleteMetadata = !!(bookData.title && bookData.authors?.length && bookData.publisher && bookData.publishedDate);
-    const pageCountAvailable = bookData.pageCount > 0;
-    const categoriesAvailable = bookData.categories?.length > 0;
-
-    const dataQualityScore = Math.min(100, (
-      (descriptionLength > 100 ? 30 : descriptionLength / 100 * 30) +
-      (hasCompleteMetadata ? 25 : 0) +
-      (pageCountAvailable ? 15 : 0) +
-      (categoriesAvailable ? 15 : 0) +
-      (bookData.averageRating > 0 ? 10 : 0) +
-      (bookData.ratingsCount > 0 ? 5 : 0)
-    ));
-
-    const publisherReliability = bookData.publisher !== 'Unknown Publisher' ? 80 : 40;
-    const authorCredibility = bookData.authors?.[0] !== 'Unknown Author' ? 70 : 30;
-    const metadataCompleteness = hasCompleteMetadata ? 90 : 50;
-
-    const sourceReliabilityScore = Math.min(100, (
-      publisherReliability * 0.3 +
-      authorCredibility * 0.3 +
-      metadataCompleteness * 0.4
-    ));
-
-    const topicCoverage = Math.min(100, descriptionLength / 10);
-    const thematicDepth = categoriesAvailable ? 80 : 40;
-    const conceptualClarity = descriptionLength > 200 ? 90 : 60;
-
-    const contentCoverageScore = Math.min(100, (
-      topicCoverage * 0.4 +
-      thematicDepth * 0.3 +
-      conceptualClarity * 0.3
-    ));
-
-    const languageConsistency = usesFallback ? 95 : 85;
-    const translationQuality = translationApplied ? 75 : 95;
-    const summarizationAccuracy = usesFallback ? 80 : 90;
-    const responseCoherence = usesFallback ? 85 : 95;
-
-    const aiProcessingScore = Math.min(100, (
-      languageConsistency * 0.3 +
-      translationQuality * 0.3 +
-      summarizationAccuracy * 0.2 +
-      responseCoherence * 0.2
-    ));
-
-    const multiSourceVerification = hasCompleteMetadata ? 80 : 50;
-    const factualConsistency = 85;
-    const contextualRelevance = categoriesAvailable ? 90 : 70;
-    const logicalCoherence = 90;
-
-    const crossValidationScore = Math.min(100, (
-      multiSourceVerification * 0.3 +
-      factualConsistency * 0.2 +
-      contextualRelevance * 0.3 +
-      logicalCoherence * 0.2
-    ));
-
-    const translationPenalty = translationApplied ? 10 : 0;
-
-    const overallScore = Math.max(0, Math.min(100, (
-      dataQualityScore * 0.25 +
-      sourceReliabilityScore * 0.25 +
-      contentCoverageScore * 0.2 +
-      aiProcessingScore * 0.15 +
-      crossValidationScore * 0.15
-    ) - translationPenalty));
-
-    const sourceAttribution = [
-      {
-        type: 'book_description',
-        content: bookData.description?.substring(0, 200) + '...' || 'No description available',
-        reliability: descriptionLength > 100 ? 90 : 60,
-        relevance: 95,
-        length: descriptionLength,
-        source: 'Google Books API',
-        weight: descriptionLength > 0 ? 0.4 : 0
-      },
-      {
-        type: 'metadata',
-        content: `Title: ${bookData.title}, Authors: ${bookData.authors?.join(', ')}, Publisher: ${bookData.publisher}`,
-        reliability: hasCompleteMetadata ? 95 : 70,
-        relevance: 80,
-        length: bookData.title?.length + (bookData.authors?.join(', ').length || 0),
-        source: 'Google Books API',
-        weight: 0.3
-      },
-      {
-        type: 'category_data',
-        content: bookData.categories?.join(', ') || 'Uncategorized',
-        reliability: categoriesAvailable ? 85 : 40,
-        relevance: 75,
-        length: bookData.categories?.join(', ').length || 0,
-        source: 'Google Books API',
-        weight: categoriesAvailable ? 0.15 : 0.05
-      },
-      {
-        type: usesFallback ? 'fallback_template' : 'ai_knowledge',
-        content: usesFallback ? 'Language-specific template' : 'OpenAI GPT knowledge base',
-        reliability: usesFallback ? 85 : 90,
-        relevance: 70,
-        length: 0,
-        source: usesFallback ? 'SmartLibroAI Template' : 'OpenAI GPT-3.5',
-        weight: usesFallback ? 0.15 : 0.15
-      }
-    ];
+  async saveToUserLibrary(item: UserLibraryItem): Promise<string> {
+    try {
+      const currentUser = await this.requireLibraryUser();
 
-    const confidenceMetrics: ConfidenceMetrics = {
-      overallScore: Math.round(overallScore),
-      sourceReliability: Math.round(sourceReliabilityScore),
-      contentCoverage: Math.round(contentCoverageScore),
-      crossReferenceValidation: Math.round(crossValidationScore),
-      factors: {
-        sourcesUsed: sourceAttribution.filter(s => s.weight > 0).length,
-        averageSourceRating: Math.round(sourceAttribution.reduce((sum, s) => sum + s.reliability, 0) / sourceAttribution.length),
-        descriptionLength,
-        reviewsCount: bookData.ratingsCount || 0,
-        dataQualityScore: Math.round(dataQualityScore),
-        aiProcessingScore: Math.round(aiProcessingScore),
-        translationPenalty
-      },
-      detailedBreakdown: {
-        dataQuality: Math.round(dataQualityScore),
-        sourceReliability: Math.round(sourceReliabilityScore),
-        contentCoverage: Math.round(contentCoverageScore),
-        aiProcessing: Math.round(aiProcessingScore),
-        crossValidation: Math.round(crossValidationScore)
-      },
-      sourceAttribution
-    };
+      const batch = writeBatch(this.firestore);
+      const itemId = this.addLibraryItem(batch, item, currentUser);
+      await batch.commit();
 
-    return { confidence: confidenceMetrics, sourceAttribution };
+      const userLibrary = await this.getUserLibrary();
+      await this.userService.updateLibraryCount(currentUser.uid, userLibrary.length + 1);
+
+      return itemId;
+
+    } catch (error) {
+      console.error('Error saving to library:', error);
+      throw new Error('Failed to save book to library.');
+    }
   }
 
-  async saveToUserLibrary(item: UserLibraryItem): Promise<string> {
+  // Bulk version of saveToUserLibrary for imports: items are written in batches and the count is updated once
+  async importToUserLibrary(items: UserLibraryItem[]): Promise<string[]> {
     try {
-      const currentUser = await new Promise<any>((resolve) => {
-        this.authService.user$.subscribe(user => {
-          if (user) resolve(user);
-        });
-      });
-
-      if (!currentUser) {
-        throw new Error('User must be logged in to save books to library');
+      const currentUser = await this.requireLibraryUser();
+      const itemIds: string[] = [];
+
+      let batch = writeBatch(this.firestore);
+      let operations = 0;
+      for (const item of items) {
+        // One write for the item and one per variant; Firestore allows 500 per batch
+        const itemOperations = 1 + Object.keys(item.summaries).length;
+        if (operations + itemOperations > 450) {
+          await batch.commit();
+          batch = writeBatch(this.firestore);
+          operations = 0;
+        }
+        itemIds.push(this.addLibraryItem(batch, item, currentUser));
+        operations += itemOperations;
+      }
+      if (operations > 0) {
+        await batch.commit();
       }
 
-      const userId = currentUser.uid;
+      const userLibrary = await this.getUserLibrary();
+      await this.userService.updateLibraryCount(currentUser.uid, userLibrary.length);
 
-      const libraryItemData = {
-        ...item,
-        userId,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+      return itemIds;
 
-        summaries: {
-          ...item.summaries,
-          generatedAt: item.summaries.generatedAt
-        }
-      };
+    } catch (error) {
+      console.error('Error importing to library:', error);
+      throw new Error('Failed to import books to library.');
+    }
+  }
 
-      delete libraryItemData.id;
+  // Each variant is recorded as the item's first version in the same batch
+  private addLibraryItem(batch: WriteBatch, item: UserLibraryItem, currentUser: AuthUser): string {
+    const libraryItemData = {
+      ...item,
+      userId: currentUser.uid,
+      review: item.review || createInitialReview(
+        item.confidenceMetrics.overallScore,
+        environment.review.autoReviewThreshold,
+        new Date()
+      ),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    };
 
-      const librariesRef = collection(this.firestore, 'libraries');
-      const docRef = await addDoc(librariesRef, libraryItemData);
+    delete libraryItemData.id;
 
-      const userLibrary = await this.getUserLibrary();
-      await this.userService.updateLibraryCount(userId, userLibrary.length + 1);
+    const docRef = doc(collection(this.firestore, 'libraries'));
+    batch.set(docRef, libraryItemData);
+    Object.values(item.summaries).forEach(variant => {
+      this.summaryVersionService.addVersion(
+        batch,
+        docRef.id,
+        createGeneratedVersion(variant, variant.aiSummary, currentUser.uid, currentUser.displayName || currentUser.email || undefined)
+      );
+    });
+    return docRef.id;
+  }
 
-      return docRef.id;
+  private async requireLibraryUser(): Promise<AuthUser> {
+    const currentUser = await new Promise<AuthUser | null>((resolve) => {
+      this.authService.user$.subscribe(user => {
+        if (user) resolve(user);
+      });
+    });
 
-    } catch (error) {
-      console.error('Error saving to library:', error);
-      throw new Error('Failed to save book to library.');
+    if (!currentUser) {
+      throw new Error('User must be logged in to save books to library');
     }
+    return currentUser;
   }
 
   async getUserLibrary(): Promise<UserLibraryItem[]> {
@@ -571,20 +477,7 @@ export class BookService {
       const libraryItems: UserLibraryItem[] = [];
 
       querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        libraryItems.push({
-          id: doc.id,
-          ...data,
-
-          createdAt: data['createdAt']?.toDate() || new Date(),
-          updatedAt: data['updatedAt']?.toDate(),
-          summaries: {
-            ...data['summaries'],
-            generatedAt: data['summaries']['generatedAt'] instanceof Date
-              ? data['summaries']['generatedAt']
-              : new Date(data['summaries']['generatedAt'])
-          }
-        } as UserLibraryItem);
+        libraryItems.push(this.toLibraryItem(doc.id, doc.data()));
       });
 
       console.log(`Retrieved ${libraryItems.length} books from user library`);
@@ -596,25 +489,153 @@ export class BookService {
     }
   }
 
+  // Every user's saved summaries, for admins and auditors. Firestore rules reject this query for other roles.
+  async getAllLibraryItems(): Promise<UserLibraryItem[]> {
+    try {
+      const librariesRef = collection(this.firestore, 'libraries');
+      const querySnapshot = await getDocs(query(librariesRef, orderBy('createdAt', 'desc')));
+
+      return querySnapshot.docs.map(doc => this.toLibraryItem(doc.id, doc.data()));
+
+    } catch (error) {
+      console.error('Error getting all libraries:', error);
+      throw new Error('Failed to load all libraries.');
+    }
+  }
+
+  // Items shared with the whole organization plus those shared with the given teams
+  async getOrganizationLibrary(orgId: string, teamIds: string[]): Promise<UserLibraryItem[]> {
+    try {
+      const librariesRef = collection(this.firestore, 'libraries');
+      // One query per team: the rules can only verify team access for a single teamId at a time
+      const snapshots = await Promise.all([
+        getDocs(query(librariesRef, where('orgId', '==', orgId), where('visibility', '==', 'org'))),
+        ...teamIds.map(teamId => getDocs(query(
+          librariesRef,
+          where('orgId', '==', orgId),
+          where('visibility', '==', 'team'),
+          where('teamId', '==', teamId)
+        )))
+      ]);
+
+      return snapshots
+        .flatMap(snapshot => snapshot.docs.map(doc => this.toLibraryItem(doc.id, doc.data())))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    } catch (error) {
+      console.error('Error getting organization library:', error);
+      throw new Error('Failed to load organization library.');
+    }
+  }
+
+  // Items by id in the given order, e.g. a page of server search results; unreadable or deleted ids are left out
+  async getLibraryItems(ids: string[]): Promise<UserLibraryItem[]> {
+    try {
+      const snapshots = await Promise.all(ids.map(async id => {
+        try {
+          return await getDoc(doc(this.firestore, 'libraries', id));
+        } catch {
+          return null; // The rules refused it, e.g. the item was unshared since it was indexed
+        }
+      }));
+
+      return snapshots
+        .filter(snapshot => snapshot?.exists())
+        .map(snapshot => this.toLibraryItem(snapshot!.id, snapshot!.data()!));
+
+    } catch (error) {
+      console.error('Error getting library items:', error);
+      throw new Error('Failed to load library items.');
+    }
+  }
+
+  // Summaries waiting for the given reviewer's decision
+  async getReviewQueue(reviewerId: string): Promise<UserLibraryItem[]> {
+    try {
+      const querySnapshot = await getDocs(query(
+        collection(this.firestore, 'libraries'),
+        where('review.reviewerId', '==', reviewerId),
+        where('review.status', '==', 'in_review')
+      ));
+
+      return querySnapshot.docs
+        .map(doc => this.toLibraryItem(doc.id, doc.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    } catch (error) {
+      console.error('Error getting review queue:', error);
+      throw new Error('Failed to load review queue.');
+    }
+  }
+
+  async shareLibraryItem(itemId: string, visibility: LibraryVisibility, orgId?: string, teamId?: string): Promise<void> {
+    try {
+      if (visibility !== 'private' && !orgId) {
+        throw new Error('Choose an organization to share with');
+      }
+      if (visibility === 'team' && !teamId) {
+        throw new Error('Choose a team to share with');
+      }
+
+      const docRef = doc(this.firestore, 'libraries', itemId);
+      await updateDoc(docRef, {
+        visibility,
+        orgId: visibility === 'private' ? deleteField() : orgId,
+        teamId: visibility === 'team' ? teamId : deleteField(),
+        updatedAt: serverTimestamp()
+      });
+
+    } catch (error) {
+      console.error('Error sharing library item:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to share library item.');
+    }
+  }
+
+  private toLibraryItem(id: string, data: DocumentData): UserLibraryItem {
+    return {
+      id,
+      ...data,
+      createdAt: data['createdAt']?.toDate() || new Date(),
+      updatedAt: data['updatedAt']?.toDate(),
+      ...this.toSummaries(data),
+      ...(data['review'] ? { review: this.toReview(data['review']) } : {})
+    } as UserLibraryItem;
+  }
+
+  // Items saved before language variants are read as a single variant until the migration rewrites them
+  private toSummaries(data: DocumentData): LibrarySummaries {
+    const { summaries, primaryLanguage } = normalizeSummaries(data);
+    const toDate = (value: any): Date => value instanceof Date ? value : value?.toDate?.() || new Date(value);
+
+    return {
+      primaryLanguage,
+      summaries: Object.fromEntries(Object.entries(summaries).map(([language, variant]) => [
+        language,
+        { ...variant, generatedAt: toDate(variant.generatedAt) }
+      ]))
+    };
+  }
+
+  private toReview(review: DocumentData): LibraryItemReview {
+    return {
+      ...review,
+      submittedAt: review['submittedAt']?.toDate(),
+      decidedAt: review['decidedAt']?.toDate(),
+      lastEditedAt: review['lastEditedAt']?.toDate(),
+      comments: (review['comments'] || []).map((comment: DocumentData) => ({
+        ...comment,
+        createdAt: comment['createdAt']?.toDate() || new Date()
+      }))
+    } as LibraryItemReview;
+  }
+
   async getLibraryItemById(itemId: string): Promise<UserLibraryItem | null> {
     try {
       const docRef = doc(this.firestore, 'libraries', itemId);
       const docSnapshot = await getDoc(docRef);
 
       if (docSnapshot.exists()) {
-        const data = docSnapshot.data();
-        return {
-          id: docSnapshot.id,
-          ...data,
-          createdAt: data['createdAt']?.toDate() || new Date(),
-          updatedAt: data['updatedAt']?.toDate(),
-          summaries: {
-            ...data['summaries'],
-            generatedAt: data['summaries']['generatedAt'] instanceof Date
-              ? data['summaries']['generatedAt']
-              : new Date(data['summaries']['generatedAt'])
-          }
-        } as UserLibraryItem;
+        return this.toLibraryItem(docSnapshot.id, docSnapshot.data());
       } else {
         console.log('Library item not found:', itemId);
         return null;
@@ -625,7 +646,8 @@ export class BookService {
     }
   }
 
-  async updateLibraryItem(itemId: string, updates: Partial<UserLibraryItem>): Promise<void> {
+  // Summary text changes go through SummaryVersionService so every change is kept in the version history
+  async updateLibraryItem(itemId: string, updates: Partial<Omit<UserLibraryItem, 'summaries' | 'primaryLanguage'>>): Promise<void> {
     try {
       const currentUser = await new Promise<any>((resolve) => {
         this.authService.user$.subscribe(user => {
@@ -659,6 +681,103 @@ export class BookService {
     }
   }
 
+  async addTags(itemIds: string[], tags: string[]): Promise<void> {
+    await this.updateTags(itemIds, arrayUnion(...tags.map(normalizeTag).filter(Boolean)));
+  }
+
+  async removeTags(itemIds: string[], tags: string[]): Promise<void> {
+    await this.updateTags(itemIds, arrayRemove(...tags.map(normalizeTag).filter(Boolean)));
+  }
+
+  // Bulk tag changes from the library; firestore.rules decides which of the items the user may change
+  private async updateTags(itemIds: string[], change: FieldValue): Promise<void> {
+    try {
+      for (let start = 0; start < itemIds.length; start += 450) {
+        const batch = writeBatch(this.firestore);
+        itemIds.slice(start, start + 450).forEach(itemId => {
+          batch.update(doc(this.firestore, 'libraries', itemId), { tags: change, updatedAt: serverTimestamp() });
+        });
+        await batch.commit();
+      }
+
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      throw new Error('Failed to update tags.');
+    }
+  }
+
+  /**
+   * Generate the item's summary again from its stored book data, in `language` and optionally with another
+   * model. A new language is added as a variant; an existing one is replaced and kept in the version history.
+   */
+  async regenerateSummary(item: UserLibraryItem, language: string, model?: string): Promise<void> {
+    try {
+      const result = await this.generateSummaries(item.bookData, language, { model });
+      const confidenceMetrics = await this.calculateConfidenceMetrics(item.bookData, result.summary, result.aiSummary);
+
+      await this.summaryVersionService.updateSummaries(item, result.summary.short, result.summary.detailed, {
+        source: 'generated',
+        language,
+        aiSummary: result.aiSummary,
+        confidenceMetrics,
+        generatedAt: result.summary.generatedAt
+      });
+
+    } catch (error) {
+      console.error('Error regenerating summary:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to regenerate summary.');
+    }
+  }
+
+  // The primary variant is shown first, exported by default and drives the item's confidence score.
+  // Approvals recorded before the approved language was stored cover the primary variant, so changing it returns them to draft.
+  async setPrimaryLanguage(item: UserLibraryItem, language: string): Promise<void> {
+    try {
+      const variant = item.summaries[language];
+      if (!item.id || !variant) {
+        throw new Error(`This item has no ${language.toUpperCase()} summary`);
+      }
+
+      await updateDoc(doc(this.firestore, 'libraries', item.id), {
+        summaries: item.summaries,
+        primaryLanguage: language,
+        ...(variant.aiSummary ? { aiSummary: variant.aiSummary } : {}),
+        ...(variant.confidenceMetrics ? { confidenceMetrics: variant.confidenceMetrics } : {}),
+        ...(getReviewStatus(item.review) === 'approved' && !item.review?.approvedLanguage && language !== item.primaryLanguage
+          ? { 'review.status': 'draft' }
+          : {}),
+        updatedAt: serverTimestamp()
+      });
+
+    } catch (error) {
+      console.error('Error setting primary language:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to change the primary language.');
+    }
+  }
+
+  // Versions of the removed variant stay in the history and can be restored
+  async removeSummaryVariant(item: UserLibraryItem, language: string): Promise<void> {
+    try {
+      if (!item.id || !item.summaries[language]) {
+        throw new Error(`This item has no ${language.toUpperCase()} summary`);
+      }
+      if (language === item.primaryLanguage) {
+        throw new Error('Choose another primary language before removing this summary');
+      }
+
+      const { [language]: _removed, ...summaries } = item.summaries;
+      await updateDoc(doc(this.firestore, 'libraries', item.id), {
+        summaries,
+        primaryLanguage: item.primaryLanguage,
+        updatedAt: serverTimestamp()
+      });
+
+    } catch (error) {
+      console.error('Error removing summary variant:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to remove summary.');
+    }
+  }
+
   async deleteFromUserLibrary(itemId: string): Promise<void> {
     try {
       const currentUser = await new Promise<any>((resolve) => {
@@ -673,18 +792,24 @@ export class BookService {
 
       const userId = currentUser.uid;
 
+      // Organization admins may delete items shared with their organization; the rules check the membership
       const existingItem = await this.getLibraryItemById(itemId);
-      if (!existingItem || existingItem.userId !== userId) {
+      if (!existingItem || (existingItem.userId !== userId && !existingItem.orgId)) {
         throw new Error('Unauthorized: Item does not belong to current user');
       }
 
+      await this.summaryVersionService.deleteVersions(itemId);
+      await this.annotationService.deleteMyAnnotations(itemId);
+
       const docRef = doc(this.firestore, 'libraries', itemId);
       await deleteDoc(docRef);
 
       console.log('Book deleted from library:', itemId);
 
-      const userLibrary = await this.getUserLibrary();
-      await this.userService.updateLibraryCount(userId, userLibrary.length);
+      if (existingItem.userId === userId) {
+        const userLibrary = await this.getUserLibrary();
+        await this.userService.updateLibraryCount(userId, userLibrary.length);
+      }
 
     } catch (error) {
       console.error('Error deleting from library:', error);
@@ -692,29 +817,6 @@ export class BookService {
     }
   }
 
-  async searchUserLibrary(searchTerm: string): Promise<UserLibraryItem[]> {
-    try {
-      const userLibrary = await this.getUserLibrary();
-
-      if (!searchTerm.trim()) {
-        return userLibrary;
-      }
-
-      const lowercaseSearch = searchTerm.toLowerCase();
-
-      return userLibrary.filter(item =>
-        item.bookData.title.toLowerCase().includes(lowercaseSearch) ||
-        item.bookData.authors.some(author => author.toLowerCase().includes(lowercaseSearch)) ||
-        item.bookData.categories.some(category => category.toLowerCase().includes(lowercaseSearch)) ||
-        item.bookData.publisher.toLowerCase().includes(lowercaseSearch)
-      );
-
-    } catch (error) {
-      console.error('Error searching user library:', error);
-      return [];
-    }
-  }
-
   async getLibraryStats(): Promise<{
     totalBooks: number;
     averageConfidence: number;
@@ -739,8 +841,9 @@ export class BookService {
       stats.averageConfidence = Math.round(totalConfidence / userLibrary.length);
 
       userLibrary.forEach(item => {
-        const lang = item.summaries.language;
-        stats.languageDistribution[lang] = (stats.languageDistribution[lang] || 0) + 1;
+        Object.keys(item.summaries).forEach(lang => {
+          stats.languageDistribution[lang] = (stats.languageDistribution[lang] || 0) + 1;
+        });
       });
 
       const categoryCount: Record<string, number> = {};
@@ -771,76 +874,30 @@ export class BookService {
     }
   }
 
-  private validateAndCleanSummaryLanguage(aiSummary: any, targetLanguage: string): any {
-    if (!aiSummary || targetLanguage === 'en') {
-      return aiSummary;
-    }
-
-    const targetReplacements = LANGUAGE_REPLACEMENTS[targetLanguage] || {};
-    const phrasePatterns = LANGUAGE_PHRASE_PATTERNS[targetLanguage] || {};
-    const wordPatterns = LANGUAGE_WORD_PATTERNS[targetLanguage] || {};
-
-    let hasChanges = false;
-    let shortSummary = aiSummary.shortSummary || '';
-    const originalShort = shortSummary;
-
-    Object.entries(phrasePatterns).forEach(([pattern, replacement]) => {
-      const regex = new RegExp(pattern, 'gi');
-      if (regex.test(shortSummary)) {
-        shortSummary = shortSummary.replace(regex, replacement);
-        hasChanges = true;
-      }
-    });
-
-    Object.entries(wordPatterns).forEach(([word, replacement]) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      if (regex.test(shortSummary)) {
-        shortSummary = shortSummary.replace(regex, replacement);
-        hasChanges = true;
-      }
-    });
-
-    FORBIDDEN_ENGLISH_WORDS.forEach(word => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      if (regex.test(shortSummary) && targetReplacements[word.toLowerCase()]) {
-        shortSummary = shortSummary.replace(regex, targetReplacements[word.toLowerCase()]);
-        hasChanges = true;
-      }
-    });
-
-    let detailedSummary = aiSummary.detailedSummary || '';
-    const originalDetailed = detailedSummary;
+  // Measure target-language purity for summaries that were not checked where they were generated
+  // (fallback templates, cached summaries from before the check), then rescore and ground the summary
+  // against the full book metadata so the factors match what calculateConfidenceMetrics reports
+  private applySummaryChecks(aiSummary: AIBookSummary, bookData: BookMetadata, targetLanguage: string): AIBookSummary {
+    const languageCheck = aiSummary.languageCheck ?? checkSummaryLanguage(aiSummary, targetLanguage);
 
-    Object.entries(phrasePatterns).forEach(([pattern, replacement]) => {
-      const regex = new RegExp(pattern, 'gi');
-      if (regex.test(detailedSummary)) {
-        detailedSummary = detailedSummary.replace(regex, replacement);
-        hasChanges = true;
-      }
-    });
+    if (languageCheck.flagged) {
+      console.warn(`Summary is only ${languageCheck.purity}% in ${targetLanguage}:`, languageCheck.offendingSentences);
+    }
 
-    Object.entries(wordPatterns).forEach(([word, replacement]) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      if (regex.test(detailedSummary)) {
-        detailedSummary = detailedSummary.replace(regex, replacement);
-        hasChanges = true;
-      }
+    const confidence = assessConfidence({
+      book: bookData,
+      summary: { ...aiSummary, languageCheck },
+      targetLanguage,
+      usesFallback: aiSummary.processingMethod === 'fallback_template'
     });
 
-    FORBIDDEN_ENGLISH_WORDS.forEach(word => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      if (regex.test(detailedSummary) && targetReplacements[word.toLowerCase()]) {
-        detailedSummary = detailedSummary.replace(regex, targetReplacements[word.toLowerCase()]);
-        hasChanges = true;
-      }
-    }); if (hasChanges) {
-      console.warn('Language mixing detected and corrected!');
-    }
-
     return {
       ...aiSummary,
-      shortSummary: shortSummary !== originalShort ? shortSummary : aiSummary.shortSummary,
-      detailedSummary: detailedSummary !== originalDetailed ? detailedSummary : aiSummary.detailedSummary
+      languageCheck,
+      grounding: analyzeGrounding(aiSummary.detailedSummary, bookData, targetLanguage),
+      sourceAttribution: confidence.sourceAttribution,
+      detailedConfidenceFactors: confidence.detailedConfidenceFactors,
+      confidenceFormulaVersion: confidence.formulaVersion
     };
   }
 }
@@ -1,7 +1,17 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpDownloadProgressEvent, HttpErrorResponse, HttpEventType, HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject } from 'rxjs';
 import { environment } from '../../../environments/environment';
-import { SummaryRequest, AIBookSummary, CloudFunctionResponse } from '../interfaces';
+import { AuthService } from './auth.service';
+import { SummaryRequest, AIBookSummary, CloudFunctionResponse, SummaryQuota, SummaryStreamProgress } from '../interfaces';
+
+// Refusals the user has to act on (session, role or plan limit); carries the HTTP status so callers need not match messages
+export class CloudFunctionError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'CloudFunctionError';
+    }
+}
 
 @Injectable({
     providedIn: 'root'
@@ -10,13 +20,24 @@ export class CloudFunctionService {
     private readonly FUNCTIONS_BASE_URL = environment.firebase.functionsBaseUrl;
     private lastRequestTime = 0;
     private readonly MIN_REQUEST_INTERVAL = 500;
+    private quotaSubject = new BehaviorSubject<SummaryQuota | null>(null);
+
+    public quota$ = this.quotaSubject.asObservable();
 
-    constructor(private http: HttpClient) { }
+    constructor(
+        private http: HttpClient,
+        private authService: AuthService
+    ) { }
 
-    async generateBookSummary(request: SummaryRequest): Promise<AIBookSummary> {
+    // Pass onProgress to stream the summary text as it is generated
+    async generateBookSummary(request: SummaryRequest, onProgress?: (progress: SummaryStreamProgress) => void): Promise<AIBookSummary> {
         //
-        return this.generateBookSummaryWithRetry(request, 0);
-    } private async generateBookSummaryWithRetry(request: SummaryRequest, attempt: number): Promise<AIBookSummary> {
+        return this.generateBookSummaryWithRetry(request, 0, onProgress);
+    } private async generateBookSummaryWithRetry(
+        request: SummaryRequest,
+        attempt: number,
+        onProgress?: (progress: SummaryStreamProgress) => void
+    ): Promise<AIBookSummary> {
         const maxAttempts = 3;
         const baseDelay = 1000;
         //
@@ -31,8 +52,14 @@ export class CloudFunctionService {
         this.lastRequestTime = Date.now();
 
         try {
+            const idToken = await this.authService.getIdToken();
+            if (!idToken) {
+                throw new CloudFunctionError('You must be signed in to generate summaries.', 401);
+            }
+
             const headers = new HttpHeaders({
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${idToken}`
             });
 
             const now = Date.now();
@@ -43,11 +70,13 @@ export class CloudFunctionService {
                 await new Promise(resolve => setTimeout(resolve, delay));
             }
 
-            const response = await this.http.post<CloudFunctionResponse>(
-                this.FUNCTIONS_BASE_URL,
-                request,
-                { headers }
-            ).toPromise();
+            const response = onProgress
+                ? await this.postStreaming(request, headers, onProgress)
+                : await this.http.post<CloudFunctionResponse>(
+                    this.FUNCTIONS_BASE_URL,
+                    request,
+                    { headers }
+                ).toPromise();
 
             this.lastRequestTime = Date.now();
 
@@ -55,6 +84,10 @@ export class CloudFunctionService {
                 throw new Error('No response from cloud function');
             }
 
+            if (response.quota) {
+                this.quotaSubject.next(response.quota);
+            }
+
             if (!response.success || !response.data) {
                 throw new Error(response.error || 'Failed to generate summary via cloud function');
             }
@@ -64,6 +97,26 @@ export class CloudFunctionService {
         } catch (error: any) {
             console.error(`Error calling cloud function (attempt ${attempt + 1}):`, error);
 
+            if (error instanceof CloudFunctionError) {
+                throw error;
+            }
+
+            // Per-user quota exhaustion is final, retrying would not help
+            if (error?.error?.quotaExceeded) {
+                if (error.error.quota) {
+                    this.quotaSubject.next(error.error.quota);
+                }
+                throw new CloudFunctionError(error.error.error, 429);
+            }
+
+            if (error?.status === 401) {
+                throw new CloudFunctionError('Your session has expired. Please sign in again.', 401);
+            }
+
+            if (error?.status === 403) {
+                throw new CloudFunctionError(error.error?.error || 'Your account is not allowed to generate summaries.', 403);
+            }
+
             const isRateLimit = error?.status === 429 ||
                 error?.error?.status === 429 ||
                 error?.message?.includes('429') ||
@@ -74,7 +127,7 @@ export class CloudFunctionService {
                 const delay = baseDelay * Math.pow(2, attempt);
 
                 await new Promise(resolve => setTimeout(resolve, delay));
-                return this.generateBookSummaryWithRetry(request, attempt + 1);
+                return this.generateBookSummaryWithRetry(request, attempt + 1, onProgress);
             }
 
             if (isRateLimit) {
@@ -87,6 +140,89 @@ export class CloudFunctionService {
         }
     }
 
+    // Streaming mode: reads the server-sent events as they arrive and resolves with the final `done` payload
+    private postStreaming(
+        request: SummaryRequest,
+        headers: HttpHeaders,
+        onProgress: (progress: SummaryStreamProgress) => void
+    ): Promise<CloudFunctionResponse | undefined> {
+        const progress: SummaryStreamProgress = { shortSummary: '', detailedSummary: '' };
+        let processedLength = 0;
+        let result: CloudFunctionResponse | undefined;
+
+        const handleEvents = (text: string) => {
+            const blocks = text.substring(processedLength).split('\n\n');
+            blocks.slice(0, -1).forEach(block => {
+                processedLength += block.length + 2;
+
+                const event = block.match(/^event: (.*)$/m)?.[1];
+                const data = block.match(/^data: (.*)$/m)?.[1];
+                if (!event || !data) return;
+
+                const payload = JSON.parse(data);
+                switch (event) {
+                    case 'short_delta':
+                        progress.shortSummary += payload.text;
+                        break;
+                    case 'detailed_delta':
+                        progress.detailedSummary += payload.text;
+                        break;
+                    case 'confidence':
+                        progress.confidenceScore = payload.confidenceScore;
+                        break;
+                    case 'done':
+                        result = payload;
+                        return;
+                    case 'error':
+                        result = { success: false, error: payload.error };
+                        return;
+                }
+                onProgress({ ...progress });
+            });
+        };
+
+        return new Promise((resolve, reject) => {
+            this.http.post(this.FUNCTIONS_BASE_URL, { ...request, stream: true }, {
+                headers,
+                observe: 'events',
+                reportProgress: true,
+                responseType: 'text'
+            }).subscribe({
+                next: event => {
+                    if (event.type === HttpEventType.DownloadProgress) {
+                        handleEvents((event as HttpDownloadProgressEvent).partialText || '');
+                    } else if (event.type === HttpEventType.Response) {
+                        // Servers without streaming support answer with the plain JSON contract
+                        if (event.headers.get('Content-Type')?.includes('text/event-stream')) {
+                            handleEvents(`${event.body || ''}\n\n`);
+                        } else if (event.body) {
+                            result = JSON.parse(event.body);
+                        }
+                    }
+                },
+                error: error => {
+                    // Error bodies arrive as text in this mode; parse them so callers see the usual JSON error
+                    if (error instanceof HttpErrorResponse && typeof error.error === 'string') {
+                        let body: any = error.error;
+                        try {
+                            body = JSON.parse(error.error);
+                        } catch { }
+                        reject(new HttpErrorResponse({
+                            error: body,
+                            headers: error.headers,
+                            status: error.status,
+                            statusText: error.statusText,
+                            url: error.url || undefined
+                        }));
+                    } else {
+                        reject(error);
+                    }
+                },
+                complete: () => resolve(result)
+            });
+        });
+    }
+
     isCloudFunctionEnabled(): boolean {
         return !!environment.firebase.functionsBaseUrl &&
             environment.useCloudFunctions === true;
@@ -0,0 +1,336 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    DocumentData,
+    addDoc,
+    collection,
+    deleteField,
+    doc,
+    getDoc,
+    getDocs,
+    orderBy,
+    query,
+    serverTimestamp,
+    setDoc,
+    updateDoc,
+    where,
+    WriteBatch,
+    writeBatch
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import { BookService } from './book.service';
+import {
+    AuthUser,
+    CollectionEntry,
+    CollectionKind,
+    LibraryCollection,
+    SharedCollection,
+    SharedCollectionEntry,
+    UserLibraryItem
+} from '../interfaces';
+import { getSummaryVariant } from '../utils/summary-variants';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class CollectionService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService,
+        private bookService: BookService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    async getCollections(): Promise<LibraryCollection[]> {
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser) {
+                return [];
+            }
+
+            const snapshot = await getDocs(query(collection(this.firestore, 'collections'), where('userId', '==', currentUser.uid)));
+            return snapshot.docs
+                .map(collectionDoc => this.toCollection(collectionDoc.id, collectionDoc.data()))
+                .sort((a, b) => a.name.localeCompare(b.name));
+
+        } catch (error) {
+            console.error('Error getting collections:', error);
+            return [];
+        }
+    }
+
+    async getCollection(collectionId: string): Promise<LibraryCollection | null> {
+        try {
+            const snapshot = await getDoc(doc(this.firestore, 'collections', collectionId));
+            return snapshot.exists() ? this.toCollection(snapshot.id, snapshot.data()) : null;
+
+        } catch (error) {
+            console.error('Error getting collection:', error);
+            throw new Error('Failed to load collection.');
+        }
+    }
+
+    async createCollection(name: string, kind: CollectionKind, description = ''): Promise<string> {
+        try {
+            const currentUser = await this.requireUser();
+
+            if (!name.trim()) {
+                throw new Error('Collection name is required');
+            }
+
+            const collectionRef = await addDoc(collection(this.firestore, 'collections'), {
+                userId: currentUser.uid,
+                name: name.trim(),
+                ...(description.trim() ? { description: description.trim() } : {}),
+                kind,
+                entries: [],
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            return collectionRef.id;
+
+        } catch (error) {
+            console.error('Error creating collection:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to create collection.');
+        }
+    }
+
+    async updateDetails(target: LibraryCollection, details: { name: string; description: string; kind: CollectionKind }): Promise<void> {
+        if (!details.name.trim()) {
+            throw new Error('Collection name is required');
+        }
+        await this.save(target, {
+            name: details.name.trim(),
+            description: details.description.trim() || deleteField(),
+            kind: details.kind
+        }, { ...target, name: details.name.trim(), description: details.description.trim() || undefined, kind: details.kind });
+    }
+
+    // Items already in the collection keep their place, note and checkmark
+    async addItems(target: LibraryCollection, itemIds: string[]): Promise<void> {
+        const present = new Set(target.entries.map(entry => entry.itemId));
+        const added = Array.from(new Set(itemIds))
+            .filter(itemId => !present.has(itemId))
+            .map(itemId => ({ itemId, addedAt: new Date() }));
+        await this.saveEntries(target, [...target.entries, ...added]);
+    }
+
+    async removeItems(target: LibraryCollection, itemIds: string[]): Promise<void> {
+        const removed = new Set(itemIds);
+        await this.saveEntries(target, target.entries.filter(entry => !removed.has(entry.itemId)));
+    }
+
+    /**
+     * Replace the entries, e.g. after reordering or editing notes. The whole array is written so the
+     * order is kept; serverTimestamp() is not allowed inside arrays, so entries carry client dates.
+     */
+    async saveEntries(target: LibraryCollection, entries: CollectionEntry[]): Promise<void> {
+        const cleaned = entries.map(entry => ({
+            itemId: entry.itemId,
+            ...(entry.note?.trim() ? { note: entry.note.trim() } : {}),
+            ...(entry.done ? { done: true } : {}),
+            addedAt: entry.addedAt
+        }));
+        await this.save(target, { entries: cleaned }, { ...target, entries: cleaned });
+    }
+
+    async deleteCollection(target: LibraryCollection): Promise<void> {
+        try {
+            if (target.shareId) {
+                await this.deleteSharedEntries(target.shareId);
+            }
+            const batch = writeBatch(this.firestore);
+            if (target.shareId) {
+                batch.delete(doc(this.firestore, 'sharedCollections', target.shareId));
+            }
+            batch.delete(doc(this.firestore, 'collections', target.id!));
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error deleting collection:', error);
+            throw new Error('Failed to delete collection.');
+        }
+    }
+
+    // Library items of the collection in its order; items deleted since they were added are left out
+    async getCollectionItems(target: LibraryCollection): Promise<UserLibraryItem[]> {
+        const items = await Promise.all(target.entries.map(entry =>
+            this.bookService.getLibraryItemById(entry.itemId).catch(() => null)
+        ));
+        return items.filter((item): item is UserLibraryItem => item !== null);
+    }
+
+    /**
+     * Publish a read-only copy of the collection and return its id for the share link. The copy is
+     * refreshed whenever the collection changes, until the link is revoked. Only the user's own items are copied.
+     */
+    async share(target: LibraryCollection): Promise<string> {
+        try {
+            const shareId = target.shareId || doc(collection(this.firestore, 'sharedCollections')).id;
+            await this.publish({ ...target, shareId });
+            if (!target.shareId) {
+                await updateDoc(doc(this.firestore, 'collections', target.id!), { shareId, updatedAt: serverTimestamp() });
+            }
+            return shareId;
+
+        } catch (error) {
+            console.error('Error sharing collection:', error);
+            throw new Error('Failed to create share link.');
+        }
+    }
+
+    async revokeShare(target: LibraryCollection): Promise<void> {
+        try {
+            if (!target.shareId) return;
+
+            await this.deleteSharedEntries(target.shareId);
+            const batch = writeBatch(this.firestore);
+            batch.delete(doc(this.firestore, 'sharedCollections', target.shareId));
+            batch.update(doc(this.firestore, 'collections', target.id!), { shareId: deleteField(), updatedAt: serverTimestamp() });
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error revoking share link:', error);
+            throw new Error('Failed to revoke share link.');
+        }
+    }
+
+    // Readable without signing in; the unguessable id is what keeps the copy private
+    async getSharedCollection(shareId: string): Promise<SharedCollection | null> {
+        try {
+            const snapshot = await getDoc(doc(this.firestore, 'sharedCollections', shareId));
+            if (!snapshot.exists()) {
+                return null;
+            }
+            const data = snapshot.data();
+            const entries = await getDocs(query(collection(snapshot.ref, 'entries'), orderBy('position')));
+            return {
+                id: snapshot.id,
+                ...data,
+                entries: entries.docs.map(entryDoc => {
+                    const { position, ...entry } = entryDoc.data();
+                    return entry as SharedCollectionEntry;
+                }),
+                publishedAt: data['publishedAt']?.toDate() || new Date()
+            } as SharedCollection;
+
+        } catch (error) {
+            console.error('Error getting shared collection:', error);
+            throw new Error('Failed to load shared collection.');
+        }
+    }
+
+    getShareUrl(shareId: string): string {
+        return `${window.location.origin}/shared/${shareId}`;
+    }
+
+    private async save(target: LibraryCollection, fields: DocumentData, updated: LibraryCollection): Promise<void> {
+        try {
+            await updateDoc(doc(this.firestore, 'collections', target.id!), { ...fields, updatedAt: serverTimestamp() });
+            if (updated.shareId) {
+                await this.publish(updated);
+            }
+
+        } catch (error) {
+            console.error('Error updating collection:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to update collection.');
+        }
+    }
+
+    /**
+     * Write the shared copy. Only the user's own items are published: items shared with them through a team
+     * or organization stay in the collection but are left out of the link, and the security rules refuse them.
+     * Entries are stored one per item in sharedCollections/{shareId}/entries/{itemId} so the rules can check
+     * each item's owner.
+     */
+    private async publish(target: LibraryCollection): Promise<void> {
+        const currentUser = await this.requireUser();
+        const items = new Map((await this.getCollectionItems(target))
+            .filter(item => item.userId === currentUser.uid)
+            .map(item => [item.id, item]));
+        const shareRef = doc(this.firestore, 'sharedCollections', target.shareId!);
+
+        await setDoc(shareRef, {
+            userId: currentUser.uid,
+            collectionId: target.id,
+            ...(currentUser.displayName ? { ownerName: currentUser.displayName } : {}),
+            name: target.name,
+            ...(target.description ? { description: target.description } : {}),
+            kind: target.kind,
+            publishedAt: serverTimestamp()
+        });
+
+        const entries = target.entries.filter(entry => items.has(entry.itemId));
+        const published = new Set(entries.map(entry => entry.itemId));
+        const stale = (await getDocs(collection(shareRef, 'entries'))).docs.filter(entryDoc => !published.has(entryDoc.id));
+
+        const writes: ((batch: WriteBatch) => void)[] = [
+            ...stale.map(entryDoc => (batch: WriteBatch) => batch.delete(entryDoc.ref)),
+            ...entries.map((entry, position) => (batch: WriteBatch) => {
+                const item = items.get(entry.itemId)!;
+                const variant = getSummaryVariant(item);
+                const sharedEntry: SharedCollectionEntry = {
+                    title: item.bookData.title,
+                    authors: item.bookData.authors,
+                    isbn: item.bookData.isbn,
+                    thumbnail: item.bookData.imageLinks?.thumbnail || '',
+                    language: variant.language,
+                    shortSummary: variant.short,
+                    detailedSummary: variant.detailed,
+                    ...(entry.note ? { note: entry.note } : {}),
+                    ...(entry.done ? { done: true } : {})
+                };
+                batch.set(doc(shareRef, 'entries', entry.itemId), { ...sharedEntry, position });
+            })
+        ];
+        await this.commitInChunks(writes);
+    }
+
+    private async deleteSharedEntries(shareId: string): Promise<void> {
+        const snapshot = await getDocs(collection(this.firestore, 'sharedCollections', shareId, 'entries'));
+        await this.commitInChunks(snapshot.docs.map(entryDoc => (batch: WriteBatch) => batch.delete(entryDoc.ref)));
+    }
+
+    // Firestore batches hold at most 500 writes
+    private async commitInChunks(writes: ((batch: WriteBatch) => void)[]): Promise<void> {
+        for (let start = 0; start < writes.length; start += 500) {
+            const batch = writeBatch(this.firestore);
+            writes.slice(start, start + 500).forEach(write => write(batch));
+            await batch.commit();
+        }
+    }
+
+    private toCollection(id: string, data: DocumentData): LibraryCollection {
+        return {
+            id,
+            ...data,
+            entries: (data['entries'] || []).map((entry: DocumentData) => ({
+                ...entry,
+                addedAt: entry['addedAt']?.toDate?.() || new Date()
+            })),
+            createdAt: data['createdAt']?.toDate() || new Date(),
+            updatedAt: data['updatedAt']?.toDate()
+        } as LibraryCollection;
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await this.getCurrentUser();
+        if (!currentUser) {
+            throw new Error('User must be logged in to manage collections');
+        }
+        return currentUser;
+    }
+
+    private getCurrentUser(): Promise<AuthUser | null> {
+        return new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+    }
+}
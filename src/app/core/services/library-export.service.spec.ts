@@ -0,0 +1,45 @@
+import { SummaryVariant, UserLibraryItem } from '../interfaces';
+import { LibraryExportService } from './library-export.service';
+
+function variant(language: string): SummaryVariant {
+    return { short: 'Resumen', detailed: 'Resumen detallado', language, generatedAt: new Date('2024-05-01') };
+}
+
+function item(fields: Partial<UserLibraryItem> = {}): UserLibraryItem {
+    return {
+        id: 'item-1',
+        bookData: { title: 'Cien años de soledad', authors: ['Gabriel García Márquez'], isbn: '9780060883287' },
+        summaries: { es: variant('es'), en: variant('en') },
+        primaryLanguage: 'es',
+        createdAt: new Date('2024-05-01'),
+        userId: 'user-1',
+        review: { status: 'approved', approvedLanguage: 'es', comments: [] },
+        ...fields
+    } as UserLibraryItem;
+}
+
+describe('LibraryExportService', () => {
+    let service: LibraryExportService;
+
+    beforeEach(() => {
+        service = new LibraryExportService();
+        spyOn(console, 'error');
+    });
+
+    it('refuses official exports of items that are not approved', async () => {
+        const items = [item(), item({ id: 'item-2', review: { status: 'in_review', comments: [] } })];
+
+        await expectAsync(service.exportItems(items, 'txt', () => variant('es'), true))
+            .toBeRejectedWithError('Only approved summaries can be exported as official');
+    });
+
+    it('refuses official exports of a language other than the approved one', async () => {
+        await expectAsync(service.exportItems([item()], 'txt', () => variant('en'), true))
+            .toBeRejectedWithError('Only the approved language of a summary can be exported as official');
+    });
+
+    it('refuses to export nothing', async () => {
+        await expectAsync(service.exportItems([], 'txt', () => variant('es')))
+            .toBeRejectedWithError('There are no summaries to export');
+    });
+});
@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+import { EXPORT_FORMATS, ExportEntry, ExportFile, ExportFormat, ExportImage } from '../export/export-formats';
+import { readImageInfo } from '../export/image-info';
+import { renderExport } from '../export/render-export';
+import { getApprovedLanguage } from '../utils/review-workflow';
+import { SummaryAnnotation, SummaryVariant, UserLibraryItem } from '../interfaces';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class LibraryExportService {
+
+    /**
+     * Export one or more library items, each with the summary variant returned by `variantOf` and the
+     * annotations on that variant. Official exports are only available when every item is approved
+     * and the variant exported is the one that was approved. Resolves to the warnings the user should
+     * see about the downloaded file, such as letters the PDF font could not show.
+     */
+    async exportItems(
+        items: UserLibraryItem[],
+        format: ExportFormat,
+        variantOf: (item: UserLibraryItem) => SummaryVariant,
+        official = false,
+        annotationsOf: (item: UserLibraryItem) => SummaryAnnotation[] = () => []
+    ): Promise<string[]> {
+        try {
+            if (items.length === 0) {
+                throw new Error('There are no summaries to export');
+            }
+            if (official && items.some(item => getApprovedLanguage(item) === null)) {
+                throw new Error('Only approved summaries can be exported as official');
+            }
+            if (official && items.some(item => variantOf(item).language !== getApprovedLanguage(item))) {
+                throw new Error('Only the approved language of a summary can be exported as official');
+            }
+
+            // Bibliographic and text formats have no images, so covers are only fetched for reports
+            const withCovers = format === 'pdf' || format === 'docx';
+            const entries: ExportEntry[] = await Promise.all(items.map(async item => {
+                const cover = withCovers ? await this.fetchCover(item) : null;
+                const variant = variantOf(item);
+                const annotations = annotationsOf(item).filter(annotation => annotation.language === variant.language);
+                return {
+                    item,
+                    variant,
+                    ...(cover ? { cover } : {}),
+                    ...(annotations.length > 0 ? { annotations } : {})
+                };
+            }));
+
+            const file = renderExport(entries, format, { official, exportedAt: new Date() });
+            this.download(file);
+            return file.warnings || [];
+
+        } catch (error) {
+            console.error(`Error exporting ${EXPORT_FORMATS[format].label}:`, error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to export summaries.');
+        }
+    }
+
+    // Covers are optional: offline, blocked by CORS or in an unreadable format, the report is made without them
+    private async fetchCover(item: UserLibraryItem): Promise<ExportImage | null> {
+        const url = item.bookData.imageLinks?.thumbnail;
+        if (!url) {
+            return null;
+        }
+
+        try {
+            const response = await fetch(url.replace(/^http:/, 'https:'));
+            if (!response.ok) {
+                return null;
+            }
+            return readImageInfo(new Uint8Array(await response.arrayBuffer()));
+
+        } catch (error) {
+            console.warn('Cover not available for export:', url, error);
+            return null;
+        }
+    }
+
+    private download(file: ExportFile): void {
+        const blob = new Blob([file.content as BlobPart], { type: file.mimeType });
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.filename;
+        link.click();
+        window.URL.revokeObjectURL(url);
+    }
+}
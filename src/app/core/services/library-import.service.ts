@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+import { BookService } from './book.service';
+import { BatchJobService } from './batch-job.service';
+import { ImportFormat, ImportCandidate, parseImportFile } from '../import/import-parsers';
+import { ImportPlanRow } from '../import/import-plan';
+import { BookMetadata, UserLibraryItem } from '../interfaces';
+
+// A parsed file with the library its records are checked against; planImport turns it into the dry run
+export interface LibraryImportPreview {
+    format: ImportFormat;
+    candidates: ImportCandidate[];
+    library: UserLibraryItem[];
+}
+
+export interface LibraryImportResult {
+    created: number;
+    queued: number;
+    jobIds: string[];
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class LibraryImportService {
+
+    constructor(
+        private bookService: BookService,
+        private batchJobService: BatchJobService
+    ) { }
+
+    // Nothing is written until runImport; duplicates are checked against the current user's library
+    async preview(content: string): Promise<LibraryImportPreview> {
+        const parsed = parseImportFile(content);
+        const library = await this.bookService.getUserLibrary();
+        return { format: parsed.format, candidates: parsed.candidates, library };
+    }
+
+    async runImport(rows: ImportPlanRow[], language: string): Promise<LibraryImportResult> {
+        try {
+            const toCreate = rows.filter(row => row.action === 'create').map(row => row.candidate);
+            const toGenerate = rows.filter(row => row.action === 'generate').map(row => row.candidate.isbn!);
+
+            const items = await Promise.all(toCreate.map(candidate => this.toLibraryItem(candidate)));
+            if (items.length > 0) {
+                await this.bookService.importToUserLibrary(items);
+            }
+
+            // Batch jobs are limited in size, so long lists become several jobs
+            const jobIds: string[] = [];
+            for (let start = 0; start < toGenerate.length; start += this.batchJobService.MAX_ITEMS_PER_JOB) {
+                jobIds.push(await this.batchJobService.createJob(
+                    toGenerate.slice(start, start + this.batchJobService.MAX_ITEMS_PER_JOB),
+                    language
+                ));
+            }
+
+            return { created: items.length, queued: toGenerate.length, jobIds };
+
+        } catch (error) {
+            console.error('Error importing library:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to import library.');
+        }
+    }
+
+    // Imported items start a fresh review and are private, whatever their state was where they came from
+    private async toLibraryItem(candidate: ImportCandidate): Promise<UserLibraryItem> {
+        const stored = candidate.stored!;
+        const bookData = this.toBookMetadata(candidate);
+        const primary = stored.summaries[stored.primaryLanguage];
+        const confidenceMetrics = stored.confidenceMetrics || primary.confidenceMetrics
+            || await this.bookService.calculateConfidenceMetrics(bookData, primary, primary.aiSummary);
+        const aiSummary = stored.aiSummary || primary.aiSummary;
+
+        return {
+            bookData,
+            summaries: stored.summaries,
+            primaryLanguage: stored.primaryLanguage,
+            confidenceMetrics,
+            ...(aiSummary ? { aiSummary } : {}),
+            createdAt: stored.createdAt || new Date(),
+            userId: ''
+        };
+    }
+
+    private toBookMetadata(candidate: ImportCandidate): BookMetadata {
+        const metadata = candidate.metadata;
+        return {
+            ...metadata,
+            isbn: candidate.isbn || metadata.isbn || '',
+            title: candidate.title,
+            authors: candidate.authors.length > 0 ? candidate.authors : ['Unknown Author'],
+            publisher: metadata.publisher || '',
+            publishedDate: metadata.publishedDate || '',
+            description: metadata.description || '',
+            pageCount: metadata.pageCount || 0,
+            categories: metadata.categories || [],
+            averageRating: metadata.averageRating || 0,
+            ratingsCount: metadata.ratingsCount || 0,
+            imageLinks: metadata.imageLinks || { thumbnail: '', small: '', medium: '', large: '' },
+            language: metadata.language || candidate.stored?.primaryLanguage || 'en'
+        };
+    }
+}
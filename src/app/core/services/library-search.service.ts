@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+import { BookService } from './book.service';
+import { InProcessSearchBackend } from '../search/in-process-search-backend';
+import { ServerSearchBackend } from '../search/server-search-backend';
+import {
+    LibrarySearchBackend,
+    LibrarySearchPage,
+    LibrarySearchQuery,
+    SummaryAnnotation,
+    UserLibraryItem
+} from '../interfaces';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class LibrarySearchService {
+    private backend: LibrarySearchBackend = new InProcessSearchBackend();
+
+    // With a search function configured, scopes are indexed from Firestore on the server instead of
+    // from the items the library page loaded
+    constructor(authService: AuthService, bookService: BookService) {
+        const url = environment.firebase.searchFunctionUrl;
+        if (url) {
+            this.setBackend(new ServerSearchBackend(url, () => authService.getIdToken(), ids => bookService.getLibraryItems(ids)));
+        }
+    }
+
+    // Replaces the backend, e.g. with a hosted search engine
+    setBackend(backend: LibrarySearchBackend): void {
+        this.backend = backend;
+    }
+
+    async index(scope: string, items: UserLibraryItem[], annotations?: Map<string, SummaryAnnotation[]>): Promise<void> {
+        try {
+            await this.backend.index(scope, items, annotations);
+
+        } catch (error) {
+            console.error(`Error indexing library scope ${scope} with ${this.backend.id}:`, error);
+            throw new Error('Failed to index library for search.');
+        }
+    }
+
+    async search(scope: string, query: LibrarySearchQuery): Promise<LibrarySearchPage> {
+        try {
+            return await this.backend.search(scope, query);
+
+        } catch (error) {
+            console.error(`Error searching library scope ${scope} with ${this.backend.id}:`, error);
+            throw new Error('Failed to search library.');
+        }
+    }
+
+    // Every match of a query, following the cursors; used for exports of a search result
+    async searchAll(scope: string, query: LibrarySearchQuery): Promise<UserLibraryItem[]> {
+        const items: UserLibraryItem[] = [];
+        let cursor: string | null = null;
+        do {
+            const page: LibrarySearchPage = await this.search(scope, { ...query, cursor, limit: 200 });
+            items.push(...page.items);
+            cursor = page.nextCursor;
+        } while (cursor);
+        return items;
+    }
+}
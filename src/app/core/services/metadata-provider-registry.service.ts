@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { BookMetadata, BookMetadataProvider } from '../interfaces';
+import { lookupMetadata, rankProviders } from '../metadata/metadata-lookup';
+import { GoogleBooksProvider } from './metadata-providers/google-books.provider';
+import { OpenLibraryProvider } from './metadata-providers/open-library.provider';
+import { LocalCatalogueProvider } from './metadata-providers/local-catalogue.provider';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class MetadataProviderRegistryService {
+    private providers = new Map<string, BookMetadataProvider>();
+
+    constructor(
+        localCatalogue: LocalCatalogueProvider,
+        googleBooks: GoogleBooksProvider,
+        openLibrary: OpenLibraryProvider
+    ) {
+        [localCatalogue, googleBooks, openLibrary].forEach(provider => this.register(provider));
+    }
+
+    register(provider: BookMetadataProvider): void {
+        this.providers.set(provider.id, provider);
+    }
+
+    unregister(providerId: string): void {
+        this.providers.delete(providerId);
+    }
+
+    // Providers in priority order: the configured order first, any other registered provider after
+    getProviders(): BookMetadataProvider[] {
+        return rankProviders(Array.from(this.providers.values()), environment.metadataProviders.order);
+    }
+
+    async lookup(isbn: string): Promise<BookMetadata> {
+        const metadata = await lookupMetadata(isbn, this.getProviders());
+
+        if (!metadata) {
+            throw new Error('Book not found. Please check the ISBN and try again.');
+        }
+
+        return metadata;
+    }
+}
@@ -0,0 +1,13 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { GoogleBooksMetadataProvider } from '../../metadata/google-books.provider';
+import { httpMetadataClient } from './http-metadata-client';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class GoogleBooksProvider extends GoogleBooksMetadataProvider {
+    constructor(http: HttpClient) {
+        super(httpMetadataClient(http));
+    }
+}
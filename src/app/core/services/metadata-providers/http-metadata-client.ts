@@ -0,0 +1,9 @@
+import { HttpClient } from '@angular/common/http';
+import { MetadataHttpClient } from '../../metadata/metadata-lookup';
+
+export function httpMetadataClient(http: HttpClient): MetadataHttpClient {
+    return {
+        getJson: url => http.get(url).toPromise(),
+        getText: url => http.get(url, { responseType: 'text' }).toPromise() as Promise<string>
+    };
+}
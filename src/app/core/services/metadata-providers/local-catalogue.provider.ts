@@ -0,0 +1,14 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { environment } from '../../../../environments/environment';
+import { LocalCatalogueMetadataProvider } from '../../metadata/local-catalogue.provider';
+import { httpMetadataClient } from './http-metadata-client';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class LocalCatalogueProvider extends LocalCatalogueMetadataProvider {
+    constructor(http: HttpClient) {
+        super(httpMetadataClient(http), environment.metadataProviders.localCatalogueUrl);
+    }
+}
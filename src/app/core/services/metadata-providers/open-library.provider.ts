@@ -0,0 +1,13 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { OpenLibraryMetadataProvider } from '../../metadata/open-library.provider';
+import { httpMetadataClient } from './http-metadata-client';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class OpenLibraryProvider extends OpenLibraryMetadataProvider {
+    constructor(http: HttpClient) {
+        super(httpMetadataClient(http));
+    }
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BookService } from './book.service';
 import { AuthService } from './auth.service';
+import { normalizeSummaries } from '../utils/summary-variants';
 
 @Injectable({
     providedIn: 'root'
@@ -41,10 +42,13 @@ export class MigrationService {
                 try {
                     const libraryItem = {
                         bookData: item.bookData,
-                        summaries: {
-                            ...item.summaries,
-                            generatedAt: new Date(item.summaries.generatedAt)
-                        },
+                        ...normalizeSummaries({
+                            ...item,
+                            summaries: {
+                                ...item.summaries,
+                                generatedAt: new Date(item.summaries.generatedAt)
+                            }
+                        }),
                         confidenceMetrics: item.confidenceMetrics,
                         aiSummary: item.aiSummary,
                         createdAt: new Date(item.createdAt),
@@ -0,0 +1,370 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    DocumentData,
+    addDoc,
+    collection,
+    collectionGroup,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import {
+    AuthUser,
+    Organization,
+    OrganizationInvitation,
+    OrganizationMember,
+    OrganizationRole,
+    OrganizationTeam
+} from '../interfaces';
+
+export interface OrganizationMembership {
+    organization: Organization;
+    member: OrganizationMember;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class OrganizationService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    async createOrganization(name: string): Promise<string> {
+        try {
+            const currentUser = await this.requireUser();
+
+            if (!name.trim()) {
+                throw new Error('Organization name is required');
+            }
+
+            // The owner's member document is written in the same batch; the rules check one against the other
+            const orgRef = doc(collection(this.firestore, 'organizations'));
+            const batch = writeBatch(this.firestore);
+
+            batch.set(orgRef, {
+                name: name.trim(),
+                ownerId: currentUser.uid,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            batch.set(doc(orgRef, 'members', currentUser.uid), {
+                uid: currentUser.uid,
+                orgId: orgRef.id,
+                email: (currentUser.email || '').toLowerCase(),
+                ...(currentUser.displayName ? { displayName: currentUser.displayName } : {}),
+                role: 'owner',
+                teamIds: [],
+                joinedAt: serverTimestamp()
+            });
+
+            await batch.commit();
+            return orgRef.id;
+
+        } catch (error) {
+            console.error('Error creating organization:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to create organization.');
+        }
+    }
+
+    // Organizations the current user belongs to, with their membership in each
+    async getMyOrganizations(): Promise<OrganizationMembership[]> {
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser) {
+                return [];
+            }
+
+            const membersSnapshot = await getDocs(
+                query(collectionGroup(this.firestore, 'members'), where('uid', '==', currentUser.uid))
+            );
+
+            const memberships = await Promise.all(membersSnapshot.docs.map(async memberDoc => {
+                const orgSnapshot = await getDoc(doc(this.firestore, 'organizations', memberDoc.data()['orgId']));
+                if (!orgSnapshot.exists()) {
+                    return null;
+                }
+                return {
+                    organization: this.toOrganization(orgSnapshot.id, orgSnapshot.data()),
+                    member: this.toMember(memberDoc.data())
+                };
+            }));
+
+            return memberships
+                .filter((membership): membership is OrganizationMembership => membership !== null)
+                .sort((a, b) => a.organization.name.localeCompare(b.organization.name));
+
+        } catch (error) {
+            console.error('Error getting organizations:', error);
+            return [];
+        }
+    }
+
+    async getMembers(orgId: string): Promise<OrganizationMember[]> {
+        try {
+            const snapshot = await getDocs(collection(this.firestore, 'organizations', orgId, 'members'));
+            return snapshot.docs
+                .map(memberDoc => this.toMember(memberDoc.data()))
+                .sort((a, b) => a.email.localeCompare(b.email));
+
+        } catch (error) {
+            console.error('Error getting organization members:', error);
+            throw new Error('Failed to load organization members.');
+        }
+    }
+
+    async updateMember(orgId: string, uid: string, updates: { role?: Exclude<OrganizationRole, 'owner'>; teamIds?: string[] }): Promise<void> {
+        try {
+            await updateDoc(doc(this.firestore, 'organizations', orgId, 'members', uid), updates);
+
+        } catch (error) {
+            console.error('Error updating organization member:', error);
+            throw new Error('Failed to update organization member.');
+        }
+    }
+
+    // Also used to leave an organization; the owner cannot be removed. Pending invitations to the member's
+    // email are closed in the same batch, so an old invitation cannot bring them back: admins revoke them,
+    // members leaving decline their own.
+    async removeMember(orgId: string, member: OrganizationMember): Promise<void> {
+        try {
+            const currentUser = await this.requireUser();
+            const invitations = await getDocs(query(
+                collection(this.firestore, 'invitations'),
+                where('orgId', '==', orgId),
+                where('email', '==', member.email),
+                where('status', '==', 'pending')
+            ));
+
+            const batch = writeBatch(this.firestore);
+            batch.delete(doc(this.firestore, 'organizations', orgId, 'members', member.uid));
+            invitations.docs.forEach(invitationDoc => batch.update(invitationDoc.ref, {
+                status: member.uid === currentUser.uid ? 'declined' : 'revoked',
+                respondedAt: serverTimestamp()
+            }));
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error removing organization member:', error);
+            throw new Error('Failed to remove organization member.');
+        }
+    }
+
+    async getTeams(orgId: string): Promise<OrganizationTeam[]> {
+        try {
+            const snapshot = await getDocs(collection(this.firestore, 'organizations', orgId, 'teams'));
+            return snapshot.docs
+                .map(teamDoc => {
+                    const data = teamDoc.data();
+                    return {
+                        id: teamDoc.id,
+                        ...data,
+                        createdAt: data['createdAt']?.toDate() || new Date()
+                    } as OrganizationTeam;
+                })
+                .sort((a, b) => a.name.localeCompare(b.name));
+
+        } catch (error) {
+            console.error('Error getting organization teams:', error);
+            throw new Error('Failed to load organization teams.');
+        }
+    }
+
+    async createTeam(orgId: string, name: string): Promise<string> {
+        try {
+            if (!name.trim()) {
+                throw new Error('Team name is required');
+            }
+
+            const teamRef = await addDoc(collection(this.firestore, 'organizations', orgId, 'teams'), {
+                name: name.trim(),
+                createdAt: serverTimestamp()
+            });
+            return teamRef.id;
+
+        } catch (error) {
+            console.error('Error creating team:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to create team.');
+        }
+    }
+
+    async inviteMember(
+        organization: Organization,
+        email: string,
+        role: Exclude<OrganizationRole, 'owner'>,
+        teamIds: string[] = []
+    ): Promise<string> {
+        try {
+            const currentUser = await this.requireUser();
+            const normalizedEmail = email.trim().toLowerCase();
+
+            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+                throw new Error('Please enter a valid email address');
+            }
+
+            const invitationRef = await addDoc(collection(this.firestore, 'invitations'), {
+                orgId: organization.id,
+                orgName: organization.name,
+                email: normalizedEmail,
+                role,
+                teamIds,
+                invitedBy: currentUser.uid,
+                status: 'pending',
+                createdAt: serverTimestamp()
+            });
+            return invitationRef.id;
+
+        } catch (error) {
+            console.error('Error inviting member:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to send invitation.');
+        }
+    }
+
+    async getPendingInvitations(orgId: string): Promise<OrganizationInvitation[]> {
+        try {
+            const snapshot = await getDocs(query(
+                collection(this.firestore, 'invitations'),
+                where('orgId', '==', orgId),
+                where('status', '==', 'pending')
+            ));
+            return snapshot.docs.map(invitationDoc => this.toInvitation(invitationDoc.id, invitationDoc.data()));
+
+        } catch (error) {
+            console.error('Error getting invitations:', error);
+            throw new Error('Failed to load invitations.');
+        }
+    }
+
+    // Pending invitations addressed to the current user's sign-in email
+    async getMyInvitations(): Promise<OrganizationInvitation[]> {
+        try {
+            const currentUser = await this.getCurrentUser();
+
+            if (!currentUser?.email) {
+                return [];
+            }
+
+            const snapshot = await getDocs(query(
+                collection(this.firestore, 'invitations'),
+                where('email', '==', currentUser.email.toLowerCase()),
+                where('status', '==', 'pending')
+            ));
+            return snapshot.docs.map(invitationDoc => this.toInvitation(invitationDoc.id, invitationDoc.data()));
+
+        } catch (error) {
+            console.error('Error getting my invitations:', error);
+            return [];
+        }
+    }
+
+    async acceptInvitation(invitation: OrganizationInvitation): Promise<void> {
+        const currentUser = await this.requireUser();
+        if (!currentUser.emailVerified) {
+            throw new Error('Verify your email address in Settings before accepting an invitation.');
+        }
+
+        try {
+            const batch = writeBatch(this.firestore);
+
+            // The rules only accept a member document that matches a pending invitation for this email,
+            // accepted in the same batch
+            batch.set(doc(this.firestore, 'organizations', invitation.orgId, 'members', currentUser.uid), {
+                uid: currentUser.uid,
+                orgId: invitation.orgId,
+                email: (currentUser.email || '').toLowerCase(),
+                ...(currentUser.displayName ? { displayName: currentUser.displayName } : {}),
+                role: invitation.role,
+                teamIds: invitation.teamIds,
+                inviteId: invitation.id,
+                joinedAt: serverTimestamp()
+            });
+            batch.update(doc(this.firestore, 'invitations', invitation.id!), {
+                status: 'accepted',
+                respondedAt: serverTimestamp()
+            });
+
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error accepting invitation:', error);
+            throw new Error('Failed to accept invitation.');
+        }
+    }
+
+    async declineInvitation(invitationId: string): Promise<void> {
+        await this.setInvitationStatus(invitationId, 'declined');
+    }
+
+    async revokeInvitation(invitationId: string): Promise<void> {
+        await this.setInvitationStatus(invitationId, 'revoked');
+    }
+
+    private async setInvitationStatus(invitationId: string, status: 'declined' | 'revoked'): Promise<void> {
+        try {
+            await updateDoc(doc(this.firestore, 'invitations', invitationId), {
+                status,
+                respondedAt: serverTimestamp()
+            });
+
+        } catch (error) {
+            console.error(`Error setting invitation ${status}:`, error);
+            throw new Error('Failed to update invitation.');
+        }
+    }
+
+    private toOrganization(id: string, data: DocumentData): Organization {
+        return {
+            id,
+            ...data,
+            createdAt: data['createdAt']?.toDate() || new Date(),
+            updatedAt: data['updatedAt']?.toDate()
+        } as Organization;
+    }
+
+    private toMember(data: DocumentData): OrganizationMember {
+        return {
+            ...data,
+            teamIds: data['teamIds'] || [],
+            joinedAt: data['joinedAt']?.toDate() || new Date()
+        } as OrganizationMember;
+    }
+
+    private toInvitation(id: string, data: DocumentData): OrganizationInvitation {
+        return {
+            id,
+            ...data,
+            createdAt: data['createdAt']?.toDate() || new Date(),
+            respondedAt: data['respondedAt']?.toDate()
+        } as OrganizationInvitation;
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await this.getCurrentUser();
+        if (!currentUser) {
+            throw new Error('User must be logged in to manage organizations');
+        }
+        return currentUser;
+    }
+
+    private getCurrentUser(): Promise<AuthUser | null> {
+        return new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+    }
+}
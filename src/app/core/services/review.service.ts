@@ -0,0 +1,179 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    arrayUnion,
+    deleteField,
+    doc,
+    serverTimestamp,
+    updateDoc
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import { BookService } from './book.service';
+import { SummaryVersionService } from './summary-version.service';
+import { AuthUser, ReviewStatus, UserLibraryItem } from '../interfaces';
+import { REVIEW_STATUS_LABELS, canTransition, getReviewStatus, isValidRating } from '../utils/review-workflow';
+import { getSummaryVariant } from '../utils/summary-variants';
+
+export interface ReviewerChoice {
+    uid: string;
+    name: string;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ReviewService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService,
+        private bookService: BookService,
+        private summaryVersionService: SummaryVersionService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    // Items waiting for the current user's decision
+    async getAssignedReviews(): Promise<UserLibraryItem[]> {
+        const currentUser = await this.requireUser();
+        return this.bookService.getReviewQueue(currentUser.uid);
+    }
+
+    async submitForReview(item: UserLibraryItem, reviewer?: ReviewerChoice): Promise<void> {
+        await this.transition(item, 'in_review', {
+            'review.submittedAt': serverTimestamp(),
+            ...(reviewer ? this.reviewerFields(reviewer) : {})
+        });
+    }
+
+    async assignReviewer(item: UserLibraryItem, reviewer: ReviewerChoice | null): Promise<void> {
+        try {
+            await this.update(item, reviewer ? this.reviewerFields(reviewer) : {
+                'review.reviewerId': deleteField(),
+                'review.reviewerName': deleteField()
+            });
+
+        } catch (error) {
+            console.error('Error assigning reviewer:', error);
+            throw new Error('Failed to assign reviewer.');
+        }
+    }
+
+    // Only the assigned reviewer can approve or reject, and never their own summary; firestore.rules enforces the same.
+    // The optional 1-5 rating is compared across prompt versions.
+    async approve(item: UserLibraryItem, rating?: number): Promise<void> {
+        await this.decide(item, 'approved', rating);
+    }
+
+    async reject(item: UserLibraryItem, reason: string, rating?: number): Promise<void> {
+        if (reason.trim()) {
+            await this.addComment(item, reason);
+        }
+        await this.decide(item, 'rejected', rating);
+    }
+
+    async returnToDraft(item: UserLibraryItem): Promise<void> {
+        await this.transition(item, 'draft', {});
+    }
+
+    async addComment(item: UserLibraryItem, text: string): Promise<void> {
+        try {
+            const currentUser = await this.requireUser();
+            if (!text.trim()) {
+                throw new Error('Comment cannot be empty');
+            }
+
+            // serverTimestamp() is not allowed inside arrays
+            await this.update(item, {
+                'review.comments': arrayUnion({
+                    authorId: currentUser.uid,
+                    ...(currentUser.displayName || currentUser.email
+                        ? { authorName: currentUser.displayName || currentUser.email }
+                        : {}),
+                    text: text.trim(),
+                    createdAt: new Date()
+                })
+            });
+
+        } catch (error) {
+            console.error('Error adding review comment:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to add comment.');
+        }
+    }
+
+    /**
+     * Save reviewer or author edits to the summaries as a new version. Editing an approved summary returns
+     * it to draft so the changed text is approved again before it can be exported as official.
+     */
+    async saveEdits(item: UserLibraryItem, short: string, detailed: string, language = item.primaryLanguage): Promise<void> {
+        await this.summaryVersionService.updateSummaries(item, short, detailed, { source: 'edited', language });
+    }
+
+    private async decide(item: UserLibraryItem, status: 'approved' | 'rejected', rating?: number): Promise<void> {
+        const currentUser = await this.requireUser();
+        if (item.review?.reviewerId !== currentUser.uid) {
+            throw new Error('Only the assigned reviewer can approve or reject this summary');
+        }
+        if (item.userId === currentUser.uid) {
+            throw new Error('Summaries must be approved by someone other than their author');
+        }
+        if (rating !== undefined && !isValidRating(rating)) {
+            throw new Error('Rating must be a whole number from 1 to 5');
+        }
+
+        // A decision replaces the rating, prompt version and approved variant of any earlier one.
+        // Only the primary variant is approved; the other languages stay unreviewed.
+        const variant = getSummaryVariant(item);
+        const promptVersion = variant.aiSummary?.promptVersion;
+        const approvedVersionId = status === 'approved' && item.id
+            ? (await this.summaryVersionService.getVersions(item.id)).find(version => version.language === variant.language)?.id
+            : undefined;
+        await this.transition(item, status, {
+            'review.decidedAt': serverTimestamp(),
+            'review.rating': rating ?? deleteField(),
+            'review.promptVersion': promptVersion || deleteField(),
+            'review.approvedLanguage': status === 'approved' ? variant.language : deleteField(),
+            'review.approvedVersionId': approvedVersionId || deleteField()
+        });
+    }
+
+    private async transition(item: UserLibraryItem, to: ReviewStatus, fields: Record<string, unknown>): Promise<void> {
+        const from = getReviewStatus(item.review);
+        if (!canTransition(from, to)) {
+            throw new Error(`A summary cannot move from ${REVIEW_STATUS_LABELS[from]} to ${REVIEW_STATUS_LABELS[to]}`);
+        }
+
+        try {
+            await this.update(item, { 'review.status': to, ...fields });
+
+        } catch (error) {
+            console.error(`Error moving review to ${to}:`, error);
+            throw new Error('Failed to update review status.');
+        }
+    }
+
+    private reviewerFields(reviewer: ReviewerChoice): Record<string, unknown> {
+        return { 'review.reviewerId': reviewer.uid, 'review.reviewerName': reviewer.name };
+    }
+
+    private async update(item: UserLibraryItem, fields: Record<string, unknown>): Promise<void> {
+        if (!item.id) {
+            throw new Error('Library item has no id');
+        }
+        await updateDoc(doc(this.firestore, 'libraries', item.id), { ...fields, updatedAt: serverTimestamp() });
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+        if (!currentUser) {
+            throw new Error('User must be logged in to review summaries');
+        }
+        return currentUser;
+    }
+}
@@ -0,0 +1,136 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    DocumentData,
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDocs,
+    serverTimestamp,
+    updateDoc
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import { AuthUser, SummaryPreset } from '../interfaces';
+import { BUILT_IN_SUMMARY_PRESETS, validateSummaryPreset } from '../llm/summary-presets';
+
+// Fields an admin edits; the id, built-in flag and audit fields are managed here
+export type SummaryPresetInput = Omit<SummaryPreset, 'id' | 'builtIn' | 'createdBy' | 'updatedAt'>;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class SummaryPresetService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    // Built-in presets first, then custom presets by name. Custom presets that no longer validate are left out.
+    async getPresets(): Promise<SummaryPreset[]> {
+        try {
+            const snapshot = await getDocs(collection(this.firestore, 'summaryPresets'));
+            const custom = snapshot.docs
+                .map(presetDoc => this.toPreset(presetDoc.id, presetDoc.data()))
+                .filter(preset => validateSummaryPreset(preset).length === 0)
+                .sort((a, b) => a.name.localeCompare(b.name));
+            return [...BUILT_IN_SUMMARY_PRESETS, ...custom];
+
+        } catch (error) {
+            console.error('Error loading summary presets:', error);
+            return [...BUILT_IN_SUMMARY_PRESETS];
+        }
+    }
+
+    async createPreset(input: SummaryPresetInput): Promise<string> {
+        try {
+            const currentUser = await this.requireUser();
+            const presetRef = await addDoc(collection(this.firestore, 'summaryPresets'), {
+                ...this.toFields(input),
+                createdBy: currentUser.uid,
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            return presetRef.id;
+
+        } catch (error) {
+            console.error('Error creating summary preset:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to create summary preset.');
+        }
+    }
+
+    async updatePreset(presetId: string, input: SummaryPresetInput): Promise<void> {
+        try {
+            await this.requireUser();
+            await updateDoc(doc(this.firestore, 'summaryPresets', presetId), {
+                ...this.toFields(input),
+                updatedAt: serverTimestamp()
+            });
+
+        } catch (error) {
+            console.error('Error updating summary preset:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to update summary preset.');
+        }
+    }
+
+    // Summaries generated with the preset keep its name and lengths
+    async deletePreset(presetId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(this.firestore, 'summaryPresets', presetId));
+        } catch (error) {
+            console.error('Error deleting summary preset:', error);
+            throw new Error('Failed to delete summary preset.');
+        }
+    }
+
+    private toFields(input: SummaryPresetInput): DocumentData {
+        const fields = {
+            name: input.name.trim(),
+            description: input.description.trim(),
+            shortLength: { min: input.shortLength.min, max: input.shortLength.max },
+            detailedLength: { min: input.detailedLength.min, max: input.detailedLength.max },
+            structure: input.structure,
+            tone: input.tone.trim()
+        };
+        const errors = validateSummaryPreset(fields);
+        if (errors.length > 0) {
+            throw new Error(errors.join('. '));
+        }
+        return fields;
+    }
+
+    private toPreset(id: string, data: DocumentData): SummaryPreset {
+        return {
+            id,
+            name: data['name'] || '',
+            description: data['description'] || '',
+            shortLength: data['shortLength'],
+            detailedLength: data['detailedLength'],
+            structure: data['structure'],
+            tone: data['tone'] || '',
+            createdBy: data['createdBy'],
+            updatedAt: data['updatedAt']?.toDate()
+        };
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await this.getCurrentUser();
+        if (!currentUser) {
+            throw new Error('User must be logged in to manage summary presets');
+        }
+        return currentUser;
+    }
+
+    private getCurrentUser(): Promise<AuthUser | null> {
+        return new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+    }
+}
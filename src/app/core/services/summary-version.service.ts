@@ -0,0 +1,199 @@
+import { Injectable } from '@angular/core';
+import {
+    Firestore,
+    DocumentData,
+    Timestamp,
+    WriteBatch,
+    collection,
+    doc,
+    getDocs,
+    limit,
+    orderBy,
+    query,
+    serverTimestamp,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { FirebaseService } from './firebase.service';
+import { AuthService } from './auth.service';
+import {
+    AIBookSummary,
+    AuthUser,
+    ConfidenceMetrics,
+    SummaryVersion,
+    SummaryVersionSource,
+    SummaryVariant,
+    UserLibraryItem
+} from '../interfaces';
+import { NewSummaryVersion, createGeneratedVersion } from '../utils/summary-versions';
+import { getReviewStatus } from '../utils/review-workflow';
+
+export interface SummaryChange {
+    source: SummaryVersionSource;
+    language?: string; // Variant to change; defaults to the restored version's language, then the primary language
+    restoredFrom?: SummaryVersion;
+    // Set when the summary was regenerated
+    aiSummary?: AIBookSummary;
+    confidenceMetrics?: ConfidenceMetrics;
+    generatedAt?: Date;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class SummaryVersionService {
+    private firestore: Firestore;
+
+    constructor(
+        private firebaseService: FirebaseService,
+        private authService: AuthService
+    ) {
+        this.firestore = this.firebaseService.getFirestore();
+    }
+
+    // Newest first
+    async getVersions(itemId: string): Promise<SummaryVersion[]> {
+        try {
+            const snapshot = await getDocs(query(this.versionsRef(itemId), orderBy('createdAt', 'desc')));
+            return snapshot.docs.map(versionDoc => this.toVersion(versionDoc.id, versionDoc.data()));
+
+        } catch (error) {
+            console.error('Error getting summary versions:', error);
+            throw new Error('Failed to load version history.');
+        }
+    }
+
+    // Queue a version write; used by BookService when the item itself is written in the same batch
+    addVersion(batch: WriteBatch, itemId: string, version: NewSummaryVersion, createdAt?: Date): void {
+        batch.set(doc(this.versionsRef(itemId)), {
+            ...version,
+            createdAt: createdAt ? Timestamp.fromDate(createdAt) : serverTimestamp()
+        });
+    }
+
+    /**
+     * Replace one language variant of an item's summaries (adding it if the item has no such variant) and
+     * record the change as a new version. Variants saved before version history existed first get their
+     * current text recorded, so the overwritten summary is never lost. Changing an approved item returns it to draft.
+     */
+    async updateSummaries(item: UserLibraryItem, short: string, detailed: string, change: SummaryChange): Promise<void> {
+        try {
+            const currentUser = await this.requireUser();
+            if (!item.id) {
+                throw new Error('Library item has no id');
+            }
+            if (!short.trim() || !detailed.trim()) {
+                throw new Error('Summaries cannot be empty');
+            }
+
+            const language = change.restoredFrom?.language || change.language || item.primaryLanguage;
+            const current = item.summaries[language] as SummaryVariant | undefined;
+            const batch = writeBatch(this.firestore);
+
+            if (current) {
+                const existing = await getDocs(query(this.versionsRef(item.id), where('language', '==', language), limit(1)));
+                if (existing.empty) {
+                    this.addVersion(
+                        batch,
+                        item.id,
+                        createGeneratedVersion(current, current.aiSummary, item.userId),
+                        current.generatedAt instanceof Date && !isNaN(current.generatedAt.getTime())
+                            ? current.generatedAt
+                            : item.createdAt
+                    );
+                }
+            }
+
+            // A restore brings back the generation details of the version it restores
+            const details = change.restoredFrom || change.aiSummary;
+            this.addVersion(batch, item.id, {
+                short: short.trim(),
+                detailed: detailed.trim(),
+                language,
+                source: change.source,
+                authorId: currentUser.uid,
+                ...(currentUser.displayName || currentUser.email
+                    ? { authorName: (currentUser.displayName || currentUser.email)! }
+                    : {}),
+                ...(details?.processingMethod ? { processingMethod: details.processingMethod } : {}),
+                ...(details?.provider ? { provider: details.provider } : {}),
+                ...(details?.model ? { model: details.model } : {}),
+                ...(details?.promptVersion ? { promptVersion: details.promptVersion } : {}),
+                ...(change.restoredFrom?.id ? { restoredFrom: change.restoredFrom.id } : {})
+            });
+
+            const variant: SummaryVariant = {
+                ...current,
+                short: short.trim(),
+                detailed: detailed.trim(),
+                language,
+                generatedAt: change.generatedAt || current?.generatedAt || new Date(),
+                ...(change.aiSummary ? { aiSummary: change.aiSummary } : {}),
+                ...(change.confidenceMetrics ? { confidenceMetrics: change.confidenceMetrics } : {})
+            };
+            const isPrimary = language === item.primaryLanguage;
+
+            // The whole map is written so items still in the single-summary format are converted on their first change
+            batch.update(doc(this.firestore, 'libraries', item.id), {
+                summaries: { ...item.summaries, [language]: variant },
+                primaryLanguage: item.primaryLanguage,
+                ...(isPrimary && change.aiSummary ? { aiSummary: change.aiSummary } : {}),
+                ...(isPrimary && change.confidenceMetrics ? { confidenceMetrics: change.confidenceMetrics } : {}),
+                'review.lastEditedBy': currentUser.uid,
+                'review.lastEditedAt': serverTimestamp(),
+                ...(getReviewStatus(item.review) === 'approved' ? { 'review.status': 'draft' } : {}),
+                updatedAt: serverTimestamp()
+            });
+
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error updating summaries:', error);
+            throw new Error(error instanceof Error ? error.message : 'Failed to save summaries.');
+        }
+    }
+
+    async restoreVersion(item: UserLibraryItem, version: SummaryVersion): Promise<void> {
+        await this.updateSummaries(item, version.short, version.detailed, { source: 'restored', restoredFrom: version });
+    }
+
+    // Versions must be removed before their library item; the rules read the item to authorize the delete
+    async deleteVersions(itemId: string): Promise<void> {
+        try {
+            const snapshot = await getDocs(this.versionsRef(itemId));
+            if (snapshot.empty) return;
+
+            const batch = writeBatch(this.firestore);
+            snapshot.docs.forEach(versionDoc => batch.delete(versionDoc.ref));
+            await batch.commit();
+
+        } catch (error) {
+            console.error('Error deleting summary versions:', error);
+            throw new Error('Failed to delete version history.');
+        }
+    }
+
+    private versionsRef(itemId: string) {
+        return collection(this.firestore, 'libraries', itemId, 'versions');
+    }
+
+    private toVersion(id: string, data: DocumentData): SummaryVersion {
+        return {
+            id,
+            ...data,
+            createdAt: data['createdAt']?.toDate() || new Date()
+        } as SummaryVersion;
+    }
+
+    private async requireUser(): Promise<AuthUser> {
+        const currentUser = await new Promise<AuthUser | null>((resolve) => {
+            this.authService.user$.subscribe(user => {
+                resolve(user);
+            });
+        });
+        if (!currentUser) {
+            throw new Error('User must be logged in to change summaries');
+        }
+        return currentUser;
+    }
+}
@@ -0,0 +1,28 @@
+import { AnnotatedField, AnnotationKind, SummaryAnnotation } from '../interfaces/annotation.interface';
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { normalizeSummaries } from './summary-variants';
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+    highlight: 'Highlight',
+    note: 'Note',
+    verify: 'Verify'
+};
+
+export const ANNOTATED_FIELD_LABELS: Record<AnnotatedField, string> = {
+    short: 'Quick Summary',
+    detailed: 'Detailed Summary'
+};
+
+// Text an annotation refers to, or undefined when the item no longer has that language variant
+export function annotatedText(item: UserLibraryItem, annotation: Pick<SummaryAnnotation, 'language' | 'field'>): string | undefined {
+    return normalizeSummaries(item).summaries[annotation.language]?.[annotation.field];
+}
+
+// One line per annotation for text exports: Verify (Detailed Summary): "quote" - note
+export function describeAnnotation(annotation: SummaryAnnotation): string {
+    const place = `${ANNOTATION_KIND_LABELS[annotation.kind]} (${ANNOTATED_FIELD_LABELS[annotation.field]})`;
+    const quote = annotation.anchor.quote.replace(/\s+/g, ' ').trim();
+    return `${place}: "${quote}"`
+        + (annotation.note ? ` - ${annotation.note}` : '')
+        + (annotation.orphaned ? ' [no longer in the summary]' : '');
+}
@@ -0,0 +1,181 @@
+// Parsers for local bibliographic catalogue files (ONIX 3.0, MARCXML and JSON records)
+import { BookMetadata } from '../interfaces';
+import { normalizeISBNKey } from './isbn';
+import { fromIso6392 } from '../languages/language-registry';
+
+export type CatalogueRecords = Map<string, Partial<BookMetadata>>;
+
+export function toIso6391(code: string | undefined | null): string | undefined {
+    if (!code) return undefined;
+    const lower = code.trim().toLowerCase();
+    if (lower.length === 2) return lower;
+    return fromIso6392(lower);
+}
+
+export function parseCatalogue(content: string): CatalogueRecords {
+    const trimmed = content.trim();
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        return parseJsonCatalogue(trimmed);
+    }
+
+    if (typeof DOMParser === 'undefined') {
+        console.warn('XML catalogues can only be parsed in the browser');
+        return new Map();
+    }
+
+    const xml = new DOMParser().parseFromString(trimmed, 'application/xml');
+
+    if (xml.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Catalogue file is not valid XML');
+    }
+
+    if (xml.getElementsByTagName('ONIXMessage').length > 0) {
+        return parseOnixCatalogue(xml);
+    }
+
+    return parseMarcXmlCatalogue(xml);
+}
+
+function parseJsonCatalogue(content: string): CatalogueRecords {
+    const parsed = JSON.parse(content);
+    const records: Partial<BookMetadata>[] = Array.isArray(parsed) ? parsed : Object.values(parsed);
+    const catalogue: CatalogueRecords = new Map();
+
+    records.forEach(record => {
+        if (record?.isbn) {
+            catalogue.set(normalizeISBNKey(record.isbn), record);
+        }
+    });
+
+    return catalogue;
+}
+
+// ONIX for Books 3.0, reference tag names
+function parseOnixCatalogue(xml: Document): CatalogueRecords {
+    const catalogue: CatalogueRecords = new Map();
+
+    Array.from(xml.getElementsByTagName('Product')).forEach(product => {
+        const isbns = Array.from(product.getElementsByTagName('ProductIdentifier'))
+            .filter(identifier => ['02', '15'].includes(childText(identifier, 'ProductIDType')))
+            .map(identifier => childText(identifier, 'IDValue'))
+            .filter(Boolean);
+
+        if (isbns.length === 0) return;
+
+        const titleElement = product.getElementsByTagName('TitleElement')[0];
+        const title = [childText(titleElement, 'TitleText'), childText(titleElement, 'Subtitle')]
+            .filter(Boolean)
+            .join(': ');
+
+        const authors = Array.from(product.getElementsByTagName('Contributor'))
+            .map(contributor => childText(contributor, 'PersonName') || childText(contributor, 'CorporateName'))
+            .filter(Boolean);
+
+        const description = Array.from(product.getElementsByTagName('TextContent'))
+            .filter(content => ['02', '03'].includes(childText(content, 'TextType')))
+            .map(content => stripMarkup(childText(content, 'Text')))
+            .sort((a, b) => b.length - a.length)[0];
+
+        const pageExtent = Array.from(product.getElementsByTagName('Extent'))
+            .find(extent => ['00', '11'].includes(childText(extent, 'ExtentType')));
+
+        const categories = Array.from(product.getElementsByTagName('Subject'))
+            .map(subject => childText(subject, 'SubjectHeadingText'))
+            .filter(Boolean);
+
+        const coverLink = Array.from(product.getElementsByTagName('SupportingResource'))
+            .filter(resource => childText(resource, 'ResourceContentType') === '01')
+            .map(resource => childText(resource, 'ResourceLink'))[0];
+
+        const record: Partial<BookMetadata> = compact({
+            title,
+            authors,
+            publisher: childText(product.getElementsByTagName('Publisher')[0], 'PublisherName'),
+            publishedDate: formatOnixDate(childText(product.getElementsByTagName('PublishingDate')[0], 'Date')),
+            description,
+            pageCount: pageExtent ? parseInt(childText(pageExtent, 'ExtentValue')) || undefined : undefined,
+            categories,
+            language: toIso6391(childText(product.getElementsByTagName('Language')[0], 'LanguageCode')),
+            imageLinks: coverLink ? { thumbnail: coverLink, small: coverLink, medium: coverLink, large: coverLink } : undefined
+        });
+
+        isbns.forEach(isbn => catalogue.set(normalizeISBNKey(isbn), { ...record, isbn }));
+    });
+
+    return catalogue;
+}
+
+// MARC 21 in MARCXML, as exported by most integrated library systems
+function parseMarcXmlCatalogue(xml: Document): CatalogueRecords {
+    const catalogue: CatalogueRecords = new Map();
+
+    Array.from(xml.getElementsByTagNameNS('*', 'record')).forEach(record => {
+        const isbns = marcSubfields(record, '020', 'a')
+            .map(value => value.split(/\s/)[0])
+            .filter(Boolean);
+
+        if (isbns.length === 0) return;
+
+        const title = [...marcSubfields(record, '245', 'a'), ...marcSubfields(record, '245', 'b')]
+            .map(value => value.replace(/[\s/:;,.]+$/, ''))
+            .join(': ');
+
+        const authors = [...marcSubfields(record, '100', 'a'), ...marcSubfields(record, '700', 'a')]
+            .map(value => value.replace(/[,.]+$/, ''));
+
+        const publisher = [...marcSubfields(record, '264', 'b'), ...marcSubfields(record, '260', 'b')][0];
+        const publishedDate = [...marcSubfields(record, '264', 'c'), ...marcSubfields(record, '260', 'c')][0];
+        const pages = marcSubfields(record, '300', 'a')[0]?.match(/\d+/)?.[0];
+
+        const fixedField = Array.from(record.getElementsByTagNameNS('*', 'controlfield'))
+            .find(field => field.getAttribute('tag') === '008')?.textContent || '';
+
+        const result: Partial<BookMetadata> = compact({
+            title,
+            authors,
+            publisher: publisher?.replace(/[\s,:;]+$/, ''),
+            publishedDate: publishedDate?.replace(/[^\d-]/g, ''),
+            description: marcSubfields(record, '520', 'a').join(' '),
+            pageCount: pages ? parseInt(pages) : undefined,
+            categories: marcSubfields(record, '650', 'a').map(value => value.replace(/[.]+$/, '')),
+            language: toIso6391(marcSubfields(record, '041', 'a')[0] || fixedField.substring(35, 38))
+        });
+
+        isbns.forEach(isbn => catalogue.set(normalizeISBNKey(isbn), { ...result, isbn }));
+    });
+
+    return catalogue;
+}
+
+function childText(parent: Element | undefined, tagName: string): string {
+    return parent?.getElementsByTagName(tagName)[0]?.textContent?.trim() || '';
+}
+
+function marcSubfields(record: Element, tag: string, code: string): string[] {
+    return Array.from(record.getElementsByTagNameNS('*', 'datafield'))
+        .filter(field => field.getAttribute('tag') === tag)
+        .flatMap(field => Array.from(field.getElementsByTagNameNS('*', 'subfield')))
+        .filter(subfield => subfield.getAttribute('code') === code)
+        .map(subfield => subfield.textContent?.trim() || '')
+        .filter(Boolean);
+}
+
+function formatOnixDate(date: string): string {
+    if (/^\d{8}$/.test(date)) {
+        return `${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}`;
+    }
+    return date;
+}
+
+function stripMarkup(text: string): string {
+    return text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function compact(record: Partial<BookMetadata>): Partial<BookMetadata> {
+    return Object.fromEntries(
+        Object.entries(record).filter(([, value]) =>
+            value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+        )
+    ) as Partial<BookMetadata>;
+}
@@ -0,0 +1,53 @@
+// ISBN helpers shared by the metadata providers, ISBN validation and the Cloud Functions
+
+export function cleanISBN(isbn: string): string {
+    return (isbn || '').replace(/[-\s]/g, '').toUpperCase();
+}
+
+export function isbn10ToIsbn13(isbn10: string): string {
+    const core = `978${isbn10.substring(0, 9)}`;
+    let sum = 0;
+    for (let i = 0; i < 12; i++) {
+        sum += parseInt(core[i]) * (i % 2 === 0 ? 1 : 3);
+    }
+    return core + ((10 - (sum % 10)) % 10);
+}
+
+// Canonical key used to match the same book across providers and catalogues
+export function normalizeISBNKey(isbn: string): string {
+    const clean = cleanISBN(isbn);
+    return clean.length === 10 ? isbn10ToIsbn13(clean) : clean;
+}
+
+export function validateISBN10(isbn: string): boolean {
+    if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+    let sum = 0;
+    for (let i = 0; i < 9; i++) {
+        sum += (10 - i) * parseInt(isbn[i]);
+    }
+    const check = isbn[9] === 'X' ? 10 : parseInt(isbn[9]);
+    sum += check;
+    return sum % 11 === 0;
+}
+
+export function validateISBN13(isbn: string): boolean {
+    if (!/^\d{13}$/.test(isbn)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < 12; i++) {
+        sum += parseInt(isbn[i]) * (i % 2 === 0 ? 1 : 3);
+    }
+
+    const checkDigit = parseInt(isbn[12]);
+    const calculatedCheck = (10 - (sum % 10)) % 10;
+
+    return checkDigit === calculatedCheck;
+}
+
+// Accepts hyphenated or spaced input, e.g. "978-0-14-044913-6"
+export function isValidISBN(isbn: string): boolean {
+    const clean = cleanISBN(isbn);
+    if (clean.length === 10) return validateISBN10(clean);
+    if (clean.length === 13) return validateISBN13(clean);
+    return false;
+}
@@ -0,0 +1,79 @@
+import { DETECTABLE_LANGUAGES, detectLanguage, measureLanguagePurity } from './language-detection';
+
+const ENGLISH_SENTENCE = 'The novel follows a family across several generations and explores memory, loss and the passing of time.';
+const SPANISH_SENTENCE = 'La novela sigue a una familia a lo largo de varias generaciones y explora la memoria, la pérdida y el paso del tiempo.';
+const FRENCH_SENTENCE = 'Le roman suit une famille sur plusieurs générations et explore la mémoire, la perte et le passage du temps.';
+const GERMAN_SENTENCE = 'Der Roman begleitet eine Familie über mehrere Generationen und erkundet Erinnerung, Verlust und das Vergehen der Zeit.';
+const QUECHUA_SENTENCE = 'Kay willakuyqa huk ayllupa kawsayninmantam rimachkan, paykunaqa llaqtankupi tarpuspa hatun wasikunata ruwarqanku.';
+
+describe('detectLanguage', () => {
+    it('returns null for text without letters', () => {
+        expect(detectLanguage('1984 — 42!')).toBeNull();
+    });
+
+    it('identifies summaries in profiled languages', () => {
+        expect(detectLanguage(ENGLISH_SENTENCE)?.language).toBe('en');
+        expect(detectLanguage(SPANISH_SENTENCE)?.language).toBe('es');
+        expect(detectLanguage(FRENCH_SENTENCE)?.language).toBe('fr');
+        expect(detectLanguage(GERMAN_SENTENCE)?.language).toBe('de');
+    });
+
+    it('scores every profiled language and reports the gap to the runner-up', () => {
+        const guess = detectLanguage(ENGLISH_SENTENCE)!;
+
+        expect(Object.keys(guess.scores).sort()).toEqual([...DETECTABLE_LANGUAGES].sort());
+        expect(guess.margin).toBeGreaterThan(0);
+    });
+
+    it('only profiles registry languages with a seed corpus', () => {
+        expect(DETECTABLE_LANGUAGES).toContain('es');
+        expect(DETECTABLE_LANGUAGES).not.toContain('qu');
+    });
+});
+
+describe('measureLanguagePurity', () => {
+    it('reports a summary written in the target language as pure', () => {
+        const report = measureLanguagePurity([SPANISH_SENTENCE, SPANISH_SENTENCE], 'es');
+
+        expect(report.purity).toBe(100);
+        expect(report.offendingSentences).toEqual([]);
+    });
+
+    it('flags sentences written in another language', () => {
+        const report = measureLanguagePurity([`${SPANISH_SENTENCE} ${ENGLISH_SENTENCE}`], 'es');
+
+        expect(report.purity).toBeLessThan(100);
+        expect(report.purity).toBeGreaterThan(0);
+        expect(report.offendingSentences).toEqual([ENGLISH_SENTENCE]);
+    });
+
+    it('ignores sentences too short to classify', () => {
+        const report = measureLanguagePurity([`${SPANISH_SENTENCE} The end.`], 'es');
+
+        expect(report.purity).toBe(100);
+        expect(report.sentences[1]).toEqual({ text: 'The end.', language: null, matchesTarget: true });
+    });
+
+    it('does not count quoted titles against the summary', () => {
+        const report = measureLanguagePurity(['En "The Old Man and the Sea and Other Stories of the Gulf" el autor retrata la soledad de un pescador.'], 'es');
+
+        expect(report.offendingSentences).toEqual([]);
+    });
+
+    it('reports empty summaries as pure', () => {
+        expect(measureLanguagePurity(['', ''], 'fr').purity).toBe(100);
+    });
+
+    describe('for targets without a profile', () => {
+        it('accepts text no profiled language recognizes', () => {
+            expect(measureLanguagePurity([QUECHUA_SENTENCE], 'qu').purity).toBe(100);
+        });
+
+        it('flags text confidently written in a profiled language', () => {
+            const report = measureLanguagePurity([SPANISH_SENTENCE], 'qu');
+
+            expect(report.purity).toBe(0);
+            expect(report.sentences[0].language).toBe('es');
+        });
+    });
+});
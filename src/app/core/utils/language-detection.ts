@@ -0,0 +1,160 @@
+// Offline language identification for generated summaries, shared by the app and the Cloud Functions.
+// Each registry language with a seed corpus, written in the register of book summaries, gets a character
+// trigram profile; text is scored with a smoothed naive Bayes model over those trigrams.
+
+import { SUMMARY_LANGUAGES } from '../languages/language-registry';
+
+// Registry languages with a seed corpus
+export const DETECTABLE_LANGUAGES: string[] = SUMMARY_LANGUAGES.filter(language => language.seedCorpus).map(language => language.code);
+
+// Summaries whose target-language share falls below this percentage are regenerated or flagged
+export const LANGUAGE_PURITY_THRESHOLD = 85;
+
+// Sentences with fewer letters than this are too short to classify reliably and are ignored
+const MIN_SENTENCE_LETTERS = 20;
+
+// Score gap (mean log-probability per trigram) under which a foreign guess is treated as ambiguous
+const AMBIGUITY_MARGIN = 0.15;
+
+// Text in a profiled language scores about -7.8 on its own profile; text in a language without a profile stays
+// below -8.2 on every profile. Targets without a profile only lose sentences scoring above this.
+const CONFIDENT_SCORE = -8.1;
+
+interface TrigramProfile {
+    counts: Map<string, number>;
+    total: number;
+}
+
+export interface LanguageGuess {
+    language: string;
+    margin: number; // Score gap to the runner-up; larger is more certain
+    scores: Record<string, number>;
+}
+
+export interface SentenceLanguage {
+    text: string;
+    language: string | null; // null when the sentence was too short to classify
+    matchesTarget: boolean;
+}
+
+export interface LanguagePurityReport {
+    targetLanguage: string;
+    purity: number; // 0-100, share of classified letters written in the target language
+    sentences: SentenceLanguage[];
+    offendingSentences: string[];
+}
+
+let profiles: Map<string, TrigramProfile> | null = null;
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/["“”«»„][^"“”«»„]*["“”«»„]/g, ' ') // Quoted titles are usually in the book's own language
+        .replace(/[^\p{L}]+/gu, ' ')
+        .trim();
+}
+
+function trigrams(text: string): string[] {
+    const result: string[] = [];
+    for (const word of normalize(text).split(' ')) {
+        if (!word) {
+            continue;
+        }
+        const padded = ` ${word} `;
+        for (let i = 0; i < padded.length - 2; i++) {
+            result.push(padded.substring(i, i + 3));
+        }
+    }
+    return result;
+}
+
+function getProfiles(): Map<string, TrigramProfile> {
+    if (!profiles) {
+        profiles = new Map();
+        for (const language of SUMMARY_LANGUAGES) {
+            if (!language.seedCorpus) {
+                continue;
+            }
+            const counts = new Map<string, number>();
+            const grams = trigrams(language.seedCorpus);
+            grams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+            profiles.set(language.code, { counts, total: grams.length });
+        }
+    }
+    return profiles;
+}
+
+/**
+ * Identify the most likely supported language of a text, or null when it has no letters
+ */
+export function detectLanguage(text: string): LanguageGuess | null {
+    const grams = trigrams(text);
+    if (grams.length === 0) {
+        return null;
+    }
+
+    const scores = {} as Record<string, number>;
+    getProfiles().forEach((profile, language) => {
+        // Add-one smoothing over a generous vocabulary size keeps unseen trigrams from dominating
+        const denominator = profile.total + 5000;
+        let logProbability = 0;
+        for (const gram of grams) {
+            logProbability += Math.log(((profile.counts.get(gram) || 0) + 1) / denominator);
+        }
+        scores[language] = logProbability / grams.length;
+    });
+
+    const ranked = [...DETECTABLE_LANGUAGES].sort((a, b) => scores[b] - scores[a]);
+    return {
+        language: ranked[0],
+        margin: scores[ranked[0]] - scores[ranked[1]],
+        scores
+    };
+}
+
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?…])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Score every sentence of a summary and report how much of it is written in the target language.
+ * Target languages without a profile cannot be recognized, so only sentences confidently identified as
+ * another language count against them.
+ */
+export function measureLanguagePurity(texts: string[], targetLanguage: string): LanguagePurityReport {
+    const sentences: SentenceLanguage[] = [];
+    let targetLetters = 0;
+    let classifiedLetters = 0;
+    const profiled = DETECTABLE_LANGUAGES.includes(targetLanguage);
+
+    for (const sentence of texts.flatMap(text => splitSentences(text || ''))) {
+        const letters = normalize(sentence).replace(/ /g, '').length;
+        const guess = letters >= MIN_SENTENCE_LETTERS ? detectLanguage(sentence) : null;
+        if (!guess) {
+            sentences.push({ text: sentence, language: null, matchesTarget: true });
+            continue;
+        }
+
+        // Close calls between related languages (es/pt, es/it) are not counted against the summary. Without a
+        // profile for the target there is nothing to be close to: any sentence that scores like a profiled
+        // language counts against it, even when related profiles (es/gl/ca) split the vote.
+        const matchesTarget = profiled
+            ? guess.language === targetLanguage || guess.scores[guess.language] - guess.scores[targetLanguage] < AMBIGUITY_MARGIN
+            : guess.scores[guess.language] < CONFIDENT_SCORE;
+        sentences.push({ text: sentence, language: guess.language, matchesTarget });
+        classifiedLetters += letters;
+        if (matchesTarget) {
+            targetLetters += letters;
+        }
+    }
+
+    return {
+        targetLanguage,
+        purity: classifiedLetters > 0 ? Math.round((targetLetters / classifiedLetters) * 100) : 100,
+        sentences,
+        offendingSentences: sentences.filter(sentence => !sentence.matchesTarget).map(sentence => sentence.text)
+    };
+}
@@ -0,0 +1,33 @@
+import { UserRole } from '../interfaces/user.interface';
+
+// Role checks shared by the route guards and the Cloud Functions. firestore.rules mirrors this table.
+
+export type Permission =
+    | 'summaries:view'
+    | 'summaries:generate'
+    | 'library:edit'
+    | 'library:viewAll'
+    | 'presets:manage';
+
+export const USER_ROLES: UserRole[] = ['reader', 'editor', 'admin', 'auditor'];
+
+// Accounts created before roles existed have no role field and keep generating summaries
+export const DEFAULT_ROLE: UserRole = 'editor';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    reader: ['summaries:view'],
+    editor: ['summaries:view', 'summaries:generate', 'library:edit'],
+    admin: ['summaries:view', 'summaries:generate', 'library:edit', 'library:viewAll', 'presets:manage'],
+    auditor: ['summaries:view', 'library:viewAll']
+};
+
+/**
+ * Read a role from a user document, falling back to the default for missing or unknown values
+ */
+export function resolveRole(value: unknown): UserRole {
+    return USER_ROLES.includes(value as UserRole) ? value as UserRole : DEFAULT_ROLE;
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,78 @@
+import { PromptVersionStats } from '../interfaces/prompt-template.interface';
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { getReviewStatus } from './review-workflow';
+
+interface PromptVersionTotals {
+    experimentIds: Set<string>;
+    summaries: number;
+    confidenceTotal: number;
+    decisions: number;
+    approvals: number;
+    ratings: number;
+    ratingTotal: number;
+}
+
+function emptyTotals(): PromptVersionTotals {
+    return { experimentIds: new Set(), summaries: 0, confidenceTotal: 0, decisions: 0, approvals: 0, ratings: 0, ratingTotal: 0 };
+}
+
+/**
+ * Compare prompt versions across library items. Every generated summary variant counts toward its version's
+ * confidence; review decisions and ratings count toward the version recorded with the decision, so an item
+ * regenerated after it was reviewed does not credit the new prompt. Fallback and older summaries have no version.
+ */
+export function comparePromptVersions(items: UserLibraryItem[]): PromptVersionStats[] {
+    const totals = new Map<string, PromptVersionTotals>();
+    const totalsFor = (promptVersion: string): PromptVersionTotals => {
+        if (!totals.has(promptVersion)) {
+            totals.set(promptVersion, emptyTotals());
+        }
+        return totals.get(promptVersion)!;
+    };
+
+    for (const item of items) {
+        for (const variant of Object.values(item.summaries)) {
+            const aiSummary = variant.aiSummary;
+            if (!aiSummary?.promptVersion) continue;
+
+            const versionTotals = totalsFor(aiSummary.promptVersion);
+            versionTotals.summaries++;
+            versionTotals.confidenceTotal += variant.confidenceMetrics?.overallScore ?? aiSummary.confidenceScore;
+            if (aiSummary.promptExperiment) {
+                versionTotals.experimentIds.add(aiSummary.promptExperiment);
+            }
+        }
+
+        const status = getReviewStatus(item.review);
+        if (item.review?.promptVersion && (status === 'approved' || status === 'rejected')) {
+            const versionTotals = totalsFor(item.review.promptVersion);
+            versionTotals.decisions++;
+            if (status === 'approved') {
+                versionTotals.approvals++;
+            }
+            if (item.review.rating) {
+                versionTotals.ratings++;
+                versionTotals.ratingTotal += item.review.rating;
+            }
+        }
+    }
+
+    return [...totals.entries()]
+        .map(([promptVersion, versionTotals]) => ({
+            promptVersion,
+            experimentIds: [...versionTotals.experimentIds].sort(),
+            summaries: versionTotals.summaries,
+            averageConfidence: versionTotals.summaries > 0
+                ? Math.round(versionTotals.confidenceTotal / versionTotals.summaries)
+                : null,
+            decisions: versionTotals.decisions,
+            approvalRate: versionTotals.decisions > 0
+                ? Math.round(versionTotals.approvals / versionTotals.decisions * 100)
+                : null,
+            ratings: versionTotals.ratings,
+            averageRating: versionTotals.ratings > 0
+                ? Math.round(versionTotals.ratingTotal / versionTotals.ratings * 10) / 10
+                : null
+        }))
+        .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+}
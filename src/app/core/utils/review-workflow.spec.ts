@@ -0,0 +1,69 @@
+import { ReviewStatus } from '../interfaces/review.interface';
+import { canTransition, createInitialReview, getApprovedLanguage, getReviewStatus, isValidRating } from './review-workflow';
+
+const STATUSES: ReviewStatus[] = ['draft', 'in_review', 'approved', 'rejected'];
+
+describe('review workflow', () => {
+    describe('canTransition', () => {
+        it('allows only the workflow steps', () => {
+            const allowed = STATUSES.flatMap(from => STATUSES.filter(to => canTransition(from, to)).map(to => `${from} -> ${to}`));
+
+            expect(allowed).toEqual([
+                'draft -> in_review',
+                'in_review -> draft',
+                'in_review -> approved',
+                'in_review -> rejected',
+                'approved -> draft',
+                'rejected -> draft',
+                'rejected -> in_review'
+            ]);
+        });
+
+        it('rejects approving or rejecting without a review', () => {
+            expect(canTransition('draft', 'approved')).toBeFalse();
+            expect(canTransition('draft', 'rejected')).toBeFalse();
+            expect(canTransition('rejected', 'approved')).toBeFalse();
+            // An approved summary goes back to draft before it can be reviewed again
+            expect(canTransition('approved', 'in_review')).toBeFalse();
+            expect(canTransition('approved', 'approved')).toBeFalse();
+        });
+    });
+
+    describe('getReviewStatus', () => {
+        it('treats items saved before the workflow as drafts', () => {
+            expect(getReviewStatus(undefined)).toBe('draft');
+            expect(getReviewStatus({ status: 'approved', comments: [] })).toBe('approved');
+        });
+    });
+
+    describe('getApprovedLanguage', () => {
+        it('returns the approved variant, or the primary one for approvals recorded before variants were tracked', () => {
+            expect(getApprovedLanguage({ primaryLanguage: 'es', review: { status: 'approved', approvedLanguage: 'gn', comments: [] } })).toBe('gn');
+            expect(getApprovedLanguage({ primaryLanguage: 'es', review: { status: 'approved', comments: [] } })).toBe('es');
+        });
+
+        it('returns null for items that are not approved, whatever language was approved before', () => {
+            expect(getApprovedLanguage({ primaryLanguage: 'es' })).toBeNull();
+            expect(getApprovedLanguage({ primaryLanguage: 'es', review: { status: 'draft', approvedLanguage: 'es', comments: [] } })).toBeNull();
+        });
+    });
+
+    describe('createInitialReview', () => {
+        const now = new Date('2024-05-01T10:00:00Z');
+
+        it('sends summaries below the threshold straight to review', () => {
+            expect(createInitialReview(59, 60, now)).toEqual({ status: 'in_review', autoRouted: true, submittedAt: now, comments: [] });
+        });
+
+        it('keeps summaries at or above the threshold as drafts', () => {
+            expect(createInitialReview(60, 60, now)).toEqual({ status: 'draft', comments: [] });
+        });
+    });
+
+    describe('isValidRating', () => {
+        it('accepts whole ratings from 1 to 5', () => {
+            expect([1, 3, 5].every(isValidRating)).toBeTrue();
+            expect([0, 6, 2.5, '4', null].some(isValidRating)).toBeFalse();
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { UserLibraryItem } from '../interfaces/book.interface';
+import { LibraryItemReview, ReviewStatus } from '../interfaces/review.interface';
+
+// Editorial workflow shared by the app and the batch worker. firestore.rules enforces the approval step.
+
+// Allowed status changes; anything else is rejected by ReviewService
+const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+    draft: ['in_review'],
+    in_review: ['draft', 'approved', 'rejected'],
+    approved: ['draft'],
+    rejected: ['draft', 'in_review']
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+    draft: 'Draft',
+    in_review: 'In Review',
+    approved: 'Approved',
+    rejected: 'Rejected'
+};
+
+// Reviewer quality ratings, worst to best
+export const REVIEW_RATINGS = [1, 2, 3, 4, 5];
+
+export function isValidRating(value: unknown): value is number {
+    return REVIEW_RATINGS.includes(value as number);
+}
+
+export function canTransition(from: ReviewStatus, to: ReviewStatus): boolean {
+    return REVIEW_TRANSITIONS[from].includes(to);
+}
+
+// Items saved before the workflow existed have no review and count as drafts
+export function getReviewStatus(review: LibraryItemReview | undefined): ReviewStatus {
+    return review?.status || 'draft';
+}
+
+/**
+ * Language of the variant that can be exported as official, or null when the item is not approved.
+ * Other variants were never reviewed, even when the item is approved.
+ */
+export function getApprovedLanguage(item: Pick<UserLibraryItem, 'review' | 'primaryLanguage'>): string | null {
+    if (getReviewStatus(item.review) !== 'approved') {
+        return null;
+    }
+    return item.review?.approvedLanguage || item.primaryLanguage;
+}
+
+/**
+ * Review state for a newly saved summary: low-confidence summaries go straight to review
+ */
+export function createInitialReview(overallScore: number, autoReviewThreshold: number, now: Date): LibraryItemReview {
+    if (overallScore < autoReviewThreshold) {
+        return { status: 'in_review', autoRouted: true, submittedAt: now, comments: [] };
+    }
+    return { status: 'draft', comments: [] };
+}
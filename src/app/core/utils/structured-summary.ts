@@ -0,0 +1,26 @@
+import { ElectoralRelevanceLevel, ReadingLevel, StructuredSummary } from '../interfaces/ai-summary.interface';
+import { SummaryVariant } from '../interfaces/book.interface';
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+    introductory: 'Introductory',
+    general: 'General',
+    advanced: 'Advanced',
+    specialist: 'Specialist'
+};
+
+export const ELECTORAL_RELEVANCE_LABELS: Record<ElectoralRelevanceLevel, string> = {
+    none: 'None',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High'
+};
+
+// The structured analysis of a summary variant; edits to the summary text keep the one it was generated with
+export function getStructuredSummary(variant: SummaryVariant | undefined): StructuredSummary | undefined {
+    return variant?.aiSummary?.structured;
+}
+
+// One line for lists and exports: High: assessment
+export function describeElectoralRelevance(structured: StructuredSummary): string {
+    return `${ELECTORAL_RELEVANCE_LABELS[structured.electoralRelevance.level]}: ${structured.electoralRelevance.assessment}`;
+}
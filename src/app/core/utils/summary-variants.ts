@@ -0,0 +1,79 @@
+import { AIBookSummary } from '../interfaces/ai-summary.interface';
+import { BookSummary, ConfidenceMetrics, SummaryVariant, SummaryVariants } from '../interfaces/book.interface';
+
+// Language variants of library item summaries, shared by BookService and the library migration function
+
+export interface LibrarySummaries {
+    summaries: SummaryVariants;
+    primaryLanguage: string;
+}
+
+// The library item fields that describe its summaries, in either storage format
+export interface StoredSummaries {
+    summaries?: unknown;
+    primaryLanguage?: string;
+    aiSummary?: AIBookSummary;
+    confidenceMetrics?: ConfidenceMetrics;
+}
+
+/**
+ * Items saved before language variants hold a single summary ({ short, detailed, language, generatedAt })
+ * instead of a map keyed by language code
+ */
+export function isLegacySummary(summaries: unknown): summaries is BookSummary {
+    return !!summaries && typeof (summaries as BookSummary).short === 'string';
+}
+
+export function createSummaryVariant(
+    summary: BookSummary,
+    aiSummary?: AIBookSummary,
+    confidenceMetrics?: ConfidenceMetrics
+): SummaryVariant {
+    const preset = summary.preset || aiSummary?.preset;
+    return {
+        short: summary.short,
+        detailed: summary.detailed,
+        language: summary.language,
+        generatedAt: summary.generatedAt,
+        // Omitted rather than undefined: Firestore rejects undefined fields
+        ...(preset ? { preset } : {}),
+        ...(aiSummary ? { aiSummary } : {}),
+        ...(confidenceMetrics ? { confidenceMetrics } : {})
+    };
+}
+
+/**
+ * Read an item's summaries in either format. A legacy summary becomes the only variant and takes the
+ * item's AI summary and confidence metrics with it.
+ */
+export function normalizeSummaries(data: StoredSummaries): LibrarySummaries {
+    if (isLegacySummary(data.summaries)) {
+        const legacy = data.summaries;
+        return {
+            summaries: { [legacy.language]: createSummaryVariant(legacy, data.aiSummary, data.confidenceMetrics) },
+            primaryLanguage: legacy.language
+        };
+    }
+
+    const summaries = (data.summaries || {}) as SummaryVariants;
+    const primaryLanguage = data.primaryLanguage && summaries[data.primaryLanguage]
+        ? data.primaryLanguage
+        : Object.keys(summaries)[0] || 'en';
+    return { summaries, primaryLanguage };
+}
+
+/**
+ * The variant in `language`, or the primary variant when there is none
+ */
+export function getSummaryVariant(item: LibrarySummaries, language?: string): SummaryVariant {
+    return (language && item.summaries[language]) || item.summaries[item.primaryLanguage] || Object.values(item.summaries)[0];
+}
+
+// Primary language first, the others alphabetically
+export function getSummaryLanguages(item: LibrarySummaries): string[] {
+    return Object.keys(item.summaries).sort((a, b) => {
+        if (a === item.primaryLanguage) return -1;
+        if (b === item.primaryLanguage) return 1;
+        return a.localeCompare(b);
+    });
+}
@@ -0,0 +1,30 @@
+import { AIBookSummary } from '../interfaces/ai-summary.interface';
+import { BookSummary } from '../interfaces/book.interface';
+import { SummaryVersion } from '../interfaces/summary-version.interface';
+
+export type NewSummaryVersion = Omit<SummaryVersion, 'id' | 'createdAt'>;
+
+/**
+ * First version of a library item, taken from the summary the model (or fallback template) produced.
+ * Shared by BookService and the batch worker.
+ */
+export function createGeneratedVersion(
+    summaries: Pick<BookSummary, 'short' | 'detailed' | 'language'>,
+    aiSummary: AIBookSummary | undefined,
+    authorId: string,
+    authorName?: string
+): NewSummaryVersion {
+    return {
+        short: summaries.short,
+        detailed: summaries.detailed,
+        language: summaries.language,
+        source: 'generated',
+        authorId,
+        // Omitted rather than undefined: Firestore rejects undefined fields
+        ...(authorName ? { authorName } : {}),
+        ...(aiSummary?.processingMethod ? { processingMethod: aiSummary.processingMethod } : {}),
+        ...(aiSummary?.provider ? { provider: aiSummary.provider } : {}),
+        ...(aiSummary?.model ? { model: aiSummary.model } : {}),
+        ...(aiSummary?.promptVersion ? { promptVersion: aiSummary.promptVersion } : {})
+    };
+}
@@ -0,0 +1,12 @@
+// User-defined tags on library items. Stored normalized so "Campaign 2024" and "campaign  2024" are one tag.
+
+export const MAX_TAG_LENGTH = 40;
+
+export function normalizeTag(tag: string): string {
+    return (tag || '').trim().replace(/\s+/g, ' ').toLowerCase().substring(0, MAX_TAG_LENGTH);
+}
+
+// Comma separated input, as typed in the tag fields
+export function parseTags(input: string): string[] {
+    return Array.from(new Set((input || '').split(',').map(normalizeTag).filter(Boolean)));
+}
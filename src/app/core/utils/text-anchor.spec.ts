@@ -0,0 +1,86 @@
+import { createAnchor, resolveAnchor, segmentText } from './text-anchor';
+
+const SUMMARY = 'The novel follows the Buendía family through seven generations in the town of Macondo.';
+
+function anchorOn(text: string, quote: string) {
+    const start = text.indexOf(quote);
+    return createAnchor(text, start, start + quote.length);
+}
+
+function quoteAt(text: string, match: { start: number; end: number } | null): string | null {
+    return match ? text.substring(match.start, match.end) : null;
+}
+
+describe('createAnchor', () => {
+    it('keeps the quote and up to 32 characters of context on each side', () => {
+        const anchor = anchorOn(SUMMARY, 'seven generations');
+
+        expect(anchor.quote).toBe('seven generations');
+        expect(anchor.prefix).toBe('follows the Buendía family through '.slice(-32));
+        expect(anchor.suffix).toBe(' in the town of Macondo.');
+    });
+});
+
+describe('resolveAnchor', () => {
+    it('finds an unchanged quote at its new position', () => {
+        const anchor = anchorOn(SUMMARY, 'seven generations');
+        const edited = `In short: ${SUMMARY}`;
+
+        const match = resolveAnchor(edited, anchor);
+        expect(match?.exact).toBeTrue();
+        expect(quoteAt(edited, match)).toBe('seven generations');
+    });
+
+    it('picks the occurrence whose context matches when the quote repeats', () => {
+        const text = 'After the war the town rebuilds. Years later the war returns to Macondo.';
+        const second = text.lastIndexOf('the war');
+        const anchor = createAnchor(text, second, second + 'the war'.length);
+        const edited = `Prologue. ${text}`;
+
+        expect(resolveAnchor(edited, anchor)).toEqual({ start: second + 'Prologue. '.length, end: second + 'Prologue. the war'.length, exact: true });
+    });
+
+    it('follows a quote through small edits', () => {
+        const anchor = anchorOn(SUMMARY, 'seven generations');
+        const edited = SUMMARY.replace('seven generations', 'several generations');
+
+        const match = resolveAnchor(edited, anchor);
+        expect(match?.exact).toBeFalse();
+        expect(quoteAt(edited, match)).toBe('several generations');
+    });
+
+    it('follows quotes that start and end in the middle of words', () => {
+        const anchor = anchorOn(SUMMARY, 'endía family thro');
+        const edited = SUMMARY.replace('Buendía family', 'Buendia family');
+
+        const match = resolveAnchor(edited, anchor);
+        expect(match?.exact).toBeFalse();
+        expect(quoteAt(edited, match)).toBe('endia family thro');
+    });
+
+    it('gives up when the quote has changed too much', () => {
+        const anchor = anchorOn(SUMMARY, 'seven generations');
+
+        expect(resolveAnchor(SUMMARY.replace('seven generations', 'a century'), anchor)).toBeNull();
+    });
+
+    it('returns null for empty quotes and texts', () => {
+        expect(resolveAnchor('', anchorOn(SUMMARY, 'Macondo'))).toBeNull();
+        expect(resolveAnchor(SUMMARY, createAnchor(SUMMARY, 4, 4))).toBeNull();
+    });
+});
+
+describe('segmentText', () => {
+    it('splits the text at range boundaries and lists the ranges covering each segment', () => {
+        expect(segmentText('abcdef', [{ id: 'x', start: 1, end: 4 }, { id: 'y', start: 3, end: 9 }])).toEqual([
+            { text: 'a', start: 0, ids: [] },
+            { text: 'bc', start: 1, ids: ['x'] },
+            { text: 'd', start: 3, ids: ['x', 'y'] },
+            { text: 'ef', start: 4, ids: ['y'] }
+        ]);
+    });
+
+    it('returns the whole text when there are no ranges', () => {
+        expect(segmentText('abc', [])).toEqual([{ text: 'abc', start: 0, ids: [] }]);
+    });
+});
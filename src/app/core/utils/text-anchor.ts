@@ -0,0 +1,180 @@
+import { TextAnchor } from '../interfaces/annotation.interface';
+
+// Anchors for annotations on summary text. An anchor keeps the quoted text and some context around it;
+// when the summary changes, the quote is looked up again, exactly first and then allowing some edits.
+
+// Characters of context kept on each side of the quote
+const CONTEXT_LENGTH = 32;
+
+// Share of the quote's characters that may have changed for a fuzzy match to be accepted
+const MAX_ERROR_RATE = 0.4;
+
+// The fuzzy search is quadratic; longer quotes are only found when unchanged
+const MAX_FUZZY_QUOTE_LENGTH = 2000;
+
+// How much a differing context and a moved position count against a candidate, relative to edits in the quote
+const CONTEXT_WEIGHT = 0.5;
+const POSITION_WEIGHT = 0.1;
+
+export interface AnchorMatch {
+    start: number;
+    end: number;
+    exact: boolean; // The quoted text is unchanged
+}
+
+export interface TextSegment {
+    text: string;
+    start: number;
+    ids: string[]; // Ranges covering this segment
+}
+
+interface Candidate {
+    start: number;
+    end: number;
+    errors: number;
+}
+
+export function createAnchor(text: string, start: number, end: number): TextAnchor {
+    return {
+        start,
+        end,
+        quote: text.substring(start, end),
+        prefix: text.substring(Math.max(0, start - CONTEXT_LENGTH), start),
+        suffix: text.substring(end, end + CONTEXT_LENGTH)
+    };
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+                previous[j] + 1,
+                current[j - 1] + 1
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 0 when the text around the candidate is the anchor's context, up to 1 when it is entirely different
+function contextPenalty(text: string, candidate: Candidate, anchor: TextAnchor): number {
+    const length = anchor.prefix.length + anchor.suffix.length;
+    if (length === 0) {
+        return 0;
+    }
+    const before = text.substring(Math.max(0, candidate.start - anchor.prefix.length), candidate.start);
+    const after = text.substring(candidate.end, candidate.end + anchor.suffix.length);
+    return (editDistance(anchor.prefix, before) + editDistance(anchor.suffix, after)) / length;
+}
+
+function score(text: string, candidate: Candidate, anchor: TextAnchor): number {
+    return candidate.errors / anchor.quote.length
+        + CONTEXT_WEIGHT * contextPenalty(text, candidate, anchor)
+        + POSITION_WEIGHT * Math.abs(candidate.start - anchor.start) / Math.max(text.length, 1);
+}
+
+function exactMatches(text: string, quote: string): Candidate[] {
+    const matches: Candidate[] = [];
+    for (let start = text.indexOf(quote); start !== -1; start = text.indexOf(quote, start + 1)) {
+        matches.push({ start, end: start + quote.length, errors: 0 });
+    }
+    return matches;
+}
+
+/**
+ * Substrings of the text within maxErrors edits of the pattern (Sellers' algorithm). For every end
+ * position the cheapest match ending there is reported, with the position where it starts.
+ */
+function approximateMatches(text: string, pattern: string, maxErrors: number): Candidate[] {
+    const matches: Candidate[] = [];
+    let cost = Int32Array.from({ length: pattern.length + 1 }, (_, i) => i);
+    let origin = new Int32Array(pattern.length + 1);
+
+    for (let j = 1; j <= text.length; j++) {
+        const nextCost = new Int32Array(pattern.length + 1);
+        const nextOrigin = new Int32Array(pattern.length + 1);
+        // A match may start anywhere, so the empty prefix of the pattern costs nothing
+        nextOrigin[0] = j;
+
+        for (let i = 1; i <= pattern.length; i++) {
+            const replace = cost[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+            const skipPattern = nextCost[i - 1] + 1;
+            const skipText = cost[i] + 1;
+
+            if (replace <= skipPattern && replace <= skipText) {
+                nextCost[i] = replace;
+                nextOrigin[i] = origin[i - 1];
+            } else if (skipPattern <= skipText) {
+                nextCost[i] = skipPattern;
+                nextOrigin[i] = nextOrigin[i - 1];
+            } else {
+                nextCost[i] = skipText;
+                nextOrigin[i] = origin[i];
+            }
+        }
+
+        cost = nextCost;
+        origin = nextOrigin;
+        if (cost[pattern.length] <= maxErrors && origin[pattern.length] < j) {
+            matches.push({ start: origin[pattern.length], end: j, errors: cost[pattern.length] });
+        }
+    }
+    return matches;
+}
+
+/**
+ * Find the anchor in the (possibly edited) text. Exact occurrences of the quote win; among several, the one
+ * whose context and position are closest to the anchor's. Otherwise the closest approximate occurrence
+ * is used, or null when the quote has changed too much.
+ */
+export function resolveAnchor(text: string, anchor: TextAnchor): AnchorMatch | null {
+    const quote = anchor.quote;
+    if (!quote || !text) {
+        return null;
+    }
+
+    const best = (candidates: Candidate[]) => candidates
+        .map(candidate => ({ candidate, score: score(text, candidate, anchor) }))
+        .reduce<{ candidate: Candidate; score: number } | null>((current, next) =>
+            !current || next.score < current.score ? next : current, null)?.candidate;
+
+    const exact = best(exactMatches(text, quote));
+    if (exact) {
+        return { start: exact.start, end: exact.end, exact: true };
+    }
+
+    if (quote.length > MAX_FUZZY_QUOTE_LENGTH) {
+        return null;
+    }
+
+    const fuzzy = best(approximateMatches(text, quote, Math.floor(quote.length * MAX_ERROR_RATE)));
+    return fuzzy ? { start: fuzzy.start, end: fuzzy.end, exact: false } : null;
+}
+
+/**
+ * Split text at the boundaries of (possibly overlapping) ranges; each segment lists the ranges covering it.
+ */
+export function segmentText(text: string, ranges: { id: string; start: number; end: number }[]): TextSegment[] {
+    const boundaries = new Set([0, text.length]);
+    ranges.forEach(range => {
+        boundaries.add(Math.max(0, Math.min(text.length, range.start)));
+        boundaries.add(Math.max(0, Math.min(text.length, range.end)));
+    });
+
+    const points = Array.from(boundaries).sort((a, b) => a - b);
+    const segments: TextSegment[] = [];
+    for (let index = 0; index < points.length - 1; index++) {
+        const start = points[index];
+        const end = points[index + 1];
+        segments.push({
+            text: text.substring(start, end),
+            start,
+            ids: ranges.filter(range => range.start <= start && range.end >= end).map(range => range.id)
+        });
+    }
+    return segments;
+}
@@ -0,0 +1,71 @@
+// Word-level diff for comparing summary versions (longest common subsequence over tokens)
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    text: string;
+}
+
+// Summaries are capped at 1000 characters; longer inputs fall back to a whole-text replacement
+const MAX_DIFF_TOKENS = 2000;
+
+// Words and the whitespace that follows them, so joining the tokens restores the text exactly
+function tokenize(text: string): string[] {
+    return (text || '').match(/\S+\s*|\s+/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string): void {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+}
+
+/**
+ * Diff two texts word by word. Whitespace changes alone are ignored.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const left = tokenize(before);
+    const right = tokenize(after);
+
+    if (left.length + right.length > MAX_DIFF_TOKENS) {
+        return [
+            ...(before ? [{ type: 'removed' as const, text: before }] : []),
+            ...(after ? [{ type: 'added' as const, text: after }] : [])
+        ];
+    }
+
+    const same = (i: number, j: number) => left[i].trim() === right[j].trim();
+
+    // lengths[i][j] = LCS length of left[i..] and right[j..]
+    const lengths: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+    for (let i = left.length - 1; i >= 0; i--) {
+        for (let j = right.length - 1; j >= 0; j--) {
+            lengths[i][j] = same(i, j)
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+        if (same(i, j)) {
+            pushSegment(segments, 'equal', right[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            pushSegment(segments, 'removed', left[i++]);
+        } else {
+            pushSegment(segments, 'added', right[j++]);
+        }
+    }
+    while (i < left.length) pushSegment(segments, 'removed', left[i++]);
+    while (j < right.length) pushSegment(segments, 'added', right[j++]);
+
+    return segments;
+}
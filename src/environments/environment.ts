@@ -13,7 +13,30 @@ export const environment = {
         apiKey: "YOUR_OPENAI_API_KEY"
     },
     firebase: {
-        functionsBaseUrl: "https://your-cloud-function-url.run.app"
+        functionsBaseUrl: "https://your-cloud-function-url.run.app",
+        // URL of the searchLibraryItems function; when empty the library is searched in the browser
+        searchFunctionUrl: ""
     },
-    useCloudFunctions: true
+    useCloudFunctions: true,
+    metadataProviders: {
+        order: ['local_catalogue', 'google_books', 'open_library'],
+        localCatalogueUrl: ''
+    },
+    llm: {
+        provider: 'openai', // 'openai', 'openai_compatible' or 'stub'
+        model: 'gpt-3.5-turbo',
+        // Models users can pick when regenerating a summary; the Cloud Function must list them in LLM_ALLOWED_MODELS
+        alternativeModels: [] as string[],
+        temperature: 0.1,
+        maxTokens: 1200,
+        baseUrl: '',
+        consistencySamples: 0,
+        // Traffic split between prompt versions, e.g. 'shorter-prompt:book-summary@1=50,book-summary@2=50';
+        // empty uses the default prompt. Keep in step with the Cloud Function's PROMPT_EXPERIMENT param.
+        promptExperiment: ''
+    },
+    review: {
+        // Summaries whose overall confidence is below this score are saved as "in review" instead of draft
+        autoReviewThreshold: 60
+    }
 };